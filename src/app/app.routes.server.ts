@@ -6,12 +6,36 @@ export const serverRoutes: ServerRoute[] = [
     renderMode: RenderMode.Prerender,
   },
   {
-    path: 'users',
+    path: 'login',
     renderMode: RenderMode.Prerender,
   },
+  {
+    path: 'forbidden',
+    renderMode: RenderMode.Client,
+  },
+  {
+    path: 'invite/:token',
+    renderMode: RenderMode.Client,
+  },
+  {
+    path: 'dashboard',
+    renderMode: RenderMode.Client,
+  },
+  {
+    path: 'users',
+    renderMode: RenderMode.Client,
+  },
   {
     path: 'users/create',
-    renderMode: RenderMode.Prerender,
+    renderMode: RenderMode.Client,
+  },
+  {
+    path: 'users/invite',
+    renderMode: RenderMode.Client,
+  },
+  {
+    path: 'users/invitations',
+    renderMode: RenderMode.Client,
   },
   {
     path: 'users/:id',
@@ -4,45 +4,96 @@ import { Routes } from '@angular/router';
 import {
   UserListComponent,
   UserCreateComponent,
+  UserInviteComponent,
+  InvitationListComponent,
   UserEditComponent,
   UserDetailComponent,
 } from '../features/user-management';
+import {
+  LoginComponent,
+  ForbiddenComponent,
+  InvitationAcceptComponent,
+} from '../features/auth';
+import { DashboardComponent } from '../features/dashboard';
 
 // Guards
-import { AuthGuard } from '../shared';
+import { AuthGuard, PermissionGuard } from '../shared';
 
 export const routes: Routes = [
   // Default route
   {
     path: '',
-    redirectTo: '/users',
+    redirectTo: '/dashboard',
     pathMatch: 'full',
   },
 
+  // Authentication routes
+  {
+    path: 'login',
+    component: LoginComponent,
+    title: 'Sign In',
+  },
+  {
+    path: 'forbidden',
+    component: ForbiddenComponent,
+    title: 'Access Denied',
+  },
+  {
+    path: 'invite/:token',
+    component: InvitationAcceptComponent,
+    title: 'Accept Invitation',
+  },
+
+  // Dashboard
+  {
+    path: 'dashboard',
+    component: DashboardComponent,
+    title: 'Dashboard',
+    canActivate: [AuthGuard, PermissionGuard],
+    data: { permissions: ['users:read'] },
+  },
+
   // User management routes
   {
     path: 'users',
     canActivate: [AuthGuard],
+    canActivateChild: [PermissionGuard],
     children: [
       {
         path: '',
         component: UserListComponent,
         title: 'Users',
+        data: { permissions: ['users:read'] },
       },
       {
         path: 'create',
         component: UserCreateComponent,
         title: 'Create User',
+        data: { permissions: ['users:create'] },
+      },
+      {
+        path: 'invite',
+        component: UserInviteComponent,
+        title: 'Invite User',
+        data: { permissions: ['users:create'] },
+      },
+      {
+        path: 'invitations',
+        component: InvitationListComponent,
+        title: 'Invitations',
+        data: { permissions: ['users:create'] },
       },
       {
         path: ':id',
         component: UserDetailComponent,
         title: 'User Details',
+        data: { permissions: ['users:read'] },
       },
       {
         path: ':id/edit',
         component: UserEditComponent,
         title: 'Edit User',
+        data: { permissions: ['users:update'] },
       },
     ],
   },
@@ -2,12 +2,35 @@ import { provideZonelessChangeDetection } from '@angular/core';
 import { TestBed } from '@angular/core/testing';
 import { provideRouter } from '@angular/router';
 import { App } from './app';
+import {
+  AUTH_REPOSITORY_TOKEN,
+  SESSION_STORAGE_TOKEN,
+} from '../core/di/injection-tokens';
 
 describe('App', () => {
   beforeEach(async () => {
     await TestBed.configureTestingModule({
       imports: [App],
-      providers: [provideZonelessChangeDetection(), provideRouter([])],
+      providers: [
+        provideZonelessChangeDetection(),
+        provideRouter([]),
+        {
+          provide: AUTH_REPOSITORY_TOKEN,
+          useValue: jasmine.createSpyObj('IAuthRepository', [
+            'login',
+            'refresh',
+            'logout',
+          ]),
+        },
+        {
+          provide: SESSION_STORAGE_TOKEN,
+          useValue: jasmine.createSpyObj('ISessionStorage', {
+            load: null,
+            save: undefined,
+            clear: undefined,
+          }),
+        },
+      ],
     }).compileComponents();
   });
 
@@ -1,13 +1,44 @@
 import { Component } from '@angular/core';
-import { RouterOutlet, RouterLink, RouterLinkActive } from '@angular/router';
+import { CommonModule } from '@angular/common';
+import {
+  Router,
+  RouterOutlet,
+  RouterLink,
+  RouterLinkActive,
+} from '@angular/router';
 import { NotificationComponent } from '../shared/components/notification.component';
+import { AuthService } from '../core/application';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet, RouterLink, RouterLinkActive, NotificationComponent],
+  imports: [
+    CommonModule,
+    RouterOutlet,
+    RouterLink,
+    RouterLinkActive,
+    NotificationComponent,
+  ],
   templateUrl: './app.html',
   styleUrl: './app.scss',
 })
 export class App {
   protected title = 'Clean Angular App';
+  protected currentUser$;
+
+  constructor(
+    private authService: AuthService,
+    private router: Router,
+  ) {
+    this.currentUser$ = this.authService.currentUser$;
+  }
+
+  /**
+   * Sign out and return to the login page
+   */
+  protected logout(): void {
+    this.authService.logout().subscribe({
+      complete: () => this.router.navigate(['/login']),
+      error: () => this.router.navigate(['/login']),
+    });
+  }
 }
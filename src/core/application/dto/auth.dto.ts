@@ -0,0 +1,26 @@
+/**
+ * Data Transfer Objects for authentication
+ * These DTOs are used to transfer session data between layers
+ */
+
+import { Role } from '../../domain';
+
+/**
+ * DTO for login requests
+ */
+export interface LoginDto {
+  email: string;
+  password: string;
+}
+
+/**
+ * DTO for the currently authenticated user
+ */
+export interface AuthUserDto {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  fullName: string;
+  roles: Role[];
+}
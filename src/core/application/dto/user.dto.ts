@@ -3,10 +3,17 @@
  * These DTOs are used to transfer data between layers and external systems
  */
 
+import {
+  PersonNameDetails,
+  Role,
+  UserSortField,
+  UserStatus,
+} from '../../domain';
+
 /**
  * DTO for creating a new user
  */
-export interface CreateUserDto {
+export interface CreateUserDto extends PersonNameDetails {
   email: string;
   firstName: string;
   lastName: string;
@@ -15,15 +22,16 @@ export interface CreateUserDto {
 /**
  * DTO for updating user information
  */
-export interface UpdateUserDto {
+export interface UpdateUserDto extends PersonNameDetails {
   firstName?: string;
   lastName?: string;
 }
 
 /**
  * DTO for user response data
+ * `fullName` is formatted by PersonNameFormatterService
  */
-export interface UserResponseDto {
+export interface UserResponseDto extends PersonNameDetails {
   id: string;
   email: string;
   firstName: string;
@@ -31,7 +39,63 @@ export interface UserResponseDto {
   fullName: string;
   createdAt: string;
   updatedAt: string;
+  status: UserStatus;
+  // Same as status === 'active'; kept for consumers of the older payload
   isActive: boolean;
+  roles: Role[];
+  // Increases with every change; sent back on updates to detect conflicts
+  version: number;
+  // Only on deactivated users, when a reason was recorded
+  deactivation?: DeactivationInfoDto;
+}
+
+/**
+ * DTO for deactivation requests
+ */
+export interface DeactivationDto {
+  reason: string;
+  note?: string;
+}
+
+/**
+ * DTO for why, when and by whom a user was deactivated
+ */
+export interface DeactivationInfoDto {
+  reason: string;
+  reasonLabel: string;
+  note: string;
+  deactivatedBy: string | null;
+  deactivatedAt: string | null;
+}
+
+/**
+ * DTO for an email change awaiting verification
+ */
+export interface EmailChangeDto {
+  newEmail: string;
+  requestedAt: string;
+  expiresAt: string;
+  isExpired: boolean;
+}
+
+/**
+ * DTO for an invitation not accepted yet
+ * The acceptance token only ever reaches the invitee
+ */
+export interface InvitationDto {
+  user: UserResponseDto;
+  invitedBy: string | null;
+  invitedAt: string;
+  expiresAt: string;
+  isExpired: boolean;
+}
+
+/**
+ * DTO for the names an invitee confirms when accepting
+ */
+export interface AcceptInvitationDto extends PersonNameDetails {
+  firstName: string;
+  lastName: string;
 }
 
 /**
@@ -52,8 +116,9 @@ export interface UserListQueryDto {
   page?: number;
   limit?: number;
   search?: string;
-  isActive?: boolean;
-  sortBy?: 'firstName' | 'lastName' | 'email' | 'createdAt';
+  statuses?: UserStatus[]; // any of these; all statuses when empty
+  role?: Role;
+  sortBy?: UserSortField;
   sortOrder?: 'asc' | 'desc';
 }
 
@@ -80,7 +145,19 @@ export interface UserStatsDto {
   totalUsers: number;
   activeUsers: number;
   inactiveUsers: number;
-  newUsersThisMonth: number;
+  newUsers: number; // created within the period
+  deactivatedUsers: number; // deactivated within the period
+  periodStart: string;
+  periodEnd: string;
+}
+
+/**
+ * DTO for the user statistics period
+ * Defaults to the current month up to now
+ */
+export interface UserStatsQueryDto {
+  startDate?: string;
+  endDate?: string;
 }
 
 /**
@@ -88,7 +165,9 @@ export interface UserStatsDto {
  */
 export interface BulkUserOperationDto {
   userIds: string[];
-  operation: 'activate' | 'deactivate' | 'delete';
+  operation: 'activate' | 'deactivate' | 'delete'; // delete is permanent
+  reason?: string; // kept in the audit trail
+  deactivation?: DeactivationDto; // required to deactivate
 }
 
 /**
@@ -1,6 +1,10 @@
 // DTOs
 export * from './dto/user.dto';
+export * from './dto/auth.dto';
 
 // Services
 export * from './services/user-application.service';
+export * from './services/person-name-formatter.service';
+export * from './services/domain-event-bus.service';
 export * from './services/error-handling.service';
+export * from './services/auth.service';
@@ -0,0 +1,154 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+import {
+  AUTH_REPOSITORY_TOKEN,
+  SESSION_STORAGE_TOKEN,
+} from '../../di/injection-tokens';
+import { IAuthRepository, ISessionStorage, SessionUser } from '../../domain';
+import { Session } from '../../domain/entities/session.entity';
+import { AuthService } from './auth.service';
+
+describe('AuthService', () => {
+  let mockRepository: jasmine.SpyObj<IAuthRepository>;
+  let mockStorage: jasmine.SpyObj<ISessionStorage>;
+
+  const user: SessionUser = {
+    id: '1',
+    email: 'john.doe@example.com',
+    firstName: 'John',
+    lastName: 'Doe',
+    roles: ['viewer'],
+  };
+
+  const createSession = (expiresInMs: number) =>
+    new Session(
+      'access-token',
+      'refresh-token',
+      new Date(Date.now() + expiresInMs),
+      user,
+    );
+
+  const createService = (storedSession: Session | null = null) => {
+    mockStorage.load.and.returnValue(storedSession);
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        AuthService,
+        { provide: AUTH_REPOSITORY_TOKEN, useValue: mockRepository },
+        { provide: SESSION_STORAGE_TOKEN, useValue: mockStorage },
+      ],
+    });
+
+    return TestBed.inject(AuthService);
+  };
+
+  beforeEach(() => {
+    mockRepository = jasmine.createSpyObj('IAuthRepository', [
+      'login',
+      'refresh',
+      'logout',
+    ]);
+    mockStorage = jasmine.createSpyObj('ISessionStorage', [
+      'load',
+      'save',
+      'clear',
+    ]);
+  });
+
+  it('should not be authenticated without a stored session', () => {
+    const service = createService();
+
+    expect(service.isAuthenticated()).toBe(false);
+    expect(service.accessToken).toBeNull();
+  });
+
+  it('should restore a stored session', () => {
+    const service = createService(createSession(60_000));
+
+    expect(service.isAuthenticated()).toBe(true);
+    expect(service.currentUser?.fullName).toBe('John Doe');
+  });
+
+  it('should not treat an expired session as authenticated', () => {
+    const service = createService(createSession(-1));
+
+    expect(service.isAuthenticated()).toBe(false);
+    expect(service.currentUser?.id).toBe('1');
+  });
+
+  it('should grant the permissions of the session roles', () => {
+    const service = createService(createSession(60_000));
+
+    expect(service.hasPermission('users:read')).toBe(true);
+    expect(service.hasPermission('users:delete')).toBe(false);
+    expect(service.currentUser?.roles).toEqual(['viewer']);
+  });
+
+  it('should grant no permissions without a session', () => {
+    const service = createService();
+
+    expect(service.hasPermission('users:read')).toBe(false);
+  });
+
+  it('should refresh an expired session when ensuring authentication', (done) => {
+    const refreshed = createSession(60_000);
+    mockRepository.refresh.and.returnValue(of(refreshed));
+    const service = createService(createSession(-1));
+
+    service.ensureAuthenticated().subscribe((isAuthenticated) => {
+      expect(isAuthenticated).toBe(true);
+      expect(mockStorage.save).toHaveBeenCalledWith(refreshed);
+      done();
+    });
+  });
+
+  it('should drop the session when the refresh fails', (done) => {
+    mockRepository.refresh.and.returnValue(
+      throwError(() => new Error('Refresh token revoked')),
+    );
+    const service = createService(createSession(-1));
+
+    service.ensureAuthenticated().subscribe((isAuthenticated) => {
+      expect(isAuthenticated).toBe(false);
+      expect(service.currentUser).toBeNull();
+      expect(mockStorage.clear).toHaveBeenCalled();
+      done();
+    });
+  });
+
+  it('should store the session after login', (done) => {
+    const session = createSession(60_000);
+    mockRepository.login.and.returnValue(of(session));
+    const service = createService();
+
+    service
+      .login({ email: 'john.doe@example.com', password: 'password123' })
+      .subscribe({
+        next: (authUser) => {
+          expect(authUser.id).toBe('1');
+          expect(mockStorage.save).toHaveBeenCalledWith(session);
+          expect(service.accessToken).toBe('access-token');
+          done();
+        },
+        error: done.fail,
+      });
+  });
+
+  it('should clear the session on logout even if the server fails', (done) => {
+    mockRepository.logout.and.returnValue(
+      throwError(() => new Error('Network down')),
+    );
+    const service = createService(createSession(60_000));
+
+    service.logout().subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: () => {
+        expect(service.isAuthenticated()).toBe(false);
+        expect(mockStorage.clear).toHaveBeenCalled();
+        done();
+      },
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { Injectable, Inject } from '@angular/core';
+import { BehaviorSubject, Observable, of, throwError } from 'rxjs';
+import { map, tap, catchError } from 'rxjs/operators';
+
+// Domain imports
+import {
+  Session,
+  Permission,
+  IAuthRepository,
+  IAccessContext,
+  AccessActor,
+  ISessionStorage,
+  LoginUseCase,
+  LogoutUseCase,
+  RefreshSessionUseCase,
+} from '../../domain';
+
+// Application DTOs
+import { LoginDto, AuthUserDto } from '../dto/auth.dto';
+
+// Injection tokens
+import {
+  AUTH_REPOSITORY_TOKEN,
+  SESSION_STORAGE_TOKEN,
+} from '../../di/injection-tokens';
+
+/**
+ * Auth Service
+ * This service owns the current session: it orchestrates the login, refresh
+ * and logout use cases and keeps the session in storage across reloads
+ * It is also the access context use cases consult for permissions
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AuthService implements IAccessContext {
+  private loginUseCase: LoginUseCase;
+  private logoutUseCase: LogoutUseCase;
+  private refreshSessionUseCase: RefreshSessionUseCase;
+  private sessionSubject: BehaviorSubject<Session | null>;
+
+  constructor(
+    @Inject(AUTH_REPOSITORY_TOKEN) private authRepository: IAuthRepository,
+    @Inject(SESSION_STORAGE_TOKEN) private sessionStorage: ISessionStorage,
+  ) {
+    // Initialize use cases
+    this.loginUseCase = new LoginUseCase(authRepository);
+    this.logoutUseCase = new LogoutUseCase(authRepository);
+    this.refreshSessionUseCase = new RefreshSessionUseCase(authRepository);
+
+    this.sessionSubject = new BehaviorSubject<Session | null>(
+      this.sessionStorage.load(),
+    );
+  }
+
+  /**
+   * Get the authenticated user as observable
+   */
+  get currentUser$(): Observable<AuthUserDto | null> {
+    return this.sessionSubject
+      .asObservable()
+      .pipe(map((session) => (session ? this.mapSessionToDto(session) : null)));
+  }
+
+  /**
+   * Get the authenticated user
+   */
+  get currentUser(): AuthUserDto | null {
+    const session = this.sessionSubject.value;
+    return session ? this.mapSessionToDto(session) : null;
+  }
+
+  /**
+   * Get the access token of the current session
+   * The token may have expired; the API rejects it and a refresh follows
+   */
+  get accessToken(): string | null {
+    return this.sessionSubject.value?.accessToken ?? null;
+  }
+
+  /**
+   * Check if there is a session whose access token is still valid
+   */
+  isAuthenticated(): boolean {
+    const session = this.sessionSubject.value;
+    return session !== null && !session.isExpired();
+  }
+
+  /**
+   * Check if the current user holds a permission
+   */
+  hasPermission(permission: Permission): boolean {
+    return this.sessionSubject.value?.hasPermission(permission) ?? false;
+  }
+
+  /**
+   * Get the current user as the actor of an operation
+   */
+  currentActor(): AccessActor | null {
+    const session = this.sessionSubject.value;
+    return session ? { id: session.user.id, name: session.displayName } : null;
+  }
+
+  /**
+   * Resolve to true when the user is authenticated, refreshing an expired
+   * session first when possible
+   */
+  ensureAuthenticated(): Observable<boolean> {
+    if (this.isAuthenticated()) {
+      return of(true);
+    }
+
+    if (!this.sessionSubject.value) {
+      return of(false);
+    }
+
+    return this.refreshSession().pipe(
+      map(() => true),
+      catchError(() => of(false)),
+    );
+  }
+
+  /**
+   * Authenticate with email and password
+   */
+  login(loginDto: LoginDto): Observable<AuthUserDto> {
+    return this.loginUseCase.execute(loginDto).pipe(
+      tap((session) => this.setSession(session)),
+      map((session) => this.mapSessionToDto(session)),
+    );
+  }
+
+  /**
+   * Exchange the refresh token for a new session
+   * Resolves to the new access token; the session is dropped on failure
+   */
+  refreshSession(): Observable<string> {
+    return this.refreshSessionUseCase.execute(this.sessionSubject.value).pipe(
+      tap((session) => this.setSession(session)),
+      map((session) => session.accessToken),
+      catchError((error) => {
+        this.clearSession();
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * Close the current session
+   * The local session is cleared even if the server call fails
+   */
+  logout(): Observable<void> {
+    const session = this.sessionSubject.value;
+    return this.logoutUseCase.execute(session).pipe(
+      tap({
+        complete: () => this.clearSession(),
+        error: () => this.clearSession(),
+      }),
+    );
+  }
+
+  /**
+   * Drop the local session without contacting the server
+   */
+  clearSession(): void {
+    this.sessionStorage.clear();
+    this.sessionSubject.next(null);
+  }
+
+  /**
+   * Store a new session
+   */
+  private setSession(session: Session): void {
+    this.sessionStorage.save(session);
+    this.sessionSubject.next(session);
+  }
+
+  /**
+   * Map Session entity to AuthUserDto
+   */
+  private mapSessionToDto(session: Session): AuthUserDto {
+    return {
+      id: session.user.id,
+      email: session.user.email,
+      firstName: session.user.firstName,
+      lastName: session.user.lastName,
+      fullName: session.displayName,
+      roles: [...session.user.roles],
+    };
+  }
+}
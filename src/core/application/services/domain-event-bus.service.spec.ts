@@ -0,0 +1,93 @@
+import { config } from 'rxjs';
+import { map } from 'rxjs/operators';
+import {
+  User,
+  UserCreated,
+  UserDeactivated,
+  UserDomainEvent,
+  UserPurged,
+} from '../../domain';
+import { DomainEventBusService } from './domain-event-bus.service';
+
+describe('DomainEventBusService', () => {
+  let bus: DomainEventBusService;
+
+  const user = new User(
+    '1',
+    'john@example.com',
+    'John',
+    'Doe',
+    new Date('2023-01-01'),
+    new Date('2023-01-01'),
+  );
+
+  beforeEach(() => {
+    bus = new DomainEventBusService();
+  });
+
+  it('should deliver only the events of the requested types', () => {
+    const received: string[] = [];
+    bus.on('UserDeactivated', 'UserPurged').subscribe((event) => {
+      received.push(`${event.type}:${event.userId}`);
+    });
+
+    bus.publish(new UserCreated(user));
+    bus.publish(new UserDeactivated('1'));
+    bus.publish(new UserPurged('2'));
+
+    expect(received).toEqual(['UserDeactivated:1', 'UserPurged:2']);
+  });
+
+  it('should deliver every event without types', () => {
+    const received: UserDomainEvent[] = [];
+    bus.on().subscribe((event) => received.push(event));
+
+    bus.publish(new UserCreated(user));
+    bus.publish(new UserDeactivated('1'));
+
+    expect(received.map((event) => event.type)).toEqual([
+      'UserCreated',
+      'UserDeactivated',
+    ]);
+  });
+
+  describe('failing handlers', () => {
+    let unhandled: jasmine.Spy;
+    let previous: typeof config.onUnhandledError;
+
+    beforeEach(() => {
+      previous = config.onUnhandledError;
+      unhandled = jasmine.createSpy('onUnhandledError');
+      config.onUnhandledError = unhandled;
+    });
+
+    afterEach(() => {
+      config.onUnhandledError = previous;
+    });
+
+    it('should not reach the publisher or the other handlers', (done) => {
+      const received: string[] = [];
+      bus.on().subscribe(() => {
+        throw new Error('handler failed');
+      });
+      bus
+        .on()
+        .pipe(
+          map(() => {
+            throw new Error('operator failed');
+          }),
+        )
+        .subscribe();
+      bus.on().subscribe((event) => received.push(event.userId));
+
+      expect(() => bus.publish(new UserDeactivated('1'))).not.toThrow();
+      expect(() => bus.publish(new UserDeactivated('2'))).not.toThrow();
+      expect(received).toEqual(['1', '2']);
+
+      setTimeout(() => {
+        expect(unhandled).toHaveBeenCalledTimes(3);
+        done();
+      });
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { Injectable } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import { filter } from 'rxjs/operators';
+
+// Domain imports
+import {
+  IDomainEventPublisher,
+  UserDomainEvent,
+  UserDomainEventOf,
+  UserDomainEventType,
+} from '../../domain';
+
+/**
+ * Domain Event Bus Service
+ * Delivers the events raised by the use cases to the features subscribed to them
+ * RxJS reports errors thrown by subscribers instead of rethrowing them, so a
+ * failing handler never reaches the command that published the event
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class DomainEventBusService implements IDomainEventPublisher {
+  private events$ = new Subject<UserDomainEvent>();
+
+  /**
+   * Hand an event to the current subscribers
+   */
+  publish(event: UserDomainEvent): void {
+    this.events$.next(event);
+  }
+
+  /**
+   * Observe the events of the given types, or every event if none are given
+   */
+  on<T extends UserDomainEventType>(
+    ...types: T[]
+  ): Observable<UserDomainEventOf<T>> {
+    return this.events$.pipe(
+      filter(
+        (event): event is UserDomainEventOf<T> =>
+          types.length === 0 || types.includes(event.type as T),
+      ),
+    );
+  }
+}
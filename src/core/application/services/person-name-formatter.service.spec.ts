@@ -0,0 +1,42 @@
+import { PersonNameFormatterService } from './person-name-formatter.service';
+
+describe('PersonNameFormatterService', () => {
+  let formatter: PersonNameFormatterService;
+
+  beforeEach(() => {
+    formatter = new PersonNameFormatterService();
+  });
+
+  const nguyen = {
+    firstName: 'An',
+    lastName: 'Nguyễn',
+    middleName: 'Văn',
+    honorific: 'Dr.',
+    nameOrder: 'family-first' as const,
+  };
+
+  describe('displayName', () => {
+    it('should prefer the preferred name over the given name', () => {
+      expect(
+        formatter.displayName({
+          firstName: 'José',
+          lastName: "García-O'Brien",
+          preferredName: 'Pepe',
+        }),
+      ).toBe("Pepe García-O'Brien");
+    });
+
+    it('should follow the name order and leave out middle names', () => {
+      expect(formatter.displayName(nguyen)).toBe('Nguyễn An');
+    });
+  });
+
+  describe('fullName', () => {
+    it('should put the honorific before every name part', () => {
+      expect(formatter.fullName(nguyen)).toBe('Dr. Nguyễn Văn An');
+      expect(formatter.fullName({ firstName: 'John', lastName: 'Doe' })).toBe(
+        'John Doe',
+      );
+    });
+  });
+});
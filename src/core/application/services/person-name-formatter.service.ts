@@ -0,0 +1,39 @@
+import { Injectable } from '@angular/core';
+
+// Domain imports
+import { PersonName, PersonNameFields } from '../../domain';
+
+/**
+ * Person Name Formatter Service
+ * Formats user names for display, honoring each name's order
+ * Accepts both User entities and user DTOs
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PersonNameFormatterService {
+  /**
+   * The name a user goes by: preferred (or given) name and family name
+   */
+  displayName(fields: PersonNameFields): string {
+    const name = PersonName.fromFields(fields);
+    const given = name.preferred || name.given;
+    const parts =
+      name.order === 'family-first'
+        ? [name.family, given]
+        : [given, name.family];
+    return this.join(parts);
+  }
+
+  /**
+   * The formal name: honorific followed by every name part in order
+   */
+  fullName(fields: PersonNameFields): string {
+    const name = PersonName.fromFields(fields);
+    return this.join([name.honorific, name.full]);
+  }
+
+  private join(parts: string[]): string {
+    return parts.filter((part) => part.length > 0).join(' ');
+  }
+}
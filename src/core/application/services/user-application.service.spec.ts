@@ -1,14 +1,21 @@
 import { provideZonelessChangeDetection } from '@angular/core';
 import { TestBed } from '@angular/core/testing';
-import { of } from 'rxjs';
-import { USER_REPOSITORY_TOKEN } from '../../di/injection-tokens';
-import { IUserRepository } from '../../domain';
+import { NEVER, of } from 'rxjs';
+import {
+  USER_REPOSITORY_TOKEN,
+  ACCESS_CONTEXT_TOKEN,
+  AUDIT_REPOSITORY_TOKEN,
+} from '../../di/injection-tokens';
+import { Invitation, IUserRepository } from '../../domain';
+import { AuditEntry, AuditRecord, IAuditRepository } from '../../audit';
 import { User } from '../../domain/entities/user.entity';
 import { UserApplicationService } from './user-application.service';
+import { DomainEventBusService } from './domain-event-bus.service';
 
 describe('UserApplicationService', () => {
   let service: UserApplicationService;
   let mockRepository: jasmine.SpyObj<IUserRepository>;
+  let mockAuditRepository: jasmine.SpyObj<IAuditRepository>;
 
   beforeEach(() => {
     mockRepository = jasmine.createSpyObj('IUserRepository', [
@@ -20,9 +27,31 @@ describe('UserApplicationService', () => {
       'getAll',
       'search',
       'getActiveUsersCount',
+      'getStats',
       'existsByEmail',
+      'getInvitationByToken',
+      'acceptInvitation',
+      'bulkOperation',
     ]);
 
+    mockAuditRepository = jasmine.createSpyObj('IAuditRepository', [
+      'record',
+      'getBySubject',
+    ]);
+    mockAuditRepository.record.and.callFake((record: AuditRecord) =>
+      of(
+        new AuditEntry(
+          '1',
+          record.subjectId,
+          record.operation,
+          record.actor,
+          record.occurredAt,
+          record.reason,
+          record.changes,
+        ),
+      ),
+    );
+
     TestBed.configureTestingModule({
       providers: [
         provideZonelessChangeDetection(),
@@ -31,6 +60,17 @@ describe('UserApplicationService', () => {
           provide: USER_REPOSITORY_TOKEN,
           useValue: mockRepository,
         },
+        {
+          provide: ACCESS_CONTEXT_TOKEN,
+          useValue: {
+            hasPermission: () => true,
+            currentActor: () => ({ id: '9', name: 'Admin User' }),
+          },
+        },
+        {
+          provide: AUDIT_REPOSITORY_TOKEN,
+          useValue: mockAuditRepository,
+        },
       ],
     });
 
@@ -50,7 +90,7 @@ describe('UserApplicationService', () => {
         'Doe',
         new Date('2023-01-01'),
         new Date('2023-01-01'),
-        true,
+        'active',
       );
 
       mockRepository.getById.and.returnValue(of(user));
@@ -98,7 +138,7 @@ describe('UserApplicationService', () => {
         createUserDto.lastName,
         new Date(),
         new Date(),
-        true,
+        'active',
       );
 
       mockRepository.existsByEmail.and.returnValue(of(false));
@@ -128,7 +168,7 @@ describe('UserApplicationService', () => {
           'Doe',
           new Date(),
           new Date(),
-          true,
+          'active',
         ),
         new User(
           '2',
@@ -137,7 +177,7 @@ describe('UserApplicationService', () => {
           'Smith',
           new Date(),
           new Date(),
-          true,
+          'active',
         ),
       ];
 
@@ -183,7 +223,7 @@ describe('UserApplicationService', () => {
         updateUserDto.lastName!,
         new Date('2023-01-01'),
         new Date(),
-        true,
+        'active',
       );
 
       mockRepository.getById.and.returnValue(of(updatedUser));
@@ -200,6 +240,44 @@ describe('UserApplicationService', () => {
         error: done.fail,
       });
     });
+
+    it('should record the changed fields in the audit trail', (done) => {
+      const before = new User(
+        '1',
+        'test@example.com',
+        'John',
+        'Doe',
+        new Date('2023-01-01'),
+        new Date('2023-01-01'),
+      );
+      mockRepository.getById.and.returnValue(of(before));
+      mockRepository.update.and.returnValue(
+        of(
+          new User(
+            '1',
+            'test@example.com',
+            'Jane',
+            'Doe',
+            new Date('2023-01-01'),
+            new Date(),
+          ),
+        ),
+      );
+
+      service.updateUser('1', { firstName: 'Jane' }).subscribe({
+        next: () => {
+          const record = mockAuditRepository.record.calls.mostRecent().args[0];
+          expect(record.operation).toBe('update');
+          expect(record.subjectId).toBe('1');
+          expect(record.actor).toEqual({ id: '9', name: 'Admin User' });
+          expect(record.changes).toEqual([
+            { field: 'firstName', before: 'John', after: 'Jane' },
+          ]);
+          done();
+        },
+        error: done.fail,
+      });
+    });
   });
 
   describe('deleteUser', () => {
@@ -213,19 +291,211 @@ describe('UserApplicationService', () => {
             'Doe',
             new Date(),
             new Date(),
-            true,
+            'active',
           ),
         ),
       );
       mockRepository.delete.and.returnValue(of(true));
 
-      service.deleteUser('1').subscribe({
-        next: (result) => {
-          expect(result).toBe(true);
-          done();
-        },
-        error: done.fail,
-      });
+      service
+        .deleteUser('1', {
+          reason: 'left-company',
+          note: ' Moved to a partner firm ',
+        })
+        .subscribe({
+          next: (result) => {
+            expect(result).toBe(true);
+            const deactivation =
+              mockRepository.delete.calls.mostRecent().args[1];
+            expect(deactivation.reason).toBe('left-company');
+            expect(deactivation.note).toBe('Moved to a partner firm');
+            const record =
+              mockAuditRepository.record.calls.mostRecent().args[0];
+            expect(record.operation).toBe('deactivate');
+            expect(record.reason).toBe(
+              'Left the company: Moved to a partner firm',
+            );
+            expect(record.changes).toEqual([
+              { field: 'status', before: 'active', after: 'deactivated' },
+            ]);
+            done();
+          },
+          error: done.fail,
+        });
+    });
+    it('should publish the event once the audit entry is recorded', (done) => {
+      mockRepository.getById.and.returnValue(
+        of(
+          new User(
+            '1',
+            'test@example.com',
+            'John',
+            'Doe',
+            new Date(),
+            new Date(),
+            'active',
+          ),
+        ),
+      );
+      mockRepository.delete.and.returnValue(of(true));
+      const recordedBeforeEvent: boolean[] = [];
+      TestBed.inject(DomainEventBusService)
+        .on('UserDeactivated')
+        .subscribe(() =>
+          recordedBeforeEvent.push(mockAuditRepository.record.calls.any()),
+        );
+
+      service
+        .deleteUser('1', { reason: 'left-company', note: 'Retired' })
+        .subscribe({
+          next: () => {
+            expect(recordedBeforeEvent).toEqual([true]);
+            done();
+          },
+          error: done.fail,
+        });
+    });
+
+    it('should publish the event when left during the audit write', () => {
+      mockRepository.getById.and.returnValue(
+        of(
+          new User(
+            '1',
+            'test@example.com',
+            'John',
+            'Doe',
+            new Date(),
+            new Date(),
+            'active',
+          ),
+        ),
+      );
+      mockRepository.delete.and.returnValue(of(true));
+      mockAuditRepository.record.and.returnValue(NEVER);
+      const published: string[] = [];
+      TestBed.inject(DomainEventBusService)
+        .on('UserDeactivated')
+        .subscribe((event) => published.push(event.userId));
+
+      service
+        .deleteUser('1', { reason: 'left-company', note: 'Retired' })
+        .subscribe()
+        .unsubscribe();
+
+      expect(published).toEqual(['1']);
+    });
+
+    it('should not record a deactivation that changed nothing', (done) => {
+      mockRepository.getById.and.returnValue(
+        of(
+          new User(
+            '1',
+            'test@example.com',
+            'John',
+            'Doe',
+            new Date(),
+            new Date(),
+            'active',
+          ),
+        ),
+      );
+      mockRepository.delete.and.returnValue(of(false));
+
+      service
+        .deleteUser('1', { reason: 'left-company', note: 'Retired' })
+        .subscribe({
+          next: (result) => {
+            expect(result).toBe(false);
+            expect(mockAuditRepository.record).not.toHaveBeenCalled();
+            done();
+          },
+          error: done.fail,
+        });
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should record the acceptance as made by the invitee', (done) => {
+      const invitedUser = new User(
+        '8',
+        'dana.lee@example.com',
+        'Dana',
+        'Lee',
+        new Date(),
+        new Date(),
+        'invited',
+      );
+      const acceptedUser = invitedUser.updateInfo('Dana', 'Li').accept();
+      mockRepository.getInvitationByToken.and.returnValue(
+        of(
+          new Invitation(
+            invitedUser,
+            { id: '9', name: 'Admin User' },
+            new Date(),
+            new Date(Date.now() + 60_000),
+          ),
+        ),
+      );
+      mockRepository.acceptInvitation.and.returnValue(of(acceptedUser));
+
+      service
+        .acceptInvitation('token', { firstName: 'Dana', lastName: 'Li' })
+        .subscribe({
+          next: (userDto) => {
+            expect(userDto.status).toBe('active');
+            const record =
+              mockAuditRepository.record.calls.mostRecent().args[0];
+            expect(record.operation).toBe('activate');
+            expect(record.actor).toEqual({ id: '8', name: 'Dana Li' });
+            expect(record.changes).toEqual([
+              { field: 'lastName', before: 'Lee', after: 'Li' },
+              { field: 'status', before: 'invited', after: 'active' },
+            ]);
+            done();
+          },
+          error: done.fail,
+        });
+    });
+  });
+
+  describe('bulkOperation', () => {
+    it('should record the state of each user before and after', (done) => {
+      mockRepository.getById.and.returnValue(
+        of(
+          new User(
+            '1',
+            'test@example.com',
+            'John',
+            'Doe',
+            new Date(),
+            new Date(),
+            'active',
+          ),
+        ),
+      );
+      mockRepository.bulkOperation.and.returnValue(
+        of({ successful: ['1'], failed: [] }),
+      );
+
+      service
+        .bulkOperation({
+          userIds: ['1'],
+          operation: 'deactivate',
+          deactivation: { reason: 'left-company', note: 'Retired' },
+        })
+        .subscribe({
+          next: () => {
+            const record =
+              mockAuditRepository.record.calls.mostRecent().args[0];
+            expect(record.subjectId).toBe('1');
+            expect(record.operation).toBe('deactivate');
+            expect(record.changes).toEqual([
+              { field: 'status', before: 'active', after: 'deactivated' },
+            ]);
+            done();
+          },
+          error: done.fail,
+        });
     });
   });
 
@@ -239,7 +509,7 @@ describe('UserApplicationService', () => {
           'Doe',
           new Date(),
           new Date(),
-          true,
+          'active',
         ),
       ];
 
@@ -255,4 +525,47 @@ describe('UserApplicationService', () => {
       });
     });
   });
+
+  describe('getUserStats', () => {
+    it('should return the repository stats for the period', (done) => {
+      const startDate = new Date('2024-01-01T00:00:00.000Z');
+      const endDate = new Date('2024-02-01T00:00:00.000Z');
+      mockRepository.getStats.and.returnValue(
+        of({
+          totalUsers: 5,
+          activeUsers: 4,
+          inactiveUsers: 1,
+          newUsers: 2,
+          deactivatedUsers: 1,
+          periodStart: startDate,
+          periodEnd: endDate,
+        }),
+      );
+
+      service
+        .getUserStats({
+          startDate: startDate.toISOString(),
+          endDate: endDate.toISOString(),
+        })
+        .subscribe({
+          next: (stats) => {
+            expect(mockRepository.getStats).toHaveBeenCalledWith(
+              startDate,
+              endDate,
+            );
+            expect(stats).toEqual({
+              totalUsers: 5,
+              activeUsers: 4,
+              inactiveUsers: 1,
+              newUsers: 2,
+              deactivatedUsers: 1,
+              periodStart: '2024-01-01T00:00:00.000Z',
+              periodEnd: '2024-02-01T00:00:00.000Z',
+            });
+            done();
+          },
+          error: done.fail,
+        });
+    });
+  });
 });
@@ -1,18 +1,47 @@
 import { Injectable, Inject } from '@angular/core';
-import { Observable } from 'rxjs';
-import { map } from 'rxjs/operators';
+import { MonoTypeOperatorFunction, Observable, forkJoin, of } from 'rxjs';
+import {
+  catchError,
+  concatMap,
+  finalize,
+  map,
+  switchMap,
+  tap,
+} from 'rxjs/operators';
 
 // Domain imports
 import {
   User,
+  Role,
+  EmailChange,
+  Invitation,
+  AccessActor,
   IUserRepository,
+  IAccessContext,
+  IDomainEventPublisher,
+  UserDomainEvent,
   GetUserUseCase,
   CreateUserUseCase,
   UpdateUserUseCase,
   DeleteUserUseCase,
+  ActivateUserUseCase,
+  ChangeUserStatusUseCase,
+  BulkUserOperationUseCase,
   ListUsersUseCase,
+  ManageUserRolesUseCase,
+  ChangeEmailUseCase,
+  InviteUserUseCase,
+  UserValidationPolicy,
+  BulkUserOperation,
+  DeactivationPolicy,
+  UserStatusChange,
+  UserStatusTransition,
+  USER_STATUS_TRANSITIONS,
 } from '../../domain';
 
+// Audit context imports
+import { AuditOperation, AuditSnapshot, AuditTrailService } from '../../audit';
+
 // Application DTOs
 import {
   CreateUserDto,
@@ -23,10 +52,26 @@ import {
   UserSearchDto,
   DateRangeDto,
   UserStatsDto,
+  UserStatsQueryDto,
+  BulkUserOperationDto,
+  BulkOperationResultDto,
+  EmailChangeDto,
+  DeactivationDto,
+  InvitationDto,
+  AcceptInvitationDto,
 } from '../dto/user.dto';
 
+// Application services
+import { PersonNameFormatterService } from './person-name-formatter.service';
+import { DomainEventBusService } from './domain-event-bus.service';
+
 // Injection tokens
-import { USER_REPOSITORY_TOKEN } from '../../di/injection-tokens';
+import {
+  USER_REPOSITORY_TOKEN,
+  ACCESS_CONTEXT_TOKEN,
+  USER_VALIDATION_POLICY_TOKEN,
+  DEACTIVATION_POLICY_TOKEN,
+} from '../../di/injection-tokens';
 
 /**
  * User Application Service
@@ -41,17 +86,97 @@ export class UserApplicationService {
   private createUserUseCase: CreateUserUseCase;
   private updateUserUseCase: UpdateUserUseCase;
   private deleteUserUseCase: DeleteUserUseCase;
+  private activateUserUseCase: ActivateUserUseCase;
+  private changeUserStatusUseCase: ChangeUserStatusUseCase;
+  private bulkUserOperationUseCase: BulkUserOperationUseCase;
   private listUsersUseCase: ListUsersUseCase;
+  private manageUserRolesUseCase: ManageUserRolesUseCase;
+  private changeEmailUseCase: ChangeEmailUseCase;
+  private inviteUserUseCase: InviteUserUseCase;
+
+  /**
+   * Events raised by the use cases, per user, until the audit entry of the
+   * command is written; subscribers reloading the history then find it
+   */
+  private pendingEvents = new Map<string, UserDomainEvent[]>();
+  private deferredEvents: IDomainEventPublisher = {
+    publish: (event) =>
+      this.pendingEvents.set(event.userId, [
+        ...(this.pendingEvents.get(event.userId) ?? []),
+        event,
+      ]),
+  };
 
   constructor(
     @Inject(USER_REPOSITORY_TOKEN) private userRepository: IUserRepository,
+    @Inject(ACCESS_CONTEXT_TOKEN) private accessContext: IAccessContext,
+    @Inject(USER_VALIDATION_POLICY_TOKEN)
+    validationPolicy: UserValidationPolicy,
+    @Inject(DEACTIVATION_POLICY_TOKEN)
+    private deactivationPolicy: DeactivationPolicy,
+    private nameFormatter: PersonNameFormatterService,
+    private eventBus: DomainEventBusService,
+    private auditTrail: AuditTrailService,
   ) {
-    // Initialize use cases
-    this.getUserUseCase = new GetUserUseCase(userRepository);
-    this.createUserUseCase = new CreateUserUseCase(userRepository);
-    this.updateUserUseCase = new UpdateUserUseCase(userRepository);
-    this.deleteUserUseCase = new DeleteUserUseCase(userRepository);
-    this.listUsersUseCase = new ListUsersUseCase(userRepository);
+    // Initialize use cases; commands publish their events on the bus once
+    // they are audited
+    this.getUserUseCase = new GetUserUseCase(
+      userRepository,
+      accessContext,
+      validationPolicy,
+    );
+    this.createUserUseCase = new CreateUserUseCase(
+      userRepository,
+      accessContext,
+      validationPolicy,
+      this.deferredEvents,
+    );
+    this.updateUserUseCase = new UpdateUserUseCase(
+      userRepository,
+      accessContext,
+      validationPolicy,
+      this.deferredEvents,
+    );
+    this.deleteUserUseCase = new DeleteUserUseCase(
+      userRepository,
+      accessContext,
+      deactivationPolicy,
+      this.deferredEvents,
+    );
+    this.activateUserUseCase = new ActivateUserUseCase(
+      userRepository,
+      accessContext,
+      this.deferredEvents,
+    );
+    this.changeUserStatusUseCase = new ChangeUserStatusUseCase(
+      userRepository,
+      accessContext,
+      this.deferredEvents,
+    );
+    this.bulkUserOperationUseCase = new BulkUserOperationUseCase(
+      userRepository,
+      accessContext,
+      deactivationPolicy,
+      this.deferredEvents,
+    );
+    this.listUsersUseCase = new ListUsersUseCase(userRepository, accessContext);
+    this.manageUserRolesUseCase = new ManageUserRolesUseCase(
+      userRepository,
+      accessContext,
+      this.deferredEvents,
+    );
+    this.changeEmailUseCase = new ChangeEmailUseCase(
+      userRepository,
+      accessContext,
+      validationPolicy,
+      this.deferredEvents,
+    );
+    this.inviteUserUseCase = new InviteUserUseCase(
+      userRepository,
+      accessContext,
+      validationPolicy,
+      this.deferredEvents,
+    );
   }
 
   /**
@@ -76,35 +201,312 @@ export class UserApplicationService {
    * Create a new user
    */
   createUser(createUserDto: CreateUserDto): Observable<UserResponseDto> {
-    return this.createUserUseCase
-      .execute(createUserDto)
-      .pipe(map((user) => this.mapUserToDto(user)));
+    return this.createUserUseCase.execute(createUserDto).pipe(
+      concatMap((user) =>
+        this.recordAudit('create', user.id, null, user).pipe(
+          this.publishAfterAudit([user.id]),
+          map(() => user),
+        ),
+      ),
+      map((user) => this.mapUserToDto(user)),
+    );
   }
 
   /**
    * Update user information
+   * `expectedVersion` is the version of the user the changes were made on
    */
   updateUser(
     id: string,
     updateUserDto: UpdateUserDto,
+    expectedVersion?: number,
   ): Observable<UserResponseDto> {
-    return this.updateUserUseCase
-      .execute(id, updateUserDto)
-      .pipe(map((user) => this.mapUserToDto(user)));
+    return this.audited(
+      'update',
+      id,
+      this.updateUserUseCase.execute(id, updateUserDto, expectedVersion),
+      (user) => user,
+    ).pipe(map((user) => this.mapUserToDto(user)));
+  }
+
+  /**
+   * Assign a role to a user
+   */
+  assignRole(id: string, role: Role): Observable<UserResponseDto> {
+    return this.audited(
+      'update',
+      id,
+      this.manageUserRolesUseCase.executeAssign(id, role),
+      (user) => user,
+    ).pipe(map((user) => this.mapUserToDto(user)));
+  }
+
+  /**
+   * Revoke a role from a user
+   */
+  revokeRole(id: string, role: Role): Observable<UserResponseDto> {
+    return this.audited(
+      'update',
+      id,
+      this.manageUserRolesUseCase.executeRevoke(id, role),
+      (user) => user,
+    ).pipe(map((user) => this.mapUserToDto(user)));
+  }
+
+  /**
+   * Get the email change awaiting verification
+   */
+  getPendingEmailChange(id: string): Observable<EmailChangeDto | null> {
+    return this.changeEmailUseCase
+      .executeGetPending(id)
+      .pipe(
+        map((change) => (change ? this.mapEmailChangeToDto(change) : null)),
+      );
+  }
+
+  /**
+   * Request a change of email; it applies once the new address is verified
+   */
+  requestEmailChange(id: string, newEmail: string): Observable<EmailChangeDto> {
+    return this.changeEmailUseCase
+      .executeRequest(id, newEmail)
+      .pipe(map((change) => this.mapEmailChangeToDto(change)));
+  }
+
+  /**
+   * Confirm the pending email change with the token sent to the new address
+   */
+  confirmEmailChange(id: string, token: string): Observable<UserResponseDto> {
+    return this.audited(
+      'update',
+      id,
+      this.changeEmailUseCase.executeConfirm(id, token),
+      (user) => user,
+    ).pipe(map((user) => this.mapUserToDto(user)));
+  }
+
+  /**
+   * Cancel the pending email change
+   */
+  cancelEmailChange(id: string): Observable<boolean> {
+    return this.changeEmailUseCase.executeCancel(id);
   }
 
   /**
-   * Soft delete user (deactivate)
+   * Invite a user; they can sign in once they accepted the mailed token
    */
-  deleteUser(id: string): Observable<boolean> {
-    return this.deleteUserUseCase.executeSoftDelete(id);
+  inviteUser(createUserDto: CreateUserDto): Observable<InvitationDto> {
+    return this.inviteUserUseCase.executeInvite(createUserDto).pipe(
+      concatMap((invitation) =>
+        this.recordAudit(
+          'create',
+          invitation.user.id,
+          null,
+          invitation.user,
+          'Invited',
+        ).pipe(
+          this.publishAfterAudit([invitation.user.id]),
+          map(() => invitation),
+        ),
+      ),
+      map((invitation) => this.mapInvitationToDto(invitation)),
+    );
+  }
+
+  /**
+   * Get the invitations not accepted yet
+   */
+  getInvitations(): Observable<InvitationDto[]> {
+    return this.inviteUserUseCase
+      .executeList()
+      .pipe(
+        map((invitations) =>
+          invitations.map((invitation) => this.mapInvitationToDto(invitation)),
+        ),
+      );
+  }
+
+  /**
+   * Mail a new token for an invitation, restarting its expiry
+   */
+  resendInvitation(userId: string): Observable<InvitationDto> {
+    return this.inviteUserUseCase
+      .executeResend(userId)
+      .pipe(map((invitation) => this.mapInvitationToDto(invitation)));
+  }
+
+  /**
+   * Withdraw an invitation, removing the invited user
+   */
+  revokeInvitation(userId: string): Observable<boolean> {
+    return this.audited(
+      'purge',
+      userId,
+      this.inviteUserUseCase.executeRevoke(userId),
+      () => null,
+      'Invitation revoked',
+    );
+  }
+
+  /**
+   * Get the invitation of an acceptance token
+   * Fails for unknown, used and expired tokens
+   */
+  getInvitation(token: string): Observable<InvitationDto> {
+    return this.inviteUserUseCase
+      .executeGetByToken(token)
+      .pipe(map((invitation) => this.mapInvitationToDto(invitation)));
+  }
+
+  /**
+   * Accept an invitation with the names the invitee confirmed
+   * Nobody is signed in, so the invitee is recorded as the actor
+   */
+  acceptInvitation(
+    token: string,
+    acceptInvitationDto: AcceptInvitationDto,
+  ): Observable<UserResponseDto> {
+    return this.inviteUserUseCase.executeGetByToken(token).pipe(
+      switchMap((invitation) =>
+        this.inviteUserUseCase.executeAccept(token, acceptInvitationDto).pipe(
+          concatMap((user) =>
+            this.recordAudit(
+              'activate',
+              user.id,
+              invitation.user,
+              user,
+              'Invitation accepted',
+              { id: user.id, name: user.fullName },
+            ).pipe(
+              this.publishAfterAudit([user.id]),
+              map(() => user),
+            ),
+          ),
+        ),
+      ),
+      map((user) => this.mapUserToDto(user)),
+    );
+  }
+
+  /**
+   * Soft delete user (deactivate) for one of the configured reasons
+   */
+  deleteUser(
+    id: string,
+    deactivationDto: DeactivationDto,
+  ): Observable<boolean> {
+    return this.audited(
+      'deactivate',
+      id,
+      this.deleteUserUseCase.executeSoftDelete(id, deactivationDto),
+      (_, before) => before?.deactivate() ?? null,
+      this.describeDeactivation(deactivationDto),
+    );
+  }
+
+  /**
+   * Reactivate a deactivated user
+   * The reason is kept in the audit trail
+   */
+  activateUser(id: string, reason?: string): Observable<UserResponseDto> {
+    return this.audited(
+      'activate',
+      id,
+      this.activateUserUseCase.execute(id),
+      (user) => user,
+      reason,
+    ).pipe(map((user) => this.mapUserToDto(user)));
+  }
+
+  /**
+   * Suspend, lock, or schedule a user for or take them off deletion
+   * The reason is kept in the audit trail
+   */
+  changeUserStatus(
+    id: string,
+    change: UserStatusChange,
+    reason?: string,
+  ): Observable<UserResponseDto> {
+    return this.audited(
+      'update',
+      id,
+      this.changeUserStatusUseCase.execute(id, change),
+      (user) => user,
+      reason,
+    ).pipe(map((user) => this.mapUserToDto(user)));
   }
 
   /**
    * Permanently delete user
+   * The reason is kept in the audit trail
    */
-  permanentlyDeleteUser(id: string): Observable<boolean> {
-    return this.deleteUserUseCase.executeHardDelete(id);
+  permanentlyDeleteUser(id: string, reason?: string): Observable<boolean> {
+    return this.audited(
+      'purge',
+      id,
+      this.deleteUserUseCase.executeHardDelete(id),
+      () => null,
+      reason,
+    );
+  }
+
+  /**
+   * Apply an operation to several users at once
+   * Users that could not be processed are listed in `failed`
+   */
+  bulkOperation(
+    bulkOperationDto: BulkUserOperationDto,
+  ): Observable<BulkOperationResultDto> {
+    const { operation, deactivation } = bulkOperationDto;
+    const reason =
+      operation === 'deactivate' && deactivation
+        ? this.describeDeactivation(deactivation)
+        : bulkOperationDto.reason;
+    const ids = [
+      ...new Set(
+        (bulkOperationDto.userIds || [])
+          .map((id) => id?.trim())
+          .filter((id) => !!id),
+      ),
+    ];
+    const before$ = ids.length
+      ? forkJoin(
+          ids.map((id) =>
+            this.userRepository.getById(id).pipe(catchError(() => of(null))),
+          ),
+        )
+      : of([]);
+
+    return before$.pipe(
+      switchMap((users) => {
+        const before = new Map(ids.map((id, index) => [id, users[index]]));
+        return this.bulkUserOperationUseCase
+          .execute(bulkOperationDto.userIds, operation, deactivation)
+          .pipe(
+            concatMap((result) =>
+              forkJoin([
+                of(result),
+                ...result.successful.map((id) =>
+                  this.recordBulkAudit(
+                    operation,
+                    id,
+                    before.get(id) ?? null,
+                    reason,
+                  ),
+                ),
+              ]).pipe(
+                this.publishAfterAudit(result.successful),
+                map(() => result),
+              ),
+            ),
+          );
+      }),
+      map((result) => ({
+        successful: result.successful,
+        failed: result.failed,
+        totalProcessed: result.successful.length + result.failed.length,
+      })),
+    );
   }
 
   /**
@@ -116,7 +518,10 @@ export class UserApplicationService {
         page: query.page,
         limit: query.limit,
         search: query.search,
-        isActive: query.isActive,
+        statuses: query.statuses,
+        role: query.role,
+        sortBy: query.sortBy,
+        sortOrder: query.sortOrder,
       })
       .pipe(
         map((result) => ({
@@ -151,19 +556,198 @@ export class UserApplicationService {
   }
 
   /**
-   * Get user statistics
+   * Get user statistics for a period
    */
-  getUserStats(): Observable<UserStatsDto> {
-    return this.listUsersUseCase.executeGetActiveCount().pipe(
-      map((activeCount) => ({
-        totalUsers: 0, // This would need additional implementation
-        activeUsers: activeCount,
-        inactiveUsers: 0, // This would need additional implementation
-        newUsersThisMonth: 0, // This would need additional implementation
+  getUserStats(query: UserStatsQueryDto = {}): Observable<UserStatsDto> {
+    const now = new Date();
+    const startDate = query.startDate
+      ? new Date(query.startDate)
+      : new Date(now.getFullYear(), now.getMonth(), 1);
+    const endDate = query.endDate ? new Date(query.endDate) : now;
+
+    return this.listUsersUseCase.executeGetStats(startDate, endDate).pipe(
+      map((stats) => ({
+        totalUsers: stats.totalUsers,
+        activeUsers: stats.activeUsers,
+        inactiveUsers: stats.inactiveUsers,
+        newUsers: stats.newUsers,
+        deactivatedUsers: stats.deactivatedUsers,
+        periodStart: stats.periodStart.toISOString(),
+        periodEnd: stats.periodEnd.toISOString(),
       })),
     );
   }
 
+  /**
+   * Run a command on a user and record it in the audit trail once it
+   * succeeded; `after` derives the resulting state from the command result
+   * Commands resolving `false` changed nothing and are not recorded
+   */
+  private audited<T>(
+    operation: AuditOperation,
+    id: string,
+    command: Observable<T>,
+    after: (result: T, before: User | null) => User | null,
+    reason?: string,
+  ): Observable<T> {
+    const before$ = id?.trim()
+      ? this.userRepository.getById(id).pipe(catchError(() => of(null)))
+      : of(null);
+
+    return before$.pipe(
+      switchMap((before) =>
+        command.pipe(
+          concatMap((result) =>
+            result === false
+              ? of(result)
+              : this.recordAudit(
+                  operation,
+                  id,
+                  before,
+                  after(result, before),
+                  reason,
+                ).pipe(
+                  this.publishAfterAudit([id]),
+                  map(() => result),
+                ),
+          ),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Publish the events held back for the users once the audit write emits
+   * The change is committed by then, so they are also published when the
+   * write fails or the subscriber leaves before it finished
+   */
+  private publishAfterAudit<T>(
+    ids: readonly string[],
+  ): MonoTypeOperatorFunction<T> {
+    return (audit) =>
+      audit.pipe(
+        tap(() => this.publishEvents(ids)),
+        finalize(() => this.publishEvents(ids)),
+      );
+  }
+
+  /**
+   * Hand the events held back for the users on to the bus
+   */
+  private publishEvents(ids: readonly string[]): void {
+    for (const id of ids) {
+      const events = this.pendingEvents.get(id) ?? [];
+      this.pendingEvents.delete(id);
+      events.forEach((event) => this.eventBus.publish(event));
+    }
+  }
+
+  /**
+   * Record a bulk operation on one user, loaded before the batch ran
+   * A batch only changes the status, so the state after is the state before
+   * with the status the operation leads to
+   */
+  private recordBulkAudit(
+    operation: BulkUserOperation,
+    id: string,
+    before: User | null,
+    reason?: string,
+  ): Observable<void> {
+    const auditOperations: Record<
+      BulkUserOperation,
+      AuditOperation & UserStatusTransition
+    > = {
+      activate: 'activate',
+      deactivate: 'deactivate',
+      delete: 'purge',
+    };
+    const auditOperation = auditOperations[operation];
+    const status = USER_STATUS_TRANSITIONS[auditOperation].to;
+    const beforeSnapshot = this.auditSnapshot(before);
+
+    return this.auditTrail.record({
+      subjectId: id,
+      operation: auditOperation,
+      actor: this.accessContext.currentActor(),
+      reason,
+      before: beforeSnapshot,
+      after: status ? { ...beforeSnapshot, status } : null,
+    });
+  }
+
+  private recordAudit(
+    operation: AuditOperation,
+    id: string,
+    before: User | null,
+    after: User | null,
+    reason?: string,
+    actor: AccessActor | null = this.accessContext.currentActor(),
+  ): Observable<void> {
+    return this.auditTrail.record({
+      subjectId: id,
+      operation,
+      actor,
+      reason,
+      before: this.auditSnapshot(before),
+      after: this.auditSnapshot(after),
+    });
+  }
+
+  /**
+   * Audit reason of a deactivation: the reason's label and the note
+   */
+  private describeDeactivation(deactivationDto: DeactivationDto): string {
+    const label = this.deactivationPolicy.reasonLabel(deactivationDto.reason);
+    const note = deactivationDto.note?.trim();
+    return note ? `${label}: ${note}` : label;
+  }
+
+  /**
+   * State of a user as recorded in the audit trail
+   */
+  private auditSnapshot(user: User | null): AuditSnapshot | null {
+    if (!user) {
+      return null;
+    }
+
+    return {
+      email: user.email,
+      honorific: user.honorific || null,
+      firstName: user.firstName,
+      middleName: user.middleName || null,
+      lastName: user.lastName,
+      preferredName: user.preferredName || null,
+      nameOrder: user.nameOrder,
+      status: user.status,
+      roles: [...user.roles],
+    };
+  }
+
+  /**
+   * Map EmailChange entity to EmailChangeDto
+   */
+  private mapEmailChangeToDto(change: EmailChange): EmailChangeDto {
+    return {
+      newEmail: change.newEmail,
+      requestedAt: change.requestedAt.toISOString(),
+      expiresAt: change.expiresAt.toISOString(),
+      isExpired: change.isExpired(),
+    };
+  }
+
+  /**
+   * Map Invitation entity to InvitationDto
+   */
+  private mapInvitationToDto(invitation: Invitation): InvitationDto {
+    return {
+      user: this.mapUserToDto(invitation.user),
+      invitedBy: invitation.invitedBy?.name ?? null,
+      invitedAt: invitation.invitedAt.toISOString(),
+      expiresAt: invitation.expiresAt.toISOString(),
+      isExpired: invitation.isExpired(),
+    };
+  }
+
   /**
    * Map User entity to UserResponseDto
    */
@@ -173,10 +757,25 @@ export class UserApplicationService {
       email: user.email,
       firstName: user.firstName,
       lastName: user.lastName,
-      fullName: user.fullName,
+      ...user.name.details,
+      fullName: this.nameFormatter.fullName(user),
       createdAt: user.createdAt.toISOString(),
       updatedAt: user.updatedAt.toISOString(),
+      status: user.status,
       isActive: user.isActive,
+      roles: [...user.roles],
+      version: user.version,
+      ...(user.deactivation && {
+        deactivation: {
+          reason: user.deactivation.reason,
+          reasonLabel: this.deactivationPolicy.reasonLabel(
+            user.deactivation.reason,
+          ),
+          note: user.deactivation.note,
+          deactivatedBy: user.deactivation.deactivatedBy?.name ?? null,
+          deactivatedAt: user.deactivation.deactivatedAt?.toISOString() ?? null,
+        },
+      }),
     };
   }
 }
@@ -0,0 +1,65 @@
+/**
+ * Data Transfer Objects for the audit trail
+ * These DTOs are used to transfer audit data between layers
+ */
+
+import {
+  AuditActor,
+  AuditOperation,
+  AuditSnapshot,
+  AuditValue,
+} from '../../domain/entities/audit-entry.entity';
+
+/**
+ * DTO for recording an operation
+ * `before` is null for a create and `after` is null for a purge
+ */
+export interface RecordAuditDto {
+  subjectId: string;
+  operation: AuditOperation;
+  actor: AuditActor | null;
+  reason?: string | null;
+  before: AuditSnapshot | null;
+  after: AuditSnapshot | null;
+}
+
+/**
+ * DTO for a changed field
+ */
+export interface AuditFieldChangeDto {
+  field: string;
+  before: AuditValue;
+  after: AuditValue;
+}
+
+/**
+ * DTO for audit entry responses
+ */
+export interface AuditEntryDto {
+  id: string;
+  subjectId: string;
+  operation: AuditOperation;
+  actor: AuditActor | null;
+  occurredAt: string;
+  reason: string | null;
+  changes: AuditFieldChangeDto[];
+}
+
+/**
+ * DTO for paginated history queries
+ */
+export interface AuditHistoryQueryDto {
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * DTO for a page of a subject's history
+ */
+export interface AuditHistoryDto {
+  entries: AuditEntryDto[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
@@ -0,0 +1,121 @@
+import { of, throwError } from 'rxjs';
+import { AuditEntry } from '../../domain/entities/audit-entry.entity';
+import { IAuditRepository } from '../../domain/repositories/audit.repository.interface';
+import { ValidationError } from '../../../domain';
+import { AuditTrailService } from './audit-trail.service';
+
+describe('AuditTrailService', () => {
+  let service: AuditTrailService;
+  let mockRepository: jasmine.SpyObj<IAuditRepository>;
+
+  const entry = new AuditEntry(
+    '1',
+    '3',
+    'deactivate',
+    { id: '1', name: 'John Doe' },
+    new Date('2023-03-10T00:00:00.000Z'),
+    'Left the company',
+    [{ field: 'status', before: 'active', after: 'deactivated' }],
+  );
+
+  beforeEach(() => {
+    mockRepository = jasmine.createSpyObj('IAuditRepository', [
+      'record',
+      'getBySubject',
+    ]);
+    service = new AuditTrailService(mockRepository);
+  });
+
+  describe('record', () => {
+    it('should store the diff with a trimmed reason', (done) => {
+      mockRepository.record.and.returnValue(of(entry));
+
+      service
+        .record({
+          subjectId: '3',
+          operation: 'deactivate',
+          actor: { id: '1', name: 'John Doe' },
+          reason: '  Left the company ',
+          before: { firstName: 'Bob', status: 'active' },
+          after: { firstName: 'Bob', status: 'deactivated' },
+        })
+        .subscribe({
+          next: () => {
+            const record = mockRepository.record.calls.mostRecent().args[0];
+            expect(record.reason).toBe('Left the company');
+            expect(record.changes).toEqual([
+              { field: 'status', before: 'active', after: 'deactivated' },
+            ]);
+            done();
+          },
+          error: done.fail,
+        });
+    });
+
+    it('should not fail when the entry cannot be stored', (done) => {
+      spyOn(console, 'error');
+      mockRepository.record.and.returnValue(
+        throwError(() => new Error('Network error')),
+      );
+
+      service
+        .record({
+          subjectId: '3',
+          operation: 'purge',
+          actor: null,
+          before: { status: 'deactivated' },
+          after: null,
+        })
+        .subscribe({
+          next: (result) => {
+            expect(result).toBeUndefined();
+            expect(console.error).toHaveBeenCalled();
+            done();
+          },
+          error: done.fail,
+        });
+    });
+  });
+
+  describe('getHistory', () => {
+    it('should return a page of entry DTOs', (done) => {
+      mockRepository.getBySubject.and.returnValue(
+        of({ entries: [entry], total: 11, page: 2, limit: 10 }),
+      );
+
+      service.getHistory('3', { page: 2 }).subscribe({
+        next: (history) => {
+          expect(mockRepository.getBySubject).toHaveBeenCalledWith('3', {
+            page: 2,
+            limit: AuditTrailService.DEFAULT_PAGE_SIZE,
+          });
+          expect(history.totalPages).toBe(2);
+          expect(history.entries[0]).toEqual({
+            id: '1',
+            subjectId: '3',
+            operation: 'deactivate',
+            actor: { id: '1', name: 'John Doe' },
+            occurredAt: '2023-03-10T00:00:00.000Z',
+            reason: 'Left the company',
+            changes: [
+              { field: 'status', before: 'active', after: 'deactivated' },
+            ],
+          });
+          done();
+        },
+        error: done.fail,
+      });
+    });
+
+    it('should require a subject', (done) => {
+      service.getHistory(' ').subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(ValidationError);
+          expect(mockRepository.getBySubject).not.toHaveBeenCalled();
+          done();
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { Injectable, Inject } from '@angular/core';
+import { Observable, of, throwError } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+
+// Audit domain imports
+import { AuditEntry } from '../../domain/entities/audit-entry.entity';
+import { IAuditRepository } from '../../domain/repositories/audit.repository.interface';
+import { DomainErrorFactory } from '../../../domain';
+
+// Application DTOs
+import {
+  AuditEntryDto,
+  AuditHistoryDto,
+  AuditHistoryQueryDto,
+  RecordAuditDto,
+} from '../dto/audit.dto';
+
+// Injection tokens
+import { AUDIT_REPOSITORY_TOKEN } from '../../../di/injection-tokens';
+
+/**
+ * Audit Trail Service
+ * Records operations with a field diff of the states before and after,
+ * and reads back the history of a subject
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AuditTrailService {
+  static readonly DEFAULT_PAGE_SIZE = 10;
+
+  constructor(
+    @Inject(AUDIT_REPOSITORY_TOKEN) private auditRepository: IAuditRepository,
+  ) {}
+
+  /**
+   * Record an operation that has already happened
+   * Recording failures are logged and never fail the audited operation
+   */
+  record(recordDto: RecordAuditDto): Observable<void> {
+    return this.auditRepository
+      .record({
+        subjectId: recordDto.subjectId,
+        operation: recordDto.operation,
+        actor: recordDto.actor,
+        occurredAt: new Date(),
+        reason: recordDto.reason?.trim() || null,
+        changes: AuditEntry.diff(recordDto.before, recordDto.after),
+      })
+      .pipe(
+        map(() => undefined),
+        catchError((error) => {
+          console.error(
+            `Failed to record '${recordDto.operation}' of ${recordDto.subjectId}:`,
+            error,
+          );
+          return of(undefined);
+        }),
+      );
+  }
+
+  /**
+   * Get a page of a subject's history, newest first
+   */
+  getHistory(
+    subjectId: string,
+    query: AuditHistoryQueryDto = {},
+  ): Observable<AuditHistoryDto> {
+    if (!subjectId || subjectId.trim().length === 0) {
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors(['Subject ID is required']),
+      );
+    }
+
+    return this.auditRepository
+      .getBySubject(subjectId, {
+        page: query.page ?? 1,
+        limit: query.limit ?? AuditTrailService.DEFAULT_PAGE_SIZE,
+      })
+      .pipe(
+        map((result) => ({
+          entries: result.entries.map((entry) => this.mapEntryToDto(entry)),
+          total: result.total,
+          page: result.page,
+          limit: result.limit,
+          totalPages: Math.ceil(result.total / result.limit),
+        })),
+      );
+  }
+
+  /**
+   * Map AuditEntry entity to AuditEntryDto
+   */
+  private mapEntryToDto(entry: AuditEntry): AuditEntryDto {
+    return {
+      id: entry.id,
+      subjectId: entry.subjectId,
+      operation: entry.operation,
+      actor: entry.actor ? { ...entry.actor } : null,
+      occurredAt: entry.occurredAt.toISOString(),
+      reason: entry.reason,
+      changes: entry.changes.map((change) => ({ ...change })),
+    };
+  }
+}
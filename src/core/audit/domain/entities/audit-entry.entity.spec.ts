@@ -0,0 +1,43 @@
+import { AuditEntry } from './audit-entry.entity';
+
+describe('AuditEntry', () => {
+  describe('diff', () => {
+    it('should list only the fields that changed', () => {
+      const changes = AuditEntry.diff(
+        { firstName: 'John', lastName: 'Doe', roles: ['viewer'] },
+        { firstName: 'Jane', lastName: 'Doe', roles: ['viewer'] },
+      );
+
+      expect(changes).toEqual([
+        { field: 'firstName', before: 'John', after: 'Jane' },
+      ]);
+    });
+
+    it('should compare lists by their items', () => {
+      const changes = AuditEntry.diff(
+        { roles: ['viewer'] },
+        { roles: ['viewer', 'manager'] },
+      );
+
+      expect(changes).toEqual([
+        { field: 'roles', before: ['viewer'], after: ['viewer', 'manager'] },
+      ]);
+    });
+
+    it('should record every field of a created or removed subject', () => {
+      expect(AuditEntry.diff(null, { email: 'a@example.com' })).toEqual([
+        { field: 'email', before: null, after: 'a@example.com' },
+      ]);
+      expect(AuditEntry.diff({ status: 'deactivated' }, null)).toEqual([
+        { field: 'status', before: 'deactivated', after: null },
+      ]);
+    });
+
+    it('should treat a missing field as null', () => {
+      expect(
+        AuditEntry.diff({ middleName: null }, { middleName: 'Marie' }),
+      ).toEqual([{ field: 'middleName', before: null, after: 'Marie' }]);
+      expect(AuditEntry.diff({}, { middleName: null })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Operations recorded in the audit trail
+ */
+export type AuditOperation =
+  | 'create'
+  | 'update'
+  | 'deactivate'
+  | 'activate'
+  | 'purge';
+
+export const AUDIT_OPERATIONS: readonly AuditOperation[] = [
+  'create',
+  'update',
+  'deactivate',
+  'activate',
+  'purge',
+];
+
+export function isAuditOperation(value: unknown): value is AuditOperation {
+  return AUDIT_OPERATIONS.includes(value as AuditOperation);
+}
+
+/**
+ * Value of a recorded field; absent fields are recorded as null
+ */
+export type AuditValue = string | boolean | string[] | null;
+
+/**
+ * State of an audited subject by field name
+ */
+export type AuditSnapshot = Readonly<Record<string, AuditValue>>;
+
+/**
+ * Change of a single field between the states before and after an operation
+ */
+export interface AuditFieldChange {
+  field: string;
+  before: AuditValue;
+  after: AuditValue;
+}
+
+/**
+ * Who performed an audited operation
+ */
+export interface AuditActor {
+  id: string;
+  name: string;
+}
+
+/**
+ * An audited operation before it is stored
+ */
+export interface AuditRecord {
+  subjectId: string;
+  operation: AuditOperation;
+  actor: AuditActor | null;
+  occurredAt: Date;
+  reason: string | null;
+  changes: AuditFieldChange[];
+}
+
+/**
+ * Audit Entry Entity - A stored record of an operation on a subject
+ * Entries are never changed once recorded
+ */
+export class AuditEntry {
+  constructor(
+    public readonly id: string,
+    public readonly subjectId: string,
+    public readonly operation: AuditOperation,
+    public readonly actor: AuditActor | null,
+    public readonly occurredAt: Date,
+    public readonly reason: string | null,
+    public readonly changes: readonly AuditFieldChange[],
+  ) {}
+
+  /**
+   * List the fields that differ between two states
+   * A missing state (before a create, after a purge) counts as every field
+   * being null, so the entry still shows what was created or removed
+   */
+  static diff(
+    before: AuditSnapshot | null,
+    after: AuditSnapshot | null,
+  ): AuditFieldChange[] {
+    const fields = new Set([
+      ...Object.keys(before ?? {}),
+      ...Object.keys(after ?? {}),
+    ]);
+
+    return [...fields]
+      .map((field) => ({
+        field,
+        before: before?.[field] ?? null,
+        after: after?.[field] ?? null,
+      }))
+      .filter((change) => !AuditEntry.sameValue(change.before, change.after));
+  }
+
+  private static sameValue(a: AuditValue, b: AuditValue): boolean {
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((value, i) => value === b[i]);
+    }
+    return a === b;
+  }
+}
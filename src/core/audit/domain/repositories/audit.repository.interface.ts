@@ -0,0 +1,26 @@
+import { Observable } from 'rxjs';
+import { AuditEntry, AuditRecord } from '../entities/audit-entry.entity';
+
+/**
+ * Audit Repository Interface - Defines the contract for the audit trail store
+ * Entries can only be appended and read, newest first
+ */
+export interface IAuditRepository {
+  /**
+   * Append an entry to the trail
+   */
+  record(record: AuditRecord): Observable<AuditEntry>;
+
+  /**
+   * Get a page of the entries of one subject, newest first
+   */
+  getBySubject(
+    subjectId: string,
+    options?: { page?: number; limit?: number },
+  ): Observable<{
+    entries: AuditEntry[];
+    total: number;
+    page: number;
+    limit: number;
+  }>;
+}
@@ -0,0 +1,12 @@
+// Domain
+export * from './domain/entities/audit-entry.entity';
+export * from './domain/repositories/audit.repository.interface';
+
+// Application
+export * from './application/dto/audit.dto';
+export * from './application/services/audit-trail.service';
+
+// Infrastructure
+export * from './infrastructure/http/audit-http.service';
+export * from './infrastructure/repositories/audit.repository';
+export * from './infrastructure/repositories/audit-mock.repository';
@@ -0,0 +1,55 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from '../../../../environments/environment';
+
+/**
+ * Audit HTTP Service
+ * This service handles all HTTP communications with the audit trail API
+ * It belongs to the infrastructure layer and implements the actual data fetching
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AuditHttpService {
+  private readonly baseUrl = `${environment.apiUrl}/audit-entries`;
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Append an entry to the trail
+   */
+  createEntry(entryData: any): Observable<any> {
+    return this.http.post<any>(this.baseUrl, entryData);
+  }
+
+  /**
+   * Get a page of the entries of one subject
+   */
+  getEntries(params: {
+    subjectId: string;
+    page?: number;
+    limit?: number;
+  }): Observable<{
+    entries: any[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    let httpParams = new HttpParams().set('subjectId', params.subjectId);
+
+    if (params.page) {
+      httpParams = httpParams.set('page', params.page.toString());
+    }
+    if (params.limit) {
+      httpParams = httpParams.set('limit', params.limit.toString());
+    }
+
+    return this.http.get<{
+      entries: any[];
+      total: number;
+      page: number;
+      limit: number;
+    }>(this.baseUrl, { params: httpParams });
+  }
+}
@@ -0,0 +1,82 @@
+import { Injectable } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { delay } from 'rxjs/operators';
+
+// Audit domain imports
+import {
+  AuditEntry,
+  AuditRecord,
+} from '../../domain/entities/audit-entry.entity';
+import { IAuditRepository } from '../../domain/repositories/audit.repository.interface';
+
+/**
+ * Mock Audit Repository Implementation
+ * This class provides a mock implementation for development and testing
+ * It keeps the trail in memory and simulates API calls with realistic delays
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AuditMockRepository implements IAuditRepository {
+  /**
+   * Matches the deactivated user seeded by the mock user repository
+   */
+  private entries: AuditEntry[] = [
+    new AuditEntry(
+      '1',
+      '3',
+      'deactivate',
+      { id: '1', name: 'John Doe' },
+      new Date('2023-03-10'),
+      'Left the company: Moved to a partner firm',
+      [{ field: 'status', before: 'active', after: 'deactivated' }],
+    ),
+  ];
+
+  private nextId = 2;
+
+  /**
+   * Append an entry to the trail
+   */
+  record(record: AuditRecord): Observable<AuditEntry> {
+    const entry = new AuditEntry(
+      (this.nextId++).toString(),
+      record.subjectId,
+      record.operation,
+      record.actor,
+      record.occurredAt,
+      record.reason,
+      record.changes,
+    );
+    this.entries.push(entry);
+
+    return of(entry).pipe(delay(100));
+  }
+
+  /**
+   * Get a page of the entries of one subject, newest first
+   */
+  getBySubject(
+    subjectId: string,
+    options?: { page?: number; limit?: number },
+  ): Observable<{
+    entries: AuditEntry[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const page = options?.page || 1;
+    const limit = options?.limit || 10;
+    const entries = this.entries
+      .filter((entry) => entry.subjectId === subjectId)
+      .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime());
+
+    const startIndex = (page - 1) * limit;
+    return of({
+      entries: entries.slice(startIndex, startIndex + limit),
+      total: entries.length,
+      page,
+      limit,
+    }).pipe(delay(300));
+  }
+}
@@ -0,0 +1,100 @@
+import { Injectable } from '@angular/core';
+import { Observable, throwError } from 'rxjs';
+import { map, catchError } from 'rxjs/operators';
+
+// Audit domain imports
+import {
+  AuditEntry,
+  AuditRecord,
+  isAuditOperation,
+} from '../../domain/entities/audit-entry.entity';
+import { IAuditRepository } from '../../domain/repositories/audit.repository.interface';
+import {
+  DomainError,
+  DomainErrorFactory,
+} from '../../../domain/errors/domain-errors';
+
+// Infrastructure imports
+import { AuditHttpService } from '../http/audit-http.service';
+
+/**
+ * Audit Repository Implementation
+ * This class implements the IAuditRepository interface from the audit domain
+ * It stores and reads the audit trail using HTTP services
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AuditRepository implements IAuditRepository {
+  constructor(private auditHttpService: AuditHttpService) {}
+
+  /**
+   * Append an entry to the trail
+   */
+  record(record: AuditRecord): Observable<AuditEntry> {
+    return this.auditHttpService
+      .createEntry({
+        ...record,
+        occurredAt: record.occurredAt.toISOString(),
+      })
+      .pipe(
+        map((entryData) => this.mapToEntry(entryData)),
+        catchError(this.handleError('record')),
+      );
+  }
+
+  /**
+   * Get a page of the entries of one subject, newest first
+   */
+  getBySubject(
+    subjectId: string,
+    options?: { page?: number; limit?: number },
+  ): Observable<{
+    entries: AuditEntry[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    return this.auditHttpService
+      .getEntries({ subjectId, page: options?.page, limit: options?.limit })
+      .pipe(
+        map((response) => ({
+          entries: response.entries
+            .filter((entryData) => isAuditOperation(entryData.operation))
+            .map((entryData) => this.mapToEntry(entryData)),
+          total: response.total,
+          page: response.page,
+          limit: response.limit,
+        })),
+        catchError(this.handleError('getBySubject')),
+      );
+  }
+
+  /**
+   * Handle HTTP errors and convert them to domain errors
+   */
+  private handleError(operation: string): (error: any) => Observable<never> {
+    return (error) => {
+      console.error(`Audit repository operation '${operation}' failed:`, error);
+      const domainError: DomainError = DomainErrorFactory.fromHttpError(error, {
+        operation,
+      });
+      return throwError(() => domainError);
+    };
+  }
+
+  /**
+   * Map API response data to AuditEntry entity
+   */
+  private mapToEntry(entryData: any): AuditEntry {
+    return new AuditEntry(
+      entryData.id,
+      entryData.subjectId,
+      entryData.operation,
+      entryData.actor ?? null,
+      new Date(entryData.occurredAt),
+      entryData.reason ?? null,
+      entryData.changes ?? [],
+    );
+  }
+}
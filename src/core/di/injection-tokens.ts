@@ -1,5 +1,13 @@
 import { InjectionToken } from '@angular/core';
-import { IUserRepository } from '../domain';
+import {
+  IUserRepository,
+  IAuthRepository,
+  ISessionStorage,
+  IAccessContext,
+  UserValidationPolicy,
+  DeactivationPolicy,
+} from '../domain';
+import { IAuditRepository } from '../audit';
 
 /**
  * Injection Tokens for Clean Architecture
@@ -15,8 +23,70 @@ export const USER_REPOSITORY_TOKEN = new InjectionToken<IUserRepository>(
   'UserRepository',
 );
 
+/**
+ * Token for Auth Repository interface
+ */
+export const AUTH_REPOSITORY_TOKEN = new InjectionToken<IAuthRepository>(
+  'AuthRepository',
+);
+
+/**
+ * Token for the audit trail store of the audit context
+ */
+export const AUDIT_REPOSITORY_TOKEN = new InjectionToken<IAuditRepository>(
+  'AuditRepository',
+);
+
+/**
+ * Token for Session Storage interface
+ */
+export const SESSION_STORAGE_TOKEN = new InjectionToken<ISessionStorage>(
+  'SessionStorage',
+);
+
+/**
+ * Token for the access context consulted by use cases
+ */
+export const ACCESS_CONTEXT_TOKEN = new InjectionToken<IAccessContext>(
+  'AccessContext',
+);
+
+/**
+ * Token for the user validation policy shared by use cases and forms
+ * Falls back to the default rules when no deployment config is provided
+ */
+export const USER_VALIDATION_POLICY_TOKEN =
+  new InjectionToken<UserValidationPolicy>('UserValidationPolicy', {
+    providedIn: 'root',
+    factory: () => new UserValidationPolicy(),
+  });
+
+/**
+ * Token for the deactivation reasons and note rules
+ * Falls back to the default reasons when no deployment config is provided
+ */
+export const DEACTIVATION_POLICY_TOKEN = new InjectionToken<DeactivationPolicy>(
+  'DeactivationPolicy',
+  {
+    providedIn: 'root',
+    factory: () => new DeactivationPolicy(),
+  },
+);
+
+/**
+ * HTTP settings from `environment.api`
+ * `timeout` and `retryDelay` are in milliseconds
+ */
+export interface ApiConfig {
+  baseUrl: string;
+  timeout: number;
+  retryAttempts: number;
+  retryDelay: number;
+  maxConcurrentPerHost: number;
+}
+
 /**
  * Configuration tokens
  */
-export const API_CONFIG_TOKEN = new InjectionToken<any>('ApiConfig');
+export const API_CONFIG_TOKEN = new InjectionToken<ApiConfig>('ApiConfig');
 export const APP_CONFIG_TOKEN = new InjectionToken<any>('AppConfig');
@@ -2,18 +2,44 @@ import { Provider, ErrorHandler } from '@angular/core';
 import { HTTP_INTERCEPTORS } from '@angular/common/http';
 
 // Domain interfaces
-import { IUserRepository } from '../domain';
+import {
+  IUserRepository,
+  UserValidationPolicy,
+  DeactivationPolicy,
+} from '../domain';
 
 // Infrastructure implementations
-import { UserRepository, UserMockRepository } from '../infrastructure';
+import {
+  UserRepository,
+  UserMockRepository,
+  AuthRepository,
+  AuthMockRepository,
+  BrowserSessionStorage,
+} from '../infrastructure';
+import { AuditRepository, AuditMockRepository } from '../audit';
+
+// Application services
+import { AuthService } from '../application/services/auth.service';
 
 // Shared services and interceptors
-import { ErrorInterceptor, LoadingInterceptor } from '../../shared';
+import {
+  ErrorInterceptor,
+  LoadingInterceptor,
+  AuthInterceptor,
+  RateLimitInterceptor,
+  RetryInterceptor,
+} from '../../shared';
 import { GlobalErrorHandlerService } from '../../shared/services/global-error-handler.service';
 
 // Injection tokens
 import {
   USER_REPOSITORY_TOKEN,
+  AUTH_REPOSITORY_TOKEN,
+  AUDIT_REPOSITORY_TOKEN,
+  SESSION_STORAGE_TOKEN,
+  ACCESS_CONTEXT_TOKEN,
+  USER_VALIDATION_POLICY_TOKEN,
+  DEACTIVATION_POLICY_TOKEN,
   API_CONFIG_TOKEN,
   APP_CONFIG_TOKEN,
 } from './injection-tokens';
@@ -35,6 +61,29 @@ export const repositoryProviders: Provider[] = [
     provide: USER_REPOSITORY_TOKEN,
     useClass: environment.useMockData ? UserMockRepository : UserRepository,
   },
+  {
+    provide: AUTH_REPOSITORY_TOKEN,
+    useClass: environment.useMockData ? AuthMockRepository : AuthRepository,
+  },
+  {
+    provide: AUDIT_REPOSITORY_TOKEN,
+    useClass: environment.useMockData ? AuditMockRepository : AuditRepository,
+  },
+  {
+    provide: SESSION_STORAGE_TOKEN,
+    useClass: BrowserSessionStorage,
+  },
+];
+
+/**
+ * Access Control Providers
+ * Use cases check permissions against the current session
+ */
+export const accessControlProviders: Provider[] = [
+  {
+    provide: ACCESS_CONTEXT_TOKEN,
+    useExisting: AuthService,
+  },
 ];
 
 /**
@@ -52,6 +101,26 @@ export const interceptorProviders: Provider[] = [
     useClass: ErrorInterceptor,
     multi: true,
   },
+  // Outside RetryInterceptor so time spent queued does not count as timeout
+  {
+    provide: HTTP_INTERCEPTORS,
+    useClass: RateLimitInterceptor,
+    multi: true,
+  },
+  // Between ErrorInterceptor and AuthInterceptor: only the final failure is
+  // reported, and every retry goes out with the current access token
+  {
+    provide: HTTP_INTERCEPTORS,
+    useClass: RetryInterceptor,
+    multi: true,
+  },
+  // Registered after ErrorInterceptor so that a 401 recovered by a token
+  // refresh never reaches the error notifications
+  {
+    provide: HTTP_INTERCEPTORS,
+    useClass: AuthInterceptor,
+    multi: true,
+  },
 ];
 
 /**
@@ -66,6 +135,7 @@ export const configProviders: Provider[] = [
       timeout: environment.api.timeout,
       retryAttempts: environment.api.retryAttempts,
       retryDelay: environment.api.retryDelay,
+      maxConcurrentPerHost: environment.api.maxConcurrentPerHost,
     },
   },
   {
@@ -77,6 +147,14 @@ export const configProviders: Provider[] = [
       features: environment.features,
     },
   },
+  {
+    provide: USER_VALIDATION_POLICY_TOKEN,
+    useValue: new UserValidationPolicy(environment.validation),
+  },
+  {
+    provide: DEACTIVATION_POLICY_TOKEN,
+    useValue: new DeactivationPolicy(environment.deactivation),
+  },
 ];
 
 /**
@@ -96,6 +174,7 @@ export const errorHandlerProviders: Provider[] = [
  */
 export const coreProviders: Provider[] = [
   ...repositoryProviders,
+  ...accessControlProviders,
   ...interceptorProviders,
   ...configProviders,
   ...errorHandlerProviders,
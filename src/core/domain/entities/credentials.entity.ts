@@ -0,0 +1,39 @@
+/**
+ * Credentials - Value object holding the secrets a user presents at login
+ * Email is normalized so that lookups do not depend on how it was typed
+ */
+export class Credentials {
+  public readonly email: string;
+
+  constructor(
+    email: string,
+    public readonly password: string,
+  ) {
+    this.email = (email || '').trim().toLowerCase();
+    this.validateEmail(this.email);
+    this.validatePassword(password);
+  }
+
+  /**
+   * Validate email format
+   */
+  private validateEmail(email: string): void {
+    if (email.length === 0) {
+      throw new Error('Email is required');
+    }
+
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(email)) {
+      throw new Error('Invalid email format');
+    }
+  }
+
+  /**
+   * Validate password presence
+   */
+  private validatePassword(password: string): void {
+    if (!password || password.length === 0) {
+      throw new Error('Password is required');
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { AccessActor } from '../repositories/access-context.interface';
+
+/**
+ * A reason users can be deactivated for
+ * The list is configurable per deployment, see `environment.deactivation`;
+ * a note is required unless the reason sets `noteRequired: false`
+ */
+export interface DeactivationReason {
+  code: string;
+  label: string;
+  noteRequired?: boolean;
+}
+
+export const DEFAULT_DEACTIVATION_REASONS: readonly DeactivationReason[] = [
+  { code: 'left-company', label: 'Left the company' },
+  { code: 'security', label: 'Security concern' },
+  { code: 'duplicate', label: 'Duplicate account' },
+  { code: 'other', label: 'Other' },
+];
+
+/**
+ * What the operator gives when deactivating a user
+ */
+export interface DeactivationRequest {
+  reason: string;
+  note?: string;
+}
+
+/**
+ * A deactivation as exchanged with the API
+ */
+export interface DeactivationPayload {
+  reason: string;
+  note: string;
+  deactivatedBy: AccessActor | null;
+  deactivatedAt: string | null;
+}
+
+/**
+ * Deactivation Value Object - Why, when and by whom a user was deactivated
+ * The time is null when the record does not hold a valid one
+ */
+export class Deactivation {
+  constructor(
+    public readonly reason: string,
+    public readonly note: string,
+    public readonly deactivatedBy: AccessActor | null,
+    public readonly deactivatedAt: Date | null,
+  ) {}
+
+  /**
+   * Record a request made by an actor, by default now
+   */
+  static fromRequest(
+    request: DeactivationRequest,
+    deactivatedBy: AccessActor | null,
+    deactivatedAt: Date = new Date(),
+  ): Deactivation {
+    return new Deactivation(
+      request.reason,
+      request.note?.trim() ?? '',
+      deactivatedBy,
+      deactivatedAt,
+    );
+  }
+
+  /**
+   * Convert to plain object for serialization
+   */
+  toJSON(): DeactivationPayload {
+    return {
+      reason: this.reason,
+      note: this.note,
+      deactivatedBy: this.deactivatedBy ? { ...this.deactivatedBy } : null,
+      deactivatedAt: this.deactivatedAt?.toISOString() ?? null,
+    };
+  }
+
+  /**
+   * Create from plain object; users deactivated before reasons were
+   * recorded have none
+   * A malformed actor or time is dropped rather than failing the user
+   */
+  static fromJSON(
+    data: Partial<DeactivationPayload> | null | undefined,
+  ): Deactivation | null {
+    if (typeof data?.reason !== 'string' || !data.reason) {
+      return null;
+    }
+
+    const actor = data.deactivatedBy;
+    const deactivatedAt = data.deactivatedAt
+      ? new Date(data.deactivatedAt)
+      : null;
+
+    return new Deactivation(
+      data.reason,
+      typeof data.note === 'string' ? data.note : '',
+      typeof actor?.id === 'string' && typeof actor.name === 'string'
+        ? { id: actor.id, name: actor.name }
+        : null,
+      deactivatedAt && !isNaN(deactivatedAt.getTime()) ? deactivatedAt : null,
+    );
+  }
+}
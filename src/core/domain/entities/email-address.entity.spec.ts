@@ -0,0 +1,44 @@
+import { EmailAddress } from './email-address.entity';
+
+describe('EmailAddress', () => {
+  it('should keep the entered form and lower-case the canonical form', () => {
+    const email = new EmailAddress('  John.Doe@Example.com ');
+
+    expect(email.address).toBe('John.Doe@Example.com');
+    expect(email.canonical).toBe('john.doe@example.com');
+    expect(email.toString()).toBe('John.Doe@Example.com');
+  });
+
+  it('should treat addresses differing in case as equal', () => {
+    expect(
+      new EmailAddress('John.Doe@Example.com').equals(
+        new EmailAddress('john.doe@example.com'),
+      ),
+    ).toBe(true);
+  });
+
+  it('should leave provider aliases apart unless folding is enabled', () => {
+    expect(EmailAddress.canonicalize('j.doe+news@gmail.com')).toBe(
+      'j.doe+news@gmail.com',
+    );
+  });
+
+  it('should fold Gmail dots, plus tags and domain alias', () => {
+    const options = { foldProviderAliases: true };
+
+    expect(EmailAddress.canonicalize('J.Doe+news@gmail.com', options)).toBe(
+      'jdoe@gmail.com',
+    );
+    expect(EmailAddress.canonicalize('jdoe@googlemail.com', options)).toBe(
+      'jdoe@gmail.com',
+    );
+  });
+
+  it('should only fold providers with known rules', () => {
+    expect(
+      EmailAddress.canonicalize('j.doe+news@example.com', {
+        foldProviderAliases: true,
+      }),
+    ).toBe('j.doe+news@example.com');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * How far addresses are folded when building the canonical form
+ */
+export interface EmailAddressOptions {
+  /**
+   * Apply provider rules, e.g. Gmail ignoring dots and `+tag` suffixes
+   */
+  foldProviderAliases?: boolean;
+}
+
+/**
+ * Rules of a mail provider for local parts that reach the same mailbox
+ */
+interface ProviderRule {
+  domain: string;
+  ignoreDots: boolean;
+  plusTags: boolean;
+}
+
+const GMAIL: ProviderRule = {
+  domain: 'gmail.com',
+  ignoreDots: true,
+  plusTags: true,
+};
+
+const PROVIDER_RULES: Readonly<Record<string, ProviderRule>> = {
+  'gmail.com': GMAIL,
+  'googlemail.com': GMAIL,
+};
+
+/**
+ * Email Address Value Object - An address as entered and its canonical form
+ * Two addresses reaching the same mailbox share a canonical form, which is
+ * what uniqueness checks and lookups compare; the entered form is displayed
+ */
+export class EmailAddress {
+  /**
+   * The address as entered, without surrounding whitespace
+   */
+  readonly address: string;
+
+  /**
+   * Lower-cased form with provider aliases folded if enabled
+   */
+  readonly canonical: string;
+
+  constructor(address: string, options: EmailAddressOptions = {}) {
+    this.address = address.trim();
+    this.canonical = EmailAddress.canonicalize(this.address, options);
+  }
+
+  /**
+   * Build the canonical form of an address
+   */
+  static canonicalize(
+    address: string,
+    options: EmailAddressOptions = {},
+  ): string {
+    const lowered = address.trim().toLowerCase();
+    const at = lowered.lastIndexOf('@');
+    if (!options.foldProviderAliases || at === -1) {
+      return lowered;
+    }
+
+    let local = lowered.slice(0, at);
+    const domain = lowered.slice(at + 1);
+    const rule = PROVIDER_RULES[domain];
+    if (!rule) {
+      return lowered;
+    }
+
+    if (rule.plusTags) {
+      local = local.split('+')[0];
+    }
+    if (rule.ignoreDots) {
+      local = local.replace(/\./g, '');
+    }
+    return `${local}@${rule.domain}`;
+  }
+
+  /**
+   * Check if two addresses reach the same mailbox
+   */
+  equals(other: EmailAddress): boolean {
+    return this.canonical === other.canonical;
+  }
+
+  toString(): string {
+    return this.address;
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Email Change Entity - A change of a user's email awaiting verification
+ * The verification token is sent to the new address only; it is never part
+ * of the record handed back to clients
+ */
+export class EmailChange {
+  constructor(
+    public readonly userId: string,
+    public readonly newEmail: string,
+    public readonly requestedAt: Date,
+    public readonly expiresAt: Date,
+  ) {}
+
+  /**
+   * Check if the verification window has passed
+   */
+  isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt.getTime() <= now.getTime();
+  }
+}
@@ -0,0 +1,23 @@
+import { User } from './user.entity';
+import { AccessActor } from '../repositories/access-context.interface';
+
+/**
+ * Invitation Entity - An invited user awaiting acceptance by the invitee
+ * The single-use token is mailed to the invitee only; it is never part of
+ * the record handed back to clients
+ */
+export class Invitation {
+  constructor(
+    public readonly user: User,
+    public readonly invitedBy: AccessActor | null,
+    public readonly invitedAt: Date,
+    public readonly expiresAt: Date,
+  ) {}
+
+  /**
+   * Check if the acceptance window has passed
+   */
+  isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt.getTime() <= now.getTime();
+  }
+}
@@ -0,0 +1,54 @@
+import { PersonName } from './person-name.entity';
+
+describe('PersonName', () => {
+  describe('full', () => {
+    it('should write given names first by default', () => {
+      const name = new PersonName('John', 'Doe', { middleName: 'Paul' });
+
+      expect(name.full).toBe('John Paul Doe');
+    });
+
+    it('should write the family name first when the order says so', () => {
+      const name = new PersonName('An', 'Nguyễn', {
+        middleName: 'Văn',
+        nameOrder: 'family-first',
+      });
+
+      expect(name.full).toBe('Nguyễn Văn An');
+    });
+  });
+
+  describe('details', () => {
+    it('should only carry the parts that are set', () => {
+      const name = new PersonName('John', 'Doe', { preferredName: 'Johnny' });
+
+      expect(name.details).toEqual({
+        nameOrder: 'given-first',
+        preferredName: 'Johnny',
+      });
+    });
+
+    it('should keep current parts that are not changed', () => {
+      const name = new PersonName('John', 'Doe', {
+        middleName: 'Paul',
+        honorific: 'Dr.',
+      });
+
+      expect(name.withDetails({ middleName: '' })).toEqual({
+        middleName: '',
+        preferredName: '',
+        honorific: 'Dr.',
+        nameOrder: 'given-first',
+      });
+    });
+  });
+
+  it('should compare every part and the order', () => {
+    const name = PersonName.fromFields({ firstName: 'An', lastName: 'Le' });
+
+    expect(name.equals(new PersonName('An', 'Le'))).toBe(true);
+    expect(
+      name.equals(new PersonName('An', 'Le', { nameOrder: 'family-first' })),
+    ).toBe(false);
+  });
+});
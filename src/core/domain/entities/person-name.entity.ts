@@ -0,0 +1,119 @@
+/**
+ * Order in which given and family names are written
+ * `family-first` covers e.g. Chinese, Hungarian, Japanese, Korean and Vietnamese names
+ */
+export type NameOrder = 'given-first' | 'family-first';
+
+export const NAME_ORDERS: readonly NameOrder[] = [
+  'given-first',
+  'family-first',
+];
+
+/**
+ * Check if a value is a known name order
+ */
+export function isNameOrder(value: unknown): value is NameOrder {
+  return NAME_ORDERS.includes(value as NameOrder);
+}
+
+/**
+ * Name parts beyond the first (given) and last (family) name,
+ * named as they are stored on users and sent to the API
+ */
+export interface PersonNameDetails {
+  middleName?: string;
+  preferredName?: string;
+  honorific?: string;
+  nameOrder?: NameOrder;
+}
+
+/**
+ * Every name field of a user, as carried by entities and DTOs
+ */
+export interface PersonNameFields extends PersonNameDetails {
+  firstName: string;
+  lastName: string;
+}
+
+/**
+ * Person Name Value Object - The parts of a user's name and their order
+ * Formatting for display is left to the application layer
+ */
+export class PersonName {
+  readonly middle: string;
+  readonly preferred: string;
+  readonly honorific: string;
+  readonly order: NameOrder;
+
+  constructor(
+    public readonly given: string,
+    public readonly family: string,
+    details: PersonNameDetails = {},
+  ) {
+    this.middle = details.middleName ?? '';
+    this.preferred = details.preferredName ?? '';
+    this.honorific = details.honorific ?? '';
+    this.order = details.nameOrder ?? 'given-first';
+  }
+
+  /**
+   * Build a name from the flat fields of a user or DTO
+   */
+  static fromFields(fields: PersonNameFields): PersonName {
+    return new PersonName(fields.firstName, fields.lastName, fields);
+  }
+
+  /**
+   * Given, middle and family name in the name's own order
+   */
+  get full(): string {
+    const parts =
+      this.order === 'family-first'
+        ? [this.family, this.middle, this.given]
+        : [this.given, this.middle, this.family];
+    return parts.filter((part) => part.length > 0).join(' ');
+  }
+
+  /**
+   * The details that are set, for copying the name onto another user
+   */
+  get details(): PersonNameDetails {
+    const details: PersonNameDetails = { nameOrder: this.order };
+    if (this.middle) {
+      details.middleName = this.middle;
+    }
+    if (this.preferred) {
+      details.preferredName = this.preferred;
+    }
+    if (this.honorific) {
+      details.honorific = this.honorific;
+    }
+    return details;
+  }
+
+  /**
+   * Apply changed details; details left undefined keep their current value
+   */
+  withDetails(changes: PersonNameDetails): PersonNameDetails {
+    return {
+      middleName: changes.middleName ?? this.middle,
+      preferredName: changes.preferredName ?? this.preferred,
+      honorific: changes.honorific ?? this.honorific,
+      nameOrder: changes.nameOrder ?? this.order,
+    };
+  }
+
+  /**
+   * Check if two names have the same parts and order
+   */
+  equals(other: PersonName): boolean {
+    return (
+      this.given === other.given &&
+      this.middle === other.middle &&
+      this.family === other.family &&
+      this.preferred === other.preferred &&
+      this.honorific === other.honorific &&
+      this.order === other.order
+    );
+  }
+}
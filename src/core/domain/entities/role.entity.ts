@@ -0,0 +1,63 @@
+/**
+ * Roles a user can hold
+ */
+export type Role = 'admin' | 'manager' | 'viewer';
+
+/**
+ * Operations on user accounts that require authorization
+ */
+export type Permission =
+  | 'users:read'
+  | 'users:create'
+  | 'users:update'
+  | 'users:activate'
+  | 'users:deactivate'
+  | 'users:delete'
+  | 'users:assign-roles';
+
+/**
+ * All known roles, from most to least privileged
+ */
+export const ROLES: readonly Role[] = ['admin', 'manager', 'viewer'];
+
+/**
+ * Role Policy - Grants permissions to roles
+ * Managers can do everything except permanent deletion and role changes;
+ * viewers only read
+ */
+export const ROLE_PERMISSIONS: Readonly<Record<Role, readonly Permission[]>> = {
+  admin: [
+    'users:read',
+    'users:create',
+    'users:update',
+    'users:activate',
+    'users:deactivate',
+    'users:delete',
+    'users:assign-roles',
+  ],
+  manager: [
+    'users:read',
+    'users:create',
+    'users:update',
+    'users:activate',
+    'users:deactivate',
+  ],
+  viewer: ['users:read'],
+};
+
+/**
+ * Check if a value is a known role
+ */
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+/**
+ * Check if any of the given roles grants a permission
+ */
+export function hasPermission(
+  roles: readonly Role[],
+  permission: Permission,
+): boolean {
+  return roles.some((role) => ROLE_PERMISSIONS[role].includes(permission));
+}
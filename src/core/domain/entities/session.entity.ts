@@ -0,0 +1,88 @@
+import { Role, Permission, hasPermission, isRole } from './role.entity';
+
+/**
+ * Identity of the user that owns a session
+ */
+export interface SessionUser {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  roles: Role[];
+}
+
+/**
+ * Session Entity - Represents an authenticated session in the system
+ * A session holds the tokens issued at login and the identity they belong to
+ */
+export class Session {
+  constructor(
+    public readonly accessToken: string,
+    public readonly refreshToken: string,
+    public readonly expiresAt: Date,
+    public readonly user: SessionUser,
+  ) {
+    this.validateToken(accessToken, 'Access token');
+    this.validateToken(refreshToken, 'Refresh token');
+  }
+
+  /**
+   * Get the display name of the session user
+   */
+  get displayName(): string {
+    return `${this.user.firstName} ${this.user.lastName}`;
+  }
+
+  /**
+   * Check if the session user holds a permission
+   */
+  hasPermission(permission: Permission): boolean {
+    return hasPermission(this.user.roles, permission);
+  }
+
+  /**
+   * Check if the access token has expired
+   */
+  isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt.getTime() <= now.getTime();
+  }
+
+  /**
+   * Validate token presence
+   */
+  private validateToken(token: string, fieldName: string): void {
+    if (!token || token.trim().length === 0) {
+      throw new Error(`${fieldName} is required`);
+    }
+  }
+
+  /**
+   * Convert entity to plain object for serialization
+   */
+  toJSON(): Record<string, any> {
+    return {
+      accessToken: this.accessToken,
+      refreshToken: this.refreshToken,
+      expiresAt: this.expiresAt.toISOString(),
+      user: { ...this.user, roles: [...this.user.roles] },
+    };
+  }
+
+  /**
+   * Create Session entity from plain object
+   */
+  static fromJSON(data: any): Session {
+    return new Session(
+      data.accessToken,
+      data.refreshToken,
+      new Date(data.expiresAt),
+      {
+        id: data.user.id,
+        email: data.user.email,
+        firstName: data.user.firstName,
+        lastName: data.user.lastName,
+        roles: (data.user.roles ?? []).filter(isRole),
+      },
+    );
+  }
+}
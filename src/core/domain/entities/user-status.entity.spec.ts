@@ -0,0 +1,85 @@
+import {
+  USER_STATUSES,
+  USER_STATUS_TRANSITIONS,
+  canTransition,
+  isActiveFilter,
+  isUserStatus,
+  transitionRefusal,
+  userStatusFromPayload,
+} from './user-status.entity';
+
+describe('UserStatus', () => {
+  it('should only lead to known statuses', () => {
+    Object.values(USER_STATUS_TRANSITIONS).forEach((rule) => {
+      rule.from.forEach((status) => expect(isUserStatus(status)).toBe(true));
+      expect(rule.to === null || isUserStatus(rule.to)).toBe(true);
+    });
+  });
+
+  it('should let every status except scheduled deletion be deactivated', () => {
+    const deactivatable = USER_STATUSES.filter((status) =>
+      canTransition(status, 'deactivate'),
+    );
+
+    expect(deactivatable).toEqual(['invited', 'active', 'suspended', 'locked']);
+  });
+
+  it('should only purge deactivated users', () => {
+    expect(canTransition('deactivated', 'purge')).toBe(true);
+    expect(canTransition('scheduled-for-deletion', 'purge')).toBe(true);
+    expect(canTransition('active', 'purge')).toBe(false);
+    expect(canTransition('suspended', 'purge')).toBe(false);
+  });
+
+  it('should only accept invited users', () => {
+    expect(canTransition('invited', 'accept')).toBe(true);
+    expect(canTransition('invited', 'activate')).toBe(false);
+    expect(canTransition('deactivated', 'accept')).toBe(false);
+  });
+
+  it('should only revoke invitations that were not accepted', () => {
+    expect(canTransition('invited', 'revoke')).toBe(true);
+    expect(canTransition('active', 'revoke')).toBe(false);
+    expect(transitionRefusal('active', 'revoke')).toBe(
+      'User is active and cannot be revoked',
+    );
+  });
+
+  it('should explain refused transitions', () => {
+    expect(transitionRefusal('active', 'activate')).toBe(
+      'User is already active',
+    );
+    expect(transitionRefusal('locked', 'purge')).toBe(
+      'User is locked and cannot be deleted permanently',
+    );
+  });
+
+  describe('userStatusFromPayload', () => {
+    it('should prefer a known status', () => {
+      expect(userStatusFromPayload({ status: 'locked', isActive: false })).toBe(
+        'locked',
+      );
+    });
+
+    it('should fall back to isActive', () => {
+      expect(userStatusFromPayload({ isActive: true })).toBe('active');
+      expect(userStatusFromPayload({ isActive: false })).toBe('deactivated');
+      expect(userStatusFromPayload({ status: 'archived' })).toBe('active');
+    });
+  });
+
+  describe('isActiveFilter', () => {
+    it('should map the active status and all inactive ones', () => {
+      expect(isActiveFilter(['active'])).toBe(true);
+      expect(
+        isActiveFilter(USER_STATUSES.filter((status) => status !== 'active')),
+      ).toBe(false);
+    });
+
+    it('should leave other selections to the status filter', () => {
+      expect(isActiveFilter(['deactivated'])).toBeUndefined();
+      expect(isActiveFilter(['active', 'locked'])).toBeUndefined();
+      expect(isActiveFilter(USER_STATUSES)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Lifecycle states of a user account
+ * Only active users can sign in; the other states say why not
+ */
+export type UserStatus =
+  | 'invited'
+  | 'active'
+  | 'suspended'
+  | 'locked'
+  | 'deactivated'
+  | 'scheduled-for-deletion';
+
+/**
+ * All known statuses, in lifecycle order
+ */
+export const USER_STATUSES: readonly UserStatus[] = [
+  'invited',
+  'active',
+  'suspended',
+  'locked',
+  'deactivated',
+  'scheduled-for-deletion',
+];
+
+export const USER_STATUS_LABELS: Readonly<Record<UserStatus, string>> = {
+  invited: 'Invited',
+  active: 'Active',
+  suspended: 'Suspended',
+  locked: 'Locked',
+  deactivated: 'Deactivated',
+  'scheduled-for-deletion': 'Scheduled for deletion',
+};
+
+/**
+ * Changes of status a user can go through
+ */
+export type UserStatusTransition =
+  | 'accept'
+  | 'activate'
+  | 'suspend'
+  | 'lock'
+  | 'deactivate'
+  | 'schedule-deletion'
+  | 'cancel-deletion'
+  | 'purge'
+  | 'revoke';
+
+/**
+ * Transitions without a command of their own; they change the status only
+ */
+export type UserStatusChange = Extract<
+  UserStatusTransition,
+  'suspend' | 'lock' | 'schedule-deletion' | 'cancel-deletion'
+>;
+
+/**
+ * A transition: the statuses it is allowed from and the status it leads to
+ * `to` is null for purge and revoke, after which the user no longer exists
+ */
+export interface UserStatusTransitionRule {
+  from: readonly UserStatus[];
+  to: UserStatus | null;
+  description: string;
+}
+
+/**
+ * User Status Policy - The state machine of the user lifecycle
+ * Only deactivated users can be purged, so every deletion is preceded by a
+ * recorded deactivation; reactivation also unlocks and ends suspensions.
+ * An invitation that was never accepted is revoked rather than purged
+ */
+export const USER_STATUS_TRANSITIONS: Readonly<
+  Record<UserStatusTransition, UserStatusTransitionRule>
+> = {
+  accept: { from: ['invited'], to: 'active', description: 'accepted' },
+  activate: {
+    from: ['suspended', 'locked', 'deactivated'],
+    to: 'active',
+    description: 'activated',
+  },
+  suspend: { from: ['active'], to: 'suspended', description: 'suspended' },
+  lock: { from: ['active'], to: 'locked', description: 'locked' },
+  deactivate: {
+    from: ['invited', 'active', 'suspended', 'locked'],
+    to: 'deactivated',
+    description: 'deactivated',
+  },
+  'schedule-deletion': {
+    from: ['deactivated'],
+    to: 'scheduled-for-deletion',
+    description: 'scheduled for deletion',
+  },
+  'cancel-deletion': {
+    from: ['scheduled-for-deletion'],
+    to: 'deactivated',
+    description: 'taken off the deletion schedule',
+  },
+  purge: {
+    from: ['deactivated', 'scheduled-for-deletion'],
+    to: null,
+    description: 'deleted permanently',
+  },
+  revoke: { from: ['invited'], to: null, description: 'revoked' },
+};
+
+/**
+ * Check if a value is a known status
+ */
+export function isUserStatus(value: unknown): value is UserStatus {
+  return USER_STATUSES.includes(value as UserStatus);
+}
+
+/**
+ * Check if a transition is allowed from a status
+ */
+export function canTransition(
+  status: UserStatus,
+  transition: UserStatusTransition,
+): boolean {
+  return USER_STATUS_TRANSITIONS[transition].from.includes(status);
+}
+
+/**
+ * Explain why a transition is not allowed from a status
+ */
+export function transitionRefusal(
+  status: UserStatus,
+  transition: UserStatusTransition,
+): string {
+  const rule = USER_STATUS_TRANSITIONS[transition];
+  const label = USER_STATUS_LABELS[status].toLowerCase();
+  return rule.to === status
+    ? `User is already ${label}`
+    : `User is ${label} and cannot be ${rule.description}`;
+}
+
+/**
+ * Read the status of a user payload
+ * Payloads from before statuses only carry `isActive`
+ */
+export function userStatusFromPayload(data: {
+  status?: unknown;
+  isActive?: unknown;
+}): UserStatus {
+  if (isUserStatus(data.status)) {
+    return data.status;
+  }
+  return data.isActive === false ? 'deactivated' : 'active';
+}
+
+/**
+ * The `isActive` filter selecting exactly the given statuses, for APIs from
+ * before statuses; undefined when the statuses are neither only the active
+ * one nor all inactive ones
+ */
+export function isActiveFilter(
+  statuses: readonly UserStatus[],
+): boolean | undefined {
+  const selected = new Set(statuses);
+  const inactive = USER_STATUSES.filter((status) => status !== 'active');
+
+  if (selected.size === 1 && selected.has('active')) {
+    return true;
+  }
+  if (
+    selected.size === inactive.length &&
+    inactive.every((status) => selected.has(status))
+  ) {
+    return false;
+  }
+  return undefined;
+}
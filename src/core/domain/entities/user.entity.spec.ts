@@ -1,4 +1,5 @@
 import { User } from './user.entity';
+import { Deactivation } from './deactivation.entity';
 
 describe('User Entity', () => {
   const validUserData = {
@@ -8,7 +9,7 @@ describe('User Entity', () => {
     lastName: 'Doe',
     createdAt: new Date('2023-01-01'),
     updatedAt: new Date('2023-01-01'),
-    isActive: true,
+    status: 'active' as const,
   };
 
   describe('Constructor', () => {
@@ -20,14 +21,15 @@ describe('User Entity', () => {
         validUserData.lastName,
         validUserData.createdAt,
         validUserData.updatedAt,
-        validUserData.isActive,
+        validUserData.status,
       );
 
       expect(user.id).toBe(validUserData.id);
       expect(user.email).toBe(validUserData.email);
       expect(user.firstName).toBe(validUserData.firstName);
       expect(user.lastName).toBe(validUserData.lastName);
-      expect(user.isActive).toBe(validUserData.isActive);
+      expect(user.status).toBe(validUserData.status);
+      expect(user.isActive).toBe(true);
     });
 
     it('should throw error for invalid email', () => {
@@ -48,12 +50,29 @@ describe('User Entity', () => {
         new User(
           validUserData.id,
           validUserData.email,
-          'A', // Too short
+          '   ', // Blank
           validUserData.lastName,
           validUserData.createdAt,
           validUserData.updatedAt,
         );
-      }).toThrowError('First name must be at least 2 characters long');
+      }).toThrowError('First name is required');
+    });
+
+    it('should leave configurable limits to the validation policy', () => {
+      // Longer than the default limit, as a deployment may allow
+      const longName =
+        'Wolfeschlegelsteinhausenbergerdorffwelchevoralternwaren';
+      const user = new User(
+        validUserData.id,
+        validUserData.email,
+        'A',
+        longName,
+        validUserData.createdAt,
+        validUserData.updatedAt,
+      );
+
+      expect(user.firstName).toBe('A');
+      expect(user.lastName).toBe(longName);
     });
 
     it('should throw error for invalid last name', () => {
@@ -66,7 +85,7 @@ describe('User Entity', () => {
           validUserData.createdAt,
           validUserData.updatedAt,
         );
-      }).toThrowError('Last name must be at least 2 characters long');
+      }).toThrowError('Last name is required');
     });
   });
 
@@ -81,7 +100,7 @@ describe('User Entity', () => {
         validUserData.lastName,
         validUserData.createdAt,
         validUserData.updatedAt,
-        validUserData.isActive,
+        validUserData.status,
       );
     });
 
@@ -105,7 +124,7 @@ describe('User Entity', () => {
         validUserData.lastName,
         validUserData.createdAt,
         validUserData.updatedAt,
-        validUserData.isActive,
+        validUserData.status,
       );
     });
 
@@ -120,6 +139,13 @@ describe('User Entity', () => {
       expect(updatedUser.updatedAt).not.toBe(user.updatedAt);
     });
 
+    it('should move to the next version with every change', () => {
+      expect(user.version).toBe(1);
+      expect(user.updateInfo('Jane', 'Smith').version).toBe(2);
+      expect(user.deactivate().activate().version).toBe(3);
+      expect(user.assignRole('viewer').version).toBe(2);
+    });
+
     it('should deactivate user', () => {
       const deactivatedUser = user.deactivate();
 
@@ -135,6 +161,112 @@ describe('User Entity', () => {
       expect(activatedUser.isActive).toBe(true);
       expect(activatedUser.id).toBe(user.id);
     });
+
+    it('should assign a role without changing the original', () => {
+      const manager = user.assignRole('manager');
+
+      expect(manager.roles).toEqual(['manager']);
+      expect(manager.hasRole('manager')).toBe(true);
+      expect(user.roles).toEqual([]);
+    });
+
+    it('should not duplicate an assigned role', () => {
+      const manager = user.assignRole('manager').assignRole('manager');
+
+      expect(manager.roles).toEqual(['manager']);
+    });
+
+    it('should revoke a role', () => {
+      const viewer = user
+        .assignRole('manager')
+        .assignRole('viewer')
+        .revokeRole('manager');
+
+      expect(viewer.roles).toEqual(['viewer']);
+    });
+
+    it('should record the deactivation and clear it on activation', () => {
+      const deactivation = new Deactivation(
+        'duplicate',
+        'Same as user 4',
+        { id: '1', name: 'John Doe' },
+        new Date('2023-02-01'),
+      );
+      const deactivatedUser = user.deactivate(deactivation);
+
+      expect(deactivatedUser.deactivation).toBe(deactivation);
+      expect(deactivatedUser.updateInfo('Jane', 'Doe').deactivation).toBe(
+        deactivation,
+      );
+      expect(deactivatedUser.activate().deactivation).toBeNull();
+    });
+
+    it('should refuse transitions the status does not allow', () => {
+      expect(() => user.activate()).toThrowError('User is already active');
+
+      const invited = new User(
+        validUserData.id,
+        validUserData.email,
+        validUserData.firstName,
+        validUserData.lastName,
+        validUserData.createdAt,
+        validUserData.updatedAt,
+        'invited',
+      );
+      expect(invited.can('activate')).toBe(false);
+      expect(() => invited.activate()).toThrowError(
+        'User is invited and cannot be activated',
+      );
+      expect(invited.deactivate().status).toBe('deactivated');
+    });
+
+    it('should suspend and lock active users only', () => {
+      expect(user.suspend().status).toBe('suspended');
+      expect(user.lock().status).toBe('locked');
+      expect(user.lock().activate().status).toBe('active');
+      expect(() => user.suspend().lock()).toThrowError(
+        'User is suspended and cannot be locked',
+      );
+    });
+
+    it('should schedule deactivated users for deletion and back', () => {
+      const deactivation = new Deactivation('duplicate', '', null, null);
+      const scheduled = user.deactivate(deactivation).scheduleDeletion();
+
+      expect(scheduled.status).toBe('scheduled-for-deletion');
+      expect(scheduled.deactivation).toBe(deactivation);
+      expect(scheduled.can('purge')).toBe(true);
+      expect(scheduled.cancelDeletion().status).toBe('deactivated');
+      expect(() => user.scheduleDeletion()).toThrowError(
+        'User is active and cannot be scheduled for deletion',
+      );
+    });
+
+    it('should only allow purging deactivated users', () => {
+      expect(user.can('purge')).toBe(false);
+      expect(user.deactivate().can('purge')).toBe(true);
+    });
+
+    it('should keep roles when deactivated', () => {
+      const deactivatedUser = user.assignRole('admin').deactivate();
+
+      expect(deactivatedUser.roles).toEqual(['admin']);
+    });
+
+    it('should reject unknown roles', () => {
+      expect(() => {
+        new User(
+          validUserData.id,
+          validUserData.email,
+          validUserData.firstName,
+          validUserData.lastName,
+          validUserData.createdAt,
+          validUserData.updatedAt,
+          'active',
+          ['owner' as any],
+        );
+      }).toThrowError('Unknown role: owner');
+    });
   });
 
   describe('Serialization', () => {
@@ -148,7 +280,7 @@ describe('User Entity', () => {
         validUserData.lastName,
         validUserData.createdAt,
         validUserData.updatedAt,
-        validUserData.isActive,
+        validUserData.status,
       );
     });
 
@@ -174,6 +306,7 @@ describe('User Entity', () => {
       expect(deserializedUser.firstName).toBe(user.firstName);
       expect(deserializedUser.lastName).toBe(user.lastName);
       expect(deserializedUser.isActive).toBe(user.isActive);
+      expect(deserializedUser.roles).toEqual(user.roles);
       expect(deserializedUser.createdAt.getTime()).toBe(
         user.createdAt.getTime(),
       );
@@ -181,5 +314,55 @@ describe('User Entity', () => {
         user.updatedAt.getTime(),
       );
     });
+
+    it('should read the status of payloads that only carry isActive', () => {
+      const json = user.toJSON();
+      delete json['status'];
+
+      expect(User.fromJSON(json).status).toBe('active');
+      expect(User.fromJSON({ ...json, isActive: false }).status).toBe(
+        'deactivated',
+      );
+      expect(
+        User.fromJSON({ ...json, status: 'suspended', isActive: false }).status,
+      ).toBe('suspended');
+    });
+
+    it('should round-trip the deactivation through JSON', () => {
+      const deactivated = user.deactivate(
+        new Deactivation(
+          'security',
+          '',
+          null,
+          new Date('2023-02-01T00:00:00.000Z'),
+        ),
+      );
+      const deserializedUser = User.fromJSON(deactivated.toJSON());
+
+      expect(deserializedUser.deactivation?.reason).toBe('security');
+      expect(deserializedUser.deactivation?.deactivatedBy).toBeNull();
+      expect(deserializedUser.deactivation?.deactivatedAt?.toISOString()).toBe(
+        '2023-02-01T00:00:00.000Z',
+      );
+    });
+
+    it('should drop a malformed deactivation time and actor', () => {
+      const json = {
+        ...user.deactivate().toJSON(),
+        deactivation: {
+          reason: 'security',
+          deactivatedBy: 'admin',
+          deactivatedAt: 'yesterday',
+        },
+      };
+      const deserializedUser = User.fromJSON(json);
+
+      expect(deserializedUser.deactivation?.reason).toBe('security');
+      expect(deserializedUser.deactivation?.deactivatedBy).toBeNull();
+      expect(deserializedUser.deactivation?.deactivatedAt).toBeNull();
+      expect(
+        deserializedUser.toJSON()['deactivation'].deactivatedAt,
+      ).toBeNull();
+    });
   });
 });
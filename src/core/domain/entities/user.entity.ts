@@ -1,8 +1,47 @@
+import { Role, isRole } from './role.entity';
+import {
+  PersonName,
+  PersonNameDetails,
+  isNameOrder,
+} from './person-name.entity';
+import { EmailAddress } from './email-address.entity';
+import { Deactivation } from './deactivation.entity';
+import {
+  UserStatus,
+  UserStatusTransition,
+  USER_STATUS_TRANSITIONS,
+  canTransition,
+  transitionRefusal,
+  userStatusFromPayload,
+} from './user-status.entity';
+import {
+  EMAIL_PATTERN,
+  normalizeName,
+} from '../validation/user-validation.policy';
+
 /**
  * User Entity - Core business entity representing a user in the system
  * This entity contains the business rules and logic for user data
+ * Every change yields a copy with the next `version`, which lets stale
+ * updates be detected; status changes follow USER_STATUS_TRANSITIONS
  */
 export class User {
+  /**
+   * Structured name: given, middle, family and preferred names with their order
+   */
+  readonly name: PersonName;
+
+  /**
+   * The email as entered with its canonical form for comparisons
+   */
+  readonly emailAddress: EmailAddress;
+
+  /**
+   * Why, when and by whom the user was deactivated; null unless deactivated
+   * or scheduled for deletion
+   */
+  readonly deactivation: Deactivation | null;
+
   constructor(
     public readonly id: string,
     public readonly email: string,
@@ -10,18 +49,50 @@ export class User {
     public readonly lastName: string,
     public readonly createdAt: Date,
     public readonly updatedAt: Date,
-    public readonly isActive: boolean = true,
+    public readonly status: UserStatus = 'active',
+    public readonly roles: readonly Role[] = [],
+    nameDetails: PersonNameDetails = {},
+    public readonly version: number = 1,
+    deactivation: Deactivation | null = null,
   ) {
-    this.validateEmail(email);
-    this.validateName(firstName, 'First name');
-    this.validateName(lastName, 'Last name');
+    this.validateFields(email, firstName, lastName, nameDetails);
+    this.validateRoles(roles);
+    this.name = new PersonName(firstName, lastName, nameDetails);
+    this.emailAddress = new EmailAddress(email);
+    this.deactivation =
+      status === 'deactivated' || status === 'scheduled-for-deletion'
+        ? deactivation
+        : null;
+  }
+
+  get middleName(): string {
+    return this.name.middle;
+  }
+
+  get preferredName(): string {
+    return this.name.preferred;
+  }
+
+  get honorific(): string {
+    return this.name.honorific;
+  }
+
+  get nameOrder(): PersonName['order'] {
+    return this.name.order;
   }
 
   /**
-   * Get the full name of the user
+   * Get the full name of the user in the name's own order
    */
   get fullName(): string {
-    return `${this.firstName} ${this.lastName}`;
+    return this.name.full;
+  }
+
+  /**
+   * Check if the user is active, the only status that can sign in
+   */
+  get isActive(): boolean {
+    return this.status === 'active';
   }
 
   /**
@@ -31,10 +102,29 @@ export class User {
     return this.isActive;
   }
 
+  /**
+   * Check if the user's status allows a transition
+   */
+  can(transition: UserStatusTransition): boolean {
+    return canTransition(this.status, transition);
+  }
+
+  /**
+   * Check if the user holds a role
+   */
+  hasRole(role: Role): boolean {
+    return this.roles.includes(role);
+  }
+
   /**
    * Create a new user with updated information
+   * Name details left undefined keep their current value
    */
-  updateInfo(firstName: string, lastName: string): User {
+  updateInfo(
+    firstName: string,
+    lastName: string,
+    nameDetails: PersonNameDetails = {},
+  ): User {
     return new User(
       this.id,
       this.email,
@@ -42,29 +132,130 @@ export class User {
       lastName,
       this.createdAt,
       new Date(),
-      this.isActive,
+      this.status,
+      this.roles,
+      this.name.withDetails(nameDetails),
+      this.version + 1,
+      this.deactivation,
     );
   }
 
   /**
-   * Deactivate the user
+   * Create a copy of the user with a new, verified email address
    */
-  deactivate(): User {
+  changeEmail(email: string): User {
     return new User(
       this.id,
-      this.email,
+      email,
       this.firstName,
       this.lastName,
       this.createdAt,
       new Date(),
-      false,
+      this.status,
+      this.roles,
+      this.name.details,
+      this.version + 1,
+      this.deactivation,
     );
   }
 
   /**
-   * Activate the user
+   * Deactivate the user, recording why, when and by whom
+   */
+  deactivate(deactivation: Deactivation | null = null): User {
+    return this.transition('deactivate', deactivation);
+  }
+
+  /**
+   * Activate the user, also ending a suspension or lock
    */
   activate(): User {
+    return this.transition('activate');
+  }
+
+  /**
+   * Accept the invitation of an invited user, activating them
+   */
+  accept(): User {
+    return this.transition('accept');
+  }
+
+  /**
+   * Suspend an active user for a while
+   */
+  suspend(): User {
+    return this.transition('suspend');
+  }
+
+  /**
+   * Lock an active user out, e.g. after failed sign-ins
+   */
+  lock(): User {
+    return this.transition('lock');
+  }
+
+  /**
+   * Schedule a deactivated user for deletion, keeping the deactivation
+   */
+  scheduleDeletion(): User {
+    return this.transition('schedule-deletion');
+  }
+
+  /**
+   * Take a user off the deletion schedule, back to deactivated
+   */
+  cancelDeletion(): User {
+    return this.transition('cancel-deletion');
+  }
+
+  /**
+   * Create a copy of the user in the status a transition leads to
+   * @throws Error if the current status does not allow the transition
+   */
+  private transition(
+    transition: UserStatusTransition,
+    deactivation: Deactivation | null = this.deactivation,
+  ): User {
+    const to = USER_STATUS_TRANSITIONS[transition].to;
+    if (!to || !this.can(transition)) {
+      throw new Error(transitionRefusal(this.status, transition));
+    }
+
+    return new User(
+      this.id,
+      this.email,
+      this.firstName,
+      this.lastName,
+      this.createdAt,
+      new Date(),
+      to,
+      this.roles,
+      this.name.details,
+      this.version + 1,
+      deactivation,
+    );
+  }
+
+  /**
+   * Assign a role to the user
+   */
+  assignRole(role: Role): User {
+    return this.withRoles(
+      this.hasRole(role) ? this.roles : [...this.roles, role],
+    );
+  }
+
+  /**
+   * Revoke a role from the user
+   */
+  revokeRole(role: Role): User {
+    return this.withRoles(this.roles.filter((r) => r !== role));
+  }
+
+  /**
+   * Create a copy of the user with a different set of roles
+   */
+  private withRoles(roles: readonly Role[]): User {
     return new User(
       this.id,
       this.email,
@@ -72,26 +263,57 @@ export class User {
       this.lastName,
       this.createdAt,
       new Date(),
-      true,
+      this.status,
+      roles,
+      this.name.details,
+      this.version + 1,
+      this.deactivation,
     );
   }
 
   /**
-   * Validate email format
+   * Check the invariants every user holds under any deployment settings
+   * Lengths and name patterns are configurable; the use cases enforce them
+   * with the injected UserValidationPolicy, so users valid under a
+   * deployment's policy can always be loaded
    */
-  private validateEmail(email: string): void {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
+  private validateFields(
+    email: string,
+    firstName: string,
+    lastName: string,
+    nameDetails: PersonNameDetails,
+  ): void {
+    if (!email?.trim()) {
+      throw new Error('Email is required');
+    }
+    if (!EMAIL_PATTERN.test(email.trim())) {
       throw new Error('Invalid email format');
     }
+    if (!normalizeName(firstName ?? '')) {
+      throw new Error('First name is required');
+    }
+    if (!normalizeName(lastName ?? '')) {
+      throw new Error('Last name is required');
+    }
+    if (
+      nameDetails.nameOrder !== undefined &&
+      !isNameOrder(nameDetails.nameOrder)
+    ) {
+      throw new Error('Unknown name order');
+    }
   }
 
   /**
-   * Validate name fields
+   * Validate assigned roles
    */
-  private validateName(name: string, fieldName: string): void {
-    if (!name || name.trim().length < 2) {
-      throw new Error(`${fieldName} must be at least 2 characters long`);
+  private validateRoles(roles: readonly Role[]): void {
+    const unknownRole = roles.find((role) => !isRole(role));
+    if (unknownRole !== undefined) {
+      throw new Error(`Unknown role: ${unknownRole}`);
+    }
+
+    if (new Set(roles).size !== roles.length) {
+      throw new Error('Roles must not contain duplicates');
     }
   }
 
@@ -104,10 +326,15 @@ export class User {
       email: this.email,
       firstName: this.firstName,
       lastName: this.lastName,
+      ...this.name.details,
       fullName: this.fullName,
       createdAt: this.createdAt.toISOString(),
       updatedAt: this.updatedAt.toISOString(),
+      status: this.status,
       isActive: this.isActive,
+      roles: [...this.roles],
+      version: this.version,
+      deactivation: this.deactivation?.toJSON() ?? null,
     };
   }
 
@@ -122,7 +349,16 @@ export class User {
       data.lastName,
       new Date(data.createdAt),
       new Date(data.updatedAt),
-      data.isActive,
+      userStatusFromPayload(data),
+      data.roles ?? [],
+      {
+        middleName: data.middleName,
+        preferredName: data.preferredName,
+        honorific: data.honorific,
+        nameOrder: isNameOrder(data.nameOrder) ? data.nameOrder : undefined,
+      },
+      data.version ?? 1,
+      Deactivation.fromJSON(data.deactivation),
     );
   }
 }
@@ -0,0 +1,127 @@
+import {
+  ConflictError,
+  DomainErrorFactory,
+  ForbiddenError,
+  InvalidUserDataError,
+  NetworkError,
+  RateLimitedError,
+  RepositoryError,
+  ServerError,
+  TimeoutError,
+  UnauthorizedError,
+  UserAlreadyExistsError,
+  UserNotFoundError,
+} from './domain-errors';
+
+describe('DomainErrorFactory', () => {
+  describe('fromHttpError', () => {
+    it('should map statuses to typed errors', () => {
+      const map = (status: number) =>
+        DomainErrorFactory.fromHttpError({ status });
+
+      expect(map(0)).toBeInstanceOf(NetworkError);
+      expect(map(400)).toBeInstanceOf(InvalidUserDataError);
+      expect(map(401)).toBeInstanceOf(UnauthorizedError);
+      expect(map(403)).toBeInstanceOf(ForbiddenError);
+      expect(map(409)).toBeInstanceOf(ConflictError);
+      expect(map(429)).toBeInstanceOf(RateLimitedError);
+      expect(map(503)).toBeInstanceOf(ServerError);
+      expect(map(418)).toBeInstanceOf(RepositoryError);
+    });
+
+    it('should carry the operation and status', () => {
+      const error = DomainErrorFactory.fromHttpError(
+        { status: 502 },
+        { operation: 'getAll' },
+      );
+
+      expect(error.operation).toBe('getAll');
+      expect(error.status).toBe(502);
+    });
+
+    it('should only report a missing user when the user is known', () => {
+      const known = DomainErrorFactory.fromHttpError(
+        { status: 404, url: '/api/users/7' },
+        { userId: '7' },
+      );
+      const unknown = DomainErrorFactory.fromHttpError({
+        status: 404,
+        url: '/api/users',
+      });
+
+      expect(known).toBeInstanceOf(UserNotFoundError);
+      expect(known.message).toBe('User with ID 7 not found');
+      expect(unknown).not.toBeInstanceOf(UserNotFoundError);
+    });
+
+    it('should keep the conflict details', () => {
+      const body = { message: 'Version mismatch', current: 3 };
+
+      const error = DomainErrorFactory.fromHttpError({
+        status: 409,
+        error: body,
+      });
+
+      expect(error.message).toBe('Version mismatch');
+      expect(error.details).toEqual(body);
+    });
+
+    it('should read Retry-After for rate limited requests', () => {
+      const error = DomainErrorFactory.fromHttpError({
+        status: 429,
+        headers: { get: () => '30' },
+      }) as RateLimitedError;
+
+      expect(error.retryAfter).toBe(30000);
+    });
+
+    it('should prefer status overrides of the operation', () => {
+      const error = DomainErrorFactory.fromHttpError(
+        { status: 409 },
+        {
+          operation: 'create',
+          statusOverrides: {
+            409: () => new UserAlreadyExistsError('a@example.com'),
+          },
+        },
+      );
+
+      expect(error).toBeInstanceOf(UserAlreadyExistsError);
+      expect(error.operation).toBe('create');
+      expect(error.status).toBe(409);
+    });
+
+    it('should pass domain errors through', () => {
+      const timeout = new TimeoutError('/api/users', 30000);
+
+      const error = DomainErrorFactory.fromHttpError(timeout, {
+        operation: 'getAll',
+      });
+
+      expect(error).toBe(timeout);
+      expect(error.operation).toBe('getAll');
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should read delay seconds', () => {
+      expect(DomainErrorFactory.parseRetryAfter('5')).toBe(5000);
+    });
+
+    it('should read an HTTP date', () => {
+      const now = Date.parse('Mon, 01 Jan 2024 00:00:00 GMT');
+
+      expect(
+        DomainErrorFactory.parseRetryAfter(
+          'Mon, 01 Jan 2024 00:00:03 GMT',
+          now,
+        ),
+      ).toBe(3000);
+    });
+
+    it('should return null for missing or invalid values', () => {
+      expect(DomainErrorFactory.parseRetryAfter(null)).toBeNull();
+      expect(DomainErrorFactory.parseRetryAfter('soon')).toBeNull();
+    });
+  });
+});
@@ -3,6 +3,8 @@
  * These errors represent business rule violations and domain-specific issues
  */
 
+import { Permission } from '../entities/role.entity';
+
 /**
  * Base domain error class
  */
@@ -11,6 +13,16 @@ export abstract class DomainError extends Error {
   abstract readonly userMessage: string;
   public readonly details?: any;
 
+  /**
+   * Repository operation that failed, set by DomainErrorFactory
+   */
+  public operation?: string;
+
+  /**
+   * HTTP status of the response the error was mapped from
+   */
+  public status?: number;
+
   constructor(message: string, details?: any) {
     super(message);
     this.name = this.constructor.name;
@@ -57,6 +69,65 @@ export class UserInactiveError extends DomainError {
   }
 }
 
+export class UserActiveError extends DomainError {
+  readonly code = 'USER_ACTIVE';
+  readonly userMessage = 'Deactivate the user before deleting them permanently';
+
+  constructor(userId: string) {
+    super(`User ${userId} is still active`);
+  }
+}
+
+/**
+ * Authentication errors
+ */
+export class InvalidCredentialsError extends DomainError {
+  readonly code = 'INVALID_CREDENTIALS';
+  readonly userMessage = 'Invalid email or password';
+
+  constructor() {
+    super('Invalid email or password');
+  }
+}
+
+export class SessionExpiredError extends DomainError {
+  readonly code = 'SESSION_EXPIRED';
+  readonly userMessage = 'Your session has expired. Please sign in again';
+
+  constructor() {
+    super('Session expired and could not be refreshed');
+  }
+}
+
+/**
+ * Authorization errors
+ */
+export class UnauthorizedError extends DomainError {
+  readonly code = 'UNAUTHORIZED';
+  readonly userMessage = 'Please sign in to continue';
+
+  constructor() {
+    super('Request was not authenticated');
+  }
+}
+
+/**
+ * Raised by use cases for a known missing permission, and for 403 responses
+ * where the server does not say which permission was missing
+ */
+export class ForbiddenError extends DomainError {
+  readonly code = 'FORBIDDEN';
+  readonly userMessage = 'You do not have permission to perform this action';
+
+  constructor(public readonly permission?: Permission) {
+    super(
+      permission
+        ? `Missing permission ${permission}`
+        : 'Request was refused by the server',
+    );
+  }
+}
+
 /**
  * Validation errors
  */
@@ -67,6 +138,7 @@ export class ValidationError extends DomainError {
   constructor(
     message: string,
     public readonly validationErrors: string[],
+    public readonly fieldErrors: Record<string, string> = {},
   ) {
     super(message);
   }
@@ -87,18 +159,49 @@ export class BusinessRuleViolationError extends DomainError {
   }
 }
 
+/**
+ * Optimistic concurrency errors
+ */
+export class ConcurrentModificationError extends DomainError {
+  readonly code = 'CONCURRENT_MODIFICATION';
+  readonly userMessage =
+    'This user was changed by someone else since you loaded it';
+
+  /**
+   * @param currentVersion Version now stored, if the source reports it
+   */
+  constructor(
+    public readonly userId: string,
+    public readonly expectedVersion: number,
+    public readonly currentVersion: number | null = null,
+  ) {
+    super(
+      `User ${userId} is no longer at version ${expectedVersion}` +
+        (currentVersion === null ? '' : ` (now ${currentVersion})`),
+    );
+  }
+}
+
 /**
  * Infrastructure errors
  */
+export class ConflictError extends DomainError {
+  readonly code = 'CONFLICT';
+  readonly userMessage =
+    'The request conflicts with the current state of the data';
+
+  constructor(message: string, details?: any) {
+    super(message, details);
+  }
+}
+
 export class RepositoryError extends DomainError {
   readonly code = 'REPOSITORY_ERROR';
   readonly userMessage = 'Data access error occurred';
 
-  constructor(
-    message: string,
-    public readonly operation: string,
-  ) {
+  constructor(message: string, operation: string) {
     super(message);
+    this.operation = operation;
   }
 }
 
@@ -111,44 +214,172 @@ export class NetworkError extends DomainError {
   }
 }
 
+export class RateLimitedError extends DomainError {
+  readonly code = 'RATE_LIMITED';
+  readonly userMessage = 'Too many requests. Please wait and try again';
+
+  /**
+   * @param retryAfter Milliseconds until requests are accepted again, if known
+   */
+  constructor(public readonly retryAfter: number | null) {
+    super(
+      retryAfter === null
+        ? 'Rate limited'
+        : `Rate limited, retry after ${retryAfter}ms`,
+    );
+  }
+}
+
+export class ServerError extends DomainError {
+  readonly code = 'SERVER_ERROR';
+  readonly userMessage =
+    'The server encountered an error. Please try again later';
+
+  constructor(status: number, message?: string) {
+    super(message || `Server responded with status ${status}`);
+    this.status = status;
+  }
+}
+
+export class TimeoutError extends DomainError {
+  readonly code = 'TIMEOUT';
+  readonly userMessage = 'The server took too long to respond';
+
+  constructor(
+    public readonly url: string,
+    public readonly timeoutMs: number,
+  ) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms`);
+  }
+}
+
+/**
+ * What DomainErrorFactory.fromHttpError knows about the failed request
+ */
+export interface HttpErrorContext {
+  operation?: string;
+  userId?: string;
+  statusOverrides?: Partial<Record<number, () => DomainError>>;
+}
+
 /**
  * Error factory for creating domain errors from different sources
  */
 export class DomainErrorFactory {
   /**
    * Create domain error from HTTP error
+   * `statusOverrides` lets an operation give a status a more specific meaning,
+   * e.g. a 409 on create means the email is taken
    */
-  static fromHttpError(httpError: any): DomainError {
-    if (httpError.status === 404) {
-      return new UserNotFoundError(httpError.url || 'unknown');
+  static fromHttpError(
+    httpError: any,
+    context: HttpErrorContext = {},
+  ): DomainError {
+    const domainError =
+      (httpError?.status !== undefined &&
+        context.statusOverrides?.[httpError.status]?.()) ||
+      DomainErrorFactory.mapHttpError(httpError, context);
+
+    domainError.operation ??= context.operation;
+    if (typeof httpError?.status === 'number') {
+      domainError.status ??= httpError.status;
     }
+    return domainError;
+  }
 
-    if (httpError.status === 409) {
-      return new UserAlreadyExistsError(httpError.error?.email || 'unknown');
+  /**
+   * Parse a Retry-After header value into milliseconds from `now`
+   * Accepts delay-seconds or an HTTP date; returns null when it cannot be read
+   */
+  static parseRetryAfter(
+    value: string | null | undefined,
+    now = Date.now(),
+  ): number | null {
+    if (!value || value.trim().length === 0) {
+      return null;
+    }
+
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) {
+      return Number(trimmed) * 1000;
     }
 
-    if (httpError.status === 400) {
+    const date = Date.parse(trimmed);
+    if (isNaN(date)) {
+      return null;
+    }
+
+    return Math.max(0, date - now);
+  }
+
+  private static mapHttpError(
+    httpError: any,
+    context: HttpErrorContext,
+  ): DomainError {
+    // Errors raised by interceptors, such as timeouts, are already typed
+    if (httpError instanceof DomainError) {
+      return httpError;
+    }
+
+    const status: number | undefined = httpError?.status;
+
+    if (status === 0) {
+      return new NetworkError('Network connection failed');
+    }
+
+    if (status === 400 || status === 422) {
       const validationErrors = httpError.error?.errors || [
         httpError.error?.message || 'Invalid data',
       ];
       return new InvalidUserDataError('Validation failed', validationErrors);
     }
 
-    if (httpError.status === 0) {
-      return new NetworkError('Network connection failed');
+    if (status === 401) {
+      return new UnauthorizedError();
+    }
+
+    if (status === 403) {
+      return new ForbiddenError();
+    }
+
+    // Only a request for a known user can tell which user is missing
+    if (status === 404 && context.userId) {
+      return new UserNotFoundError(context.userId);
+    }
+
+    if (status === 409) {
+      return new ConflictError(
+        httpError.error?.message || 'Conflict with the current state',
+        httpError.error,
+      );
+    }
+
+    if (status === 429) {
+      return new RateLimitedError(
+        DomainErrorFactory.parseRetryAfter(
+          httpError.headers?.get?.('Retry-After'),
+        ),
+      );
+    }
+
+    if (status !== undefined && status >= 500) {
+      return new ServerError(status, httpError.message);
     }
 
     return new RepositoryError(
-      httpError.message || 'Repository operation failed',
-      httpError.url || 'unknown',
+      httpError?.message || 'Repository operation failed',
+      context.operation || httpError?.url || 'unknown',
     );
   }
 
   /**
    * Create domain error from validation errors
    */
-  static fromValidationErrors(errors: string[]): ValidationError {
-    return new ValidationError('Validation failed', errors);
+  static fromValidationErrors(
+    errors: string[],
+    fieldErrors: Record<string, string> = {},
+  ): ValidationError {
+    return new ValidationError('Validation failed', errors, fieldErrors);
   }
 
   /**
@@ -0,0 +1,84 @@
+import { User } from '../entities/user.entity';
+
+/**
+ * User Domain Events - Facts raised by the use cases once a command succeeded
+ * Events are immutable and carry the state needed by subscribers, so that
+ * they don't have to load the user again
+ */
+abstract class UserEvent {
+  readonly occurredAt = new Date();
+
+  constructor(public readonly userId: string) {}
+}
+
+/**
+ * A user was created
+ */
+export class UserCreated extends UserEvent {
+  readonly type = 'UserCreated' as const;
+
+  constructor(public readonly user: User) {
+    super(user.id);
+  }
+}
+
+/**
+ * A user's details, email or roles were changed
+ */
+export class UserUpdated extends UserEvent {
+  readonly type = 'UserUpdated' as const;
+
+  constructor(public readonly user: User) {
+    super(user.id);
+  }
+}
+
+/**
+ * A user was deactivated (soft deleted)
+ */
+export class UserDeactivated extends UserEvent {
+  readonly type = 'UserDeactivated' as const;
+}
+
+/**
+ * A user was suspended, locked, or scheduled for or taken off deletion
+ */
+export class UserStatusChanged extends UserEvent {
+  readonly type = 'UserStatusChanged' as const;
+
+  constructor(public readonly user: User) {
+    super(user.id);
+  }
+}
+
+/**
+ * A deactivated user was activated again
+ */
+export class UserActivated extends UserEvent {
+  readonly type = 'UserActivated' as const;
+}
+
+/**
+ * A user was permanently deleted
+ */
+export class UserPurged extends UserEvent {
+  readonly type = 'UserPurged' as const;
+}
+
+export type UserDomainEvent =
+  | UserCreated
+  | UserUpdated
+  | UserDeactivated
+  | UserStatusChanged
+  | UserActivated
+  | UserPurged;
+
+export type UserDomainEventType = UserDomainEvent['type'];
+
+/**
+ * Narrow the event union to the events of the given types
+ */
+export type UserDomainEventOf<T extends UserDomainEventType> = Extract<
+  UserDomainEvent,
+  { type: T }
+>;
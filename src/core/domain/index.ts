@@ -1,15 +1,44 @@
 // Entities
 export * from './entities/user.entity';
+export * from './entities/session.entity';
+export * from './entities/credentials.entity';
+export * from './entities/role.entity';
+export * from './entities/person-name.entity';
+export * from './entities/email-change.entity';
+export * from './entities/invitation.entity';
+export * from './entities/email-address.entity';
+export * from './entities/deactivation.entity';
+export * from './entities/user-status.entity';
 
 // Repository Interfaces
 export * from './repositories/user.repository.interface';
+export * from './repositories/auth.repository.interface';
+export * from './repositories/session-storage.interface';
+export * from './repositories/access-context.interface';
+export * from './repositories/domain-event-publisher.interface';
 
 // Use Cases
 export * from './use-cases/get-user.use-case';
 export * from './use-cases/create-user.use-case';
 export * from './use-cases/update-user.use-case';
 export * from './use-cases/delete-user.use-case';
+export * from './use-cases/activate-user.use-case';
+export * from './use-cases/change-user-status.use-case';
+export * from './use-cases/bulk-user-operation.use-case';
 export * from './use-cases/list-users.use-case';
+export * from './use-cases/manage-user-roles.use-case';
+export * from './use-cases/change-email.use-case';
+export * from './use-cases/invite-user.use-case';
+export * from './use-cases/login.use-case';
+export * from './use-cases/logout.use-case';
+export * from './use-cases/refresh-session.use-case';
+
+// Events
+export * from './events/user.events';
 
 // Errors
 export * from './errors/domain-errors';
+
+// Validation
+export * from './validation/user-validation.policy';
+export * from './validation/deactivation.policy';
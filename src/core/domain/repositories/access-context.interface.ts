@@ -0,0 +1,26 @@
+import { Permission } from '../entities/role.entity';
+
+/**
+ * The signed-in user an operation is attributed to
+ */
+export interface AccessActor {
+  id: string;
+  name: string;
+}
+
+/**
+ * Access Context Interface - Describes who is performing an operation
+ * Use cases consult it before touching data; the application layer backs it
+ * with the current session
+ */
+export interface IAccessContext {
+  /**
+   * Check if the current user holds a permission
+   */
+  hasPermission(permission: Permission): boolean;
+
+  /**
+   * Get the user performing the operation, or null when nobody is signed in
+   */
+  currentActor(): AccessActor | null;
+}
@@ -0,0 +1,24 @@
+import { Observable } from 'rxjs';
+import { Credentials } from '../entities/credentials.entity';
+import { Session } from '../entities/session.entity';
+
+/**
+ * Auth Repository Interface - Defines the contract for authentication operations
+ * Implementations talk to an identity provider; the domain only sees sessions
+ */
+export interface IAuthRepository {
+  /**
+   * Exchange credentials for a new session
+   */
+  login(credentials: Credentials): Observable<Session>;
+
+  /**
+   * Exchange the refresh token of a session for a new session
+   */
+  refresh(session: Session): Observable<Session>;
+
+  /**
+   * Invalidate a session on the identity provider
+   */
+  logout(session: Session): Observable<void>;
+}
@@ -0,0 +1,20 @@
+import { UserDomainEvent } from '../events/user.events';
+
+/**
+ * Domain Event Publisher Interface - Where use cases report what happened
+ * Publishing must never fail the command that raised the event; the
+ * application layer backs it with the event bus
+ */
+export interface IDomainEventPublisher {
+  /**
+   * Hand an event to its subscribers
+   */
+  publish(event: UserDomainEvent): void;
+}
+
+/**
+ * Publisher that drops every event, for use cases created without one
+ */
+export const NO_DOMAIN_EVENTS: IDomainEventPublisher = {
+  publish: () => undefined,
+};
@@ -0,0 +1,22 @@
+import { Session } from '../entities/session.entity';
+
+/**
+ * Session Storage Interface - Defines where the current session is kept
+ * between page loads. Implementations decide the actual storage medium.
+ */
+export interface ISessionStorage {
+  /**
+   * Load the persisted session, if any
+   */
+  load(): Session | null;
+
+  /**
+   * Persist the given session
+   */
+  save(session: Session): void;
+
+  /**
+   * Remove any persisted session
+   */
+  clear(): void;
+}
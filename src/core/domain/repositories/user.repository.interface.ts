@@ -1,5 +1,55 @@
 import { Observable } from 'rxjs';
 import { User } from '../entities/user.entity';
+import { Role } from '../entities/role.entity';
+import { PersonNameDetails } from '../entities/person-name.entity';
+import { EmailChange } from '../entities/email-change.entity';
+import { Invitation } from '../entities/invitation.entity';
+import { Deactivation } from '../entities/deactivation.entity';
+import { UserStatus, UserStatusChange } from '../entities/user-status.entity';
+import { AccessActor } from './access-context.interface';
+
+/**
+ * Operations that can be applied to many users at once
+ * `delete` is the permanent deletion
+ */
+export type BulkUserOperation = 'activate' | 'deactivate' | 'delete';
+
+/**
+ * Per-user outcome of a bulk operation
+ */
+export interface BulkOperationResult {
+  successful: string[];
+  failed: Array<{
+    id: string;
+    error: string;
+  }>;
+}
+
+/**
+ * Fields the user list can be sorted by
+ * `name` orders by family name, then given and middle name
+ */
+export type UserSortField =
+  | 'name'
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'createdAt';
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Aggregate user counts; `newUsers` and `deactivatedUsers` cover the period
+ */
+export interface UserStats {
+  totalUsers: number;
+  activeUsers: number;
+  inactiveUsers: number;
+  newUsers: number;
+  deactivatedUsers: number;
+  periodStart: Date;
+  periodEnd: Date;
+}
 
 /**
  * User Repository Interface - Defines the contract for user data operations
@@ -14,7 +64,10 @@ export interface IUserRepository {
     page?: number;
     limit?: number;
     search?: string;
-    isActive?: boolean;
+    statuses?: readonly UserStatus[];
+    role?: Role;
+    sortBy?: UserSortField;
+    sortOrder?: SortOrder;
   }): Observable<{
     users: User[];
     total: number;
@@ -35,33 +88,129 @@ export interface IUserRepository {
   /**
    * Create a new user
    */
-  create(userData: {
-    email: string;
-    firstName: string;
-    lastName: string;
-  }): Observable<User>;
+  create(
+    userData: {
+      email: string;
+      firstName: string;
+      lastName: string;
+    } & PersonNameDetails,
+  ): Observable<User>;
 
   /**
    * Update an existing user
+   * With `expectedVersion`, fails with ConcurrentModificationError unless the
+   * stored user is still at that version
    */
   update(
     id: string,
     userData: {
       firstName?: string;
       lastName?: string;
-    },
+    } & PersonNameDetails,
+    expectedVersion?: number,
+  ): Observable<User>;
+
+  /**
+   * Replace the roles assigned to a user
+   */
+  updateRoles(id: string, roles: readonly Role[]): Observable<User>;
+
+  /**
+   * Get the email change awaiting verification for a user, if any
+   */
+  getPendingEmailChange(id: string): Observable<EmailChange | null>;
+
+  /**
+   * Record an email change and send a verification token to the new address
+   * A change still pending for the user is replaced
+   */
+  requestEmailChange(id: string, newEmail: string): Observable<EmailChange>;
+
+  /**
+   * Commit the pending email change if the token matches and has not expired
+   */
+  confirmEmailChange(id: string, token: string): Observable<User>;
+
+  /**
+   * Discard the pending email change of a user
+   */
+  cancelEmailChange(id: string): Observable<boolean>;
+
+  /**
+   * Create an invited user and mail them a single-use acceptance token
+   */
+  invite(
+    userData: {
+      email: string;
+      firstName: string;
+      lastName: string;
+    } & PersonNameDetails,
+    invitedBy: AccessActor | null,
+  ): Observable<Invitation>;
+
+  /**
+   * Get the invitations not accepted yet, including expired ones
+   */
+  getInvitations(): Observable<Invitation[]>;
+
+  /**
+   * Mail a new token with a new expiry; earlier tokens stop working
+   */
+  resendInvitation(userId: string): Observable<Invitation>;
+
+  /**
+   * Withdraw an invitation, removing the invited user
+   */
+  revokeInvitation(userId: string): Observable<boolean>;
+
+  /**
+   * Get the invitation a token belongs to, or null for unknown or used tokens
+   */
+  getInvitationByToken(token: string): Observable<Invitation | null>;
+
+  /**
+   * Activate the invited user with the names they confirmed
+   * The token is used up; fails once it has expired
+   */
+  acceptInvitation(
+    token: string,
+    userData: {
+      firstName: string;
+      lastName: string;
+    } & PersonNameDetails,
   ): Observable<User>;
 
   /**
-   * Delete a user (soft delete - deactivate)
+   * Delete a user (soft delete - deactivate), recording why, when and by whom
+   */
+  delete(id: string, deactivation: Deactivation): Observable<boolean>;
+
+  /**
+   * Reactivate a deactivated user
+   */
+  activate(id: string): Observable<User>;
+
+  /**
+   * Suspend, lock, or schedule a user for or take them off deletion
    */
-  delete(id: string): Observable<boolean>;
+  changeStatus(id: string, change: UserStatusChange): Observable<User>;
 
   /**
    * Permanently delete a user (hard delete)
    */
   permanentDelete(id: string): Observable<boolean>;
 
+  /**
+   * Apply an operation to several users in one batch
+   * Users that cannot be processed are reported as failed; the rest still apply
+   * `deactivation` is recorded on every user a deactivation applies to
+   */
+  bulkOperation(
+    ids: string[],
+    operation: BulkUserOperation,
+    deactivation?: Deactivation,
+  ): Observable<BulkOperationResult>;
+
   /**
    * Check if a user exists by email
    */
@@ -77,6 +226,11 @@ export interface IUserRepository {
    */
   getActiveUsersCount(): Observable<number>;
 
+  /**
+   * Get user statistics, with new users and deactivations counted in the period
+   */
+  getStats(startDate: Date, endDate: Date): Observable<UserStats>;
+
   /**
    * Search users by name or email
    */
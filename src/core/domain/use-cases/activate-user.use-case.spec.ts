@@ -0,0 +1,106 @@
+import { of } from 'rxjs';
+import { User } from '../entities/user.entity';
+import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import {
+  BusinessRuleViolationError,
+  ForbiddenError,
+  UserNotFoundError,
+  ValidationError,
+} from '../errors/domain-errors';
+import { ActivateUserUseCase } from './activate-user.use-case';
+
+describe('ActivateUserUseCase', () => {
+  let useCase: ActivateUserUseCase;
+  let mockRepository: jasmine.SpyObj<IUserRepository>;
+  let mockAccessContext: jasmine.SpyObj<IAccessContext>;
+
+  const inactiveUser = new User(
+    '1',
+    'test@example.com',
+    'John',
+    'Doe',
+    new Date('2023-01-01'),
+    new Date('2023-01-01'),
+    'deactivated',
+  );
+
+  beforeEach(() => {
+    mockRepository = jasmine.createSpyObj('IUserRepository', [
+      'getById',
+      'activate',
+    ]);
+    mockAccessContext = jasmine.createSpyObj('IAccessContext', [
+      'hasPermission',
+    ]);
+    mockAccessContext.hasPermission.and.returnValue(true);
+
+    useCase = new ActivateUserUseCase(mockRepository, mockAccessContext);
+  });
+
+  it('should activate an inactive user', (done) => {
+    mockRepository.getById.and.returnValue(of(inactiveUser));
+    mockRepository.activate.and.returnValue(of(inactiveUser.activate()));
+
+    useCase.execute('1').subscribe({
+      next: (user) => {
+        expect(user.isActive).toBe(true);
+        expect(mockRepository.activate).toHaveBeenCalledWith('1');
+        done();
+      },
+      error: done.fail,
+    });
+  });
+
+  it('should not activate an already active user', (done) => {
+    mockRepository.getById.and.returnValue(of(inactiveUser.activate()));
+
+    useCase.execute('1').subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: (error) => {
+        expect(error).toBeInstanceOf(BusinessRuleViolationError);
+        expect(error.message).toBe('User is already active');
+        expect(mockRepository.activate).not.toHaveBeenCalled();
+        done();
+      },
+    });
+  });
+
+  it('should fail when the user does not exist', (done) => {
+    mockRepository.getById.and.returnValue(of(null));
+
+    useCase.execute('1').subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: (error) => {
+        expect(error).toBeInstanceOf(UserNotFoundError);
+        expect(error.code).toBe('USER_NOT_FOUND');
+        done();
+      },
+    });
+  });
+
+  it('should fail with ForbiddenError without users:activate', (done) => {
+    mockAccessContext.hasPermission.and.returnValue(false);
+
+    useCase.execute('1').subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: (error) => {
+        expect(error).toBeInstanceOf(ForbiddenError);
+        expect(mockRepository.getById).not.toHaveBeenCalled();
+        done();
+      },
+    });
+  });
+
+  it('should fail with ValidationError for missing ID', (done) => {
+    useCase.execute('').subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: (error) => {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.validationErrors).toEqual(['User ID is required']);
+        expect(mockRepository.getById).not.toHaveBeenCalled();
+        done();
+      },
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { Observable, throwError } from 'rxjs';
+import { switchMap, tap } from 'rxjs/operators';
+import { User } from '../entities/user.entity';
+import { transitionRefusal } from '../entities/user-status.entity';
+import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import {
+  IDomainEventPublisher,
+  NO_DOMAIN_EVENTS,
+} from '../repositories/domain-event-publisher.interface';
+import { UserActivated } from '../events/user.events';
+import {
+  BusinessRuleViolationError,
+  DomainErrorFactory,
+  ForbiddenError,
+  UserNotFoundError,
+} from '../errors/domain-errors';
+
+/**
+ * Activate User Use Case - Encapsulates the business logic for reactivating a user
+ * This use case is the counterpart of the soft delete in DeleteUserUseCase
+ */
+export class ActivateUserUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private accessContext: IAccessContext,
+    private events: IDomainEventPublisher = NO_DOMAIN_EVENTS,
+  ) {}
+
+  /**
+   * Execute the use case to reactivate a deactivated, suspended or locked user
+   */
+  execute(id: string): Observable<User> {
+    if (!this.accessContext.hasPermission('users:activate')) {
+      return throwError(() => new ForbiddenError('users:activate'));
+    }
+
+    if (!id || id.trim().length === 0) {
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors(['User ID is required']),
+      );
+    }
+
+    return this.userRepository.getById(id).pipe(
+      switchMap((user) => {
+        if (!user) {
+          return throwError(() => new UserNotFoundError(id));
+        }
+
+        // Business rule: The user's status must allow activation
+        if (!user.can('activate')) {
+          return throwError(
+            () =>
+              new BusinessRuleViolationError(
+                transitionRefusal(user.status, 'activate'),
+                'activate-inactive-only',
+              ),
+          );
+        }
+
+        return this.userRepository.activate(id);
+      }),
+      tap((user) => this.events.publish(new UserActivated(user.id))),
+    );
+  }
+}
@@ -0,0 +1,167 @@
+import { of } from 'rxjs';
+import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import { IDomainEventPublisher } from '../repositories/domain-event-publisher.interface';
+import { UserPurged } from '../events/user.events';
+import { Deactivation } from '../entities/deactivation.entity';
+import { ForbiddenError, ValidationError } from '../errors/domain-errors';
+import { BulkUserOperationUseCase } from './bulk-user-operation.use-case';
+
+describe('BulkUserOperationUseCase', () => {
+  let useCase: BulkUserOperationUseCase;
+  let mockRepository: jasmine.SpyObj<IUserRepository>;
+  let mockAccessContext: jasmine.SpyObj<IAccessContext>;
+  let mockEvents: jasmine.SpyObj<IDomainEventPublisher>;
+
+  beforeEach(() => {
+    mockRepository = jasmine.createSpyObj('IUserRepository', ['bulkOperation']);
+    mockRepository.bulkOperation.and.returnValue(
+      of({ successful: ['1', '2'], failed: [] }),
+    );
+    mockAccessContext = jasmine.createSpyObj('IAccessContext', [
+      'hasPermission',
+      'currentActor',
+    ]);
+    mockAccessContext.hasPermission.and.returnValue(true);
+    mockAccessContext.currentActor.and.returnValue({
+      id: '1',
+      name: 'John Doe',
+    });
+
+    mockEvents = jasmine.createSpyObj('IDomainEventPublisher', ['publish']);
+
+    useCase = new BulkUserOperationUseCase(
+      mockRepository,
+      mockAccessContext,
+      undefined,
+      mockEvents,
+    );
+  });
+
+  it('should pass trimmed unique IDs to the repository', (done) => {
+    useCase
+      .execute(['1', ' 2 ', '1', ''], 'deactivate', {
+        reason: 'duplicate',
+        note: 'Same as user 4',
+      })
+      .subscribe({
+        next: (result) => {
+          expect(mockRepository.bulkOperation).toHaveBeenCalledWith(
+            ['1', '2'],
+            'deactivate',
+            jasmine.any(Deactivation),
+          );
+          expect(result.successful).toEqual(['1', '2']);
+          done();
+        },
+        error: done.fail,
+      });
+  });
+
+  it('should record the reason and actor on deactivated users', (done) => {
+    useCase
+      .execute(['1', '2'], 'deactivate', { reason: 'duplicate', note: ' x ' })
+      .subscribe({
+        next: () => {
+          const deactivation =
+            mockRepository.bulkOperation.calls.mostRecent().args[2];
+          expect(deactivation).toBeInstanceOf(Deactivation);
+          expect(deactivation?.reason).toBe('duplicate');
+          expect(deactivation?.note).toBe('x');
+          expect(deactivation?.deactivatedBy).toEqual({
+            id: '1',
+            name: 'John Doe',
+          });
+          done();
+        },
+        error: done.fail,
+      });
+  });
+
+  it('should require a reason to deactivate', (done) => {
+    useCase.execute(['1'], 'deactivate').subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: (error) => {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.fieldErrors).toEqual({
+          reason: 'Deactivation reason is required',
+        });
+        expect(mockRepository.bulkOperation).not.toHaveBeenCalled();
+        done();
+      },
+    });
+  });
+
+  it('should publish an event for each successful user only', (done) => {
+    mockRepository.bulkOperation.and.returnValue(
+      of({
+        successful: ['1'],
+        failed: [{ id: '2', error: 'User is still active' }],
+      }),
+    );
+
+    useCase.execute(['1', '2'], 'delete').subscribe({
+      next: () => {
+        expect(mockEvents.publish).toHaveBeenCalledTimes(1);
+        const event = mockEvents.publish.calls.mostRecent().args[0];
+        expect(event).toBeInstanceOf(UserPurged);
+        expect(event.userId).toBe('1');
+        done();
+      },
+      error: done.fail,
+    });
+  });
+
+  it('should require the permission of the operation', (done) => {
+    mockAccessContext.hasPermission.and.callFake(
+      (permission) => permission !== 'users:delete',
+    );
+
+    useCase.execute(['1'], 'delete').subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: (error) => {
+        expect(error).toBeInstanceOf(ForbiddenError);
+        expect(error.permission).toBe('users:delete');
+        expect(mockRepository.bulkOperation).not.toHaveBeenCalled();
+        done();
+      },
+    });
+  });
+
+  it('should check users:activate for activation', () => {
+    useCase.execute(['1'], 'activate').subscribe();
+
+    expect(mockAccessContext.hasPermission).toHaveBeenCalledWith(
+      'users:activate',
+    );
+  });
+
+  it('should fail with ValidationError for an empty batch', (done) => {
+    useCase.execute([' '], 'activate').subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: (error) => {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.validationErrors).toEqual([
+          'At least one user ID is required',
+        ]);
+        done();
+      },
+    });
+  });
+
+  it('should fail with ValidationError for a batch over the limit', (done) => {
+    const ids = Array.from(
+      { length: BulkUserOperationUseCase.MAX_BATCH_SIZE + 1 },
+      (_, index) => String(index),
+    );
+
+    useCase.execute(ids, 'deactivate').subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: (error) => {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(mockRepository.bulkOperation).not.toHaveBeenCalled();
+        done();
+      },
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { Observable, throwError } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import { Permission } from '../entities/role.entity';
+import {
+  Deactivation,
+  DeactivationRequest,
+} from '../entities/deactivation.entity';
+import {
+  IUserRepository,
+  BulkUserOperation,
+  BulkOperationResult,
+} from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import {
+  IDomainEventPublisher,
+  NO_DOMAIN_EVENTS,
+} from '../repositories/domain-event-publisher.interface';
+import {
+  UserActivated,
+  UserDeactivated,
+  UserDomainEvent,
+  UserPurged,
+} from '../events/user.events';
+import { DomainErrorFactory, ForbiddenError } from '../errors/domain-errors';
+import { DeactivationPolicy } from '../validation/deactivation.policy';
+
+/**
+ * Bulk User Operation Use Case - Encapsulates the business logic for batch updates
+ * The batch is validated as a whole; per-user failures come back in the result
+ */
+export class BulkUserOperationUseCase {
+  /**
+   * Maximum number of users processed in one batch
+   */
+  static readonly MAX_BATCH_SIZE = 100;
+
+  private static readonly REQUIRED_PERMISSIONS: Record<
+    BulkUserOperation,
+    Permission
+  > = {
+    activate: 'users:activate',
+    deactivate: 'users:deactivate',
+    delete: 'users:delete',
+  };
+
+  private static readonly EVENTS: Record<
+    BulkUserOperation,
+    (id: string) => UserDomainEvent
+  > = {
+    activate: (id) => new UserActivated(id),
+    deactivate: (id) => new UserDeactivated(id),
+    delete: (id) => new UserPurged(id),
+  };
+
+  constructor(
+    private userRepository: IUserRepository,
+    private accessContext: IAccessContext,
+    private deactivationPolicy = new DeactivationPolicy(),
+    private events: IDomainEventPublisher = NO_DOMAIN_EVENTS,
+  ) {}
+
+  /**
+   * Execute the use case to apply an operation to several users
+   * Deactivation needs a reason, recorded on every deactivated user
+   */
+  execute(
+    ids: string[],
+    operation: BulkUserOperation,
+    deactivationRequest?: DeactivationRequest,
+  ): Observable<BulkOperationResult> {
+    const permission = BulkUserOperationUseCase.REQUIRED_PERMISSIONS[operation];
+    if (!permission) {
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors([
+          `Unknown bulk operation: ${operation}`,
+        ]),
+      );
+    }
+
+    if (!this.accessContext.hasPermission(permission)) {
+      return throwError(() => new ForbiddenError(permission));
+    }
+
+    const uniqueIds = [
+      ...new Set((ids || []).map((id) => id?.trim()).filter((id) => !!id)),
+    ];
+    const error = this.validateIds(uniqueIds);
+    if (error) {
+      return throwError(() => DomainErrorFactory.fromValidationErrors([error]));
+    }
+
+    if (operation === 'deactivate') {
+      const validationError =
+        this.deactivationPolicy.validate(deactivationRequest);
+      if (validationError) {
+        return throwError(() => validationError);
+      }
+    }
+
+    const deactivation =
+      operation === 'deactivate' && deactivationRequest
+        ? Deactivation.fromRequest(
+            deactivationRequest,
+            this.accessContext.currentActor(),
+          )
+        : undefined;
+
+    // One event per user the operation succeeded for
+    return this.userRepository
+      .bulkOperation(uniqueIds, operation, deactivation)
+      .pipe(
+        tap((result) =>
+          result.successful.forEach((id) =>
+            this.events.publish(BulkUserOperationUseCase.EVENTS[operation](id)),
+          ),
+        ),
+      );
+  }
+
+  /**
+   * Validate the batch once blank and duplicate IDs are dropped
+   */
+  private validateIds(uniqueIds: string[]): string | null {
+    if (uniqueIds.length === 0) {
+      return 'At least one user ID is required';
+    }
+
+    if (uniqueIds.length > BulkUserOperationUseCase.MAX_BATCH_SIZE) {
+      return `Cannot process more than ${BulkUserOperationUseCase.MAX_BATCH_SIZE} users at once`;
+    }
+
+    return null;
+  }
+}
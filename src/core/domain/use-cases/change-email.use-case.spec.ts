@@ -0,0 +1,224 @@
+import { of } from 'rxjs';
+import { User } from '../entities/user.entity';
+import { EmailChange } from '../entities/email-change.entity';
+import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import {
+  BusinessRuleViolationError,
+  ForbiddenError,
+  UserAlreadyExistsError,
+  ValidationError,
+} from '../errors/domain-errors';
+import { ChangeEmailUseCase } from './change-email.use-case';
+
+describe('ChangeEmailUseCase', () => {
+  let useCase: ChangeEmailUseCase;
+  let mockRepository: jasmine.SpyObj<IUserRepository>;
+  let mockAccessContext: jasmine.SpyObj<IAccessContext>;
+
+  const user = new User(
+    '1',
+    'old@example.com',
+    'John',
+    'Doe',
+    new Date('2023-01-01'),
+    new Date('2023-01-01'),
+  );
+
+  const pendingChange = (expiresAt: Date) =>
+    new EmailChange('1', 'new@example.com', new Date('2023-01-01'), expiresAt);
+
+  beforeEach(() => {
+    mockRepository = jasmine.createSpyObj('IUserRepository', [
+      'getById',
+      'existsByEmail',
+      'getPendingEmailChange',
+      'requestEmailChange',
+      'confirmEmailChange',
+      'cancelEmailChange',
+    ]);
+    mockAccessContext = jasmine.createSpyObj('IAccessContext', [
+      'hasPermission',
+    ]);
+    mockAccessContext.hasPermission.and.returnValue(true);
+
+    useCase = new ChangeEmailUseCase(mockRepository, mockAccessContext);
+  });
+
+  describe('executeRequest', () => {
+    it('should record a pending change for an unused email', (done) => {
+      const change = pendingChange(new Date(Date.now() + 60_000));
+      mockRepository.getById.and.returnValue(of(user));
+      mockRepository.existsByEmail.and.returnValue(of(false));
+      mockRepository.requestEmailChange.and.returnValue(of(change));
+
+      useCase.executeRequest('1', 'new@example.com').subscribe({
+        next: (result) => {
+          expect(result).toBe(change);
+          expect(mockRepository.existsByEmail).toHaveBeenCalledWith(
+            'new@example.com',
+          );
+          expect(mockRepository.requestEmailChange).toHaveBeenCalledWith(
+            '1',
+            'new@example.com',
+          );
+          done();
+        },
+        error: done.fail,
+      });
+    });
+
+    it('should refuse an email that is already taken', (done) => {
+      mockRepository.getById.and.returnValue(of(user));
+      mockRepository.existsByEmail.and.returnValue(of(true));
+
+      useCase.executeRequest('1', 'taken@example.com').subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(UserAlreadyExistsError);
+          expect(mockRepository.requestEmailChange).not.toHaveBeenCalled();
+          done();
+        },
+      });
+    });
+
+    it('should refuse the current email', (done) => {
+      mockRepository.getById.and.returnValue(of(user));
+
+      useCase.executeRequest('1', 'old@example.com').subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(BusinessRuleViolationError);
+          expect(error.rule).toBe('email-change-differs');
+          done();
+        },
+      });
+    });
+
+    it('should validate the new email with the policy', (done) => {
+      useCase.executeRequest('1', 'not-an-email').subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(ValidationError);
+          expect(error.fieldErrors).toEqual({ email: 'Invalid email format' });
+          expect(mockRepository.getById).not.toHaveBeenCalled();
+          done();
+        },
+      });
+    });
+
+    it('should require the update permission', (done) => {
+      mockAccessContext.hasPermission.and.returnValue(false);
+
+      useCase.executeRequest('1', 'new@example.com').subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(ForbiddenError);
+          expect(mockAccessContext.hasPermission).toHaveBeenCalledWith(
+            'users:update',
+          );
+          done();
+        },
+      });
+    });
+  });
+
+  describe('executeConfirm', () => {
+    it('should commit the change when the email is still unused', (done) => {
+      const changed = user.changeEmail('new@example.com');
+      mockRepository.getPendingEmailChange.and.returnValue(
+        of(pendingChange(new Date(Date.now() + 60_000))),
+      );
+      mockRepository.existsByEmail.and.returnValue(of(false));
+      mockRepository.confirmEmailChange.and.returnValue(of(changed));
+
+      useCase.executeConfirm('1', ' abc123 ').subscribe({
+        next: (result) => {
+          expect(result.email).toBe('new@example.com');
+          expect(mockRepository.confirmEmailChange).toHaveBeenCalledWith(
+            '1',
+            'abc123',
+          );
+          done();
+        },
+        error: done.fail,
+      });
+    });
+
+    it('should refuse an expired change', (done) => {
+      mockRepository.getPendingEmailChange.and.returnValue(
+        of(pendingChange(new Date(Date.now() - 1))),
+      );
+
+      useCase.executeConfirm('1', 'abc123').subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(BusinessRuleViolationError);
+          expect(error.rule).toBe('email-change-unexpired');
+          expect(mockRepository.confirmEmailChange).not.toHaveBeenCalled();
+          done();
+        },
+      });
+    });
+
+    it('should refuse when the email was taken meanwhile', (done) => {
+      mockRepository.getPendingEmailChange.and.returnValue(
+        of(pendingChange(new Date(Date.now() + 60_000))),
+      );
+      mockRepository.existsByEmail.and.returnValue(of(true));
+
+      useCase.executeConfirm('1', 'abc123').subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(UserAlreadyExistsError);
+          expect(mockRepository.confirmEmailChange).not.toHaveBeenCalled();
+          done();
+        },
+      });
+    });
+
+    it('should fail without a pending change', (done) => {
+      mockRepository.getPendingEmailChange.and.returnValue(of(null));
+
+      useCase.executeConfirm('1', 'abc123').subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(BusinessRuleViolationError);
+          expect(error.rule).toBe('email-change-pending');
+          done();
+        },
+      });
+    });
+
+    it('should require a token', (done) => {
+      useCase.executeConfirm('1', '  ').subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(ValidationError);
+          expect(error.validationErrors).toEqual([
+            'Verification token is required',
+          ]);
+          done();
+        },
+      });
+    });
+  });
+
+  describe('executeCancel', () => {
+    it('should discard the pending change', (done) => {
+      mockRepository.getPendingEmailChange.and.returnValue(
+        of(pendingChange(new Date(Date.now() + 60_000))),
+      );
+      mockRepository.cancelEmailChange.and.returnValue(of(true));
+
+      useCase.executeCancel('1').subscribe({
+        next: (result) => {
+          expect(result).toBe(true);
+          expect(mockRepository.cancelEmailChange).toHaveBeenCalledWith('1');
+          done();
+        },
+        error: done.fail,
+      });
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { Observable, of, throwError } from 'rxjs';
+import { switchMap, tap } from 'rxjs/operators';
+import { User } from '../entities/user.entity';
+import { EmailChange } from '../entities/email-change.entity';
+import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import {
+  IDomainEventPublisher,
+  NO_DOMAIN_EVENTS,
+} from '../repositories/domain-event-publisher.interface';
+import { UserUpdated } from '../events/user.events';
+import {
+  BusinessRuleViolationError,
+  DomainErrorFactory,
+  ForbiddenError,
+  UserAlreadyExistsError,
+  UserInactiveError,
+  UserNotFoundError,
+} from '../errors/domain-errors';
+import { UserValidationPolicy } from '../validation/user-validation.policy';
+
+/**
+ * Change Email Use Case - Encapsulates the business logic for changing a user's email
+ * A change is only recorded as pending; the email is replaced once the
+ * verification token sent to the new address is confirmed
+ */
+export class ChangeEmailUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private accessContext: IAccessContext,
+    private validationPolicy = new UserValidationPolicy(),
+    private events: IDomainEventPublisher = NO_DOMAIN_EVENTS,
+  ) {}
+
+  /**
+   * Execute the use case to get the email change awaiting verification
+   */
+  executeGetPending(id: string): Observable<EmailChange | null> {
+    if (!this.accessContext.hasPermission('users:read')) {
+      return throwError(() => new ForbiddenError('users:read'));
+    }
+
+    if (!id || id.trim().length === 0) {
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors(['User ID is required']),
+      );
+    }
+
+    return this.userRepository.getPendingEmailChange(id);
+  }
+
+  /**
+   * Execute the use case to request a change to a new, unused email
+   */
+  executeRequest(id: string, newEmail: string): Observable<EmailChange> {
+    const denied = this.checkUpdate(id);
+    if (denied) {
+      return denied;
+    }
+
+    const validationError = this.validationPolicy.toValidationError(
+      this.validationPolicy.validate({ email: newEmail }, { partial: true }),
+    );
+    if (validationError) {
+      return throwError(() => validationError);
+    }
+
+    const email = this.validationPolicy.emailAddress(newEmail);
+    return this.userRepository.getById(id).pipe(
+      switchMap((user) => {
+        if (!user) {
+          return throwError(() => new UserNotFoundError(id));
+        }
+
+        if (!user.isActive) {
+          return throwError(() => new UserInactiveError(id));
+        }
+
+        if (this.validationPolicy.emailAddress(user.email).equals(email)) {
+          return throwError(
+            () =>
+              new BusinessRuleViolationError(
+                'New email is the same as the current email',
+                'email-change-differs',
+              ),
+          );
+        }
+
+        return this.requireUnused(email.address);
+      }),
+      switchMap(() =>
+        this.userRepository.requestEmailChange(id, email.address),
+      ),
+    );
+  }
+
+  /**
+   * Execute the use case to commit the pending change with its token
+   * The new email is checked again, as it may have been taken meanwhile
+   */
+  executeConfirm(id: string, token: string): Observable<User> {
+    const denied = this.checkUpdate(id);
+    if (denied) {
+      return denied;
+    }
+
+    if (!token || token.trim().length === 0) {
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors([
+          'Verification token is required',
+        ]),
+      );
+    }
+
+    return this.pendingChange(id).pipe(
+      switchMap((change) => {
+        if (change.isExpired()) {
+          return throwError(
+            () =>
+              new BusinessRuleViolationError(
+                'The email change has expired, request a new one',
+                'email-change-unexpired',
+              ),
+          );
+        }
+
+        return this.requireUnused(change.newEmail);
+      }),
+      switchMap(() => this.userRepository.confirmEmailChange(id, token.trim())),
+      tap((user) => this.events.publish(new UserUpdated(user))),
+    );
+  }
+
+  /**
+   * Execute the use case to discard the pending change
+   */
+  executeCancel(id: string): Observable<boolean> {
+    const denied = this.checkUpdate(id);
+    if (denied) {
+      return denied;
+    }
+
+    return this.pendingChange(id).pipe(
+      switchMap(() => this.userRepository.cancelEmailChange(id)),
+    );
+  }
+
+  /**
+   * Fail unless the current user may update users and the ID is given
+   */
+  private checkUpdate(id: string): Observable<never> | null {
+    if (!this.accessContext.hasPermission('users:update')) {
+      return throwError(() => new ForbiddenError('users:update'));
+    }
+
+    if (!id || id.trim().length === 0) {
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors(['User ID is required']),
+      );
+    }
+
+    return null;
+  }
+
+  private pendingChange(id: string): Observable<EmailChange> {
+    return this.userRepository
+      .getPendingEmailChange(id)
+      .pipe(
+        switchMap((change) =>
+          change
+            ? of(change)
+            : throwError(
+                () =>
+                  new BusinessRuleViolationError(
+                    'No email change is pending for this user',
+                    'email-change-pending',
+                  ),
+              ),
+        ),
+      );
+  }
+
+  private requireUnused(address: string): Observable<boolean> {
+    const email = this.validationPolicy.emailAddress(address);
+    return this.userRepository
+      .existsByEmail(email.canonical)
+      .pipe(
+        switchMap((exists) =>
+          exists
+            ? throwError(() => new UserAlreadyExistsError(email.address))
+            : of(exists),
+        ),
+      );
+  }
+}
@@ -0,0 +1,124 @@
+import { of } from 'rxjs';
+import { User } from '../entities/user.entity';
+import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import { IDomainEventPublisher } from '../repositories/domain-event-publisher.interface';
+import { UserStatusChanged } from '../events/user.events';
+import {
+  BusinessRuleViolationError,
+  ForbiddenError,
+  UserNotFoundError,
+} from '../errors/domain-errors';
+import { ChangeUserStatusUseCase } from './change-user-status.use-case';
+
+describe('ChangeUserStatusUseCase', () => {
+  let useCase: ChangeUserStatusUseCase;
+  let mockRepository: jasmine.SpyObj<IUserRepository>;
+  let mockAccessContext: jasmine.SpyObj<IAccessContext>;
+  let mockEvents: jasmine.SpyObj<IDomainEventPublisher>;
+
+  const activeUser = new User(
+    '1',
+    'test@example.com',
+    'John',
+    'Doe',
+    new Date('2023-01-01'),
+    new Date('2023-01-01'),
+    'active',
+  );
+
+  beforeEach(() => {
+    mockRepository = jasmine.createSpyObj('IUserRepository', [
+      'getById',
+      'changeStatus',
+    ]);
+    mockRepository.getById.and.returnValue(of(activeUser));
+    mockAccessContext = jasmine.createSpyObj('IAccessContext', [
+      'hasPermission',
+    ]);
+    mockAccessContext.hasPermission.and.returnValue(true);
+    mockEvents = jasmine.createSpyObj('IDomainEventPublisher', ['publish']);
+
+    useCase = new ChangeUserStatusUseCase(
+      mockRepository,
+      mockAccessContext,
+      mockEvents,
+    );
+  });
+
+  it('should suspend an active user and publish the change', (done) => {
+    mockRepository.changeStatus.and.returnValue(of(activeUser.suspend()));
+
+    useCase.execute('1', 'suspend').subscribe({
+      next: (user) => {
+        expect(user.status).toBe('suspended');
+        expect(mockRepository.changeStatus).toHaveBeenCalledWith(
+          '1',
+          'suspend',
+        );
+        const event = mockEvents.publish.calls.mostRecent().args[0];
+        expect(event).toBeInstanceOf(UserStatusChanged);
+        expect(event.userId).toBe('1');
+        done();
+      },
+      error: done.fail,
+    });
+  });
+
+  it('should refuse a change the status does not allow', (done) => {
+    useCase.execute('1', 'schedule-deletion').subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: (error) => {
+        expect(error).toBeInstanceOf(BusinessRuleViolationError);
+        expect(error.message).toBe(
+          'User is active and cannot be scheduled for deletion',
+        );
+        expect(mockRepository.changeStatus).not.toHaveBeenCalled();
+        expect(mockEvents.publish).not.toHaveBeenCalled();
+        done();
+      },
+    });
+  });
+
+  it('should fail when the user does not exist', (done) => {
+    mockRepository.getById.and.returnValue(of(null));
+
+    useCase.execute('1', 'lock').subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: (error) => {
+        expect(error).toBeInstanceOf(UserNotFoundError);
+        done();
+      },
+    });
+  });
+
+  it('should need users:delete to schedule a deletion', (done) => {
+    mockAccessContext.hasPermission.and.callFake(
+      (permission) => permission !== 'users:delete',
+    );
+
+    useCase.execute('1', 'schedule-deletion').subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: (error) => {
+        expect(error).toBeInstanceOf(ForbiddenError);
+        expect(mockRepository.getById).not.toHaveBeenCalled();
+        done();
+      },
+    });
+  });
+
+  it('should need users:deactivate to suspend', (done) => {
+    mockAccessContext.hasPermission.and.returnValue(false);
+
+    useCase.execute('1', 'suspend').subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: (error) => {
+        expect(error).toBeInstanceOf(ForbiddenError);
+        expect(mockAccessContext.hasPermission).toHaveBeenCalledWith(
+          'users:deactivate',
+        );
+        done();
+      },
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { Observable, throwError } from 'rxjs';
+import { switchMap, tap } from 'rxjs/operators';
+import { User } from '../entities/user.entity';
+import { Permission } from '../entities/role.entity';
+import {
+  UserStatusChange,
+  transitionRefusal,
+} from '../entities/user-status.entity';
+import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import {
+  IDomainEventPublisher,
+  NO_DOMAIN_EVENTS,
+} from '../repositories/domain-event-publisher.interface';
+import { UserStatusChanged } from '../events/user.events';
+import {
+  BusinessRuleViolationError,
+  DomainErrorFactory,
+  ForbiddenError,
+  UserNotFoundError,
+} from '../errors/domain-errors';
+
+/**
+ * Change User Status Use Case - Encapsulates the business logic for the
+ * status changes that have no command of their own
+ * Suspending and locking take away sign-in like a deactivation; scheduling
+ * a deletion is the first step of one
+ */
+export class ChangeUserStatusUseCase {
+  private static readonly REQUIRED_PERMISSIONS: Record<
+    UserStatusChange,
+    Permission
+  > = {
+    suspend: 'users:deactivate',
+    lock: 'users:deactivate',
+    'schedule-deletion': 'users:delete',
+    'cancel-deletion': 'users:delete',
+  };
+
+  constructor(
+    private userRepository: IUserRepository,
+    private accessContext: IAccessContext,
+    private events: IDomainEventPublisher = NO_DOMAIN_EVENTS,
+  ) {}
+
+  /**
+   * Execute the use case to apply a status change the user's status allows
+   */
+  execute(id: string, change: UserStatusChange): Observable<User> {
+    const permission = ChangeUserStatusUseCase.REQUIRED_PERMISSIONS[change];
+    if (!permission) {
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors([
+          `Unknown status change: ${change}`,
+        ]),
+      );
+    }
+
+    if (!this.accessContext.hasPermission(permission)) {
+      return throwError(() => new ForbiddenError(permission));
+    }
+
+    if (!id || id.trim().length === 0) {
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors(['User ID is required']),
+      );
+    }
+
+    return this.userRepository.getById(id).pipe(
+      switchMap((user) => {
+        if (!user) {
+          return throwError(() => new UserNotFoundError(id));
+        }
+
+        // Business rule: The user's status must allow the change
+        if (!user.can(change)) {
+          return throwError(
+            () =>
+              new BusinessRuleViolationError(
+                transitionRefusal(user.status, change),
+                'status-transition',
+              ),
+          );
+        }
+
+        return this.userRepository.changeStatus(id, change);
+      }),
+      tap((user) => this.events.publish(new UserStatusChanged(user))),
+    );
+  }
+}
@@ -1,19 +1,40 @@
 import { of, throwError } from 'rxjs';
 import { User } from '../entities/user.entity';
 import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import { IDomainEventPublisher } from '../repositories/domain-event-publisher.interface';
+import { UserCreated } from '../events/user.events';
+import {
+  ForbiddenError,
+  UserAlreadyExistsError,
+  ValidationError,
+} from '../errors/domain-errors';
 import { CreateUserUseCase } from './create-user.use-case';
 
 describe('CreateUserUseCase', () => {
   let useCase: CreateUserUseCase;
   let mockRepository: jasmine.SpyObj<IUserRepository>;
+  let mockAccessContext: jasmine.SpyObj<IAccessContext>;
+  let mockEvents: jasmine.SpyObj<IDomainEventPublisher>;
 
   beforeEach(() => {
     mockRepository = jasmine.createSpyObj('IUserRepository', [
       'existsByEmail',
       'create',
     ]);
+    mockAccessContext = jasmine.createSpyObj('IAccessContext', [
+      'hasPermission',
+    ]);
+    mockAccessContext.hasPermission.and.returnValue(true);
+
+    mockEvents = jasmine.createSpyObj('IDomainEventPublisher', ['publish']);
 
-    useCase = new CreateUserUseCase(mockRepository);
+    useCase = new CreateUserUseCase(
+      mockRepository,
+      mockAccessContext,
+      undefined,
+      mockEvents,
+    );
   });
 
   describe('execute', () => {
@@ -23,6 +44,15 @@ describe('CreateUserUseCase', () => {
       lastName: 'Doe',
     };
 
+    const validationErrorsFor = (userData: typeof validUserData) => {
+      let failure: unknown;
+      useCase.execute(userData).subscribe({ error: (e) => (failure = e) });
+
+      expect(failure).toBeInstanceOf(ValidationError);
+      expect(mockRepository.existsByEmail).not.toHaveBeenCalled();
+      return (failure as ValidationError).validationErrors;
+    };
+
     it('should create user when email does not exist', (done) => {
       const expectedUser = new User(
         '1',
@@ -31,7 +61,7 @@ describe('CreateUserUseCase', () => {
         validUserData.lastName,
         new Date(),
         new Date(),
-        true,
+        'active',
       );
 
       mockRepository.existsByEmail.and.returnValue(of(false));
@@ -44,80 +74,151 @@ describe('CreateUserUseCase', () => {
             validUserData.email,
           );
           expect(mockRepository.create).toHaveBeenCalledWith(validUserData);
+          const event = mockEvents.publish.calls.mostRecent().args[0];
+          expect(event).toBeInstanceOf(UserCreated);
+          expect((event as UserCreated).user).toBe(expectedUser);
           done();
         },
         error: done.fail,
       });
     });
 
+    it('should accept international names', () => {
+      mockRepository.existsByEmail.and.returnValue(of(false));
+      mockRepository.create.and.returnValue(of());
+
+      for (const [firstName, lastName] of [
+        ['José', "O'Brien"],
+        ['Zoë', 'Anne-Marie'],
+        ['Nguyễn', 'Văn An'],
+        ['Мария', '李明'],
+      ]) {
+        useCase.execute({ ...validUserData, firstName, lastName }).subscribe();
+      }
+
+      expect(mockRepository.create).toHaveBeenCalledTimes(4);
+    });
+
+    it('should normalize names before creating the user', () => {
+      mockRepository.existsByEmail.and.returnValue(of(false));
+      mockRepository.create.and.returnValue(of());
+
+      useCase
+        .execute({
+          ...validUserData,
+          firstName: '  Jose\u0301  ',
+          lastName: 'Van   der  Berg',
+        })
+        .subscribe();
+
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        ...validUserData,
+        firstName: 'José',
+        lastName: 'Van der Berg',
+      });
+    });
+
+    it('should check uniqueness by the canonical email', () => {
+      mockRepository.existsByEmail.and.returnValue(of(false));
+      mockRepository.create.and.returnValue(of());
+
+      useCase
+        .execute({ ...validUserData, email: ' John.Doe@Example.com ' })
+        .subscribe();
+
+      expect(mockRepository.existsByEmail).toHaveBeenCalledWith(
+        'john.doe@example.com',
+      );
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        ...validUserData,
+        email: 'John.Doe@Example.com',
+      });
+    });
+
     it('should throw error when email already exists', (done) => {
       mockRepository.existsByEmail.and.returnValue(of(true));
 
       useCase.execute(validUserData).subscribe({
         next: () => done.fail('Should have thrown error'),
         error: (error) => {
-          expect(error.message).toBe('User with this email already exists');
+          expect(error).toBeInstanceOf(UserAlreadyExistsError);
+          expect(error.code).toBe('USER_ALREADY_EXISTS');
           expect(mockRepository.existsByEmail).toHaveBeenCalledWith(
             validUserData.email,
           );
           expect(mockRepository.create).not.toHaveBeenCalled();
+          expect(mockEvents.publish).not.toHaveBeenCalled();
           done();
         },
       });
     });
 
-    it('should throw error for invalid email', () => {
-      expect(() => {
-        useCase.execute({
-          ...validUserData,
-          email: 'invalid-email',
-        });
-      }).toThrowError('Invalid email format');
+    it('should fail with ValidationError for invalid email', () => {
+      expect(
+        validationErrorsFor({ ...validUserData, email: 'invalid-email' }),
+      ).toEqual(['Invalid email format']);
     });
 
-    it('should throw error for missing email', () => {
-      expect(() => {
-        useCase.execute({
-          ...validUserData,
-          email: '',
-        });
-      }).toThrowError('Email is required');
+    it('should fail with ValidationError for missing email', () => {
+      expect(validationErrorsFor({ ...validUserData, email: '' })).toEqual([
+        'Email is required',
+      ]);
     });
 
-    it('should throw error for missing first name', () => {
-      expect(() => {
-        useCase.execute({
-          ...validUserData,
-          firstName: '',
-        });
-      }).toThrowError('First name is required');
+    it('should fail with ValidationError for missing first name', () => {
+      expect(validationErrorsFor({ ...validUserData, firstName: '' })).toEqual([
+        'First name is required',
+      ]);
     });
 
-    it('should throw error for missing last name', () => {
-      expect(() => {
-        useCase.execute({
-          ...validUserData,
-          lastName: '',
-        });
-      }).toThrowError('Last name is required');
+    it('should fail with ValidationError for missing last name', () => {
+      expect(validationErrorsFor({ ...validUserData, lastName: '' })).toEqual([
+        'Last name is required',
+      ]);
     });
 
-    it('should throw error for short first name', () => {
-      expect(() => {
-        useCase.execute({
-          ...validUserData,
-          firstName: 'A',
-        });
-      }).toThrowError('First name must be at least 2 characters long');
+    it('should fail with ValidationError for long first name', () => {
+      expect(
+        validationErrorsFor({ ...validUserData, firstName: 'A'.repeat(51) }),
+      ).toEqual(['First name must be at most 50 characters long']);
     });
 
-    it('should throw error for invalid first name characters', () => {
-      expect(() => {
-        useCase.execute({
-          ...validUserData,
-          firstName: 'John123',
-        });
-      }).toThrowError('First name can only contain letters and spaces');
+    it('should fail with ValidationError for invalid first name characters', () => {
+      expect(
+        validationErrorsFor({ ...validUserData, firstName: 'John123' }),
+      ).toEqual([
+        'First name can only contain letters, spaces, hyphens and apostrophes',
+      ]);
+    });
+
+    it('should report every invalid field at once', () => {
+      expect(
+        validationErrorsFor({
+          email: 'invalid',
+          firstName: '',
+          lastName: 'X1',
+        }),
+      ).toEqual([
+        'Invalid email format',
+        'First name is required',
+        'Last name can only contain letters, spaces, hyphens and apostrophes',
+      ]);
+    });
+
+    it('should fail with ForbiddenError without users:create', (done) => {
+      mockAccessContext.hasPermission.and.returnValue(false);
+
+      useCase.execute(validUserData).subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(ForbiddenError);
+          expect(mockAccessContext.hasPermission).toHaveBeenCalledWith(
+            'users:create',
+          );
+          expect(mockRepository.create).not.toHaveBeenCalled();
+          done();
+        },
+      });
     });
 
     it('should handle repository errors', (done) => {
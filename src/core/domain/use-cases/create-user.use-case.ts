@@ -1,89 +1,69 @@
 import { Observable, throwError } from 'rxjs';
-import { switchMap, map } from 'rxjs/operators';
+import { switchMap, tap } from 'rxjs/operators';
 import { User } from '../entities/user.entity';
+import { PersonNameDetails } from '../entities/person-name.entity';
 import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import {
+  IDomainEventPublisher,
+  NO_DOMAIN_EVENTS,
+} from '../repositories/domain-event-publisher.interface';
+import { UserCreated } from '../events/user.events';
+import {
+  ForbiddenError,
+  UserAlreadyExistsError,
+} from '../errors/domain-errors';
+import { UserValidationPolicy } from '../validation/user-validation.policy';
 
 /**
  * Create User Use Case - Encapsulates the business logic for creating a new user
  * This use case contains all the business rules and validation for user creation
  */
 export class CreateUserUseCase {
-  constructor(private userRepository: IUserRepository) {}
+  constructor(
+    private userRepository: IUserRepository,
+    private accessContext: IAccessContext,
+    private validationPolicy = new UserValidationPolicy(),
+    private events: IDomainEventPublisher = NO_DOMAIN_EVENTS,
+  ) {}
 
   /**
    * Execute the use case to create a new user
    */
-  execute(userData: {
-    email: string;
-    firstName: string;
-    lastName: string;
-  }): Observable<User> {
+  execute(
+    userData: {
+      email: string;
+      firstName: string;
+      lastName: string;
+    } & PersonNameDetails,
+  ): Observable<User> {
+    if (!this.accessContext.hasPermission('users:create')) {
+      return throwError(() => new ForbiddenError('users:create'));
+    }
+
     // Validate input data
-    this.validateUserData(userData);
+    const data = this.validationPolicy.normalize(userData);
+    const validationError = this.validationPolicy.toValidationError(
+      this.validationPolicy.validate(data),
+    );
+    if (validationError) {
+      return throwError(() => validationError);
+    }
 
-    // Check if user already exists
-    return this.userRepository.existsByEmail(userData.email).pipe(
+    // Check if the mailbox is taken under any spelling of the address;
+    // the user keeps the address as entered
+    const email = this.validationPolicy.emailAddress(data.email);
+    return this.userRepository.existsByEmail(email.canonical).pipe(
       switchMap((exists) => {
         if (exists) {
-          return throwError(
-            () => new Error('User with this email already exists'),
-          );
+          return throwError(() => new UserAlreadyExistsError(email.address));
         }
 
-        // Create the user
-        return this.userRepository.create(userData);
-      }),
-      map((user) => {
-        // Additional business logic after user creation can be added here
-        // For example: send welcome email, create user profile, etc.
-        return user;
+        // Create the user with normalized names
+        return this.userRepository.create({ ...data, email: email.address });
       }),
+      // Follow-up work such as welcome emails subscribes to this event
+      tap((user) => this.events.publish(new UserCreated(user))),
     );
   }
-
-  /**
-   * Validate user data according to business rules
-   */
-  private validateUserData(userData: {
-    email: string;
-    firstName: string;
-    lastName: string;
-  }): void {
-    if (!userData.email || userData.email.trim().length === 0) {
-      throw new Error('Email is required');
-    }
-
-    if (!userData.firstName || userData.firstName.trim().length === 0) {
-      throw new Error('First name is required');
-    }
-
-    if (!userData.lastName || userData.lastName.trim().length === 0) {
-      throw new Error('Last name is required');
-    }
-
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(userData.email)) {
-      throw new Error('Invalid email format');
-    }
-
-    // Validate name length
-    if (userData.firstName.trim().length < 2) {
-      throw new Error('First name must be at least 2 characters long');
-    }
-
-    if (userData.lastName.trim().length < 2) {
-      throw new Error('Last name must be at least 2 characters long');
-    }
-
-    // Validate name format (only letters and spaces)
-    const nameRegex = /^[a-zA-Z\s]+$/;
-    if (!nameRegex.test(userData.firstName)) {
-      throw new Error('First name can only contain letters and spaces');
-    }
-
-    if (!nameRegex.test(userData.lastName)) {
-      throw new Error('Last name can only contain letters and spaces');
-    }
-  }
 }
@@ -0,0 +1,216 @@
+import { of } from 'rxjs';
+import { User } from '../entities/user.entity';
+import { Deactivation } from '../entities/deactivation.entity';
+import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import { IDomainEventPublisher } from '../repositories/domain-event-publisher.interface';
+import { UserDeactivated, UserPurged } from '../events/user.events';
+import {
+  ForbiddenError,
+  UserActiveError,
+  ValidationError,
+} from '../errors/domain-errors';
+import { DeactivationPolicy } from '../validation/deactivation.policy';
+import { DeleteUserUseCase } from './delete-user.use-case';
+
+describe('DeleteUserUseCase', () => {
+  let useCase: DeleteUserUseCase;
+  let mockRepository: jasmine.SpyObj<IUserRepository>;
+  let mockAccessContext: jasmine.SpyObj<IAccessContext>;
+  let mockEvents: jasmine.SpyObj<IDomainEventPublisher>;
+
+  const activeUser = new User(
+    '1',
+    'test@example.com',
+    'John',
+    'Doe',
+    new Date('2023-01-01'),
+    new Date('2023-01-01'),
+    'active',
+  );
+
+  beforeEach(() => {
+    mockRepository = jasmine.createSpyObj('IUserRepository', [
+      'getById',
+      'delete',
+      'permanentDelete',
+    ]);
+    mockRepository.getById.and.returnValue(of(activeUser));
+    mockRepository.delete.and.returnValue(of(true));
+    mockRepository.permanentDelete.and.returnValue(of(true));
+    mockAccessContext = jasmine.createSpyObj('IAccessContext', [
+      'hasPermission',
+      'currentActor',
+    ]);
+    mockAccessContext.hasPermission.and.returnValue(true);
+    mockAccessContext.currentActor.and.returnValue({
+      id: '9',
+      name: 'Admin User',
+    });
+
+    mockEvents = jasmine.createSpyObj('IDomainEventPublisher', ['publish']);
+
+    useCase = new DeleteUserUseCase(
+      mockRepository,
+      mockAccessContext,
+      new DeactivationPolicy({ noteMaxLength: 10 }),
+      mockEvents,
+    );
+  });
+
+  describe('executeSoftDelete', () => {
+    it('should deactivate with the reason, note and actor', (done) => {
+      useCase
+        .executeSoftDelete('1', { reason: 'duplicate', note: ' Twin ' })
+        .subscribe({
+          next: (deleted) => {
+            expect(deleted).toBe(true);
+            const deactivation = mockRepository.delete.calls.mostRecent()
+              .args[1] as Deactivation;
+            expect(deactivation).toBeInstanceOf(Deactivation);
+            expect(deactivation.reason).toBe('duplicate');
+            expect(deactivation.note).toBe('Twin');
+            expect(deactivation.deactivatedBy).toEqual({
+              id: '9',
+              name: 'Admin User',
+            });
+            done();
+          },
+          error: done.fail,
+        });
+    });
+
+    it('should publish UserDeactivated on success', (done) => {
+      useCase
+        .executeSoftDelete('1', { reason: 'duplicate', note: 'Twin' })
+        .subscribe({
+          next: () => {
+            expect(mockEvents.publish).toHaveBeenCalledTimes(1);
+            const event = mockEvents.publish.calls.mostRecent().args[0];
+            expect(event).toBeInstanceOf(UserDeactivated);
+            expect(event.userId).toBe('1');
+            done();
+          },
+          error: done.fail,
+        });
+    });
+
+    it('should require a reason', (done) => {
+      useCase.executeSoftDelete('1', { reason: '' }).subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(ValidationError);
+          expect(error.fieldErrors).toEqual({
+            reason: 'Deactivation reason is required',
+          });
+          expect(mockRepository.getById).not.toHaveBeenCalled();
+          done();
+        },
+      });
+    });
+
+    it('should reject a reason that is not configured', (done) => {
+      useCase.executeSoftDelete('1', { reason: 'bored' }).subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(ValidationError);
+          expect(error.fieldErrors).toEqual({
+            reason: 'Unknown deactivation reason: bored',
+          });
+          done();
+        },
+      });
+    });
+
+    it('should require a note', (done) => {
+      useCase.executeSoftDelete('1', { reason: 'other', note: ' ' }).subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(ValidationError);
+          expect(error.fieldErrors).toEqual({
+            note: 'A note is required for "Other"',
+          });
+          done();
+        },
+      });
+    });
+
+    it('should reject a note over the maximum length', (done) => {
+      useCase
+        .executeSoftDelete('1', { reason: 'other', note: 'Much too long' })
+        .subscribe({
+          next: () => done.fail('Should have thrown error'),
+          error: (error) => {
+            expect(error).toBeInstanceOf(ValidationError);
+            expect(error.fieldErrors).toEqual({
+              note: 'Note must be at most 10 characters long',
+            });
+            expect(mockRepository.delete).not.toHaveBeenCalled();
+            done();
+          },
+        });
+    });
+
+    it('should fail with ForbiddenError without users:deactivate', (done) => {
+      mockAccessContext.hasPermission.and.returnValue(false);
+
+      useCase.executeSoftDelete('1', { reason: 'duplicate' }).subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(ForbiddenError);
+          expect(mockAccessContext.hasPermission).toHaveBeenCalledWith(
+            'users:deactivate',
+          );
+          expect(mockRepository.getById).not.toHaveBeenCalled();
+          done();
+        },
+      });
+    });
+  });
+
+  describe('executeHardDelete', () => {
+    it('should purge a deactivated user and publish UserPurged', (done) => {
+      mockRepository.getById.and.returnValue(of(activeUser.deactivate()));
+
+      useCase.executeHardDelete('1').subscribe({
+        next: (deleted) => {
+          expect(deleted).toBe(true);
+          expect(mockRepository.permanentDelete).toHaveBeenCalledWith('1');
+          const event = mockEvents.publish.calls.mostRecent().args[0];
+          expect(event).toBeInstanceOf(UserPurged);
+          expect(event.userId).toBe('1');
+          done();
+        },
+        error: done.fail,
+      });
+    });
+
+    it('should refuse to purge an active user', (done) => {
+      useCase.executeHardDelete('1').subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(UserActiveError);
+          expect(mockRepository.permanentDelete).not.toHaveBeenCalled();
+          expect(mockEvents.publish).not.toHaveBeenCalled();
+          done();
+        },
+      });
+    });
+
+    it('should fail with ForbiddenError without users:delete', (done) => {
+      mockAccessContext.hasPermission.and.returnValue(false);
+
+      useCase.executeHardDelete('1').subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(ForbiddenError);
+          expect(mockAccessContext.hasPermission).toHaveBeenCalledWith(
+            'users:delete',
+          );
+          expect(mockRepository.getById).not.toHaveBeenCalled();
+          done();
+        },
+      });
+    });
+  });
+});
@@ -1,33 +1,87 @@
 import { Observable, throwError } from 'rxjs';
-import { switchMap } from 'rxjs/operators';
+import { switchMap, tap } from 'rxjs/operators';
+import {
+  Deactivation,
+  DeactivationRequest,
+} from '../entities/deactivation.entity';
+import { transitionRefusal } from '../entities/user-status.entity';
 import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import {
+  IDomainEventPublisher,
+  NO_DOMAIN_EVENTS,
+} from '../repositories/domain-event-publisher.interface';
+import { UserDeactivated, UserPurged } from '../events/user.events';
+import {
+  BusinessRuleViolationError,
+  DomainErrorFactory,
+  ForbiddenError,
+  UserNotFoundError,
+  UserActiveError,
+} from '../errors/domain-errors';
+import { DeactivationPolicy } from '../validation/deactivation.policy';
 
 /**
  * Delete User Use Case - Encapsulates the business logic for user deletion
  * This use case handles both soft delete (deactivation) and hard delete operations
  */
 export class DeleteUserUseCase {
-  constructor(private userRepository: IUserRepository) {}
+  constructor(
+    private userRepository: IUserRepository,
+    private accessContext: IAccessContext,
+    private deactivationPolicy = new DeactivationPolicy(),
+    private events: IDomainEventPublisher = NO_DOMAIN_EVENTS,
+  ) {}
 
   /**
    * Execute soft delete (deactivate user)
+   * A reason from the configured list is required; the current user and
+   * time are recorded with it
    */
-  executeSoftDelete(id: string): Observable<boolean> {
+  executeSoftDelete(
+    id: string,
+    request: DeactivationRequest,
+  ): Observable<boolean> {
+    if (!this.accessContext.hasPermission('users:deactivate')) {
+      return throwError(() => new ForbiddenError('users:deactivate'));
+    }
+
     if (!id || id.trim().length === 0) {
-      throw new Error('User ID is required');
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors(['User ID is required']),
+      );
+    }
+
+    const validationError = this.deactivationPolicy.validate(request);
+    if (validationError) {
+      return throwError(() => validationError);
     }
 
     return this.userRepository.getById(id).pipe(
       switchMap((user) => {
         if (!user) {
-          return throwError(() => new Error('User not found'));
+          return throwError(() => new UserNotFoundError(id));
         }
 
-        if (!user.isActive) {
-          return throwError(() => new Error('User is already inactive'));
+        if (!user.can('deactivate')) {
+          return throwError(
+            () =>
+              new BusinessRuleViolationError(
+                transitionRefusal(user.status, 'deactivate'),
+                'deactivate-active-only',
+              ),
+          );
         }
 
-        return this.userRepository.delete(id);
+        return this.userRepository.delete(
+          id,
+          Deactivation.fromRequest(request, this.accessContext.currentActor()),
+        );
+      }),
+      tap((deleted) => {
+        if (deleted) {
+          this.events.publish(new UserDeactivated(id));
+        }
       }),
     );
   }
@@ -37,28 +91,34 @@ export class DeleteUserUseCase {
    * This should be used with extreme caution and proper authorization
    */
   executeHardDelete(id: string): Observable<boolean> {
+    if (!this.accessContext.hasPermission('users:delete')) {
+      return throwError(() => new ForbiddenError('users:delete'));
+    }
+
     if (!id || id.trim().length === 0) {
-      throw new Error('User ID is required');
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors(['User ID is required']),
+      );
     }
 
     return this.userRepository.getById(id).pipe(
       switchMap((user) => {
         if (!user) {
-          return throwError(() => new Error('User not found'));
+          return throwError(() => new UserNotFoundError(id));
         }
 
-        // Business rule: Only inactive users can be permanently deleted
-        if (user.isActive) {
-          return throwError(
-            () =>
-              new Error(
-                'Cannot permanently delete active user. Deactivate first.',
-              ),
-          );
+        // Business rule: Only deactivated users can be permanently deleted
+        if (!user.can('purge')) {
+          return throwError(() => new UserActiveError(id));
         }
 
         return this.userRepository.permanentDelete(id);
       }),
+      tap((deleted) => {
+        if (deleted) {
+          this.events.publish(new UserPurged(id));
+        }
+      }),
     );
   }
 }
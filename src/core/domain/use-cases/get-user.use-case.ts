@@ -1,20 +1,33 @@
-import { Observable } from 'rxjs';
+import { Observable, throwError } from 'rxjs';
 import { User } from '../entities/user.entity';
 import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import { DomainErrorFactory, ForbiddenError } from '../errors/domain-errors';
+import { UserValidationPolicy } from '../validation/user-validation.policy';
 
 /**
  * Get User Use Case - Encapsulates the business logic for retrieving a user
  * This use case belongs to the domain layer and contains the business rules
  */
 export class GetUserUseCase {
-  constructor(private userRepository: IUserRepository) {}
+  constructor(
+    private userRepository: IUserRepository,
+    private accessContext: IAccessContext,
+    private validationPolicy = new UserValidationPolicy(),
+  ) {}
 
   /**
    * Execute the use case to get a user by ID
    */
   execute(id: string): Observable<User | null> {
+    if (!this.accessContext.hasPermission('users:read')) {
+      return throwError(() => new ForbiddenError('users:read'));
+    }
+
     if (!id || id.trim().length === 0) {
-      throw new Error('User ID is required');
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors(['User ID is required']),
+      );
     }
 
     return this.userRepository.getById(id);
@@ -24,14 +37,15 @@ export class GetUserUseCase {
    * Execute the use case to get a user by email
    */
   executeByEmail(email: string): Observable<User | null> {
-    if (!email || email.trim().length === 0) {
-      throw new Error('Email is required');
+    if (!this.accessContext.hasPermission('users:read')) {
+      return throwError(() => new ForbiddenError('users:read'));
     }
 
-    // Basic email validation
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
-      throw new Error('Invalid email format');
+    const validationError = this.validationPolicy.toValidationError(
+      this.validationPolicy.validate({ email: email ?? '' }, { partial: true }),
+    );
+    if (validationError) {
+      return throwError(() => validationError);
     }
 
     return this.userRepository.getByEmail(email);
@@ -0,0 +1,258 @@
+import { of } from 'rxjs';
+import { User } from '../entities/user.entity';
+import { Invitation } from '../entities/invitation.entity';
+import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import { IDomainEventPublisher } from '../repositories/domain-event-publisher.interface';
+import { UserActivated, UserCreated, UserPurged } from '../events/user.events';
+import {
+  BusinessRuleViolationError,
+  ForbiddenError,
+  UserAlreadyExistsError,
+  ValidationError,
+} from '../errors/domain-errors';
+import { InviteUserUseCase } from './invite-user.use-case';
+
+describe('InviteUserUseCase', () => {
+  let useCase: InviteUserUseCase;
+  let mockRepository: jasmine.SpyObj<IUserRepository>;
+  let mockAccessContext: jasmine.SpyObj<IAccessContext>;
+  let mockEvents: jasmine.SpyObj<IDomainEventPublisher>;
+
+  const admin = { id: '1', name: 'John Doe' };
+
+  const invitedUser = new User(
+    '8',
+    'dana.lee@example.com',
+    'Dana',
+    'Lee',
+    new Date('2023-08-01'),
+    new Date('2023-08-01'),
+    'invited',
+  );
+
+  const invitation = (expiresAt: Date) =>
+    new Invitation(invitedUser, admin, new Date('2023-08-01'), expiresAt);
+
+  const inFuture = () => new Date(Date.now() + 60_000);
+
+  beforeEach(() => {
+    mockRepository = jasmine.createSpyObj('IUserRepository', [
+      'getById',
+      'existsByEmail',
+      'invite',
+      'getInvitations',
+      'resendInvitation',
+      'revokeInvitation',
+      'getInvitationByToken',
+      'acceptInvitation',
+    ]);
+    mockAccessContext = jasmine.createSpyObj('IAccessContext', [
+      'hasPermission',
+      'currentActor',
+    ]);
+    mockAccessContext.hasPermission.and.returnValue(true);
+    mockAccessContext.currentActor.and.returnValue(admin);
+    mockEvents = jasmine.createSpyObj('IDomainEventPublisher', ['publish']);
+
+    useCase = new InviteUserUseCase(
+      mockRepository,
+      mockAccessContext,
+      undefined,
+      mockEvents,
+    );
+  });
+
+  describe('executeInvite', () => {
+    const userData = {
+      email: ' Dana.Lee@Example.com ',
+      firstName: ' Dana ',
+      lastName: 'Lee',
+    };
+
+    it('should invite a user with an unused email on behalf of the actor', (done) => {
+      const created = invitation(inFuture());
+      mockRepository.existsByEmail.and.returnValue(of(false));
+      mockRepository.invite.and.returnValue(of(created));
+
+      useCase.executeInvite(userData).subscribe({
+        next: (result) => {
+          expect(result).toBe(created);
+          expect(mockRepository.existsByEmail).toHaveBeenCalledWith(
+            'dana.lee@example.com',
+          );
+          expect(mockRepository.invite).toHaveBeenCalledWith(
+            jasmine.objectContaining({
+              email: 'Dana.Lee@Example.com',
+              firstName: 'Dana',
+            }),
+            admin,
+          );
+          expect(mockEvents.publish).toHaveBeenCalledWith(
+            jasmine.any(UserCreated),
+          );
+          done();
+        },
+        error: done.fail,
+      });
+    });
+
+    it('should refuse an email that is already taken', (done) => {
+      mockRepository.existsByEmail.and.returnValue(of(true));
+
+      useCase.executeInvite(userData).subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(UserAlreadyExistsError);
+          expect(mockRepository.invite).not.toHaveBeenCalled();
+          done();
+        },
+      });
+    });
+
+    it('should require the create permission', (done) => {
+      mockAccessContext.hasPermission.and.returnValue(false);
+
+      useCase.executeInvite(userData).subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(ForbiddenError);
+          expect(mockRepository.existsByEmail).not.toHaveBeenCalled();
+          done();
+        },
+      });
+    });
+  });
+
+  describe('executeResend', () => {
+    it('should issue a new token for an outstanding invitation', (done) => {
+      const resent = invitation(inFuture());
+      mockRepository.getById.and.returnValue(of(invitedUser));
+      mockRepository.resendInvitation.and.returnValue(of(resent));
+
+      useCase.executeResend('8').subscribe({
+        next: (result) => {
+          expect(result).toBe(resent);
+          expect(mockRepository.resendInvitation).toHaveBeenCalledWith('8');
+          done();
+        },
+        error: done.fail,
+      });
+    });
+
+    it('should refuse users that already accepted', (done) => {
+      mockRepository.getById.and.returnValue(of(invitedUser.accept()));
+
+      useCase.executeResend('8').subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(BusinessRuleViolationError);
+          expect(error.rule).toBe('invitation-pending');
+          expect(mockRepository.resendInvitation).not.toHaveBeenCalled();
+          done();
+        },
+      });
+    });
+  });
+
+  describe('executeRevoke', () => {
+    it('should revoke an outstanding invitation', (done) => {
+      mockRepository.getById.and.returnValue(of(invitedUser));
+      mockRepository.revokeInvitation.and.returnValue(of(true));
+
+      useCase.executeRevoke('8').subscribe({
+        next: (result) => {
+          expect(result).toBe(true);
+          expect(mockEvents.publish).toHaveBeenCalledWith(
+            jasmine.any(UserPurged),
+          );
+          done();
+        },
+        error: done.fail,
+      });
+    });
+  });
+
+  describe('executeAccept', () => {
+    const names = { firstName: 'Dana', lastName: 'Li' };
+
+    it('should activate the invited user with the confirmed names', (done) => {
+      const accepted = invitedUser.updateInfo('Dana', 'Li').accept();
+      mockRepository.getInvitationByToken.and.returnValue(
+        of(invitation(inFuture())),
+      );
+      mockRepository.acceptInvitation.and.returnValue(of(accepted));
+
+      useCase.executeAccept(' token ', names).subscribe({
+        next: (user) => {
+          expect(user.status).toBe('active');
+          expect(mockRepository.acceptInvitation).toHaveBeenCalledWith(
+            'token',
+            names,
+          );
+          expect(mockEvents.publish).toHaveBeenCalledWith(
+            jasmine.any(UserActivated),
+          );
+          done();
+        },
+        error: done.fail,
+      });
+    });
+
+    it('should not need a permission, the token being the credential', (done) => {
+      mockAccessContext.hasPermission.and.returnValue(false);
+      mockRepository.getInvitationByToken.and.returnValue(
+        of(invitation(inFuture())),
+      );
+      mockRepository.acceptInvitation.and.returnValue(of(invitedUser.accept()));
+
+      useCase.executeAccept('token', names).subscribe({
+        next: () => done(),
+        error: done.fail,
+      });
+    });
+
+    it('should refuse unknown or used tokens', (done) => {
+      mockRepository.getInvitationByToken.and.returnValue(of(null));
+
+      useCase.executeAccept('used', names).subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(BusinessRuleViolationError);
+          expect(error.rule).toBe('invitation-token');
+          expect(mockRepository.acceptInvitation).not.toHaveBeenCalled();
+          done();
+        },
+      });
+    });
+
+    it('should refuse expired invitations', (done) => {
+      mockRepository.getInvitationByToken.and.returnValue(
+        of(invitation(new Date('2023-08-08'))),
+      );
+
+      useCase.executeAccept('token', names).subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(BusinessRuleViolationError);
+          expect(error.rule).toBe('invitation-unexpired');
+          expect(mockRepository.acceptInvitation).not.toHaveBeenCalled();
+          done();
+        },
+      });
+    });
+
+    it('should validate the confirmed names', (done) => {
+      useCase
+        .executeAccept('token', { firstName: '', lastName: 'Li' })
+        .subscribe({
+          next: () => done.fail('Should have thrown error'),
+          error: (error) => {
+            expect(error).toBeInstanceOf(ValidationError);
+            expect(mockRepository.getInvitationByToken).not.toHaveBeenCalled();
+            done();
+          },
+        });
+    });
+  });
+});
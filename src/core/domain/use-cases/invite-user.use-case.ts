@@ -0,0 +1,245 @@
+import { Observable, of, throwError } from 'rxjs';
+import { switchMap, tap } from 'rxjs/operators';
+import { User } from '../entities/user.entity';
+import { Invitation } from '../entities/invitation.entity';
+import { PersonNameDetails } from '../entities/person-name.entity';
+import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import {
+  IDomainEventPublisher,
+  NO_DOMAIN_EVENTS,
+} from '../repositories/domain-event-publisher.interface';
+import { UserActivated, UserCreated, UserPurged } from '../events/user.events';
+import {
+  BusinessRuleViolationError,
+  DomainErrorFactory,
+  ForbiddenError,
+  UserAlreadyExistsError,
+  UserNotFoundError,
+} from '../errors/domain-errors';
+import { UserValidationPolicy } from '../validation/user-validation.policy';
+
+/**
+ * Invite User Use Case - Encapsulates the business logic for onboarding by invitation
+ * An invited user cannot sign in until the invitee accepts with the token
+ * mailed to them; the token is their only credential, so accepting needs no
+ * permission
+ */
+export class InviteUserUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private accessContext: IAccessContext,
+    private validationPolicy = new UserValidationPolicy(),
+    private events: IDomainEventPublisher = NO_DOMAIN_EVENTS,
+  ) {}
+
+  /**
+   * Execute the use case to invite a user with an unused email
+   */
+  executeInvite(
+    userData: {
+      email: string;
+      firstName: string;
+      lastName: string;
+    } & PersonNameDetails,
+  ): Observable<Invitation> {
+    if (!this.accessContext.hasPermission('users:create')) {
+      return throwError(() => new ForbiddenError('users:create'));
+    }
+
+    const data = this.validationPolicy.normalize(userData);
+    const validationError = this.validationPolicy.toValidationError(
+      this.validationPolicy.validate(data),
+    );
+    if (validationError) {
+      return throwError(() => validationError);
+    }
+
+    const email = this.validationPolicy.emailAddress(data.email);
+    return this.userRepository.existsByEmail(email.canonical).pipe(
+      switchMap((exists) => {
+        if (exists) {
+          return throwError(() => new UserAlreadyExistsError(email.address));
+        }
+
+        return this.userRepository.invite(
+          { ...data, email: email.address },
+          this.accessContext.currentActor(),
+        );
+      }),
+      tap((invitation) =>
+        this.events.publish(new UserCreated(invitation.user)),
+      ),
+    );
+  }
+
+  /**
+   * Execute the use case to list the invitations not accepted yet
+   */
+  executeList(): Observable<Invitation[]> {
+    if (!this.accessContext.hasPermission('users:create')) {
+      return throwError(() => new ForbiddenError('users:create'));
+    }
+
+    return this.userRepository.getInvitations();
+  }
+
+  /**
+   * Execute the use case to mail a new token, restarting the expiry
+   */
+  executeResend(userId: string): Observable<Invitation> {
+    const denied = this.checkManage(userId);
+    if (denied) {
+      return denied;
+    }
+
+    return this.invitedUser(userId).pipe(
+      switchMap(() => this.userRepository.resendInvitation(userId)),
+    );
+  }
+
+  /**
+   * Execute the use case to withdraw an invitation
+   */
+  executeRevoke(userId: string): Observable<boolean> {
+    const denied = this.checkManage(userId);
+    if (denied) {
+      return denied;
+    }
+
+    return this.invitedUser(userId).pipe(
+      switchMap(() => this.userRepository.revokeInvitation(userId)),
+      tap((revoked) => {
+        if (revoked) {
+          this.events.publish(new UserPurged(userId));
+        }
+      }),
+    );
+  }
+
+  /**
+   * Execute the use case to get the invitation a token belongs to
+   */
+  executeGetByToken(token: string): Observable<Invitation> {
+    const invalid = this.checkToken(token);
+    if (invalid) {
+      return invalid;
+    }
+
+    return this.validInvitation(token.trim());
+  }
+
+  /**
+   * Execute the use case to accept an invitation with the confirmed names
+   */
+  executeAccept(
+    token: string,
+    userData: {
+      firstName: string;
+      lastName: string;
+    } & PersonNameDetails,
+  ): Observable<User> {
+    const invalid = this.checkToken(token);
+    if (invalid) {
+      return invalid;
+    }
+
+    const data = this.validationPolicy.normalize(userData);
+    const validationError = this.validationPolicy.toValidationError(
+      this.validationPolicy.validate(data, { partial: true }),
+    );
+    if (validationError) {
+      return throwError(() => validationError);
+    }
+
+    return this.validInvitation(token.trim()).pipe(
+      switchMap(() => this.userRepository.acceptInvitation(token.trim(), data)),
+      tap((user) => this.events.publish(new UserActivated(user.id))),
+    );
+  }
+
+  /**
+   * Fail unless the current user may manage invitations and the ID is given
+   */
+  private checkManage(userId: string): Observable<never> | null {
+    if (!this.accessContext.hasPermission('users:create')) {
+      return throwError(() => new ForbiddenError('users:create'));
+    }
+
+    if (!userId || userId.trim().length === 0) {
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors(['User ID is required']),
+      );
+    }
+
+    return null;
+  }
+
+  private checkToken(token: string): Observable<never> | null {
+    if (!token || token.trim().length === 0) {
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors([
+          'Invitation token is required',
+        ]),
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * Get a user whose invitation is still outstanding
+   */
+  private invitedUser(userId: string): Observable<User> {
+    return this.userRepository.getById(userId).pipe(
+      switchMap((user) => {
+        if (!user) {
+          return throwError(() => new UserNotFoundError(userId));
+        }
+
+        if (!user.can('revoke')) {
+          return throwError(
+            () =>
+              new BusinessRuleViolationError(
+                'User has no pending invitation',
+                'invitation-pending',
+              ),
+          );
+        }
+
+        return of(user);
+      }),
+    );
+  }
+
+  /**
+   * Get the invitation of a token that is known, unused and unexpired
+   */
+  private validInvitation(token: string): Observable<Invitation> {
+    return this.userRepository.getInvitationByToken(token).pipe(
+      switchMap((invitation) => {
+        if (!invitation) {
+          return throwError(
+            () =>
+              new BusinessRuleViolationError(
+                'This invitation is not valid or has already been used',
+                'invitation-token',
+              ),
+          );
+        }
+
+        if (invitation.isExpired()) {
+          return throwError(
+            () =>
+              new BusinessRuleViolationError(
+                'The invitation has expired, ask for a new one',
+                'invitation-unexpired',
+              ),
+          );
+        }
+
+        return of(invitation);
+      }),
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { of } from 'rxjs';
+import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import { ValidationError } from '../errors/domain-errors';
+import { ListUsersUseCase } from './list-users.use-case';
+
+describe('ListUsersUseCase', () => {
+  let useCase: ListUsersUseCase;
+  let mockRepository: jasmine.SpyObj<IUserRepository>;
+  let mockAccessContext: jasmine.SpyObj<IAccessContext>;
+
+  beforeEach(() => {
+    mockRepository = jasmine.createSpyObj('IUserRepository', ['getAll']);
+    mockRepository.getAll.and.returnValue(
+      of({ users: [], total: 0, page: 1, limit: 10 }),
+    );
+    mockAccessContext = jasmine.createSpyObj('IAccessContext', [
+      'hasPermission',
+    ]);
+    mockAccessContext.hasPermission.and.returnValue(true);
+
+    useCase = new ListUsersUseCase(mockRepository, mockAccessContext);
+  });
+
+  describe('sorting', () => {
+    it('should default to newest users first', () => {
+      useCase.execute().subscribe();
+
+      expect(mockRepository.getAll).toHaveBeenCalledWith(
+        jasmine.objectContaining({ sortBy: 'createdAt', sortOrder: 'desc' }),
+      );
+    });
+
+    it('should pass a valid sort through', () => {
+      useCase.execute({ sortBy: 'lastName', sortOrder: 'desc' }).subscribe();
+
+      expect(mockRepository.getAll).toHaveBeenCalledWith(
+        jasmine.objectContaining({ sortBy: 'lastName', sortOrder: 'desc' }),
+      );
+    });
+
+    it('should sort ascending when only the field is given', () => {
+      useCase.execute({ sortBy: 'email' }).subscribe();
+
+      expect(mockRepository.getAll).toHaveBeenCalledWith(
+        jasmine.objectContaining({ sortBy: 'email', sortOrder: 'asc' }),
+      );
+    });
+
+    it('should fall back to the default for unknown fields', () => {
+      useCase
+        .execute({ sortBy: 'password' as any, sortOrder: 'asc' })
+        .subscribe();
+
+      expect(mockRepository.getAll).toHaveBeenCalledWith(
+        jasmine.objectContaining({ sortBy: 'createdAt', sortOrder: 'desc' }),
+      );
+    });
+  });
+
+  describe('status filter', () => {
+    it('should pass known statuses once each', () => {
+      useCase
+        .execute({
+          statuses: ['locked', 'archived' as any, 'invited', 'locked'],
+        })
+        .subscribe();
+
+      expect(mockRepository.getAll).toHaveBeenCalledWith(
+        jasmine.objectContaining({ statuses: ['locked', 'invited'] }),
+      );
+    });
+
+    it('should not filter by status when none are given', () => {
+      useCase.execute({ statuses: [] }).subscribe();
+
+      expect(mockRepository.getAll.calls.mostRecent().args[0]?.statuses).toBe(
+        undefined,
+      );
+    });
+  });
+
+  describe('validation', () => {
+    it('should fail through the Observable for a short search query', (done) => {
+      useCase.executeSearch('a').subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(ValidationError);
+          expect(error.validationErrors).toEqual([
+            'Search query must be at least 2 characters long',
+          ]);
+          done();
+        },
+      });
+    });
+
+    it('should fail through the Observable for an inverted date range', (done) => {
+      const now = new Date();
+
+      useCase.executeGetStats(now, new Date(now.getTime() - 1000)).subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(ValidationError);
+          expect(error.code).toBe('VALIDATION_ERROR');
+          done();
+        },
+      });
+    });
+  });
+});
@@ -1,13 +1,33 @@
-import { Observable } from 'rxjs';
+import { Observable, throwError } from 'rxjs';
 import { User } from '../entities/user.entity';
-import { IUserRepository } from '../repositories/user.repository.interface';
+import { Role, isRole } from '../entities/role.entity';
+import { UserStatus, isUserStatus } from '../entities/user-status.entity';
+import {
+  IUserRepository,
+  UserStats,
+  UserSortField,
+  SortOrder,
+} from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import { DomainErrorFactory, ForbiddenError } from '../errors/domain-errors';
 
 /**
  * List Users Use Case - Encapsulates the business logic for retrieving user lists
  * This use case handles pagination, filtering, and search functionality
  */
 export class ListUsersUseCase {
-  constructor(private userRepository: IUserRepository) {}
+  private static readonly SORT_FIELDS: readonly UserSortField[] = [
+    'name',
+    'firstName',
+    'lastName',
+    'email',
+    'createdAt',
+  ];
+
+  constructor(
+    private userRepository: IUserRepository,
+    private accessContext: IAccessContext,
+  ) {}
 
   /**
    * Execute the use case to get a paginated list of users
@@ -16,13 +36,20 @@ export class ListUsersUseCase {
     page?: number;
     limit?: number;
     search?: string;
-    isActive?: boolean;
+    statuses?: readonly UserStatus[];
+    role?: Role;
+    sortBy?: UserSortField;
+    sortOrder?: SortOrder;
   }): Observable<{
     users: User[];
     total: number;
     page: number;
     limit: number;
   }> {
+    if (!this.accessContext.hasPermission('users:read')) {
+      return throwError(() => new ForbiddenError('users:read'));
+    }
+
     // Validate and set default options
     const validatedOptions = this.validateAndSetDefaults(options);
 
@@ -33,12 +60,22 @@ export class ListUsersUseCase {
    * Execute search for users
    */
   executeSearch(query: string, limit?: number): Observable<User[]> {
+    if (!this.accessContext.hasPermission('users:read')) {
+      return throwError(() => new ForbiddenError('users:read'));
+    }
+
     if (!query || query.trim().length === 0) {
-      throw new Error('Search query is required');
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors(['Search query is required']),
+      );
     }
 
     if (query.trim().length < 2) {
-      throw new Error('Search query must be at least 2 characters long');
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors([
+          'Search query must be at least 2 characters long',
+        ]),
+      );
     }
 
     const searchLimit = limit && limit > 0 ? Math.min(limit, 100) : 20;
@@ -50,17 +87,33 @@ export class ListUsersUseCase {
    * Get users by date range
    */
   executeByDateRange(startDate: Date, endDate: Date): Observable<User[]> {
+    if (!this.accessContext.hasPermission('users:read')) {
+      return throwError(() => new ForbiddenError('users:read'));
+    }
+
     if (!startDate || !endDate) {
-      throw new Error('Both start date and end date are required');
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors([
+          'Both start date and end date are required',
+        ]),
+      );
     }
 
     if (startDate >= endDate) {
-      throw new Error('Start date must be before end date');
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors([
+          'Start date must be before end date',
+        ]),
+      );
     }
 
     const now = new Date();
     if (startDate > now) {
-      throw new Error('Start date cannot be in the future');
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors([
+          'Start date cannot be in the future',
+        ]),
+      );
     }
 
     return this.userRepository.getByDateRange(startDate, endDate);
@@ -70,9 +123,40 @@ export class ListUsersUseCase {
    * Get active users count
    */
   executeGetActiveCount(): Observable<number> {
+    if (!this.accessContext.hasPermission('users:read')) {
+      return throwError(() => new ForbiddenError('users:read'));
+    }
+
     return this.userRepository.getActiveUsersCount();
   }
 
+  /**
+   * Get user statistics for a period
+   */
+  executeGetStats(startDate: Date, endDate: Date): Observable<UserStats> {
+    if (!this.accessContext.hasPermission('users:read')) {
+      return throwError(() => new ForbiddenError('users:read'));
+    }
+
+    if (!startDate || !endDate) {
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors([
+          'Both start date and end date are required',
+        ]),
+      );
+    }
+
+    if (startDate >= endDate) {
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors([
+          'Start date must be before end date',
+        ]),
+      );
+    }
+
+    return this.userRepository.getStats(startDate, endDate);
+  }
+
   /**
    * Validate options and set defaults
    */
@@ -80,12 +164,18 @@ export class ListUsersUseCase {
     page?: number;
     limit?: number;
     search?: string;
-    isActive?: boolean;
+    statuses?: readonly UserStatus[];
+    role?: Role;
+    sortBy?: UserSortField;
+    sortOrder?: SortOrder;
   }): {
     page: number;
     limit: number;
     search?: string;
-    isActive?: boolean;
+    statuses?: readonly UserStatus[];
+    role?: Role;
+    sortBy: UserSortField;
+    sortOrder: SortOrder;
   } {
     const defaults = {
       page: 1,
@@ -93,7 +183,7 @@ export class ListUsersUseCase {
     };
 
     if (!options) {
-      return defaults;
+      return { ...defaults, ...this.validateSort() };
     }
 
     // Validate page
@@ -121,7 +211,39 @@ export class ListUsersUseCase {
       page,
       limit,
       search: search?.trim(),
-      isActive: options.isActive,
+      statuses: this.validateStatuses(options.statuses),
+      role: isRole(options.role) ? options.role : undefined, // Ignore unknown roles
+      ...this.validateSort(options.sortBy, options.sortOrder),
+    };
+  }
+
+  /**
+   * Keep known statuses once each; no statuses means no status filter
+   */
+  private validateStatuses(
+    statuses?: readonly UserStatus[],
+  ): UserStatus[] | undefined {
+    const known = [...new Set(statuses ?? [])].filter(isUserStatus);
+    return known.length > 0 ? known : undefined;
+  }
+
+  /**
+   * Validate sort options, falling back to newest first
+   * An unknown field resets the order too, since it was chosen for that field
+   */
+  private validateSort(
+    sortBy?: string,
+    sortOrder?: string,
+  ): { sortBy: UserSortField; sortOrder: SortOrder } {
+    const field = ListUsersUseCase.SORT_FIELDS.find((f) => f === sortBy);
+    if (!field) {
+      return { sortBy: 'createdAt', sortOrder: 'desc' };
+    }
+
+    return {
+      sortBy: field,
+      sortOrder:
+        sortOrder === 'asc' || sortOrder === 'desc' ? sortOrder : 'asc',
     };
   }
 }
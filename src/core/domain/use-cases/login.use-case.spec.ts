@@ -0,0 +1,94 @@
+import { of, throwError } from 'rxjs';
+import { Credentials } from '../entities/credentials.entity';
+import { Session } from '../entities/session.entity';
+import {
+  InvalidCredentialsError,
+  ValidationError,
+} from '../errors/domain-errors';
+import { IAuthRepository } from '../repositories/auth.repository.interface';
+import { LoginUseCase } from './login.use-case';
+
+describe('LoginUseCase', () => {
+  let useCase: LoginUseCase;
+  let mockRepository: jasmine.SpyObj<IAuthRepository>;
+
+  const session = new Session(
+    'access-token',
+    'refresh-token',
+    new Date(Date.now() + 60_000),
+    {
+      id: '1',
+      email: 'john.doe@example.com',
+      firstName: 'John',
+      lastName: 'Doe',
+      roles: ['admin'],
+    },
+  );
+
+  beforeEach(() => {
+    mockRepository = jasmine.createSpyObj('IAuthRepository', [
+      'login',
+      'refresh',
+      'logout',
+    ]);
+
+    useCase = new LoginUseCase(mockRepository);
+  });
+
+  it('should return session for valid credentials', (done) => {
+    mockRepository.login.and.returnValue(of(session));
+
+    useCase
+      .execute({ email: ' John.Doe@Example.com ', password: 'password123' })
+      .subscribe({
+        next: (result) => {
+          expect(result).toBe(session);
+          const credentials = mockRepository.login.calls.mostRecent()
+            .args[0] as Credentials;
+          expect(credentials.email).toBe('john.doe@example.com');
+          expect(credentials.password).toBe('password123');
+          done();
+        },
+        error: done.fail,
+      });
+  });
+
+  it('should fail with validation error for missing password', (done) => {
+    useCase.execute({ email: 'john.doe@example.com', password: '' }).subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: (error) => {
+        expect(error).toEqual(jasmine.any(ValidationError));
+        expect(error.validationErrors).toEqual(['Password is required']);
+        expect(mockRepository.login).not.toHaveBeenCalled();
+        done();
+      },
+    });
+  });
+
+  it('should fail with validation error for invalid email', (done) => {
+    useCase.execute({ email: 'not-an-email', password: 'secret' }).subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: (error) => {
+        expect(error).toEqual(jasmine.any(ValidationError));
+        expect(error.validationErrors).toEqual(['Invalid email format']);
+        done();
+      },
+    });
+  });
+
+  it('should propagate invalid credentials from repository', (done) => {
+    mockRepository.login.and.returnValue(
+      throwError(() => new InvalidCredentialsError()),
+    );
+
+    useCase
+      .execute({ email: 'john.doe@example.com', password: 'wrong' })
+      .subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toEqual(jasmine.any(InvalidCredentialsError));
+          done();
+        },
+      });
+  });
+});
@@ -0,0 +1,36 @@
+import { Observable, throwError } from 'rxjs';
+import { Credentials } from '../entities/credentials.entity';
+import { Session } from '../entities/session.entity';
+import { IAuthRepository } from '../repositories/auth.repository.interface';
+import { DomainErrorFactory } from '../errors/domain-errors';
+
+/**
+ * Login Use Case - Encapsulates the business logic for authenticating a user
+ * Credentials are validated before they are sent to the identity provider
+ */
+export class LoginUseCase {
+  constructor(private authRepository: IAuthRepository) {}
+
+  /**
+   * Execute the use case to open a new session
+   */
+  execute(credentials: {
+    email: string;
+    password: string;
+  }): Observable<Session> {
+    let validCredentials: Credentials;
+
+    try {
+      validCredentials = new Credentials(
+        credentials.email,
+        credentials.password,
+      );
+    } catch (error) {
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors([(error as Error).message]),
+      );
+    }
+
+    return this.authRepository.login(validCredentials);
+  }
+}
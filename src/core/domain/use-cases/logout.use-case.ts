@@ -0,0 +1,22 @@
+import { Observable, of } from 'rxjs';
+import { Session } from '../entities/session.entity';
+import { IAuthRepository } from '../repositories/auth.repository.interface';
+
+/**
+ * Logout Use Case - Encapsulates the business logic for closing a session
+ */
+export class LogoutUseCase {
+  constructor(private authRepository: IAuthRepository) {}
+
+  /**
+   * Execute the use case to invalidate the given session
+   * Nothing needs to be revoked when there is no session
+   */
+  execute(session: Session | null): Observable<void> {
+    if (!session) {
+      return of(undefined);
+    }
+
+    return this.authRepository.logout(session);
+  }
+}
@@ -0,0 +1,113 @@
+import { of } from 'rxjs';
+import { User } from '../entities/user.entity';
+import { UserStatus } from '../entities/user-status.entity';
+import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import {
+  ForbiddenError,
+  UserInactiveError,
+  ValidationError,
+} from '../errors/domain-errors';
+import { ManageUserRolesUseCase } from './manage-user-roles.use-case';
+
+describe('ManageUserRolesUseCase', () => {
+  let useCase: ManageUserRolesUseCase;
+  let mockRepository: jasmine.SpyObj<IUserRepository>;
+  let mockAccessContext: jasmine.SpyObj<IAccessContext>;
+
+  const createUser = (status: UserStatus = 'active') =>
+    new User(
+      '1',
+      'test@example.com',
+      'John',
+      'Doe',
+      new Date('2023-01-01'),
+      new Date('2023-01-01'),
+      status,
+      ['viewer'],
+    );
+
+  beforeEach(() => {
+    mockRepository = jasmine.createSpyObj('IUserRepository', [
+      'getById',
+      'updateRoles',
+    ]);
+    mockAccessContext = jasmine.createSpyObj('IAccessContext', [
+      'hasPermission',
+    ]);
+    mockAccessContext.hasPermission.and.returnValue(true);
+
+    useCase = new ManageUserRolesUseCase(mockRepository, mockAccessContext);
+  });
+
+  it('should persist the role set with the assigned role', (done) => {
+    const user = createUser();
+    mockRepository.getById.and.returnValue(of(user));
+    mockRepository.updateRoles.and.returnValue(of(user.assignRole('manager')));
+
+    useCase.executeAssign('1', 'manager').subscribe({
+      next: (updatedUser) => {
+        expect(mockRepository.updateRoles).toHaveBeenCalledWith('1', [
+          'viewer',
+          'manager',
+        ]);
+        expect(updatedUser.roles).toEqual(['viewer', 'manager']);
+        done();
+      },
+      error: done.fail,
+    });
+  });
+
+  it('should persist the role set without the revoked role', (done) => {
+    const user = createUser();
+    mockRepository.getById.and.returnValue(of(user));
+    mockRepository.updateRoles.and.returnValue(of(user.revokeRole('viewer')));
+
+    useCase.executeRevoke('1', 'viewer').subscribe({
+      next: () => {
+        expect(mockRepository.updateRoles).toHaveBeenCalledWith('1', []);
+        done();
+      },
+      error: done.fail,
+    });
+  });
+
+  it('should fail with ForbiddenError without users:assign-roles', (done) => {
+    mockAccessContext.hasPermission.and.returnValue(false);
+
+    useCase.executeAssign('1', 'admin').subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: (error) => {
+        expect(error).toBeInstanceOf(ForbiddenError);
+        expect(mockRepository.getById).not.toHaveBeenCalled();
+        done();
+      },
+    });
+  });
+
+  it('should not change roles of inactive users', (done) => {
+    mockRepository.getById.and.returnValue(of(createUser('deactivated')));
+
+    useCase.executeAssign('1', 'manager').subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: (error) => {
+        expect(error).toBeInstanceOf(UserInactiveError);
+        expect(error.code).toBe('USER_INACTIVE');
+        expect(mockRepository.updateRoles).not.toHaveBeenCalled();
+        done();
+      },
+    });
+  });
+
+  it('should fail with ValidationError for an unknown role', (done) => {
+    useCase.executeAssign('1', 'owner' as never).subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: (error) => {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.validationErrors).toEqual(['Unknown role: owner']);
+        expect(mockRepository.getById).not.toHaveBeenCalled();
+        done();
+      },
+    });
+  });
+});
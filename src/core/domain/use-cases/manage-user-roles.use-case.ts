@@ -0,0 +1,83 @@
+import { Observable, throwError } from 'rxjs';
+import { switchMap, tap } from 'rxjs/operators';
+import { User } from '../entities/user.entity';
+import { Role, isRole } from '../entities/role.entity';
+import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import {
+  IDomainEventPublisher,
+  NO_DOMAIN_EVENTS,
+} from '../repositories/domain-event-publisher.interface';
+import { UserUpdated } from '../events/user.events';
+import {
+  DomainErrorFactory,
+  ForbiddenError,
+  UserInactiveError,
+  UserNotFoundError,
+} from '../errors/domain-errors';
+
+/**
+ * Manage User Roles Use Case - Encapsulates the business logic for role assignment
+ * Roles can only be changed on active users, and only by users allowed to do so
+ */
+export class ManageUserRolesUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private accessContext: IAccessContext,
+    private events: IDomainEventPublisher = NO_DOMAIN_EVENTS,
+  ) {}
+
+  /**
+   * Execute the use case to assign a role to a user
+   */
+  executeAssign(id: string, role: Role): Observable<User> {
+    return this.changeRoles(id, role, (user) => user.assignRole(role));
+  }
+
+  /**
+   * Execute the use case to revoke a role from a user
+   */
+  executeRevoke(id: string, role: Role): Observable<User> {
+    return this.changeRoles(id, role, (user) => user.revokeRole(role));
+  }
+
+  /**
+   * Load the user, apply the role change and persist the new role set
+   */
+  private changeRoles(
+    id: string,
+    role: Role,
+    change: (user: User) => User,
+  ): Observable<User> {
+    if (!this.accessContext.hasPermission('users:assign-roles')) {
+      return throwError(() => new ForbiddenError('users:assign-roles'));
+    }
+
+    if (!id || id.trim().length === 0) {
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors(['User ID is required']),
+      );
+    }
+
+    if (!isRole(role)) {
+      return throwError(() =>
+        DomainErrorFactory.fromValidationErrors([`Unknown role: ${role}`]),
+      );
+    }
+
+    return this.userRepository.getById(id).pipe(
+      switchMap((user) => {
+        if (!user) {
+          return throwError(() => new UserNotFoundError(id));
+        }
+
+        if (!user.isActive) {
+          return throwError(() => new UserInactiveError(id));
+        }
+
+        return this.userRepository.updateRoles(id, change(user).roles);
+      }),
+      tap((user) => this.events.publish(new UserUpdated(user))),
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { Observable, throwError } from 'rxjs';
+import { Session } from '../entities/session.entity';
+import { IAuthRepository } from '../repositories/auth.repository.interface';
+import { SessionExpiredError } from '../errors/domain-errors';
+
+/**
+ * Refresh Session Use Case - Encapsulates the business logic for renewing
+ * an expired access token with the refresh token of the current session
+ */
+export class RefreshSessionUseCase {
+  constructor(private authRepository: IAuthRepository) {}
+
+  /**
+   * Execute the use case to obtain a new session
+   */
+  execute(session: Session | null): Observable<Session> {
+    if (!session) {
+      return throwError(() => new SessionExpiredError());
+    }
+
+    return this.authRepository.refresh(session);
+  }
+}
@@ -0,0 +1,89 @@
+import { of } from 'rxjs';
+import { User } from '../entities/user.entity';
+import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import { ConcurrentModificationError } from '../errors/domain-errors';
+import { UpdateUserUseCase } from './update-user.use-case';
+
+describe('UpdateUserUseCase', () => {
+  let useCase: UpdateUserUseCase;
+  let mockRepository: jasmine.SpyObj<IUserRepository>;
+  let mockAccessContext: jasmine.SpyObj<IAccessContext>;
+
+  const user = new User(
+    '1',
+    'test@example.com',
+    'John',
+    'Doe',
+    new Date('2023-01-01'),
+    new Date('2023-01-01'),
+    'active',
+    [],
+    {},
+    4,
+  );
+
+  beforeEach(() => {
+    mockRepository = jasmine.createSpyObj('IUserRepository', [
+      'getById',
+      'update',
+    ]);
+    mockAccessContext = jasmine.createSpyObj('IAccessContext', [
+      'hasPermission',
+    ]);
+    mockAccessContext.hasPermission.and.returnValue(true);
+
+    useCase = new UpdateUserUseCase(mockRepository, mockAccessContext);
+  });
+
+  it('should pass the expected version on to the repository', (done) => {
+    const updatedUser = user.updateInfo('Jane', 'Doe');
+    mockRepository.getById.and.returnValue(of(user));
+    mockRepository.update.and.returnValue(of(updatedUser));
+
+    useCase.execute('1', { firstName: 'Jane' }, 4).subscribe({
+      next: (result) => {
+        expect(result.version).toBe(5);
+        expect(mockRepository.update).toHaveBeenCalledWith(
+          '1',
+          { firstName: 'Jane' },
+          4,
+        );
+        done();
+      },
+      error: done.fail,
+    });
+  });
+
+  it('should reject changes made against an older version', (done) => {
+    mockRepository.getById.and.returnValue(of(user));
+
+    useCase.execute('1', { firstName: 'Jane' }, 3).subscribe({
+      next: () => done.fail('Should have thrown error'),
+      error: (error) => {
+        expect(error).toBeInstanceOf(ConcurrentModificationError);
+        expect(error.code).toBe('CONCURRENT_MODIFICATION');
+        expect(error.currentVersion).toBe(4);
+        expect(mockRepository.update).not.toHaveBeenCalled();
+        done();
+      },
+    });
+  });
+
+  it('should update without a version check when none is given', (done) => {
+    mockRepository.getById.and.returnValue(of(user));
+    mockRepository.update.and.returnValue(of(user));
+
+    useCase.execute('1', { lastName: 'Smith' }).subscribe({
+      next: () => {
+        expect(mockRepository.update).toHaveBeenCalledWith(
+          '1',
+          { lastName: 'Smith' },
+          undefined,
+        );
+        done();
+      },
+      error: done.fail,
+    });
+  });
+});
@@ -1,96 +1,113 @@
 import { Observable, throwError } from 'rxjs';
-import { switchMap } from 'rxjs/operators';
+import { switchMap, tap } from 'rxjs/operators';
 import { User } from '../entities/user.entity';
+import { PersonNameDetails } from '../entities/person-name.entity';
 import { IUserRepository } from '../repositories/user.repository.interface';
+import { IAccessContext } from '../repositories/access-context.interface';
+import {
+  IDomainEventPublisher,
+  NO_DOMAIN_EVENTS,
+} from '../repositories/domain-event-publisher.interface';
+import { UserUpdated } from '../events/user.events';
+import {
+  ConcurrentModificationError,
+  DomainErrorFactory,
+  ForbiddenError,
+  UserInactiveError,
+  UserNotFoundError,
+} from '../errors/domain-errors';
+import { UserValidationPolicy } from '../validation/user-validation.policy';
 
 /**
  * Update User Use Case - Encapsulates the business logic for updating user information
  * This use case contains all the business rules and validation for user updates
  */
 export class UpdateUserUseCase {
-  constructor(private userRepository: IUserRepository) {}
+  constructor(
+    private userRepository: IUserRepository,
+    private accessContext: IAccessContext,
+    private validationPolicy = new UserValidationPolicy(),
+    private events: IDomainEventPublisher = NO_DOMAIN_EVENTS,
+  ) {}
 
   /**
    * Execute the use case to update user information
+   * Pass the version the changes were made against to reject the update
+   * when someone else changed the user in the meantime
    */
   execute(
     id: string,
     userData: {
       firstName?: string;
       lastName?: string;
-    },
+    } & PersonNameDetails,
+    expectedVersion?: number,
   ): Observable<User> {
+    if (!this.accessContext.hasPermission('users:update')) {
+      return throwError(() => new ForbiddenError('users:update'));
+    }
+
     // Validate input
-    this.validateInput(id, userData);
+    const errors = this.validateInput(id, userData);
+    if (errors.length > 0) {
+      return throwError(() => DomainErrorFactory.fromValidationErrors(errors));
+    }
+
+    // Only the fields being changed are checked
+    const data = this.validationPolicy.normalize(userData);
+    const validationError = this.validationPolicy.toValidationError(
+      this.validationPolicy.validate(data, { partial: true }),
+    );
+    if (validationError) {
+      return throwError(() => validationError);
+    }
 
     // Check if user exists
     return this.userRepository.getById(id).pipe(
       switchMap((existingUser) => {
         if (!existingUser) {
-          return throwError(() => new Error('User not found'));
+          return throwError(() => new UserNotFoundError(id));
         }
 
         if (!existingUser.isActive) {
-          return throwError(() => new Error('Cannot update inactive user'));
+          return throwError(() => new UserInactiveError(id));
         }
 
-        // Validate the update data
-        this.validateUpdateData(userData);
+        if (
+          expectedVersion !== undefined &&
+          existingUser.version !== expectedVersion
+        ) {
+          return throwError(
+            () =>
+              new ConcurrentModificationError(
+                id,
+                expectedVersion,
+                existingUser.version,
+              ),
+          );
+        }
 
-        // Perform the update
-        return this.userRepository.update(id, userData);
+        // Perform the update; the repository checks the version again
+        return this.userRepository.update(id, data, expectedVersion);
       }),
+      tap((user) => this.events.publish(new UserUpdated(user))),
     );
   }
 
   /**
    * Validate input parameters
    */
-  private validateInput(id: string, userData: any): void {
+  private validateInput(id: string, userData: any): string[] {
+    const errors: string[] = [];
+
     if (!id || id.trim().length === 0) {
-      throw new Error('User ID is required');
+      errors.push('User ID is required');
     }
 
     if (!userData || Object.keys(userData).length === 0) {
-      throw new Error('Update data is required');
-    }
-  }
-
-  /**
-   * Validate update data according to business rules
-   */
-  private validateUpdateData(userData: {
-    firstName?: string;
-    lastName?: string;
-  }): void {
-    if (userData.firstName !== undefined) {
-      if (!userData.firstName || userData.firstName.trim().length === 0) {
-        throw new Error('First name cannot be empty');
-      }
-
-      if (userData.firstName.trim().length < 2) {
-        throw new Error('First name must be at least 2 characters long');
-      }
-
-      const nameRegex = /^[a-zA-Z\s]+$/;
-      if (!nameRegex.test(userData.firstName)) {
-        throw new Error('First name can only contain letters and spaces');
-      }
+      errors.push('Update data is required');
     }
 
-    if (userData.lastName !== undefined) {
-      if (!userData.lastName || userData.lastName.trim().length === 0) {
-        throw new Error('Last name cannot be empty');
-      }
-
-      if (userData.lastName.trim().length < 2) {
-        throw new Error('Last name must be at least 2 characters long');
-      }
-
-      const nameRegex = /^[a-zA-Z\s]+$/;
-      if (!nameRegex.test(userData.lastName)) {
-        throw new Error('Last name can only contain letters and spaces');
-      }
-    }
+    return errors;
   }
 }
@@ -0,0 +1,72 @@
+import { ValidationError } from '../errors/domain-errors';
+import { DeactivationPolicy } from './deactivation.policy';
+
+describe('DeactivationPolicy', () => {
+  let policy: DeactivationPolicy;
+
+  beforeEach(() => {
+    policy = new DeactivationPolicy();
+  });
+
+  it('should accept a configured reason with a note', () => {
+    expect(
+      policy.validate({ reason: 'left-company', note: 'Moved abroad' }),
+    ).toBeNull();
+  });
+
+  it('should require a reason', () => {
+    const error = policy.validate({ reason: '' });
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error?.fieldErrors).toEqual({
+      reason: 'Deactivation reason is required',
+    });
+  });
+
+  it('should reject reasons that are not configured', () => {
+    expect(policy.validate({ reason: 'bored' })?.fieldErrors).toEqual({
+      reason: 'Unknown deactivation reason: bored',
+    });
+  });
+
+  it('should require a note by default', () => {
+    expect(
+      policy.validate({ reason: 'other', note: '  ' })?.fieldErrors,
+    ).toEqual({ note: 'A note is required for "Other"' });
+    expect(policy.validate({ reason: 'security' })?.fieldErrors).toEqual({
+      note: 'A note is required for "Security concern"',
+    });
+  });
+
+  it('should let a reason make the note optional', () => {
+    const custom = new DeactivationPolicy({
+      reasons: [
+        { code: 'duplicate', label: 'Duplicate account', noteRequired: false },
+      ],
+    });
+
+    expect(custom.noteRequired('duplicate')).toBeFalse();
+    expect(custom.validate({ reason: 'duplicate' })).toBeNull();
+  });
+
+  it('should limit the length of the note', () => {
+    const strict = new DeactivationPolicy({ noteMaxLength: 5 });
+
+    expect(
+      strict.validate({ reason: 'security', note: 'Too long' })?.fieldErrors,
+    ).toEqual({ note: 'Note must be at most 5 characters long' });
+  });
+
+  it('should use the configured reasons', () => {
+    const custom = new DeactivationPolicy({
+      reasons: [{ code: 'contract-ended', label: 'Contract ended' }],
+    });
+
+    expect(
+      custom.validate({ reason: 'contract-ended', note: 'Ended in May' }),
+    ).toBeNull();
+    expect(custom.validate({ reason: 'left-company' })).not.toBeNull();
+    expect(custom.reasonLabel('contract-ended')).toBe('Contract ended');
+    expect(custom.reasonLabel('left-company')).toBe('left-company');
+  });
+});
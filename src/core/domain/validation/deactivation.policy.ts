@@ -0,0 +1,87 @@
+import { DomainErrorFactory, ValidationError } from '../errors/domain-errors';
+import {
+  DEFAULT_DEACTIVATION_REASONS,
+  DeactivationReason,
+  DeactivationRequest,
+} from '../entities/deactivation.entity';
+
+/**
+ * Settings a deployment may change, see `environment.deactivation`
+ */
+export interface DeactivationConfig {
+  reasons: readonly DeactivationReason[];
+  noteMaxLength: number;
+}
+
+export const DEFAULT_DEACTIVATION_CONFIG: DeactivationConfig = {
+  reasons: DEFAULT_DEACTIVATION_REASONS,
+  noteMaxLength: 500,
+};
+
+/**
+ * Deactivation Policy - The reasons users can be deactivated for and the
+ * rules for the note that goes with them
+ */
+export class DeactivationPolicy {
+  readonly reasons: readonly DeactivationReason[];
+  readonly noteMaxLength: number;
+
+  constructor(config: Partial<DeactivationConfig> = {}) {
+    const settings = { ...DEFAULT_DEACTIVATION_CONFIG, ...config };
+    this.reasons = settings.reasons;
+    this.noteMaxLength = settings.noteMaxLength;
+  }
+
+  /**
+   * Find a configured reason by its code
+   */
+  reason(code: string): DeactivationReason | undefined {
+    return this.reasons.find((reason) => reason.code === code);
+  }
+
+  /**
+   * Label of a reason; codes no longer configured are shown as they are
+   */
+  reasonLabel(code: string): string {
+    return this.reason(code)?.label ?? code;
+  }
+
+  /**
+   * Check if a reason needs a note; notes are required by default
+   */
+  noteRequired(code: string): boolean {
+    return this.reason(code)?.noteRequired ?? true;
+  }
+
+  /**
+   * Check a deactivation request
+   */
+  validate(
+    request: DeactivationRequest | null | undefined,
+  ): ValidationError | null {
+    const fieldErrors: Record<string, string> = {};
+    const note = request?.note?.trim() ?? '';
+
+    if (!request?.reason) {
+      fieldErrors['reason'] = 'Deactivation reason is required';
+    } else {
+      const reason = this.reason(request.reason);
+      if (!reason) {
+        fieldErrors['reason'] =
+          `Unknown deactivation reason: ${request.reason}`;
+      } else if (this.noteRequired(reason.code) && note.length === 0) {
+        fieldErrors['note'] = `A note is required for "${reason.label}"`;
+      }
+    }
+
+    if (note.length > this.noteMaxLength) {
+      fieldErrors['note'] =
+        `Note must be at most ${this.noteMaxLength} characters long`;
+    }
+
+    const messages = Object.values(fieldErrors);
+    return messages.length > 0
+      ? DomainErrorFactory.fromValidationErrors(messages, fieldErrors)
+      : null;
+  }
+}
@@ -0,0 +1,178 @@
+import { ValidationError } from '../errors/domain-errors';
+import { UserValidationPolicy, normalizeName } from './user-validation.policy';
+
+describe('UserValidationPolicy', () => {
+  let policy: UserValidationPolicy;
+
+  beforeEach(() => {
+    policy = new UserValidationPolicy();
+  });
+
+  describe('validateField', () => {
+    it('should accept valid values', () => {
+      expect(policy.validateField('email', 'john@example.com')).toBeNull();
+      expect(policy.validateField('firstName', 'Mary Ann')).toBeNull();
+    });
+
+    it('should report the first violated rule only', () => {
+      expect(policy.validateField('firstName', ' ')).toEqual({
+        key: 'required',
+        message: 'First name is required',
+      });
+      expect(policy.validateField('firstName', 'John123')).toEqual({
+        key: 'invalidName',
+        message:
+          'First name can only contain letters, spaces, hyphens and apostrophes',
+      });
+      expect(policy.validateField('email', 'john@')).toEqual({
+        key: 'invalidEmail',
+        message: 'Invalid email format',
+      });
+    });
+
+    it('should treat null and undefined as empty', () => {
+      expect(policy.validateField('email', null)?.key).toBe('required');
+      expect(policy.validateField('email', undefined)?.key).toBe('required');
+    });
+  });
+
+  describe('names', () => {
+    it('should accept letters of any script with hyphens and apostrophes', () => {
+      for (const name of [
+        'José',
+        'Zoë',
+        "O'Brien",
+        'O’Neil',
+        'Anne-Marie',
+        'Nguyễn',
+        'Σοφία',
+        '山田',
+      ]) {
+        expect(policy.validateField('firstName', name))
+          .withContext(name)
+          .toBeNull();
+      }
+    });
+
+    it('should reject separators that do not join letters', () => {
+      for (const name of ['-Anne', "O''Brien", 'Anne-', 'Jo3']) {
+        expect(policy.validateField('firstName', name)?.key)
+          .withContext(name)
+          .toBe('invalidName');
+      }
+    });
+
+    it('should accept one-character names by default', () => {
+      expect(policy.validateField('lastName', '李')).toBeNull();
+      expect(policy.validateField('lastName', '王')).toBeNull();
+    });
+
+    it('should count characters rather than UTF-16 units', () => {
+      const strict = new UserValidationPolicy({
+        nameMinLength: 2,
+        nameMaxLength: 2,
+      });
+
+      expect(strict.validateField('lastName', '𠮷')?.key).toBe('minlength');
+      expect(strict.validateField('lastName', '𠮷野')).toBeNull();
+      expect(strict.validateField('lastName', '𠮷𠮷𠮷')?.key).toBe('maxlength');
+    });
+
+    it('should validate the normalized value', () => {
+      expect(policy.validateField('lastName', '  Mary   Ann ')).toBeNull();
+    });
+
+    it('should normalize names to NFC with single spaces', () => {
+      const normalized = policy.normalize({
+        email: ' john@example.com ',
+        firstName: ' Zoe\u0308 ',
+        lastName: 'de  la\tCruz',
+      });
+
+      expect(normalized).toEqual({
+        email: 'john@example.com',
+        firstName: 'Zoë',
+        lastName: 'de la Cruz',
+      });
+      expect(normalizeName('Zoe\u0308')).toBe('Zo\u00eb');
+    });
+  });
+
+  describe('validate', () => {
+    it('should key violations by field', () => {
+      const result = policy.validate({
+        email: 'john@example.com',
+        firstName: 'J1',
+      });
+
+      expect(Object.keys(result)).toEqual(['firstName', 'lastName']);
+      expect(result.lastName?.key).toBe('required');
+    });
+
+    it('should skip missing fields when partial', () => {
+      expect(policy.validate({ firstName: 'Jane' }, { partial: true })).toEqual(
+        {},
+      );
+    });
+  });
+
+  describe('emailAddress', () => {
+    it('should compare addresses regardless of case and whitespace', () => {
+      const email = policy.emailAddress(' John.Doe@Example.com ');
+
+      expect(email.address).toBe('John.Doe@Example.com');
+      expect(email.canonical).toBe('john.doe@example.com');
+      expect(email.equals(policy.emailAddress('johndoe+news@gmail.com'))).toBe(
+        false,
+      );
+    });
+
+    it('should fold provider aliases when configured', () => {
+      const folding = new UserValidationPolicy({ foldEmailAliases: true });
+
+      expect(
+        folding.emailAddress('John.Doe+news@GoogleMail.com').canonical,
+      ).toBe('johndoe@gmail.com');
+    });
+  });
+
+  describe('toValidationError', () => {
+    it('should return null for a valid result', () => {
+      expect(policy.toValidationError({})).toBeNull();
+    });
+
+    it('should list messages in field order with field-keyed details', () => {
+      const error = policy.toValidationError(
+        policy.validate({ email: 'bad', firstName: 'Jane', lastName: '' }),
+      );
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error?.validationErrors).toEqual([
+        'Invalid email format',
+        'Last name is required',
+      ]);
+      expect(error?.fieldErrors).toEqual({
+        email: 'Invalid email format',
+        lastName: 'Last name is required',
+      });
+    });
+  });
+
+  describe('configuration', () => {
+    it('should apply deployment settings over the defaults', () => {
+      const strict = new UserValidationPolicy({
+        nameMaxLength: 5,
+        namePattern: /^[A-Z][a-z]+$/,
+        namePatternDescription: 'a capitalized word',
+      });
+
+      expect(strict.validateField('firstName', 'Johnny')?.message).toBe(
+        'First name must be at most 5 characters long',
+      );
+      expect(strict.validateField('lastName', 'doe')?.message).toBe(
+        'Last name can only contain a capitalized word',
+      );
+      expect(strict.validateField('firstName', 'Ab')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,343 @@
+import { DomainErrorFactory, ValidationError } from '../errors/domain-errors';
+import { NAME_ORDERS } from '../entities/person-name.entity';
+import { EmailAddress } from '../entities/email-address.entity';
+
+/**
+ * User fields governed by the validation policy
+ */
+export type UserField =
+  | 'email'
+  | 'honorific'
+  | 'firstName'
+  | 'middleName'
+  | 'lastName'
+  | 'preferredName'
+  | 'nameOrder';
+
+/**
+ * A single declarative rule; its `key` names the violation in results
+ */
+export type ValidationRule =
+  | { kind: 'required'; key: 'required' }
+  | { kind: 'minLength'; key: 'minlength'; length: number }
+  | { kind: 'maxLength'; key: 'maxlength'; length: number }
+  | { kind: 'pattern'; key: string; pattern: RegExp; message: string }
+  | { kind: 'oneOf'; key: string; values: readonly string[]; message: string };
+
+/**
+ * Ordered rules of one field; the first failing rule is reported
+ * Values are normalized before the rules run, and fields without a
+ * `required` rule accept an empty value
+ */
+export interface FieldRules {
+  label: string;
+  normalize?: (value: string) => string;
+  rules: readonly ValidationRule[];
+}
+
+/**
+ * The rule violated by a field value
+ */
+export interface FieldViolation {
+  key: string;
+  message: string;
+}
+
+/**
+ * Violations keyed by field; valid fields are absent
+ */
+export type UserValidationResult = Partial<Record<UserField, FieldViolation>>;
+
+/**
+ * Settings a deployment may change, see `environment.validation`
+ */
+export interface UserValidationConfig {
+  nameMinLength: number;
+  nameMaxLength: number;
+  namePattern: RegExp;
+  namePatternDescription: string;
+  honorificMaxLength: number;
+  emailMaxLength: number;
+  foldEmailAliases: boolean;
+}
+
+export const DEFAULT_USER_VALIDATION_CONFIG: UserValidationConfig = {
+  // One character is a whole family name in e.g. Chinese (李, 王)
+  nameMinLength: 1,
+  nameMaxLength: 50,
+  // Words of letters in any script, joined by a space, hyphen or apostrophe
+  namePattern: /^[\p{L}\p{M}]+(?:[ '’-][\p{L}\p{M}]+)*$/u,
+  namePatternDescription: 'letters, spaces, hyphens and apostrophes',
+  honorificMaxLength: 20,
+  emailMaxLength: 254,
+  // Treat e.g. j.doe+news@gmail.com and jdoe@gmail.com as one address
+  foldEmailAliases: false,
+};
+
+/**
+ * Shape of an email address; not configurable, so the entity checks it too
+ */
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Compose a name in NFC, trim it and collapse runs of whitespace
+ * so that visually equal names are stored and compared the same way
+ */
+export function normalizeName(name: string): string {
+  return name.normalize('NFC').trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Length in characters (code points), so that a character outside the
+ * Basic Multilingual Plane counts once rather than as two UTF-16 units
+ */
+export function characterCount(value: string): number {
+  return [...value].length;
+}
+
+/**
+ * User Validation Policy - The one rule set for user names and emails
+ * Use cases, utilities and forms validate through the deployment's policy;
+ * the entity only holds the invariants no setting can change
+ */
+export class UserValidationPolicy {
+  static readonly FIELDS: readonly UserField[] = [
+    'email',
+    'honorific',
+    'firstName',
+    'middleName',
+    'lastName',
+    'preferredName',
+    'nameOrder',
+  ];
+
+  readonly rules: Readonly<Record<UserField, FieldRules>>;
+
+  private readonly foldEmailAliases: boolean;
+
+  constructor(config: Partial<UserValidationConfig> = {}) {
+    const settings = { ...DEFAULT_USER_VALIDATION_CONFIG, ...config };
+    this.foldEmailAliases = settings.foldEmailAliases;
+
+    this.rules = {
+      email: {
+        label: 'Email',
+        normalize: (value) => value.trim(),
+        rules: [
+          { kind: 'required', key: 'required' },
+          {
+            kind: 'maxLength',
+            key: 'maxlength',
+            length: settings.emailMaxLength,
+          },
+          {
+            kind: 'pattern',
+            key: 'invalidEmail',
+            pattern: EMAIL_PATTERN,
+            message: 'Invalid email format',
+          },
+        ],
+      },
+      honorific: {
+        label: 'Honorific',
+        normalize: normalizeName,
+        rules: [
+          {
+            kind: 'maxLength',
+            key: 'maxlength',
+            length: settings.honorificMaxLength,
+          },
+          {
+            kind: 'pattern',
+            key: 'invalidHonorific',
+            pattern: /^[\p{L}\p{M}.]+(?: [\p{L}\p{M}.]+)*$/u,
+            message: 'Honorific can only contain letters and periods',
+          },
+        ],
+      },
+      firstName: UserValidationPolicy.nameRules('First name', settings),
+      middleName: UserValidationPolicy.optionalNameRules(
+        'Middle name',
+        settings,
+      ),
+      lastName: UserValidationPolicy.nameRules('Last name', settings),
+      preferredName: UserValidationPolicy.optionalNameRules(
+        'Preferred name',
+        settings,
+      ),
+      nameOrder: {
+        label: 'Name order',
+        rules: [
+          {
+            kind: 'oneOf',
+            key: 'invalidNameOrder',
+            values: NAME_ORDERS,
+            message: 'Unknown name order',
+          },
+        ],
+      },
+    };
+  }
+
+  /**
+   * Check one field and return its first violation
+   */
+  validateField(
+    field: UserField,
+    value: string | null | undefined,
+  ): FieldViolation | null {
+    const { label, normalize, rules } = this.rules[field];
+    const text = normalize ? normalize(value ?? '') : (value ?? '');
+    const required = rules.some((rule) => rule.kind === 'required');
+    if (!required && text.trim().length === 0) {
+      return null;
+    }
+
+    for (const rule of rules) {
+      const message = this.check(rule, text, label);
+      if (message) {
+        return { key: rule.key, message };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check several fields at once
+   * With `partial`, fields missing from the data are skipped instead of
+   * being reported as required
+   */
+  validate(
+    data: Partial<Record<UserField, string>>,
+    options: { partial?: boolean } = {},
+  ): UserValidationResult {
+    const result: UserValidationResult = {};
+
+    for (const field of UserValidationPolicy.FIELDS) {
+      if (options.partial && data[field] === undefined) {
+        continue;
+      }
+
+      const violation = this.validateField(field, data[field]);
+      if (violation) {
+        result[field] = violation;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Normalize the user fields present in the data, keeping everything else
+   */
+  normalize<T extends Partial<Record<UserField, string>>>(data: T): T {
+    const normalized: Partial<Record<UserField, string>> = { ...data };
+
+    for (const field of UserValidationPolicy.FIELDS) {
+      const normalizeField = this.rules[field].normalize;
+      const value = normalized[field];
+      if (normalizeField && typeof value === 'string') {
+        normalized[field] = normalizeField(value);
+      }
+    }
+
+    return normalized as T;
+  }
+
+  /**
+   * Wrap an address with this deployment's canonical form, used wherever
+   * emails are compared
+   */
+  emailAddress(address: string): EmailAddress {
+    return new EmailAddress(address, {
+      foldProviderAliases: this.foldEmailAliases,
+    });
+  }
+
+  /**
+   * Turn a result into the ValidationError use cases fail with
+   */
+  toValidationError(result: UserValidationResult): ValidationError | null {
+    const fields = UserValidationPolicy.FIELDS.filter((field) => result[field]);
+    if (fields.length === 0) {
+      return null;
+    }
+
+    const fieldErrors: Record<string, string> = {};
+    for (const field of fields) {
+      fieldErrors[field] = result[field]!.message;
+    }
+
+    return DomainErrorFactory.fromValidationErrors(
+      Object.values(fieldErrors),
+      fieldErrors,
+    );
+  }
+
+  private check(
+    rule: ValidationRule,
+    value: string,
+    label: string,
+  ): string | null {
+    switch (rule.kind) {
+      case 'required':
+        return value.trim().length === 0 ? `${label} is required` : null;
+      case 'minLength':
+        return characterCount(value.trim()) < rule.length
+          ? `${label} must be at least ${rule.length} characters long`
+          : null;
+      case 'maxLength':
+        return characterCount(value.trim()) > rule.length
+          ? `${label} must be at most ${rule.length} characters long`
+          : null;
+      case 'pattern':
+        return rule.pattern.test(value) ? null : rule.message;
+      case 'oneOf':
+        return rule.values.includes(value) ? null : rule.message;
+    }
+  }
+
+  private static nameRules(
+    label: string,
+    settings: UserValidationConfig,
+  ): FieldRules {
+    return {
+      label,
+      normalize: normalizeName,
+      rules: [
+        { kind: 'required', key: 'required' },
+        { kind: 'minLength', key: 'minlength', length: settings.nameMinLength },
+        { kind: 'maxLength', key: 'maxlength', length: settings.nameMaxLength },
+        {
+          kind: 'pattern',
+          key: 'invalidName',
+          pattern: settings.namePattern,
+          message: `${label} can only contain ${settings.namePatternDescription}`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Name parts that may be left empty; single letters are allowed
+   */
+  private static optionalNameRules(
+    label: string,
+    settings: UserValidationConfig,
+  ): FieldRules {
+    return {
+      label,
+      normalize: normalizeName,
+      rules: [
+        { kind: 'maxLength', key: 'maxlength', length: settings.nameMaxLength },
+        {
+          kind: 'pattern',
+          key: 'invalidName',
+          pattern: settings.namePattern,
+          message: `${label} can only contain ${settings.namePatternDescription}`,
+        },
+      ],
+    };
+  }
+}
@@ -6,3 +6,6 @@ export * from './application';
 
 // Infrastructure Layer
 export * from './infrastructure';
+
+// Audit Context
+export * from './audit';
@@ -0,0 +1,63 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { environment } from '../../../environments/environment';
+
+/**
+ * Token response returned by the authentication API
+ */
+export interface AuthTokenResponse {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // seconds
+  user: {
+    id: string;
+    email: string;
+    firstName: string;
+    lastName: string;
+    roles: string[];
+  };
+}
+
+/**
+ * Auth HTTP Service
+ * This service handles all HTTP communications for authentication
+ * It belongs to the infrastructure layer and implements the actual API calls
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AuthHttpService {
+  private readonly baseUrl = `${environment.apiUrl}/auth`;
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Exchange credentials for tokens
+   */
+  login(credentials: {
+    email: string;
+    password: string;
+  }): Observable<AuthTokenResponse> {
+    return this.http.post<AuthTokenResponse>(
+      `${this.baseUrl}/login`,
+      credentials,
+    );
+  }
+
+  /**
+   * Exchange a refresh token for new tokens
+   */
+  refresh(refreshToken: string): Observable<AuthTokenResponse> {
+    return this.http.post<AuthTokenResponse>(`${this.baseUrl}/refresh`, {
+      refreshToken,
+    });
+  }
+
+  /**
+   * Revoke a refresh token
+   */
+  logout(refreshToken: string): Observable<void> {
+    return this.http.post<void>(`${this.baseUrl}/logout`, { refreshToken });
+  }
+}
@@ -1,7 +1,14 @@
 import { Injectable } from '@angular/core';
-import { HttpClient, HttpParams } from '@angular/common/http';
+import { HttpClient, HttpHeaders, HttpParams } from '@angular/common/http';
 import { Observable } from 'rxjs';
 import { environment } from '../../../environments/environment';
+import {
+  DeactivationPayload,
+  PersonNameDetails,
+  UserStatus,
+  UserStatusChange,
+  isActiveFilter,
+} from '../../domain';
 
 /**
  * User HTTP Service
@@ -13,6 +20,7 @@ import { environment } from '../../../environments/environment';
 })
 export class UserHttpService {
   private readonly baseUrl = `${environment.apiUrl}/users`;
+  private readonly invitationsUrl = `${environment.apiUrl}/invitations`;
 
   constructor(private http: HttpClient) {}
 
@@ -23,7 +31,10 @@ export class UserHttpService {
     page?: number;
     limit?: number;
     search?: string;
-    isActive?: boolean;
+    statuses?: readonly UserStatus[];
+    role?: string;
+    sortBy?: string;
+    sortOrder?: 'asc' | 'desc';
   }): Observable<{
     users: any[];
     total: number;
@@ -41,8 +52,22 @@ export class UserHttpService {
     if (params?.search) {
       httpParams = httpParams.set('search', params.search);
     }
-    if (params?.isActive !== undefined) {
-      httpParams = httpParams.set('isActive', params.isActive.toString());
+    if (params?.statuses?.length) {
+      httpParams = httpParams.set('status', params.statuses.join(','));
+      // Servers from before statuses only filter by isActive
+      const isActive = isActiveFilter(params.statuses);
+      if (isActive !== undefined) {
+        httpParams = httpParams.set('isActive', isActive.toString());
+      }
+    }
+    if (params?.role) {
+      httpParams = httpParams.set('role', params.role);
+    }
+    if (params?.sortBy) {
+      httpParams = httpParams.set('sortBy', params.sortBy);
+    }
+    if (params?.sortOrder) {
+      httpParams = httpParams.set('sortOrder', params.sortOrder);
     }
 
     return this.http.get<{
@@ -71,32 +96,166 @@ export class UserHttpService {
   /**
    * Create a new user
    */
-  createUser(userData: {
-    email: string;
-    firstName: string;
-    lastName: string;
-  }): Observable<any> {
+  createUser(
+    userData: {
+      email: string;
+      firstName: string;
+      lastName: string;
+    } & PersonNameDetails,
+  ): Observable<any> {
     return this.http.post<any>(this.baseUrl, userData);
   }
 
   /**
    * Update user information
+   * With a version, sends it as `If-Match` so the API answers 412 when the
+   * user has changed since
    */
   updateUser(
     id: string,
     userData: {
       firstName?: string;
       lastName?: string;
-    },
+    } & PersonNameDetails,
+    version?: number,
+  ): Observable<any> {
+    const headers =
+      version === undefined
+        ? undefined
+        : new HttpHeaders({ 'If-Match': `"${version}"` });
+    return this.http.put<any>(`${this.baseUrl}/${id}`, userData, { headers });
+  }
+
+  /**
+   * Replace the roles assigned to a user
+   */
+  updateUserRoles(id: string, roles: readonly string[]): Observable<any> {
+    return this.http.put<any>(`${this.baseUrl}/${id}/roles`, { roles });
+  }
+
+  /**
+   * Get the email change awaiting verification
+   */
+  getPendingEmailChange(id: string): Observable<any> {
+    return this.http.get<any>(`${this.baseUrl}/${id}/email-change`);
+  }
+
+  /**
+   * Request an email change; the API mails a verification token to the new address
+   */
+  requestEmailChange(id: string, email: string): Observable<any> {
+    return this.http.post<any>(`${this.baseUrl}/${id}/email-change`, {
+      email,
+    });
+  }
+
+  /**
+   * Confirm the pending email change with its verification token
+   */
+  confirmEmailChange(id: string, token: string): Observable<any> {
+    return this.http.post<any>(`${this.baseUrl}/${id}/email-change/confirm`, {
+      token,
+    });
+  }
+
+  /**
+   * Cancel the pending email change
+   */
+  cancelEmailChange(id: string): Observable<{ success: boolean }> {
+    return this.http.delete<{ success: boolean }>(
+      `${this.baseUrl}/${id}/email-change`,
+    );
+  }
+
+  /**
+   * Invite a user; the API mails an acceptance token to the invitee
+   */
+  inviteUser(
+    userData: {
+      email: string;
+      firstName: string;
+      lastName: string;
+    } & PersonNameDetails,
   ): Observable<any> {
-    return this.http.put<any>(`${this.baseUrl}/${id}`, userData);
+    return this.http.post<any>(`${this.baseUrl}/invitations`, userData);
+  }
+
+  /**
+   * Get the invitations not accepted yet
+   */
+  getInvitations(): Observable<any[]> {
+    return this.http.get<any[]>(`${this.baseUrl}/invitations`);
+  }
+
+  /**
+   * Mail a new acceptance token with a new expiry
+   */
+  resendInvitation(userId: string): Observable<any> {
+    return this.http.post<any>(
+      `${this.baseUrl}/invitations/${userId}/resend`,
+      {},
+    );
+  }
+
+  /**
+   * Withdraw an invitation
+   */
+  revokeInvitation(userId: string): Observable<{ success: boolean }> {
+    return this.http.delete<{ success: boolean }>(
+      `${this.baseUrl}/invitations/${userId}`,
+    );
+  }
+
+  /**
+   * Get the invitation of an acceptance token
+   * Answered without a session, the token being the invitee's credential
+   */
+  getInvitationByToken(token: string): Observable<any> {
+    return this.http.get<any>(
+      `${this.invitationsUrl}/${encodeURIComponent(token)}`,
+    );
+  }
+
+  /**
+   * Accept an invitation with the names the invitee confirmed
+   */
+  acceptInvitation(
+    token: string,
+    userData: {
+      firstName: string;
+      lastName: string;
+    } & PersonNameDetails,
+  ): Observable<any> {
+    return this.http.post<any>(
+      `${this.invitationsUrl}/${encodeURIComponent(token)}/accept`,
+      userData,
+    );
   }
 
   /**
    * Soft delete user (deactivate)
    */
-  deleteUser(id: string): Observable<{ success: boolean }> {
-    return this.http.delete<{ success: boolean }>(`${this.baseUrl}/${id}`);
+  deleteUser(
+    id: string,
+    deactivationData: DeactivationPayload,
+  ): Observable<{ success: boolean }> {
+    return this.http.delete<{ success: boolean }>(`${this.baseUrl}/${id}`, {
+      body: deactivationData,
+    });
+  }
+
+  /**
+   * Reactivate a deactivated user
+   */
+  activateUser(id: string): Observable<any> {
+    return this.http.post<any>(`${this.baseUrl}/${id}/activate`, {});
+  }
+
+  /**
+   * Suspend, lock, or schedule a user for or take them off deletion
+   */
+  changeUserStatus(id: string, change: UserStatusChange): Observable<any> {
+    return this.http.post<any>(`${this.baseUrl}/${id}/${change}`, {});
   }
 
   /**
@@ -108,6 +267,27 @@ export class UserHttpService {
     );
   }
 
+  /**
+   * Apply an operation to several users in one batch
+   */
+  bulkOperation(
+    userIds: string[],
+    operation: string,
+    deactivationData?: DeactivationPayload,
+  ): Observable<{
+    successful: string[];
+    failed: Array<{ id: string; error: string }>;
+  }> {
+    return this.http.post<{
+      successful: string[];
+      failed: Array<{ id: string; error: string }>;
+    }>(`${this.baseUrl}/bulk`, {
+      userIds,
+      operation,
+      deactivation: deactivationData,
+    });
+  }
+
   /**
    * Check if user exists by email
    */
@@ -145,4 +325,29 @@ export class UserHttpService {
   getActiveUsersCount(): Observable<{ count: number }> {
     return this.http.get<{ count: number }>(`${this.baseUrl}/active/count`);
   }
+
+  /**
+   * Get user statistics for a period
+   */
+  getUserStats(
+    startDate: Date,
+    endDate: Date,
+  ): Observable<{
+    totalUsers: number;
+    activeUsers: number;
+    inactiveUsers: number;
+    newUsers: number;
+    deactivatedUsers: number;
+  }> {
+    const params = new HttpParams()
+      .set('startDate', startDate.toISOString())
+      .set('endDate', endDate.toISOString());
+    return this.http.get<{
+      totalUsers: number;
+      activeUsers: number;
+      inactiveUsers: number;
+      newUsers: number;
+      deactivatedUsers: number;
+    }>(`${this.baseUrl}/stats`, { params });
+  }
 }
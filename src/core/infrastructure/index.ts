@@ -1,6 +1,12 @@
 // HTTP Services
 export * from './http/user-http.service';
+export * from './http/auth-http.service';
 
 // Repository Implementations
 export * from './repositories/user.repository';
 export * from './repositories/user-mock.repository';
+export * from './repositories/auth.repository';
+export * from './repositories/auth-mock.repository';
+
+// Storage
+export * from './storage/browser-session.storage';
@@ -0,0 +1,123 @@
+import { Inject, Injectable } from '@angular/core';
+import { Observable, of, throwError } from 'rxjs';
+import { delay } from 'rxjs/operators';
+
+// Domain imports
+import {
+  Credentials,
+  Session,
+  SessionUser,
+  IAuthRepository,
+  InvalidCredentialsError,
+  SessionExpiredError,
+  UserValidationPolicy,
+} from '../../domain';
+import { USER_VALIDATION_POLICY_TOKEN } from '../../di/injection-tokens';
+
+/**
+ * Mock Auth Repository Implementation
+ * This class provides a mock identity provider for development and testing
+ * Accounts mirror users from UserMockRepository and share one demo password
+ * John is an admin, Jane a manager and Alice a viewer
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AuthMockRepository implements IAuthRepository {
+  private readonly accounts: { user: SessionUser; password: string }[] = [
+    {
+      user: {
+        id: '1',
+        email: 'john.doe@example.com',
+        firstName: 'John',
+        lastName: 'Doe',
+        roles: ['admin'],
+      },
+      password: 'password123',
+    },
+    {
+      user: {
+        id: '2',
+        email: 'jane.smith@example.com',
+        firstName: 'Jane',
+        lastName: 'Smith',
+        roles: ['manager'],
+      },
+      password: 'password123',
+    },
+    {
+      user: {
+        id: '4',
+        email: 'alice.brown@example.com',
+        firstName: 'Alice',
+        lastName: 'Brown',
+        roles: ['viewer'],
+      },
+      password: 'password123',
+    },
+  ];
+
+  private readonly sessionLifetimeMs = 60 * 60 * 1000; // 1 hour
+  private revokedRefreshTokens = new Set<string>();
+
+  constructor(
+    @Inject(USER_VALIDATION_POLICY_TOKEN)
+    private validationPolicy: UserValidationPolicy,
+  ) {}
+
+  /**
+   * Exchange credentials for a new session
+   * Emails are matched by their canonical form, like user lookups
+   */
+  login(credentials: Credentials): Observable<Session> {
+    const address = this.validationPolicy.emailAddress(credentials.email);
+    const account = this.accounts.find(
+      (a) =>
+        this.validationPolicy.emailAddress(a.user.email).equals(address) &&
+        a.password === credentials.password,
+    );
+
+    if (!account) {
+      return throwError(() => new InvalidCredentialsError()).pipe(delay(300));
+    }
+
+    return of(this.issueSession(account.user)).pipe(delay(500));
+  }
+
+  /**
+   * Exchange the refresh token of a session for a new session
+   * Refresh tokens are single-use: the old one is revoked on rotation
+   */
+  refresh(session: Session): Observable<Session> {
+    if (
+      !session.refreshToken.startsWith('mock-refresh-') ||
+      this.revokedRefreshTokens.has(session.refreshToken)
+    ) {
+      return throwError(() => new SessionExpiredError()).pipe(delay(200));
+    }
+
+    this.revokedRefreshTokens.add(session.refreshToken);
+    return of(this.issueSession(session.user)).pipe(delay(300));
+  }
+
+  /**
+   * Invalidate a session
+   */
+  logout(session: Session): Observable<void> {
+    this.revokedRefreshTokens.add(session.refreshToken);
+    return of(undefined).pipe(delay(200));
+  }
+
+  /**
+   * Create a session with freshly generated tokens
+   */
+  private issueSession(user: SessionUser): Session {
+    const nonce = `${user.id}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    return new Session(
+      `mock-access-${nonce}`,
+      `mock-refresh-${nonce}`,
+      new Date(Date.now() + this.sessionLifetimeMs),
+      { ...user, roles: [...user.roles] },
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { Injectable } from '@angular/core';
+import { Observable, throwError } from 'rxjs';
+import { map, catchError } from 'rxjs/operators';
+
+// Domain imports
+import {
+  Credentials,
+  Session,
+  IAuthRepository,
+  InvalidCredentialsError,
+  SessionExpiredError,
+  isRole,
+} from '../../domain';
+import { DomainErrorFactory } from '../../domain/errors/domain-errors';
+
+// Infrastructure imports
+import { AuthHttpService, AuthTokenResponse } from '../http/auth-http.service';
+
+/**
+ * Auth Repository Implementation
+ * This class implements the IAuthRepository interface from the domain layer
+ * It exchanges credentials and tokens with the authentication API
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AuthRepository implements IAuthRepository {
+  constructor(private authHttpService: AuthHttpService) {}
+
+  /**
+   * Exchange credentials for a new session
+   */
+  login(credentials: Credentials): Observable<Session> {
+    return this.authHttpService
+      .login({ email: credentials.email, password: credentials.password })
+      .pipe(
+        map((response) => this.mapToSession(response)),
+        catchError((error) => {
+          if (error.status === 401) {
+            return throwError(() => new InvalidCredentialsError());
+          }
+          console.error('Error logging in:', error);
+          return throwError(() => DomainErrorFactory.fromHttpError(error));
+        }),
+      );
+  }
+
+  /**
+   * Exchange the refresh token of a session for a new session
+   */
+  refresh(session: Session): Observable<Session> {
+    return this.authHttpService.refresh(session.refreshToken).pipe(
+      map((response) => this.mapToSession(response)),
+      catchError((error) => {
+        if (error.status === 400 || error.status === 401) {
+          return throwError(() => new SessionExpiredError());
+        }
+        console.error('Error refreshing session:', error);
+        return throwError(() => DomainErrorFactory.fromHttpError(error));
+      }),
+    );
+  }
+
+  /**
+   * Invalidate a session on the authentication API
+   */
+  logout(session: Session): Observable<void> {
+    return this.authHttpService.logout(session.refreshToken).pipe(
+      catchError((error) => {
+        console.error('Error logging out:', error);
+        return throwError(() => DomainErrorFactory.fromHttpError(error));
+      }),
+    );
+  }
+
+  /**
+   * Map API token response to Session entity
+   */
+  private mapToSession(response: AuthTokenResponse): Session {
+    return new Session(
+      response.accessToken,
+      response.refreshToken,
+      new Date(Date.now() + response.expiresIn * 1000),
+      {
+        id: response.user.id,
+        email: response.user.email,
+        firstName: response.user.firstName,
+        lastName: response.user.lastName,
+        roles: (response.user.roles ?? []).filter(isRole),
+      },
+    );
+  }
+}
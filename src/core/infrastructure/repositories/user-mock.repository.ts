@@ -1,9 +1,34 @@
-import { Injectable } from '@angular/core';
+import { Inject, Injectable, isDevMode } from '@angular/core';
 import { Observable, of, throwError } from 'rxjs';
 import { delay } from 'rxjs/operators';
 
 // Domain imports
-import { User, IUserRepository } from '../../domain';
+import {
+  User,
+  Role,
+  EmailChange,
+  Invitation,
+  AccessActor,
+  Deactivation,
+  UserStatus,
+  UserStatusTransition,
+  UserStatusChange,
+  transitionRefusal,
+  IUserRepository,
+  BulkUserOperation,
+  BulkOperationResult,
+  UserStats,
+  UserSortField,
+  SortOrder,
+  UserNotFoundError,
+  UserActiveError,
+  BusinessRuleViolationError,
+  UserAlreadyExistsError,
+  ConcurrentModificationError,
+  PersonNameDetails,
+  UserValidationPolicy,
+} from '../../domain';
+import { USER_VALIDATION_POLICY_TOKEN } from '../../di/injection-tokens';
 
 /**
  * Mock User Repository Implementation
@@ -14,6 +39,15 @@ import { User, IUserRepository } from '../../domain';
   providedIn: 'root',
 })
 export class UserMockRepository implements IUserRepository {
+  private static readonly BULK_TRANSITIONS: Record<
+    BulkUserOperation,
+    UserStatusTransition
+  > = {
+    activate: 'activate',
+    deactivate: 'deactivate',
+    delete: 'purge',
+  };
+
   private users: User[] = [
     new User(
       '1',
@@ -22,7 +56,8 @@ export class UserMockRepository implements IUserRepository {
       'Doe',
       new Date('2023-01-15'),
       new Date('2023-01-15'),
-      true,
+      'active',
+      ['admin'],
     ),
     new User(
       '2',
@@ -31,7 +66,8 @@ export class UserMockRepository implements IUserRepository {
       'Smith',
       new Date('2023-02-20'),
       new Date('2023-02-20'),
-      true,
+      'active',
+      ['manager'],
     ),
     new User(
       '3',
@@ -40,7 +76,16 @@ export class UserMockRepository implements IUserRepository {
       'Johnson',
       new Date('2023-03-10'),
       new Date('2023-03-10'),
-      false,
+      'deactivated',
+      ['viewer'],
+      {},
+      1,
+      new Deactivation(
+        'left-company',
+        'Moved to a partner firm',
+        { id: '1', name: 'John Doe' },
+        new Date('2023-03-10'),
+      ),
     ),
     new User(
       '4',
@@ -49,7 +94,8 @@ export class UserMockRepository implements IUserRepository {
       'Brown',
       new Date('2023-04-05'),
       new Date('2023-04-05'),
-      true,
+      'active',
+      ['viewer'],
     ),
     new User(
       '5',
@@ -58,11 +104,89 @@ export class UserMockRepository implements IUserRepository {
       'Wilson',
       new Date('2023-05-12'),
       new Date('2023-05-12'),
-      true,
+      'suspended',
+      ['manager'],
+    ),
+    new User(
+      '6',
+      'jose.garcia@example.com',
+      'José',
+      "García-O'Brien",
+      new Date('2023-06-18'),
+      new Date('2023-06-18'),
+      'active',
+      ['viewer'],
+      { preferredName: 'Pepe' },
+    ),
+    new User(
+      '7',
+      'an.nguyen@example.com',
+      'An',
+      'Nguyễn',
+      new Date('2023-07-02'),
+      new Date('2023-07-02'),
+      'active',
+      ['viewer'],
+      { middleName: 'Văn', honorific: 'Dr.', nameOrder: 'family-first' },
+    ),
+    new User(
+      '8',
+      'dana.lee@example.com',
+      'Dana',
+      'Lee',
+      new Date('2023-08-01'),
+      new Date('2023-08-01'),
+      'invited',
     ),
   ];
 
-  private nextId = 6;
+  private nextId = 9;
+
+  /**
+   * When users were deactivated, kept for the period statistics
+   */
+  private deactivations: Date[] = [new Date('2023-03-10')];
+
+  /**
+   * Pending email changes by user ID, with the token that confirms them
+   */
+  private emailChanges = new Map<
+    string,
+    { change: EmailChange; token: string }
+  >();
+
+  private readonly emailChangeLifetimeMs = 24 * 60 * 60 * 1000; // 24 hours
+
+  /**
+   * Outstanding invitations by user ID, with the token that accepts them
+   * Dana's invitation has long expired and can only be resent
+   */
+  private invitations = new Map<
+    string,
+    {
+      invitedBy: AccessActor | null;
+      invitedAt: Date;
+      expiresAt: Date;
+      token: string;
+    }
+  >([
+    [
+      '8',
+      {
+        invitedBy: { id: '1', name: 'John Doe' },
+        invitedAt: new Date('2023-08-01'),
+        expiresAt: new Date('2023-08-08'),
+        token: 'expired-invitation',
+      },
+    ],
+  ]);
+
+  private readonly invitationLifetimeMs = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+  constructor(
+    @Inject(USER_VALIDATION_POLICY_TOKEN)
+    private validationPolicy: UserValidationPolicy,
+  ) {}
 
   /**
    * Get all users with optional filtering and pagination
@@ -71,7 +195,10 @@ export class UserMockRepository implements IUserRepository {
     page?: number;
     limit?: number;
     search?: string;
-    isActive?: boolean;
+    statuses?: readonly UserStatus[];
+    role?: Role;
+    sortBy?: UserSortField;
+    sortOrder?: SortOrder;
   }): Observable<{
     users: User[];
     total: number;
@@ -81,22 +208,33 @@ export class UserMockRepository implements IUserRepository {
     let filteredUsers = [...this.users];
 
     // Apply filters
-    if (options?.isActive !== undefined) {
-      filteredUsers = filteredUsers.filter(
-        (user) => user.isActive === options.isActive,
+    if (options?.statuses?.length) {
+      const statuses = options.statuses;
+      filteredUsers = filteredUsers.filter((user) =>
+        statuses.includes(user.status),
       );
     }
 
+    if (options?.role) {
+      const role = options.role;
+      filteredUsers = filteredUsers.filter((user) => user.hasRole(role));
+    }
+
     if (options?.search) {
-      const searchTerm = options.search.toLowerCase();
-      filteredUsers = filteredUsers.filter(
-        (user) =>
-          user.firstName.toLowerCase().includes(searchTerm) ||
-          user.lastName.toLowerCase().includes(searchTerm) ||
-          user.email.toLowerCase().includes(searchTerm),
+      const searchTerm = options.search;
+      filteredUsers = filteredUsers.filter((user) =>
+        this.matchesSearch(user, searchTerm),
       );
     }
 
+    // Apply sorting
+    const sortBy = options?.sortBy || 'createdAt';
+    const direction = options?.sortOrder === 'asc' ? 1 : -1;
+    filteredUsers.sort(
+      (a, b) =>
+        direction * this.compareUsers(a, b, sortBy) || a.id.localeCompare(b.id),
+    );
+
     // Apply pagination
     const page = options?.page || 1;
     const limit = options?.limit || 10;
@@ -124,24 +262,26 @@ export class UserMockRepository implements IUserRepository {
    * Get a user by their email address
    */
   getByEmail(email: string): Observable<User | null> {
-    const user = this.users.find((u) => u.email === email);
+    const user = this.findByEmail(email);
     return of(user || null).pipe(delay(300));
   }
 
   /**
    * Create a new user
    */
-  create(userData: {
-    email: string;
-    firstName: string;
-    lastName: string;
-  }): Observable<User> {
+  create(
+    userData: {
+      email: string;
+      firstName: string;
+      lastName: string;
+    } & PersonNameDetails,
+  ): Observable<User> {
     // Check if user already exists
-    const existingUser = this.users.find((u) => u.email === userData.email);
-    if (existingUser) {
-      return throwError(
-        () => new Error('User with this email already exists'),
-      ).pipe(delay(300));
+    // Emails are unique by canonical form, e.g. regardless of case
+    if (this.findByEmail(userData.email)) {
+      return throwError(() => new UserAlreadyExistsError(userData.email)).pipe(
+        delay(300),
+      );
     }
 
     const newUser = new User(
@@ -151,7 +291,14 @@ export class UserMockRepository implements IUserRepository {
       userData.lastName,
       new Date(),
       new Date(),
-      true,
+      'active',
+      [],
+      {
+        middleName: userData.middleName,
+        preferredName: userData.preferredName,
+        honorific: userData.honorific,
+        nameOrder: userData.nameOrder,
+      },
     );
 
     this.users.push(newUser);
@@ -168,17 +315,38 @@ export class UserMockRepository implements IUserRepository {
     userData: {
       firstName?: string;
       lastName?: string;
-    },
+    } & PersonNameDetails,
+    expectedVersion?: number,
   ): Observable<User> {
     const userIndex = this.users.findIndex((u) => u.id === id);
     if (userIndex === -1) {
-      return throwError(() => new Error('User not found')).pipe(delay(300));
+      return throwError(() => new UserNotFoundError(id)).pipe(delay(300));
     }
 
     const existingUser = this.users[userIndex];
+    if (
+      expectedVersion !== undefined &&
+      existingUser.version !== expectedVersion
+    ) {
+      return throwError(
+        () =>
+          new ConcurrentModificationError(
+            id,
+            expectedVersion,
+            existingUser.version,
+          ),
+      ).pipe(delay(300));
+    }
+
     const updatedUser = existingUser.updateInfo(
       userData.firstName || existingUser.firstName,
       userData.lastName || existingUser.lastName,
+      {
+        middleName: userData.middleName,
+        preferredName: userData.preferredName,
+        honorific: userData.honorific,
+        nameOrder: userData.nameOrder,
+      },
     );
 
     this.users[userIndex] = updatedUser;
@@ -186,51 +354,369 @@ export class UserMockRepository implements IUserRepository {
   }
 
   /**
-   * Delete a user (soft delete - deactivate)
+   * Replace the roles assigned to a user
    */
-  delete(id: string): Observable<boolean> {
+  updateRoles(id: string, roles: readonly Role[]): Observable<User> {
     const userIndex = this.users.findIndex((u) => u.id === id);
     if (userIndex === -1) {
-      return throwError(() => new Error('User not found')).pipe(delay(300));
+      return throwError(() => new UserNotFoundError(id)).pipe(delay(300));
     }
 
     const user = this.users[userIndex];
-    if (!user.isActive) {
-      return throwError(() => new Error('User is already inactive')).pipe(
+    const updatedUser = new User(
+      user.id,
+      user.email,
+      user.firstName,
+      user.lastName,
+      user.createdAt,
+      new Date(),
+      user.status,
+      [...roles],
+      user.name.details,
+      user.version + 1,
+    );
+
+    this.users[userIndex] = updatedUser;
+    return of(updatedUser).pipe(delay(400));
+  }
+
+  /**
+   * Get the email change awaiting verification for a user, if any
+   */
+  getPendingEmailChange(id: string): Observable<EmailChange | null> {
+    const pending = this.emailChanges.get(id);
+    return of(pending ? pending.change : null).pipe(delay(200));
+  }
+
+  /**
+   * Record an email change; the token is logged in place of being mailed
+   */
+  requestEmailChange(id: string, newEmail: string): Observable<EmailChange> {
+    if (!this.users.some((u) => u.id === id)) {
+      return throwError(() => new UserNotFoundError(id)).pipe(delay(300));
+    }
+
+    if (this.findByEmail(newEmail)) {
+      return throwError(() => new UserAlreadyExistsError(newEmail)).pipe(
         delay(300),
       );
     }
 
-    this.users[userIndex] = user.deactivate();
+    const now = new Date();
+    const change = new EmailChange(
+      id,
+      newEmail,
+      now,
+      new Date(now.getTime() + this.emailChangeLifetimeMs),
+    );
+    const token = Math.random().toString(36).slice(2, 10);
+    this.emailChanges.set(id, { change, token });
+    // Nothing mails the code, so development builds print it instead
+    if (isDevMode()) {
+      console.info(`Mock verification token for ${newEmail}: ${token}`);
+    }
+
+    return of(change).pipe(delay(400));
+  }
+
+  /**
+   * Commit the pending email change if the token matches and has not expired
+   */
+  confirmEmailChange(id: string, token: string): Observable<User> {
+    const userIndex = this.users.findIndex((u) => u.id === id);
+    if (userIndex === -1) {
+      return throwError(() => new UserNotFoundError(id)).pipe(delay(300));
+    }
+
+    const error = this.checkEmailChange(id, token);
+    if (error) {
+      return throwError(() => error).pipe(delay(300));
+    }
+
+    const { change } = this.emailChanges.get(id)!;
+    const updatedUser = this.users[userIndex].changeEmail(change.newEmail);
+    this.users[userIndex] = updatedUser;
+    this.emailChanges.delete(id);
+
+    return of(updatedUser).pipe(delay(500));
+  }
+
+  /**
+   * Discard the pending email change of a user
+   */
+  cancelEmailChange(id: string): Observable<boolean> {
+    if (!this.emailChanges.delete(id)) {
+      return throwError(
+        () =>
+          new BusinessRuleViolationError(
+            'No email change is pending for this user',
+            'email-change-pending',
+          ),
+      ).pipe(delay(300));
+    }
+
+    return of(true).pipe(delay(300));
+  }
+
+  /**
+   * Create an invited user; the acceptance link is logged in place of being mailed
+   */
+  invite(
+    userData: {
+      email: string;
+      firstName: string;
+      lastName: string;
+    } & PersonNameDetails,
+    invitedBy: AccessActor | null,
+  ): Observable<Invitation> {
+    if (this.findByEmail(userData.email)) {
+      return throwError(() => new UserAlreadyExistsError(userData.email)).pipe(
+        delay(300),
+      );
+    }
+
+    const now = new Date();
+    const invitedUser = new User(
+      this.nextId.toString(),
+      userData.email,
+      userData.firstName,
+      userData.lastName,
+      now,
+      now,
+      'invited',
+      [],
+      {
+        middleName: userData.middleName,
+        preferredName: userData.preferredName,
+        honorific: userData.honorific,
+        nameOrder: userData.nameOrder,
+      },
+    );
+
+    this.users.push(invitedUser);
+    this.nextId++;
+
+    return of(this.issueInvitation(invitedUser, invitedBy, now)).pipe(
+      delay(500),
+    );
+  }
+
+  /**
+   * Get the invitations not accepted yet, including expired ones
+   */
+  getInvitations(): Observable<Invitation[]> {
+    const invitations = this.users
+      .filter((user) => this.invitations.has(user.id))
+      .map((user) => this.toInvitation(user));
+    return of(invitations).pipe(delay(300));
+  }
+
+  /**
+   * Replace the token of an invitation and restart its expiry
+   */
+  resendInvitation(userId: string): Observable<Invitation> {
+    const user = this.users.find((u) => u.id === userId);
+    const pending = this.invitations.get(userId);
+    if (!user || !pending) {
+      return throwError(() => this.noPendingInvitation()).pipe(delay(300));
+    }
+
+    return of(
+      this.issueInvitation(user, pending.invitedBy, pending.invitedAt),
+    ).pipe(delay(400));
+  }
+
+  /**
+   * Withdraw an invitation, removing the invited user
+   */
+  revokeInvitation(userId: string): Observable<boolean> {
+    if (!this.invitations.delete(userId)) {
+      return throwError(() => this.noPendingInvitation()).pipe(delay(300));
+    }
+
+    this.users = this.users.filter((u) => u.id !== userId);
+    return of(true).pipe(delay(400));
+  }
+
+  /**
+   * Get the invitation a token belongs to, or null for unknown or used tokens
+   */
+  getInvitationByToken(token: string): Observable<Invitation | null> {
+    const user = this.findByInvitationToken(token);
+    return of(user ? this.toInvitation(user) : null).pipe(delay(300));
+  }
+
+  /**
+   * Activate the invited user with the names they confirmed, using up the token
+   * An expired invitation is kept, so that it can still be resent
+   */
+  acceptInvitation(
+    token: string,
+    userData: {
+      firstName: string;
+      lastName: string;
+    } & PersonNameDetails,
+  ): Observable<User> {
+    const user = this.findByInvitationToken(token);
+    if (!user) {
+      return throwError(
+        () =>
+          new BusinessRuleViolationError(
+            'This invitation is not valid or has already been used',
+            'invitation-token',
+          ),
+      ).pipe(delay(300));
+    }
+
+    if (this.toInvitation(user).isExpired()) {
+      return throwError(
+        () =>
+          new BusinessRuleViolationError(
+            'The invitation has expired, ask for a new one',
+            'invitation-unexpired',
+          ),
+      ).pipe(delay(300));
+    }
+
+    const { firstName, lastName, ...nameDetails } = userData;
+    const acceptedUser = user
+      .updateInfo(firstName, lastName, nameDetails)
+      .accept();
+    this.users = this.users.map((u) => (u.id === user.id ? acceptedUser : u));
+    this.invitations.delete(user.id);
+
+    return of(acceptedUser).pipe(delay(500));
+  }
+
+  /**
+   * Delete a user (soft delete - deactivate)
+   */
+  delete(id: string, deactivation: Deactivation): Observable<boolean> {
+    const userIndex = this.users.findIndex((u) => u.id === id);
+    if (userIndex === -1) {
+      return throwError(() => new UserNotFoundError(id)).pipe(delay(300));
+    }
+
+    const user = this.users[userIndex];
+    if (!user.can('deactivate')) {
+      return throwError(
+        () =>
+          new BusinessRuleViolationError(
+            transitionRefusal(user.status, 'deactivate'),
+            'deactivate-active-only',
+          ),
+      ).pipe(delay(300));
+    }
+
+    this.users[userIndex] = user.deactivate(deactivation);
+    this.deactivations.push(deactivation.deactivatedAt ?? new Date());
+    this.invitations.delete(id);
     return of(true).pipe(delay(500));
   }
 
   /**
-   * Permanently delete a user (hard delete)
+   * Reactivate a deactivated user
    */
-  permanentDelete(id: string): Observable<boolean> {
+  activate(id: string): Observable<User> {
+    const userIndex = this.users.findIndex((u) => u.id === id);
+    if (userIndex === -1) {
+      return throwError(() => new UserNotFoundError(id)).pipe(delay(300));
+    }
+
+    const user = this.users[userIndex];
+    if (!user.can('activate')) {
+      return throwError(
+        () =>
+          new BusinessRuleViolationError(
+            transitionRefusal(user.status, 'activate'),
+            'activate-inactive-only',
+          ),
+      ).pipe(delay(300));
+    }
+
+    const activatedUser = user.activate();
+    this.users[userIndex] = activatedUser;
+    return of(activatedUser).pipe(delay(500));
+  }
+
+  /**
+   * Suspend, lock, or schedule a user for or take them off deletion
+   */
+  changeStatus(id: string, change: UserStatusChange): Observable<User> {
     const userIndex = this.users.findIndex((u) => u.id === id);
     if (userIndex === -1) {
-      return throwError(() => new Error('User not found')).pipe(delay(300));
+      return throwError(() => new UserNotFoundError(id)).pipe(delay(300));
     }
 
     const user = this.users[userIndex];
-    if (user.isActive) {
+    if (!user.can(change)) {
       return throwError(
         () =>
-          new Error('Cannot permanently delete active user. Deactivate first.'),
+          new BusinessRuleViolationError(
+            transitionRefusal(user.status, change),
+            'status-transition',
+          ),
       ).pipe(delay(300));
     }
 
+    const changes: Record<UserStatusChange, (user: User) => User> = {
+      suspend: (u) => u.suspend(),
+      lock: (u) => u.lock(),
+      'schedule-deletion': (u) => u.scheduleDeletion(),
+      'cancel-deletion': (u) => u.cancelDeletion(),
+    };
+    const changedUser = changes[change](user);
+    this.users[userIndex] = changedUser;
+    return of(changedUser).pipe(delay(500));
+  }
+
+  /**
+   * Permanently delete a user (hard delete)
+   */
+  permanentDelete(id: string): Observable<boolean> {
+    const userIndex = this.users.findIndex((u) => u.id === id);
+    if (userIndex === -1) {
+      return throwError(() => new UserNotFoundError(id)).pipe(delay(300));
+    }
+
+    const user = this.users[userIndex];
+    if (!user.can('purge')) {
+      return throwError(() => new UserActiveError(id)).pipe(delay(300));
+    }
+
     this.users.splice(userIndex, 1);
+    this.emailChanges.delete(id);
     return of(true).pipe(delay(500));
   }
 
+  /**
+   * Apply an operation to several users in one batch
+   * Each user is checked against the same rules as the single operations
+   */
+  bulkOperation(
+    ids: string[],
+    operation: BulkUserOperation,
+    deactivation?: Deactivation,
+  ): Observable<BulkOperationResult> {
+    const result: BulkOperationResult = { successful: [], failed: [] };
+
+    for (const id of ids) {
+      const error = this.applyBulkOperation(id, operation, deactivation);
+      if (error) {
+        result.failed.push({ id, error });
+      } else {
+        result.successful.push(id);
+      }
+    }
+
+    return of(result).pipe(delay(700));
+  }
+
   /**
    * Check if a user exists by email
    */
   existsByEmail(email: string): Observable<boolean> {
-    const exists = this.users.some((u) => u.email === email);
+    const exists = this.findByEmail(email) !== undefined;
     return of(exists).pipe(delay(200));
   }
 
@@ -252,17 +738,29 @@ export class UserMockRepository implements IUserRepository {
     return of(count).pipe(delay(200));
   }
 
+  /**
+   * Get user statistics for a period
+   */
+  getStats(startDate: Date, endDate: Date): Observable<UserStats> {
+    const inPeriod = (date: Date) => date >= startDate && date <= endDate;
+    const activeUsers = this.users.filter((u) => u.isActive).length;
+
+    return of({
+      totalUsers: this.users.length,
+      activeUsers,
+      inactiveUsers: this.users.length - activeUsers,
+      newUsers: this.users.filter((u) => inPeriod(u.createdAt)).length,
+      deactivatedUsers: this.deactivations.filter(inPeriod).length,
+      periodStart: startDate,
+      periodEnd: endDate,
+    }).pipe(delay(300));
+  }
+
   /**
    * Search users by name or email
    */
   search(query: string, limit?: number): Observable<User[]> {
-    const searchTerm = query.toLowerCase();
-    let results = this.users.filter(
-      (user) =>
-        user.firstName.toLowerCase().includes(searchTerm) ||
-        user.lastName.toLowerCase().includes(searchTerm) ||
-        user.email.toLowerCase().includes(searchTerm),
-    );
+    let results = this.users.filter((user) => this.matchesSearch(user, query));
 
     if (limit && limit > 0) {
       results = results.slice(0, limit);
@@ -270,4 +768,168 @@ export class UserMockRepository implements IUserRepository {
 
     return of(results).pipe(delay(300));
   }
+
+  /**
+   * Find the user whose email has the same canonical form
+   */
+  private findByEmail(email: string): User | undefined {
+    const address = this.validationPolicy.emailAddress(email);
+    return this.users.find((user) =>
+      this.validationPolicy.emailAddress(user.email).equals(address),
+    );
+  }
+
+  /**
+   * Check if a user's name or email contains the search term
+   * Case and accents are ignored, so "jose" finds "José"
+   */
+  private matchesSearch(user: User, term: string): boolean {
+    const searchTerm = this.foldForSearch(term.trim());
+    return [user.firstName, user.lastName, user.email].some((value) =>
+      this.foldForSearch(value).includes(searchTerm),
+    );
+  }
+
+  private foldForSearch(value: string): string {
+    return value.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+  }
+
+  /**
+   * Compare two users by a sort field
+   * Names and emails use locale-aware, case-insensitive comparison
+   */
+  private compareUsers(a: User, b: User, sortBy: UserSortField): number {
+    if (sortBy === 'createdAt') {
+      return a.createdAt.getTime() - b.createdAt.getTime();
+    }
+
+    if (sortBy === 'name') {
+      return (
+        this.compareText(a.name.family, b.name.family) ||
+        this.compareText(a.name.given, b.name.given) ||
+        this.compareText(a.name.middle, b.name.middle)
+      );
+    }
+
+    return this.compareText(a[sortBy], b[sortBy]);
+  }
+
+  private compareText(a: string, b: string): number {
+    return a.localeCompare(b, undefined, { sensitivity: 'base' });
+  }
+
+  /**
+   * Check a confirmation against the pending change, as the API would
+   * An expired change is dropped
+   */
+  private checkEmailChange(
+    id: string,
+    token: string,
+  ): BusinessRuleViolationError | UserAlreadyExistsError | null {
+    const pending = this.emailChanges.get(id);
+    if (!pending) {
+      return new BusinessRuleViolationError(
+        'No email change is pending for this user',
+        'email-change-pending',
+      );
+    }
+
+    if (pending.change.isExpired()) {
+      this.emailChanges.delete(id);
+      return new BusinessRuleViolationError(
+        'The email change has expired, request a new one',
+        'email-change-unexpired',
+      );
+    }
+
+    if (pending.token !== token) {
+      return new BusinessRuleViolationError(
+        'The verification token is not valid',
+        'email-change-token',
+      );
+    }
+
+    if (this.findByEmail(pending.change.newEmail)) {
+      return new UserAlreadyExistsError(pending.change.newEmail);
+    }
+
+    return null;
+  }
+
+  /**
+   * Record a new token for an invited user, expiring a lifetime from now
+   * Any earlier token of the user stops working
+   */
+  private issueInvitation(
+    user: User,
+    invitedBy: AccessActor | null,
+    invitedAt: Date,
+  ): Invitation {
+    const token = Math.random().toString(36).slice(2, 10);
+    this.invitations.set(user.id, {
+      invitedBy,
+      invitedAt,
+      expiresAt: new Date(Date.now() + this.invitationLifetimeMs),
+      token,
+    });
+    if (isDevMode()) {
+      console.info(`Mock invitation link for ${user.email}: /invite/${token}`);
+    }
+
+    return this.toInvitation(user);
+  }
+
+  private toInvitation(user: User): Invitation {
+    const { invitedBy, invitedAt, expiresAt } = this.invitations.get(user.id)!;
+    return new Invitation(user, invitedBy, invitedAt, expiresAt);
+  }
+
+  private findByInvitationToken(token: string): User | undefined {
+    return this.users.find(
+      (user) => this.invitations.get(user.id)?.token === token,
+    );
+  }
+
+  private noPendingInvitation(): BusinessRuleViolationError {
+    return new BusinessRuleViolationError(
+      'User has no pending invitation',
+      'invitation-pending',
+    );
+  }
+
+  /**
+   * Apply one step of a bulk operation
+   * Returns the reason when the user cannot be processed
+   */
+  private applyBulkOperation(
+    id: string,
+    operation: BulkUserOperation,
+    deactivation?: Deactivation,
+  ): string | null {
+    const userIndex = this.users.findIndex((u) => u.id === id);
+    if (userIndex === -1) {
+      return 'User not found';
+    }
+
+    const user = this.users[userIndex];
+    const transition = UserMockRepository.BULK_TRANSITIONS[operation];
+    if (!user.can(transition)) {
+      return transitionRefusal(user.status, transition);
+    }
+
+    switch (operation) {
+      case 'activate':
+        this.users[userIndex] = user.activate();
+        return null;
+      case 'deactivate':
+        this.users[userIndex] = user.deactivate(deactivation);
+        this.deactivations.push(new Date());
+        this.invitations.delete(id);
+        return null;
+      case 'delete':
+        this.users.splice(userIndex, 1);
+        this.emailChanges.delete(id);
+        return null;
+    }
+  }
 }
@@ -1,6 +1,15 @@
 import { provideZonelessChangeDetection } from '@angular/core';
 import { TestBed } from '@angular/core/testing';
 import { of, throwError } from 'rxjs';
+import {
+  BusinessRuleViolationError,
+  ConcurrentModificationError,
+  ServerError,
+  UserActiveError,
+  UserAlreadyExistsError,
+  UserNotFoundError,
+} from '../../domain/errors/domain-errors';
+import { Deactivation } from '../../domain/entities/deactivation.entity';
 import { UserHttpService } from '../http/user-http.service';
 import { UserRepository } from './user.repository';
 
@@ -17,10 +26,14 @@ describe('UserRepository', () => {
       'updateUser',
       'deleteUser',
       'permanentDeleteUser',
+      'getPendingEmailChange',
+      'requestEmailChange',
+      'confirmEmailChange',
       'checkUserExists',
       'searchUsers',
       'getUsersByDateRange',
       'getActiveUsersCount',
+      'getUserStats',
     ]);
 
     TestBed.configureTestingModule({
@@ -76,6 +89,45 @@ describe('UserRepository', () => {
       });
     });
 
+    it('should read the status, falling back to isActive', (done) => {
+      const userData = {
+        email: 'test@example.com',
+        firstName: 'John',
+        lastName: 'Doe',
+        createdAt: '2023-01-01T00:00:00.000Z',
+        updatedAt: '2023-01-01T00:00:00.000Z',
+      };
+      mockHttpService.getUsers.and.returnValue(
+        of({
+          users: [
+            { ...userData, id: '1', status: 'locked', isActive: false },
+            { ...userData, id: '2', isActive: false },
+            { ...userData, id: '3', isActive: true },
+          ],
+          total: 3,
+          page: 1,
+          limit: 10,
+        }),
+      );
+
+      repository
+        .getAll({ statuses: ['locked', 'deactivated', 'active'] })
+        .subscribe({
+          next: (result) => {
+            expect(result.users.map((user) => user.status)).toEqual([
+              'locked',
+              'deactivated',
+              'active',
+            ]);
+            expect(mockHttpService.getUsers).toHaveBeenCalledWith({
+              statuses: ['locked', 'deactivated', 'active'],
+            });
+            done();
+          },
+          error: done.fail,
+        });
+    });
+
     it('should handle HTTP errors', (done) => {
       const httpError = { status: 500, message: 'Server error' };
       mockHttpService.getUsers.and.returnValue(throwError(() => httpError));
@@ -83,7 +135,9 @@ describe('UserRepository', () => {
       repository.getAll().subscribe({
         next: () => done.fail('Should have thrown error'),
         error: (error) => {
-          expect(error).toBeTruthy();
+          expect(error).toBeInstanceOf(ServerError);
+          expect(error.operation).toBe('getAll');
+          expect(error.status).toBe(500);
           done();
         },
       });
@@ -173,7 +227,9 @@ describe('UserRepository', () => {
       repository.create(userData).subscribe({
         next: () => done.fail('Should have thrown error'),
         error: (error) => {
-          expect(error.message).toBe('User with this email already exists');
+          expect(error).toBeInstanceOf(UserAlreadyExistsError);
+          expect(error.operation).toBe('create');
+          expect(error.status).toBe(409);
           done();
         },
       });
@@ -211,13 +267,176 @@ describe('UserRepository', () => {
     });
   });
 
+  describe('update with a version', () => {
+    it('should send the version and map a 412 to ConcurrentModificationError', (done) => {
+      mockHttpService.updateUser.and.returnValue(
+        throwError(() => ({ status: 412 })),
+      );
+
+      repository.update('1', { firstName: 'Jane' }, 3).subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(mockHttpService.updateUser).toHaveBeenCalledWith(
+            '1',
+            { firstName: 'Jane' },
+            3,
+          );
+          expect(error).toBeInstanceOf(ConcurrentModificationError);
+          expect(error.expectedVersion).toBe(3);
+          done();
+        },
+      });
+    });
+  });
+
   describe('delete', () => {
-    it('should delete user successfully', (done) => {
+    it('should send the deactivation with the request', (done) => {
       mockHttpService.deleteUser.and.returnValue(of({ success: true }));
-
-      repository.delete('1').subscribe({
+      const deactivation = new Deactivation(
+        'security',
+        'Compromised laptop',
+        { id: '1', name: 'John Doe' },
+        new Date('2024-01-01T00:00:00.000Z'),
+      );
+
+      repository.delete('1', deactivation).subscribe({
         next: (result) => {
           expect(result).toBe(true);
+          expect(mockHttpService.deleteUser).toHaveBeenCalledWith('1', {
+            reason: 'security',
+            note: 'Compromised laptop',
+            deactivatedBy: { id: '1', name: 'John Doe' },
+            deactivatedAt: '2024-01-01T00:00:00.000Z',
+          });
+          done();
+        },
+        error: done.fail,
+      });
+    });
+  });
+
+  describe('permanentDelete', () => {
+    it('should map a 404 to UserNotFoundError', (done) => {
+      mockHttpService.permanentDeleteUser.and.returnValue(
+        throwError(() => ({ status: 404 })),
+      );
+
+      repository.permanentDelete('1').subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(UserNotFoundError);
+          done();
+        },
+      });
+    });
+
+    it('should map a 409 to UserActiveError', (done) => {
+      mockHttpService.permanentDeleteUser.and.returnValue(
+        throwError(() => ({ status: 409 })),
+      );
+
+      repository.permanentDelete('1').subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(UserActiveError);
+          expect(error.userMessage).toBe(
+            'Deactivate the user before deleting them permanently',
+          );
+          done();
+        },
+      });
+    });
+  });
+
+  describe('email change', () => {
+    it('should return null when no change is pending (404)', (done) => {
+      mockHttpService.getPendingEmailChange.and.returnValue(
+        throwError(() => ({ status: 404 })),
+      );
+
+      repository.getPendingEmailChange('1').subscribe({
+        next: (change) => {
+          expect(change).toBeNull();
+          done();
+        },
+        error: done.fail,
+      });
+    });
+
+    it('should map the pending change', (done) => {
+      mockHttpService.requestEmailChange.and.returnValue(
+        of({
+          newEmail: 'new@example.com',
+          requestedAt: '2024-01-01T00:00:00.000Z',
+          expiresAt: '2024-01-02T00:00:00.000Z',
+        }),
+      );
+
+      repository.requestEmailChange('1', 'new@example.com').subscribe({
+        next: (change) => {
+          expect(change.userId).toBe('1');
+          expect(change.newEmail).toBe('new@example.com');
+          expect(change.expiresAt).toEqual(new Date('2024-01-02T00:00:00Z'));
+          done();
+        },
+        error: done.fail,
+      });
+    });
+
+    it('should map a 409 on request to UserAlreadyExistsError', (done) => {
+      mockHttpService.requestEmailChange.and.returnValue(
+        throwError(() => ({ status: 409 })),
+      );
+
+      repository.requestEmailChange('1', 'taken@example.com').subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(UserAlreadyExistsError);
+          done();
+        },
+      });
+    });
+
+    it('should map a 410 on confirm to an expired change', (done) => {
+      mockHttpService.confirmEmailChange.and.returnValue(
+        throwError(() => ({ status: 410 })),
+      );
+
+      repository.confirmEmailChange('1', 'abc123').subscribe({
+        next: () => done.fail('Should have thrown error'),
+        error: (error) => {
+          expect(error).toBeInstanceOf(BusinessRuleViolationError);
+          expect(error.rule).toBe('email-change-unexpired');
+          done();
+        },
+      });
+    });
+  });
+
+  describe('getStats', () => {
+    it('should return the stats with the requested period', (done) => {
+      const startDate = new Date('2024-01-01');
+      const endDate = new Date('2024-02-01');
+      mockHttpService.getUserStats.and.returnValue(
+        of({
+          totalUsers: 5,
+          activeUsers: 4,
+          inactiveUsers: 1,
+          newUsers: 2,
+          deactivatedUsers: 1,
+        }),
+      );
+
+      repository.getStats(startDate, endDate).subscribe({
+        next: (stats) => {
+          expect(mockHttpService.getUserStats).toHaveBeenCalledWith(
+            startDate,
+            endDate,
+          );
+          expect(stats.totalUsers).toBe(5);
+          expect(stats.deactivatedUsers).toBe(1);
+          expect(stats.periodStart).toBe(startDate);
+          expect(stats.periodEnd).toBe(endDate);
           done();
         },
         error: done.fail,
@@ -1,13 +1,42 @@
-import { Injectable } from '@angular/core';
+import { Inject, Injectable } from '@angular/core';
 import { Observable, of, throwError } from 'rxjs';
 import { map, catchError } from 'rxjs/operators';
 
 // Domain imports
-import { User, IUserRepository } from '../../domain';
-import { DomainErrorFactory } from '../../domain/errors/domain-errors';
+import {
+  User,
+  Role,
+  EmailChange,
+  Invitation,
+  AccessActor,
+  Deactivation,
+  UserStatus,
+  UserStatusChange,
+  userStatusFromPayload,
+  IUserRepository,
+  BulkUserOperation,
+  BulkOperationResult,
+  UserStats,
+  UserSortField,
+  SortOrder,
+  isRole,
+  isNameOrder,
+  PersonNameDetails,
+  UserValidationPolicy,
+} from '../../domain';
+import {
+  DomainError,
+  BusinessRuleViolationError,
+  ConcurrentModificationError,
+  DomainErrorFactory,
+  HttpErrorContext,
+  UserAlreadyExistsError,
+  UserActiveError,
+} from '../../domain/errors/domain-errors';
 
 // Infrastructure imports
 import { UserHttpService } from '../http/user-http.service';
+import { USER_VALIDATION_POLICY_TOKEN } from '../../di/injection-tokens';
 
 /**
  * User Repository Implementation
@@ -18,7 +47,11 @@ import { UserHttpService } from '../http/user-http.service';
   providedIn: 'root',
 })
 export class UserRepository implements IUserRepository {
-  constructor(private userHttpService: UserHttpService) {}
+  constructor(
+    private userHttpService: UserHttpService,
+    @Inject(USER_VALIDATION_POLICY_TOKEN)
+    private validationPolicy: UserValidationPolicy,
+  ) {}
 
   /**
    * Get all users with optional filtering and pagination
@@ -27,7 +60,10 @@ export class UserRepository implements IUserRepository {
     page?: number;
     limit?: number;
     search?: string;
-    isActive?: boolean;
+    statuses?: readonly UserStatus[];
+    role?: Role;
+    sortBy?: UserSortField;
+    sortOrder?: SortOrder;
   }): Observable<{
     users: User[];
     total: number;
@@ -41,10 +77,7 @@ export class UserRepository implements IUserRepository {
         page: response.page,
         limit: response.limit,
       })),
-      catchError((error) => {
-        console.error('Error fetching users:', error);
-        return throwError(() => DomainErrorFactory.fromHttpError(error));
-      }),
+      catchError(this.handleError('getAll')),
     );
   }
 
@@ -58,24 +91,23 @@ export class UserRepository implements IUserRepository {
         if (error.status === 404) {
           return of(null);
         }
-        console.error('Error fetching user by ID:', error);
-        return throwError(() => DomainErrorFactory.fromHttpError(error));
+        return this.handleError('getById', { userId: id })(error);
       }),
     );
   }
 
   /**
    * Get a user by their email address
+   * Lookups send the canonical form; the API stores the entered form for display
    */
   getByEmail(email: string): Observable<User | null> {
-    return this.userHttpService.getUserByEmail(email).pipe(
+    return this.userHttpService.getUserByEmail(this.canonicalEmail(email)).pipe(
       map((userData) => (userData ? this.mapToUser(userData) : null)),
       catchError((error) => {
         if (error.status === 404) {
           return of(null);
         }
-        console.error('Error fetching user by email:', error);
-        return throwError(() => new Error('Failed to fetch user'));
+        return this.handleError('getByEmail')(error);
       }),
     );
   }
@@ -83,22 +115,22 @@ export class UserRepository implements IUserRepository {
   /**
    * Create a new user
    */
-  create(userData: {
-    email: string;
-    firstName: string;
-    lastName: string;
-  }): Observable<User> {
+  create(
+    userData: {
+      email: string;
+      firstName: string;
+      lastName: string;
+    } & PersonNameDetails,
+  ): Observable<User> {
     return this.userHttpService.createUser(userData).pipe(
       map((response) => this.mapToUser(response)),
-      catchError((error) => {
-        console.error('Error creating user:', error);
-        if (error.status === 409) {
-          return throwError(
-            () => new Error('User with this email already exists'),
-          );
-        }
-        return throwError(() => new Error('Failed to create user'));
-      }),
+      catchError(
+        this.handleError('create', {
+          statusOverrides: {
+            409: () => new UserAlreadyExistsError(userData.email),
+          },
+        }),
+      ),
     );
   }
 
@@ -110,63 +142,287 @@ export class UserRepository implements IUserRepository {
     userData: {
       firstName?: string;
       lastName?: string;
-    },
+    } & PersonNameDetails,
+    expectedVersion?: number,
   ): Observable<User> {
-    return this.userHttpService.updateUser(id, userData).pipe(
+    return this.userHttpService.updateUser(id, userData, expectedVersion).pipe(
+      map((response) => this.mapToUser(response)),
+      catchError(
+        this.handleError('update', {
+          userId: id,
+          // The API answers 412 when `If-Match` names an outdated version
+          statusOverrides: {
+            412: () =>
+              new ConcurrentModificationError(id, expectedVersion ?? 0),
+          },
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Replace the roles assigned to a user
+   */
+  updateRoles(id: string, roles: readonly Role[]): Observable<User> {
+    return this.userHttpService.updateUserRoles(id, roles).pipe(
       map((response) => this.mapToUser(response)),
+      catchError(this.handleError('updateRoles', { userId: id })),
+    );
+  }
+
+  /**
+   * Get the email change awaiting verification for a user, if any
+   */
+  getPendingEmailChange(id: string): Observable<EmailChange | null> {
+    return this.userHttpService.getPendingEmailChange(id).pipe(
+      map((changeData) =>
+        changeData ? this.mapToEmailChange(id, changeData) : null,
+      ),
       catchError((error) => {
-        console.error('Error updating user:', error);
         if (error.status === 404) {
-          return throwError(() => new Error('User not found'));
+          return of(null);
         }
-        return throwError(() => new Error('Failed to update user'));
+        return this.handleError('getPendingEmailChange', { userId: id })(error);
       }),
     );
   }
 
   /**
-   * Delete a user (soft delete - deactivate)
+   * Record an email change and send a verification token to the new address
+   */
+  requestEmailChange(id: string, newEmail: string): Observable<EmailChange> {
+    return this.userHttpService.requestEmailChange(id, newEmail).pipe(
+      map((response) => this.mapToEmailChange(id, response)),
+      catchError(
+        this.handleError('requestEmailChange', {
+          userId: id,
+          statusOverrides: {
+            409: () => new UserAlreadyExistsError(newEmail),
+          },
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Commit the pending email change if the token matches and has not expired
+   */
+  confirmEmailChange(id: string, token: string): Observable<User> {
+    return this.userHttpService.confirmEmailChange(id, token).pipe(
+      map((response) => this.mapToUser(response)),
+      catchError(
+        this.handleError('confirmEmailChange', {
+          userId: id,
+          // The API answers 404 without a pending change and 410 once it expired
+          statusOverrides: {
+            404: () =>
+              new BusinessRuleViolationError(
+                'No email change is pending for this user',
+                'email-change-pending',
+              ),
+            410: () =>
+              new BusinessRuleViolationError(
+                'The email change has expired, request a new one',
+                'email-change-unexpired',
+              ),
+          },
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Discard the pending email change of a user
    */
-  delete(id: string): Observable<boolean> {
-    return this.userHttpService.deleteUser(id).pipe(
+  cancelEmailChange(id: string): Observable<boolean> {
+    return this.userHttpService.cancelEmailChange(id).pipe(
       map((response) => response.success),
+      catchError(this.handleError('cancelEmailChange', { userId: id })),
+    );
+  }
+
+  /**
+   * Create an invited user and mail them a single-use acceptance token
+   * The API attributes the invitation to the session it is made with
+   */
+  invite(
+    userData: {
+      email: string;
+      firstName: string;
+      lastName: string;
+    } & PersonNameDetails,
+    invitedBy: AccessActor | null,
+  ): Observable<Invitation> {
+    return this.userHttpService.inviteUser(userData).pipe(
+      map((response) => this.mapToInvitation({ invitedBy, ...response })),
+      catchError(
+        this.handleError('invite', {
+          statusOverrides: {
+            409: () => new UserAlreadyExistsError(userData.email),
+          },
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Get the invitations not accepted yet, including expired ones
+   */
+  getInvitations(): Observable<Invitation[]> {
+    return this.userHttpService.getInvitations().pipe(
+      map((invitations) =>
+        invitations.map((invitationData) =>
+          this.mapToInvitation(invitationData),
+        ),
+      ),
+      catchError(this.handleError('getInvitations')),
+    );
+  }
+
+  /**
+   * Mail a new token with a new expiry; earlier tokens stop working
+   */
+  resendInvitation(userId: string): Observable<Invitation> {
+    return this.userHttpService.resendInvitation(userId).pipe(
+      map((response) => this.mapToInvitation(response)),
+      catchError(this.handleError('resendInvitation', { userId })),
+    );
+  }
+
+  /**
+   * Withdraw an invitation, removing the invited user
+   */
+  revokeInvitation(userId: string): Observable<boolean> {
+    return this.userHttpService.revokeInvitation(userId).pipe(
+      map((response) => response.success),
+      catchError(this.handleError('revokeInvitation', { userId })),
+    );
+  }
+
+  /**
+   * Get the invitation a token belongs to, or null for unknown or used tokens
+   */
+  getInvitationByToken(token: string): Observable<Invitation | null> {
+    return this.userHttpService.getInvitationByToken(token).pipe(
+      map((invitationData) =>
+        invitationData ? this.mapToInvitation(invitationData) : null,
+      ),
       catchError((error) => {
-        console.error('Error deleting user:', error);
         if (error.status === 404) {
-          return throwError(() => new Error('User not found'));
+          return of(null);
         }
-        return throwError(() => new Error('Failed to delete user'));
+        return this.handleError('getInvitationByToken')(error);
       }),
     );
   }
 
+  /**
+   * Activate the invited user with the names they confirmed
+   */
+  acceptInvitation(
+    token: string,
+    userData: {
+      firstName: string;
+      lastName: string;
+    } & PersonNameDetails,
+  ): Observable<User> {
+    return this.userHttpService.acceptInvitation(token, userData).pipe(
+      map((response) => this.mapToUser(response)),
+      catchError(
+        this.handleError('acceptInvitation', {
+          // The API answers 404 for unknown or used tokens and 410 once expired
+          statusOverrides: {
+            404: () =>
+              new BusinessRuleViolationError(
+                'This invitation is not valid or has already been used',
+                'invitation-token',
+              ),
+            410: () =>
+              new BusinessRuleViolationError(
+                'The invitation has expired, ask for a new one',
+                'invitation-unexpired',
+              ),
+          },
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Delete a user (soft delete - deactivate)
+   */
+  delete(id: string, deactivation: Deactivation): Observable<boolean> {
+    return this.userHttpService.deleteUser(id, deactivation.toJSON()).pipe(
+      map((response) => response.success),
+      catchError(this.handleError('delete', { userId: id })),
+    );
+  }
+
+  /**
+   * Reactivate a deactivated user
+   */
+  activate(id: string): Observable<User> {
+    return this.userHttpService.activateUser(id).pipe(
+      map((response) => this.mapToUser(response)),
+      catchError(this.handleError('activate', { userId: id })),
+    );
+  }
+
+  /**
+   * Suspend, lock, or schedule a user for or take them off deletion
+   */
+  changeStatus(id: string, change: UserStatusChange): Observable<User> {
+    return this.userHttpService.changeUserStatus(id, change).pipe(
+      map((response) => this.mapToUser(response)),
+      catchError(this.handleError('changeStatus', { userId: id })),
+    );
+  }
+
   /**
    * Permanently delete a user (hard delete)
    */
   permanentDelete(id: string): Observable<boolean> {
     return this.userHttpService.permanentDeleteUser(id).pipe(
       map((response) => response.success),
-      catchError((error) => {
-        console.error('Error permanently deleting user:', error);
-        if (error.status === 404) {
-          return throwError(() => new Error('User not found'));
-        }
-        return throwError(() => new Error('Failed to permanently delete user'));
-      }),
+      catchError(
+        this.handleError('permanentDelete', {
+          userId: id,
+          // The API refuses to purge users that are still active
+          statusOverrides: { 409: () => new UserActiveError(id) },
+        }),
+      ),
     );
   }
 
+  /**
+   * Apply an operation to several users in one batch
+   */
+  bulkOperation(
+    ids: string[],
+    operation: BulkUserOperation,
+    deactivation?: Deactivation,
+  ): Observable<BulkOperationResult> {
+    return this.userHttpService
+      .bulkOperation(ids, operation, deactivation?.toJSON())
+      .pipe(
+        map((response) => ({
+          successful: response.successful,
+          failed: response.failed,
+        })),
+        catchError(this.handleError('bulkOperation')),
+      );
+  }
+
   /**
    * Check if a user exists by email
    */
   existsByEmail(email: string): Observable<boolean> {
-    return this.userHttpService.checkUserExists(email).pipe(
-      map((response) => response.exists),
-      catchError((error) => {
-        console.error('Error checking user existence:', error);
-        return throwError(() => new Error('Failed to check user existence'));
-      }),
-    );
+    return this.userHttpService
+      .checkUserExists(this.canonicalEmail(email))
+      .pipe(
+        map((response) => response.exists),
+        catchError(this.handleError('existsByEmail')),
+      );
   }
 
   /**
@@ -175,12 +431,7 @@ export class UserRepository implements IUserRepository {
   getByDateRange(startDate: Date, endDate: Date): Observable<User[]> {
     return this.userHttpService.getUsersByDateRange(startDate, endDate).pipe(
       map((users) => users.map((userData) => this.mapToUser(userData))),
-      catchError((error) => {
-        console.error('Error fetching users by date range:', error);
-        return throwError(
-          () => new Error('Failed to fetch users by date range'),
-        );
-      }),
+      catchError(this.handleError('getByDateRange')),
     );
   }
 
@@ -190,12 +441,25 @@ export class UserRepository implements IUserRepository {
   getActiveUsersCount(): Observable<number> {
     return this.userHttpService.getActiveUsersCount().pipe(
       map((response) => response.count),
-      catchError((error) => {
-        console.error('Error fetching active users count:', error);
-        return throwError(
-          () => new Error('Failed to fetch active users count'),
-        );
-      }),
+      catchError(this.handleError('getActiveUsersCount')),
+    );
+  }
+
+  /**
+   * Get user statistics for a period
+   */
+  getStats(startDate: Date, endDate: Date): Observable<UserStats> {
+    return this.userHttpService.getUserStats(startDate, endDate).pipe(
+      map((response) => ({
+        totalUsers: response.totalUsers,
+        activeUsers: response.activeUsers,
+        inactiveUsers: response.inactiveUsers,
+        newUsers: response.newUsers,
+        deactivatedUsers: response.deactivatedUsers,
+        periodStart: startDate,
+        periodEnd: endDate,
+      })),
+      catchError(this.handleError('getStats')),
     );
   }
 
@@ -205,10 +469,52 @@ export class UserRepository implements IUserRepository {
   search(query: string, limit?: number): Observable<User[]> {
     return this.userHttpService.searchUsers(query, limit).pipe(
       map((users) => users.map((userData) => this.mapToUser(userData))),
-      catchError((error) => {
-        console.error('Error searching users:', error);
-        return throwError(() => new Error('Failed to search users'));
-      }),
+      catchError(this.handleError('search')),
+    );
+  }
+
+  private canonicalEmail(email: string): string {
+    return this.validationPolicy.emailAddress(email).canonical;
+  }
+
+  /**
+   * Map a failed request to a DomainError carrying the operation and status
+   */
+  private handleError(
+    operation: string,
+    context: Omit<HttpErrorContext, 'operation'> = {},
+  ): (error: any) => Observable<never> {
+    return (error) => {
+      console.error(`User repository operation '${operation}' failed:`, error);
+      const domainError: DomainError = DomainErrorFactory.fromHttpError(error, {
+        ...context,
+        operation,
+      });
+      return throwError(() => domainError);
+    };
+  }
+
+  /**
+   * Map API response data to an EmailChange entity
+   */
+  private mapToEmailChange(userId: string, changeData: any): EmailChange {
+    return new EmailChange(
+      changeData.userId ?? userId,
+      changeData.newEmail,
+      new Date(changeData.requestedAt),
+      new Date(changeData.expiresAt),
+    );
+  }
+
+  /**
+   * Map API response data to an Invitation entity
+   */
+  private mapToInvitation(invitationData: any): Invitation {
+    return new Invitation(
+      this.mapToUser(invitationData.user),
+      invitationData.invitedBy ?? null,
+      new Date(invitationData.invitedAt),
+      new Date(invitationData.expiresAt),
     );
   }
 
@@ -223,7 +529,18 @@ export class UserRepository implements IUserRepository {
       userData.lastName,
       new Date(userData.createdAt),
       new Date(userData.updatedAt),
-      userData.isActive,
+      userStatusFromPayload(userData),
+      (userData.roles ?? []).filter(isRole),
+      {
+        middleName: userData.middleName,
+        preferredName: userData.preferredName,
+        honorific: userData.honorific,
+        nameOrder: isNameOrder(userData.nameOrder)
+          ? userData.nameOrder
+          : undefined,
+      },
+      userData.version ?? 1,
+      Deactivation.fromJSON(userData.deactivation),
     );
   }
 }
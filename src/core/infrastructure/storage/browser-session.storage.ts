@@ -0,0 +1,65 @@
+import { Inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+
+// Domain imports
+import { Session, ISessionStorage } from '../../domain';
+
+/**
+ * Browser Session Storage
+ * Persists the current session in localStorage so it survives page reloads
+ * On the server there is no storage, so every call is a no-op
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class BrowserSessionStorage implements ISessionStorage {
+  private readonly storageKey = 'clean-angular-app.session';
+
+  constructor(@Inject(PLATFORM_ID) private platformId: object) {}
+
+  /**
+   * Load the persisted session, discarding anything unreadable
+   */
+  load(): Session | null {
+    if (!this.isAvailable()) {
+      return null;
+    }
+
+    const raw = localStorage.getItem(this.storageKey);
+    if (!raw) {
+      return null;
+    }
+
+    try {
+      return Session.fromJSON(JSON.parse(raw));
+    } catch {
+      localStorage.removeItem(this.storageKey);
+      return null;
+    }
+  }
+
+  /**
+   * Persist the given session
+   */
+  save(session: Session): void {
+    if (this.isAvailable()) {
+      localStorage.setItem(this.storageKey, JSON.stringify(session.toJSON()));
+    }
+  }
+
+  /**
+   * Remove any persisted session
+   */
+  clear(): void {
+    if (this.isAvailable()) {
+      localStorage.removeItem(this.storageKey);
+    }
+  }
+
+  /**
+   * Check if browser storage can be used
+   */
+  private isAvailable(): boolean {
+    return isPlatformBrowser(this.platformId);
+  }
+}
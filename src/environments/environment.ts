@@ -16,5 +16,21 @@ export const environment = {
     timeout: 30000, // 30 seconds
     retryAttempts: 3,
     retryDelay: 1000, // 1 second
+    maxConcurrentPerHost: 6,
+  },
+  validation: {
+    nameMinLength: 1,
+    nameMaxLength: 50,
+    emailMaxLength: 254,
+    foldEmailAliases: false,
+  },
+  deactivation: {
+    reasons: [
+      { code: 'left-company', label: 'Left the company' },
+      { code: 'security', label: 'Security concern' },
+      { code: 'duplicate', label: 'Duplicate account' },
+      { code: 'other', label: 'Other' },
+    ],
+    noteMaxLength: 500,
   },
 };
@@ -0,0 +1,87 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+
+// Application layer imports
+import { AuthService } from '../../../core/application';
+
+/**
+ * Forbidden Component
+ * Shown when the signed-in user lacks the permissions a route requires
+ */
+@Component({
+  selector: 'app-forbidden',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  template: `
+    <div class="forbidden-container">
+      <div class="forbidden-card">
+        <h2>Access Denied</h2>
+        <p>You do not have permission to view this page.</p>
+        <p *ngIf="roles.length > 0" class="roles">
+          Signed in as: {{ roles.join(', ') }}
+        </p>
+        <a routerLink="/users" class="btn btn-primary">Back to Users</a>
+      </div>
+    </div>
+  `,
+  styles: [
+    `
+      .forbidden-container {
+        display: flex;
+        justify-content: center;
+        padding: 60px 20px;
+      }
+
+      .forbidden-card {
+        width: 100%;
+        max-width: 400px;
+        background: white;
+        padding: 30px;
+        border-radius: 8px;
+        box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+        text-align: center;
+      }
+
+      .forbidden-card h2 {
+        margin: 0 0 10px 0;
+        color: #dc3545;
+      }
+
+      .forbidden-card p {
+        color: #666;
+        margin-bottom: 20px;
+      }
+
+      .roles {
+        font-size: 14px;
+        text-transform: capitalize;
+      }
+
+      .btn {
+        padding: 10px 20px;
+        border-radius: 4px;
+        font-size: 14px;
+        font-weight: 500;
+        text-decoration: none;
+        display: inline-block;
+      }
+
+      .btn-primary {
+        background-color: #007bff;
+        color: white;
+      }
+
+      .btn-primary:hover {
+        background-color: #0056b3;
+      }
+    `,
+  ],
+})
+export class ForbiddenComponent {
+  constructor(private authService: AuthService) {}
+
+  get roles(): string[] {
+    return this.authService.currentUser?.roles ?? [];
+  }
+}
@@ -0,0 +1,372 @@
+import { Component, Inject, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, ReactiveFormsModule } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Subject, takeUntil } from 'rxjs';
+
+// Application layer imports
+import {
+  AcceptInvitationDto,
+  InvitationDto,
+  UserApplicationService,
+} from '../../../core/application';
+
+// Domain imports
+import {
+  UserField,
+  UserValidationPolicy,
+  ValidationError,
+} from '../../../core/domain';
+import { USER_VALIDATION_POLICY_TOKEN } from '../../../core/di/injection-tokens';
+
+// Shared utilities
+import { userFieldValidator } from '../../../shared/utils/validation.utils';
+
+/**
+ * Invitation Accept Component
+ * Lets an invitee confirm their name and activate their account
+ * Reached from the mailed link without signing in; the token in the link is
+ * the invitee's credential
+ */
+@Component({
+  selector: 'app-invitation-accept',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  template: `
+    <div class="accept-container">
+      <div class="accept-card">
+        <h2>Accept Invitation</h2>
+
+        <p *ngIf="isLoading" class="accept-message">Checking invitation...</p>
+
+        <div *ngIf="loadError" class="accept-error" role="alert">
+          {{ loadError }}
+        </div>
+
+        <div *ngIf="isAccepted" class="accept-success" role="status">
+          <p>Your account is active. Welcome aboard!</p>
+          <button type="button" class="btn btn-primary" (click)="signIn()">
+            Sign In
+          </button>
+        </div>
+
+        <form
+          *ngIf="invitation && !isAccepted"
+          [formGroup]="acceptForm"
+          (ngSubmit)="onSubmit()"
+        >
+          <p class="accept-message">
+            You were invited as <strong>{{ invitation.user.email }}</strong
+            >{{ invitation.invitedBy ? ' by ' + invitation.invitedBy : '' }}.
+            Please confirm your name.
+          </p>
+
+          <div class="form-group">
+            <label for="firstName">First Name *</label>
+            <input
+              id="firstName"
+              type="text"
+              formControlName="firstName"
+              class="form-control"
+              autocomplete="given-name"
+              [class.is-invalid]="isFieldInvalid('firstName')"
+            />
+            <div *ngIf="isFieldInvalid('firstName')" class="invalid-feedback">
+              {{ fieldError('firstName') }}
+            </div>
+          </div>
+
+          <div class="form-group">
+            <label for="middleName">Middle Name</label>
+            <input
+              id="middleName"
+              type="text"
+              formControlName="middleName"
+              class="form-control"
+              autocomplete="additional-name"
+              [class.is-invalid]="isFieldInvalid('middleName')"
+            />
+            <div *ngIf="isFieldInvalid('middleName')" class="invalid-feedback">
+              {{ fieldError('middleName') }}
+            </div>
+          </div>
+
+          <div class="form-group">
+            <label for="lastName">Last Name *</label>
+            <input
+              id="lastName"
+              type="text"
+              formControlName="lastName"
+              class="form-control"
+              autocomplete="family-name"
+              [class.is-invalid]="isFieldInvalid('lastName')"
+            />
+            <div *ngIf="isFieldInvalid('lastName')" class="invalid-feedback">
+              {{ fieldError('lastName') }}
+            </div>
+          </div>
+
+          <div class="form-group">
+            <label for="preferredName">Preferred Name</label>
+            <input
+              id="preferredName"
+              type="text"
+              formControlName="preferredName"
+              class="form-control"
+              autocomplete="nickname"
+              [class.is-invalid]="isFieldInvalid('preferredName')"
+            />
+            <div
+              *ngIf="isFieldInvalid('preferredName')"
+              class="invalid-feedback"
+            >
+              {{ fieldError('preferredName') }}
+            </div>
+          </div>
+
+          <div *ngIf="errorMessage" class="accept-error" role="alert">
+            {{ errorMessage }}
+          </div>
+
+          <button
+            type="submit"
+            class="btn btn-primary"
+            [disabled]="acceptForm.invalid || isSubmitting"
+          >
+            {{ isSubmitting ? 'Activating...' : 'Accept Invitation' }}
+          </button>
+        </form>
+      </div>
+    </div>
+  `,
+  styles: [
+    `
+      .accept-container {
+        display: flex;
+        justify-content: center;
+        padding: 60px 20px;
+      }
+
+      .accept-card {
+        width: 100%;
+        max-width: 440px;
+        background: white;
+        padding: 30px;
+        border-radius: 8px;
+        box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+      }
+
+      .accept-card h2 {
+        margin: 0 0 20px 0;
+        color: #333;
+      }
+
+      .accept-message {
+        margin: 0 0 20px 0;
+        color: #666;
+      }
+
+      .form-group {
+        margin-bottom: 20px;
+      }
+
+      label {
+        display: block;
+        margin-bottom: 5px;
+        font-weight: 500;
+        color: #333;
+      }
+
+      .form-control {
+        width: 100%;
+        padding: 10px 12px;
+        border: 1px solid #ddd;
+        border-radius: 4px;
+        font-size: 14px;
+        box-sizing: border-box;
+      }
+
+      .form-control.is-invalid {
+        border-color: #dc3545;
+      }
+
+      .invalid-feedback {
+        margin-top: 5px;
+        font-size: 12px;
+        color: #dc3545;
+      }
+
+      .accept-error {
+        margin-bottom: 20px;
+        padding: 10px 12px;
+        border-radius: 4px;
+        background-color: #f8d7da;
+        color: #721c24;
+        font-size: 14px;
+      }
+
+      .accept-success p {
+        color: #155724;
+      }
+
+      .btn {
+        width: 100%;
+        padding: 10px 20px;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        font-weight: 500;
+      }
+
+      .btn:disabled {
+        opacity: 0.6;
+        cursor: not-allowed;
+      }
+
+      .btn-primary {
+        background-color: #007bff;
+        color: white;
+      }
+
+      .btn-primary:hover:not(:disabled) {
+        background-color: #0056b3;
+      }
+    `,
+  ],
+})
+export class InvitationAcceptComponent implements OnInit, OnDestroy {
+  acceptForm: FormGroup;
+  invitation: InvitationDto | null = null;
+  isLoading = false;
+  isSubmitting = false;
+  isAccepted = false;
+  loadError: string | null = null;
+  errorMessage: string | null = null;
+
+  private token = '';
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private formBuilder: FormBuilder,
+    private userApplicationService: UserApplicationService,
+    @Inject(USER_VALIDATION_POLICY_TOKEN)
+    private validationPolicy: UserValidationPolicy,
+    private route: ActivatedRoute,
+    private router: Router,
+  ) {
+    this.acceptForm = this.formBuilder.group({
+      firstName: ['', userFieldValidator(this.validationPolicy, 'firstName')],
+      middleName: ['', userFieldValidator(this.validationPolicy, 'middleName')],
+      lastName: ['', userFieldValidator(this.validationPolicy, 'lastName')],
+      preferredName: [
+        '',
+        userFieldValidator(this.validationPolicy, 'preferredName'),
+      ],
+    });
+  }
+
+  ngOnInit(): void {
+    this.token = this.route.snapshot.paramMap.get('token') ?? '';
+    this.loadInvitation();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Get the first message of a field's validation errors
+   */
+  fieldError(fieldName: UserField): string | null {
+    const errors = this.acceptForm.get(fieldName)?.errors;
+    return errors ? (Object.values(errors)[0]?.message ?? null) : null;
+  }
+
+  /**
+   * Check if a form field is invalid and has been touched
+   */
+  isFieldInvalid(fieldName: string): boolean {
+    const field = this.acceptForm.get(fieldName);
+    return !!(field && field.invalid && (field.dirty || field.touched));
+  }
+
+  /**
+   * Handle form submission
+   */
+  onSubmit(): void {
+    if (this.acceptForm.invalid) {
+      this.acceptForm.markAllAsTouched();
+      return;
+    }
+
+    this.isSubmitting = true;
+    this.errorMessage = null;
+
+    const names: AcceptInvitationDto = this.acceptForm.value;
+    this.userApplicationService
+      .acceptInvitation(this.token, names)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          this.isSubmitting = false;
+          this.isAccepted = true;
+        },
+        error: (error) => {
+          this.isSubmitting = false;
+          console.error('Error accepting invitation:', error);
+          this.errorMessage = this.errorText(
+            error,
+            'Failed to accept the invitation',
+          );
+        },
+      });
+  }
+
+  signIn(): void {
+    this.router.navigate(['/login']);
+  }
+
+  private loadInvitation(): void {
+    this.isLoading = true;
+
+    this.userApplicationService
+      .getInvitation(this.token)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (invitation) => {
+          this.isLoading = false;
+          this.invitation = invitation;
+          this.acceptForm.patchValue({
+            firstName: invitation.user.firstName,
+            middleName: invitation.user.middleName ?? '',
+            lastName: invitation.user.lastName,
+            preferredName: invitation.user.preferredName ?? '',
+          });
+        },
+        error: (error) => {
+          this.isLoading = false;
+          console.error('Error loading invitation:', error);
+          this.loadError = this.errorText(
+            error,
+            'This invitation could not be loaded',
+          );
+        },
+      });
+  }
+
+  /**
+   * Message for a failed request, chosen by the domain error code
+   */
+  private errorText(error: any, fallback: string): string {
+    switch (error?.code) {
+      case 'VALIDATION_ERROR':
+        return (error as ValidationError).validationErrors.join(', ');
+      case 'BUSINESS_RULE_VIOLATION':
+        return error.message;
+      default:
+        return fallback;
+    }
+  }
+}
@@ -0,0 +1,259 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  FormBuilder,
+  FormGroup,
+  Validators,
+  ReactiveFormsModule,
+} from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Subject, takeUntil } from 'rxjs';
+
+// Application layer imports
+import { AuthService } from '../../../core/application';
+import { DomainError } from '../../../core/domain';
+
+// Shared services
+import { NotificationService } from '../../../shared/services/notification.service';
+
+/**
+ * Login Component
+ * Authenticates the user and returns them to the page they came from
+ */
+@Component({
+  selector: 'app-login',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  template: `
+    <div class="login-container">
+      <div class="login-card">
+        <h2>Sign In</h2>
+
+        <form [formGroup]="loginForm" (ngSubmit)="onSubmit()">
+          <div class="form-group">
+            <label for="email">Email</label>
+            <input
+              id="email"
+              type="email"
+              formControlName="email"
+              class="form-control"
+              autocomplete="username"
+              [class.is-invalid]="isFieldInvalid('email')"
+            />
+            <div *ngIf="isFieldInvalid('email')" class="invalid-feedback">
+              <div *ngIf="loginForm.get('email')?.errors?.['required']">
+                Email is required
+              </div>
+              <div *ngIf="loginForm.get('email')?.errors?.['email']">
+                Please enter a valid email
+              </div>
+            </div>
+          </div>
+
+          <div class="form-group">
+            <label for="password">Password</label>
+            <input
+              id="password"
+              type="password"
+              formControlName="password"
+              class="form-control"
+              autocomplete="current-password"
+              [class.is-invalid]="isFieldInvalid('password')"
+            />
+            <div *ngIf="isFieldInvalid('password')" class="invalid-feedback">
+              Password is required
+            </div>
+          </div>
+
+          <div *ngIf="errorMessage" class="login-error" role="alert">
+            {{ errorMessage }}
+          </div>
+
+          <button
+            type="submit"
+            class="btn btn-primary"
+            [disabled]="loginForm.invalid || isSubmitting"
+          >
+            {{ isSubmitting ? 'Signing in...' : 'Sign In' }}
+          </button>
+        </form>
+      </div>
+    </div>
+  `,
+  styles: [
+    `
+      .login-container {
+        display: flex;
+        justify-content: center;
+        padding: 60px 20px;
+      }
+
+      .login-card {
+        width: 100%;
+        max-width: 400px;
+        background: white;
+        padding: 30px;
+        border-radius: 8px;
+        box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+      }
+
+      .login-card h2 {
+        margin: 0 0 20px 0;
+        color: #333;
+      }
+
+      .form-group {
+        margin-bottom: 20px;
+      }
+
+      label {
+        display: block;
+        margin-bottom: 5px;
+        font-weight: 500;
+        color: #333;
+      }
+
+      .form-control {
+        width: 100%;
+        padding: 10px 12px;
+        border: 1px solid #ddd;
+        border-radius: 4px;
+        font-size: 14px;
+        box-sizing: border-box;
+      }
+
+      .form-control.is-invalid {
+        border-color: #dc3545;
+      }
+
+      .invalid-feedback {
+        margin-top: 5px;
+        font-size: 12px;
+        color: #dc3545;
+      }
+
+      .login-error {
+        margin-bottom: 20px;
+        padding: 10px 12px;
+        border-radius: 4px;
+        background-color: #f8d7da;
+        color: #721c24;
+        font-size: 14px;
+      }
+
+      .btn {
+        width: 100%;
+        padding: 10px 20px;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        font-weight: 500;
+      }
+
+      .btn:disabled {
+        opacity: 0.6;
+        cursor: not-allowed;
+      }
+
+      .btn-primary {
+        background-color: #007bff;
+        color: white;
+      }
+
+      .btn-primary:hover:not(:disabled) {
+        background-color: #0056b3;
+      }
+    `,
+  ],
+})
+export class LoginComponent implements OnInit, OnDestroy {
+  loginForm: FormGroup;
+  isSubmitting = false;
+  errorMessage: string | null = null;
+
+  private returnUrl = '/users';
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private formBuilder: FormBuilder,
+    private authService: AuthService,
+    private notificationService: NotificationService,
+    private route: ActivatedRoute,
+    private router: Router,
+  ) {
+    this.loginForm = this.formBuilder.group({
+      email: ['', [Validators.required, Validators.email]],
+      password: ['', Validators.required],
+    });
+  }
+
+  ngOnInit(): void {
+    this.returnUrl = this.sanitizeReturnUrl(
+      this.route.snapshot.queryParamMap.get('returnUrl'),
+    );
+
+    // Already signed in - nothing to do here
+    if (this.authService.isAuthenticated()) {
+      this.router.navigateByUrl(this.returnUrl);
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Check if a form field is invalid and has been touched
+   */
+  isFieldInvalid(fieldName: string): boolean {
+    const field = this.loginForm.get(fieldName);
+    return !!(field && field.invalid && (field.dirty || field.touched));
+  }
+
+  /**
+   * Handle form submission
+   */
+  onSubmit(): void {
+    if (this.loginForm.invalid) {
+      this.loginForm.markAllAsTouched();
+      return;
+    }
+
+    this.isSubmitting = true;
+    this.errorMessage = null;
+
+    this.authService
+      .login(this.loginForm.value)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (user) => {
+          this.isSubmitting = false;
+          this.notificationService.showSuccess(
+            'Welcome',
+            `Signed in as ${user.fullName}`,
+          );
+          this.router.navigateByUrl(this.returnUrl);
+        },
+        error: (error) => {
+          this.isSubmitting = false;
+          this.errorMessage =
+            error instanceof DomainError
+              ? error.userMessage
+              : 'Unable to sign in. Please try again.';
+          this.loginForm.get('password')?.reset();
+        },
+      });
+  }
+
+  /**
+   * Only allow returning to a path inside this application
+   */
+  private sanitizeReturnUrl(url: string | null): string {
+    if (!url || !url.startsWith('/') || url.startsWith('//')) {
+      return '/users';
+    }
+    return url.startsWith('/login') ? '/users' : url;
+  }
+}
@@ -0,0 +1,4 @@
+// Auth Components
+export * from './components/login.component';
+export * from './components/forbidden.component';
+export * from './components/invitation-accept.component';
@@ -0,0 +1,131 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { of, throwError } from 'rxjs';
+import {
+  UserApplicationService,
+  UserResponseDto,
+  UserStatsDto,
+} from '../../../core/application';
+import { NotificationService } from '../../../shared/services/notification.service';
+import { DashboardComponent } from './dashboard.component';
+
+describe('DashboardComponent', () => {
+  let component: DashboardComponent;
+  let fixture: ComponentFixture<DashboardComponent>;
+  let mockUserService: jasmine.SpyObj<UserApplicationService>;
+  let mockNotificationService: jasmine.SpyObj<NotificationService>;
+
+  const mockStats: UserStatsDto = {
+    totalUsers: 5,
+    activeUsers: 4,
+    inactiveUsers: 1,
+    newUsers: 2,
+    deactivatedUsers: 1,
+    periodStart: '2024-01-01T00:00:00.000Z',
+    periodEnd: '2024-01-31T00:00:00.000Z',
+  };
+
+  const signup = (createdAt: Date): UserResponseDto => ({
+    id: createdAt.getTime().toString(),
+    email: 'user@example.com',
+    firstName: 'Test',
+    lastName: 'User',
+    fullName: 'Test User',
+    createdAt: createdAt.toISOString(),
+    updatedAt: createdAt.toISOString(),
+    status: 'active',
+    isActive: true,
+    roles: [],
+    version: 1,
+  });
+
+  beforeEach(async () => {
+    mockUserService = jasmine.createSpyObj('UserApplicationService', [
+      'getUserStats',
+      'getUsersByDateRange',
+    ]);
+    mockUserService.getUserStats.and.returnValue(of(mockStats));
+    mockUserService.getUsersByDateRange.and.returnValue(
+      of([signup(new Date()), signup(new Date())]),
+    );
+
+    mockNotificationService = jasmine.createSpyObj('NotificationService', [
+      'showError',
+    ]);
+
+    await TestBed.configureTestingModule({
+      imports: [DashboardComponent],
+      providers: [
+        provideZonelessChangeDetection(),
+        provideRouter([]),
+        { provide: UserApplicationService, useValue: mockUserService },
+        { provide: NotificationService, useValue: mockNotificationService },
+      ],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(DashboardComponent);
+    component = fixture.componentInstance;
+  });
+
+  it('should load stats and signups for the last 30 days', () => {
+    component.ngOnInit();
+
+    const period = mockUserService.getUserStats.calls.mostRecent().args[0]!;
+    const days =
+      (new Date(period.endDate!).getTime() -
+        new Date(period.startDate!).getTime()) /
+      86400000;
+    expect(Math.round(days)).toBe(30);
+    expect(mockUserService.getUsersByDateRange).toHaveBeenCalledWith(
+      period as { startDate: string; endDate: string },
+    );
+    expect(component.stats).toEqual(mockStats);
+    expect(component.buckets.length).toBe(31);
+    expect(component.buckets[component.buckets.length - 1].count).toBe(2);
+  });
+
+  it('should render stat cards and the chart', () => {
+    fixture.detectChanges();
+
+    const element: HTMLElement = fixture.nativeElement;
+    expect(element.textContent).toContain('Total Users');
+    expect(element.querySelectorAll('.stat-card').length).toBe(5);
+    expect(element.querySelectorAll('app-signup-chart rect').length).toBe(31);
+  });
+
+  it('should regroup signups without reloading', () => {
+    component.ngOnInit();
+    mockUserService.getUsersByDateRange.calls.reset();
+
+    component.setGranularity('monthly');
+
+    expect(mockUserService.getUsersByDateRange).not.toHaveBeenCalled();
+    expect(component.buckets.length).toBeLessThanOrEqual(2);
+    expect(
+      component.buckets.reduce((sum, bucket) => sum + bucket.count, 0),
+    ).toBe(2);
+  });
+
+  it('should reload when the period changes', () => {
+    component.rangeDays = 7;
+
+    component.loadDashboard();
+
+    expect(component.buckets.length).toBe(8);
+  });
+
+  it('should show an error when loading fails', () => {
+    mockUserService.getUserStats.and.returnValue(
+      throwError(() => new Error('Failed')),
+    );
+
+    component.ngOnInit();
+
+    expect(component.isLoading).toBeFalse();
+    expect(mockNotificationService.showError).toHaveBeenCalledWith(
+      'Error',
+      'Failed to load dashboard',
+    );
+  });
+});
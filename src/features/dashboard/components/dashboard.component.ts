@@ -0,0 +1,330 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { Subject, forkJoin, takeUntil } from 'rxjs';
+
+// Application layer imports
+import {
+  UserApplicationService,
+  UserStatsDto,
+} from '../../../core/application';
+
+// Shared services and utils
+import { NotificationService } from '../../../shared/services/notification.service';
+import {
+  BucketGranularity,
+  DateBucket,
+  bucketDates,
+} from '../../../shared/utils/date-bucket.utils';
+
+// Feature components
+import { SignupChartComponent } from './signup-chart.component';
+
+/**
+ * Dashboard Component
+ * Overview of user statistics and signups over a selectable period
+ */
+@Component({
+  selector: 'app-dashboard',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink, SignupChartComponent],
+  template: `
+    <div class="dashboard-container">
+      <div class="header">
+        <h2>Dashboard</h2>
+        <div class="controls">
+          <select
+            [(ngModel)]="rangeDays"
+            (change)="loadDashboard()"
+            class="form-control"
+            aria-label="Period"
+          >
+            <option *ngFor="let days of rangeOptions" [ngValue]="days">
+              Last {{ days }} days
+            </option>
+          </select>
+          <div class="toggle" role="group" aria-label="Group signups by">
+            <button
+              *ngFor="let option of granularityOptions"
+              type="button"
+              class="toggle-button"
+              [class.active]="granularity === option"
+              [attr.aria-pressed]="granularity === option"
+              (click)="setGranularity(option)"
+            >
+              {{ option | titlecase }}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div *ngIf="isLoading" class="loading">Loading dashboard...</div>
+
+      <ng-container *ngIf="!isLoading && stats">
+        <div class="stat-cards">
+          <div class="stat-card">
+            <span class="stat-label">Total Users</span>
+            <span class="stat-value">{{ stats.totalUsers }}</span>
+          </div>
+          <div class="stat-card">
+            <span class="stat-label">Active</span>
+            <span class="stat-value status-active">{{
+              stats.activeUsers
+            }}</span>
+          </div>
+          <div class="stat-card">
+            <span class="stat-label">Inactive</span>
+            <span class="stat-value status-inactive">{{
+              stats.inactiveUsers
+            }}</span>
+          </div>
+          <div class="stat-card">
+            <span class="stat-label">New ({{ rangeDays }} days)</span>
+            <span class="stat-value">{{ stats.newUsers }}</span>
+          </div>
+          <div class="stat-card">
+            <span class="stat-label">Deactivated ({{ rangeDays }} days)</span>
+            <span class="stat-value">{{ stats.deactivatedUsers }}</span>
+          </div>
+        </div>
+
+        <div class="chart-card">
+          <h3>Signups</h3>
+          <app-signup-chart [buckets]="buckets"></app-signup-chart>
+          <p *ngIf="signupDates.length === 0" class="empty-chart">
+            No signups in this period.
+          </p>
+        </div>
+
+        <a routerLink="/users" class="btn btn-primary">Manage Users</a>
+      </ng-container>
+    </div>
+  `,
+  styles: [
+    `
+      .dashboard-container {
+        padding: 20px;
+        max-width: 1000px;
+        margin: 0 auto;
+      }
+
+      .header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin-bottom: 20px;
+      }
+
+      .header h2 {
+        margin: 0;
+        color: #333;
+      }
+
+      .controls {
+        display: flex;
+        gap: 15px;
+        align-items: center;
+      }
+
+      .form-control {
+        padding: 8px 12px;
+        border: 1px solid #ddd;
+        border-radius: 4px;
+        font-size: 14px;
+      }
+
+      .toggle {
+        display: flex;
+      }
+
+      .toggle-button {
+        padding: 8px 12px;
+        border: 1px solid #007bff;
+        background: white;
+        color: #007bff;
+        font-size: 14px;
+        cursor: pointer;
+      }
+
+      .toggle-button + .toggle-button {
+        border-left: none;
+      }
+
+      .toggle-button:first-child {
+        border-radius: 4px 0 0 4px;
+      }
+
+      .toggle-button:last-child {
+        border-radius: 0 4px 4px 0;
+      }
+
+      .toggle-button.active {
+        background: #007bff;
+        color: white;
+      }
+
+      .loading {
+        text-align: center;
+        padding: 40px;
+        color: #666;
+      }
+
+      .stat-cards {
+        display: grid;
+        grid-template-columns: repeat(auto-fit, minmax(160px, 1fr));
+        gap: 15px;
+        margin-bottom: 20px;
+      }
+
+      .stat-card,
+      .chart-card {
+        background: white;
+        border-radius: 8px;
+        box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+        padding: 20px;
+      }
+
+      .stat-card {
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+      }
+
+      .stat-label {
+        color: #666;
+        font-size: 14px;
+      }
+
+      .stat-value {
+        color: #333;
+        font-size: 28px;
+        font-weight: 600;
+      }
+
+      .status-active {
+        color: #28a745;
+      }
+
+      .status-inactive {
+        color: #dc3545;
+      }
+
+      .chart-card {
+        margin-bottom: 20px;
+      }
+
+      .chart-card h3 {
+        margin: 0 0 15px 0;
+        color: #333;
+      }
+
+      .empty-chart {
+        text-align: center;
+        color: #666;
+        margin: 10px 0 0 0;
+      }
+
+      .btn {
+        padding: 10px 20px;
+        border-radius: 4px;
+        font-size: 14px;
+        text-decoration: none;
+        display: inline-block;
+      }
+
+      .btn-primary {
+        background-color: #007bff;
+        color: white;
+      }
+    `,
+  ],
+})
+export class DashboardComponent implements OnInit, OnDestroy {
+  readonly rangeOptions = [7, 30, 90, 365];
+  readonly granularityOptions: BucketGranularity[] = [
+    'daily',
+    'weekly',
+    'monthly',
+  ];
+
+  rangeDays = 30;
+  granularity: BucketGranularity = 'daily';
+  stats: UserStatsDto | null = null;
+  signupDates: Date[] = [];
+  buckets: DateBucket[] = [];
+  isLoading = false;
+
+  private periodStart = new Date();
+  private periodEnd = new Date();
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private userApplicationService: UserApplicationService,
+    private notificationService: NotificationService,
+  ) {}
+
+  ngOnInit(): void {
+    this.loadDashboard();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Load stats and signups for the selected period
+   */
+  loadDashboard(): void {
+    const endDate = new Date();
+    const startDate = new Date(endDate);
+    startDate.setDate(startDate.getDate() - this.rangeDays);
+    const period = {
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+    };
+
+    this.isLoading = true;
+    forkJoin({
+      stats: this.userApplicationService.getUserStats(period),
+      signups: this.userApplicationService.getUsersByDateRange(period),
+    })
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: ({ stats, signups }) => {
+          this.stats = stats;
+          this.signupDates = signups.map((user) => new Date(user.createdAt));
+          this.periodStart = startDate;
+          this.periodEnd = endDate;
+          this.updateBuckets();
+          this.isLoading = false;
+        },
+        error: (error) => {
+          console.error('Error loading dashboard:', error);
+          this.isLoading = false;
+          this.notificationService.showError(
+            'Error',
+            'Failed to load dashboard',
+          );
+        },
+      });
+  }
+
+  /**
+   * Regroup the loaded signups without fetching them again
+   */
+  setGranularity(granularity: BucketGranularity): void {
+    this.granularity = granularity;
+    this.updateBuckets();
+  }
+
+  private updateBuckets(): void {
+    this.buckets = bucketDates(
+      this.signupDates,
+      this.periodStart,
+      this.periodEnd,
+      this.granularity,
+    );
+  }
+}
@@ -0,0 +1,183 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+// Shared utils
+import { DateBucket } from '../../../shared/utils/date-bucket.utils';
+
+interface ChartBar {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  bucket: DateBucket;
+}
+
+interface AxisLabel {
+  x: number;
+  text: string;
+}
+
+/**
+ * Signup Chart Component
+ * Plain SVG bar chart of signups per date bucket
+ */
+@Component({
+  selector: 'app-signup-chart',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <svg
+      class="signup-chart"
+      [attr.viewBox]="'0 0 ' + width + ' ' + height"
+      role="img"
+      [attr.aria-label]="ariaLabel"
+    >
+      <line
+        class="axis"
+        [attr.x1]="marginLeft"
+        [attr.y1]="baseline"
+        [attr.x2]="width - marginRight"
+        [attr.y2]="baseline"
+      />
+      <line
+        class="grid"
+        [attr.x1]="marginLeft"
+        [attr.y1]="marginTop"
+        [attr.x2]="width - marginRight"
+        [attr.y2]="marginTop"
+      />
+      <text
+        class="tick"
+        text-anchor="end"
+        [attr.x]="marginLeft - 6"
+        [attr.y]="marginTop + 4"
+      >
+        {{ maxCount }}
+      </text>
+      <text
+        class="tick"
+        text-anchor="end"
+        [attr.x]="marginLeft - 6"
+        [attr.y]="baseline + 4"
+      >
+        0
+      </text>
+
+      <rect
+        *ngFor="let bar of bars"
+        class="bar"
+        [attr.x]="bar.x"
+        [attr.y]="bar.y"
+        [attr.width]="bar.width"
+        [attr.height]="bar.height"
+      >
+        <title>{{ bar.bucket.label }}: {{ bar.bucket.count }}</title>
+      </rect>
+
+      <text
+        *ngFor="let label of xLabels"
+        class="tick"
+        text-anchor="middle"
+        [attr.x]="label.x"
+        [attr.y]="height - 8"
+      >
+        {{ label.text }}
+      </text>
+    </svg>
+  `,
+  styles: [
+    `
+      .signup-chart {
+        width: 100%;
+        height: auto;
+        display: block;
+      }
+
+      .axis {
+        stroke: #999;
+      }
+
+      .grid {
+        stroke: #e9ecef;
+        stroke-dasharray: 4 4;
+      }
+
+      .bar {
+        fill: #007bff;
+      }
+
+      .bar:hover {
+        fill: #0056b3;
+      }
+
+      .tick {
+        fill: #666;
+        font-size: 11px;
+      }
+    `,
+  ],
+})
+export class SignupChartComponent {
+  @Input() buckets: DateBucket[] = [];
+
+  readonly width = 640;
+  readonly height = 240;
+  readonly marginTop = 12;
+  readonly marginRight = 8;
+  readonly marginBottom = 28;
+  readonly marginLeft = 36;
+
+  /**
+   * Most x-axis labels shown before they start to overlap
+   */
+  private static readonly MAX_X_LABELS = 8;
+
+  get baseline(): number {
+    return this.height - this.marginBottom;
+  }
+
+  get maxCount(): number {
+    return Math.max(1, ...this.buckets.map((bucket) => bucket.count));
+  }
+
+  get ariaLabel(): string {
+    const total = this.buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+    return `Signups chart: ${total} signups in ${this.buckets.length} periods`;
+  }
+
+  get bars(): ChartBar[] {
+    const slot = this.slotWidth;
+    const plotHeight = this.baseline - this.marginTop;
+    const maxCount = this.maxCount;
+
+    return this.buckets.map((bucket, index) => {
+      const height = (bucket.count / maxCount) * plotHeight;
+      return {
+        x: this.marginLeft + index * slot + slot * 0.15,
+        y: this.baseline - height,
+        width: Math.max(1, slot * 0.7),
+        height,
+        bucket,
+      };
+    });
+  }
+
+  get xLabels(): AxisLabel[] {
+    const slot = this.slotWidth;
+    const step = Math.ceil(
+      this.buckets.length / SignupChartComponent.MAX_X_LABELS,
+    );
+
+    return this.buckets
+      .map((bucket, index) => ({
+        x: this.marginLeft + index * slot + slot / 2,
+        text: bucket.label,
+      }))
+      .filter((_, index) => index % step === 0);
+  }
+
+  private get slotWidth(): number {
+    const plotWidth = this.width - this.marginLeft - this.marginRight;
+    return plotWidth / Math.max(1, this.buckets.length);
+  }
+}
@@ -0,0 +1,3 @@
+// Dashboard Components
+export * from './components/dashboard.component';
+export * from './components/signup-chart.component';
@@ -0,0 +1,85 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { DeactivationPolicy } from '../../../core/domain';
+import { DEACTIVATION_POLICY_TOKEN } from '../../../core/di/injection-tokens';
+import { DeactivationDialogComponent } from './deactivation-dialog.component';
+
+describe('DeactivationDialogComponent', () => {
+  let component: DeactivationDialogComponent;
+  let fixture: ComponentFixture<DeactivationDialogComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [DeactivationDialogComponent],
+      providers: [
+        provideZonelessChangeDetection(),
+        {
+          provide: DEACTIVATION_POLICY_TOKEN,
+          useValue: new DeactivationPolicy({ noteMaxLength: 20 }),
+        },
+      ],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(DeactivationDialogComponent);
+    component = fixture.componentInstance;
+  });
+
+  it('should offer the configured reasons', () => {
+    fixture.detectChanges();
+
+    const options = fixture.nativeElement.querySelectorAll('option');
+    expect(options.length).toBe(5);
+    expect(options[1].textContent.trim()).toBe('Left the company');
+  });
+
+  it('should not confirm without a reason', () => {
+    spyOn(component.confirmed, 'emit');
+
+    component.onConfirm();
+
+    expect(component.fieldErrors['reason']).toBe(
+      'Deactivation reason is required',
+    );
+    expect(component.confirmed.emit).not.toHaveBeenCalled();
+  });
+
+  it('should require a note for reasons that need one', () => {
+    spyOn(component.confirmed, 'emit');
+
+    component.reason = 'other';
+    component.onConfirm();
+
+    expect(component.noteRequired).toBeTrue();
+    expect(component.fieldErrors['note']).toBe(
+      'A note is required for "Other"',
+    );
+    expect(component.confirmed.emit).not.toHaveBeenCalled();
+  });
+
+  it('should confirm with the reason and trimmed note', () => {
+    spyOn(component.confirmed, 'emit');
+
+    component.reason = 'security';
+    component.note = '  Lost badge ';
+    component.onConfirm();
+
+    expect(component.fieldErrors).toEqual({});
+    expect(component.confirmed.emit).toHaveBeenCalledWith({
+      reason: 'security',
+      note: 'Lost badge',
+    });
+  });
+
+  it('should not confirm or cancel while processing', () => {
+    spyOn(component.confirmed, 'emit');
+    spyOn(component.cancelled, 'emit');
+
+    component.reason = 'duplicate';
+    component.isProcessing = true;
+    component.onConfirm();
+    component.onCancel();
+
+    expect(component.confirmed.emit).not.toHaveBeenCalled();
+    expect(component.cancelled.emit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,251 @@
+import { Component, EventEmitter, Inject, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+// Application layer imports
+import { DeactivationDto } from '../../../core/application';
+
+// Domain imports
+import { DeactivationPolicy, DeactivationReason } from '../../../core/domain';
+import { DEACTIVATION_POLICY_TOKEN } from '../../../core/di/injection-tokens';
+
+/**
+ * Deactivation Dialog Component
+ * Asks for the reason and note a deactivation has to be recorded with
+ * The request is checked with the deactivation policy before it is emitted
+ */
+@Component({
+  selector: 'app-deactivation-dialog',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="dialog-backdrop" (click)="onCancel()">
+      <div
+        class="dialog"
+        role="dialog"
+        aria-modal="true"
+        [attr.aria-label]="title"
+        (click)="$event.stopPropagation()"
+      >
+        <h3>{{ title }}</h3>
+        <p class="dialog-message">{{ message }}</p>
+
+        <div class="form-group">
+          <label for="deactivation-reason">Reason *</label>
+          <select
+            id="deactivation-reason"
+            class="form-control"
+            [(ngModel)]="reason"
+            [disabled]="isProcessing"
+          >
+            <option value="" disabled>Select a reason</option>
+            <option *ngFor="let option of reasons" [value]="option.code">
+              {{ option.label }}
+            </option>
+          </select>
+          <div *ngIf="fieldErrors['reason']" class="field-error">
+            {{ fieldErrors['reason'] }}
+          </div>
+        </div>
+
+        <div class="form-group">
+          <label for="deactivation-note">
+            Note{{ noteRequired ? ' *' : '' }}
+          </label>
+          <textarea
+            id="deactivation-note"
+            class="form-control"
+            rows="3"
+            [attr.maxlength]="noteMaxLength"
+            [(ngModel)]="note"
+            [disabled]="isProcessing"
+          ></textarea>
+          <div *ngIf="fieldErrors['note']" class="field-error">
+            {{ fieldErrors['note'] }}
+          </div>
+        </div>
+
+        <div *ngIf="errorMessage" class="dialog-error" role="alert">
+          {{ errorMessage }}
+        </div>
+
+        <div class="dialog-actions">
+          <button
+            type="button"
+            class="btn btn-secondary"
+            (click)="onCancel()"
+            [disabled]="isProcessing"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            class="btn btn-warning"
+            (click)="onConfirm()"
+            [disabled]="isProcessing"
+          >
+            {{ isProcessing ? 'Working...' : confirmLabel }}
+          </button>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [
+    `
+      .dialog-backdrop {
+        position: fixed;
+        inset: 0;
+        background: rgba(0, 0, 0, 0.4);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        z-index: 1000;
+      }
+
+      .dialog {
+        width: 100%;
+        max-width: 460px;
+        background: white;
+        border-radius: 8px;
+        box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+        padding: 30px;
+      }
+
+      .dialog h3 {
+        margin: 0 0 10px 0;
+        color: #333;
+      }
+
+      .dialog-message {
+        color: #666;
+        margin: 0 0 20px 0;
+      }
+
+      .form-group {
+        margin-bottom: 20px;
+      }
+
+      label {
+        display: block;
+        margin-bottom: 5px;
+        color: #333;
+        font-size: 14px;
+      }
+
+      .form-control {
+        width: 100%;
+        padding: 10px 12px;
+        border: 1px solid #ddd;
+        border-radius: 4px;
+        font-size: 14px;
+        font-family: inherit;
+        box-sizing: border-box;
+      }
+
+      .field-error {
+        margin-top: 5px;
+        color: #dc3545;
+        font-size: 12px;
+      }
+
+      .dialog-error {
+        margin-bottom: 20px;
+        padding: 10px 12px;
+        border-radius: 4px;
+        background-color: #f8d7da;
+        color: #721c24;
+        font-size: 14px;
+      }
+
+      .dialog-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: 10px;
+      }
+
+      .btn {
+        padding: 10px 20px;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        font-weight: 500;
+      }
+
+      .btn:disabled {
+        opacity: 0.6;
+        cursor: not-allowed;
+      }
+
+      .btn-secondary {
+        background-color: #6c757d;
+        color: white;
+      }
+
+      .btn-warning {
+        background-color: #ffc107;
+        color: #212529;
+      }
+
+      .btn-warning:hover:not(:disabled) {
+        background-color: #e0a800;
+      }
+    `,
+  ],
+})
+export class DeactivationDialogComponent {
+  @Input() title = 'Deactivate User';
+  @Input() message = '';
+  @Input() confirmLabel = 'Deactivate';
+  @Input() isProcessing = false;
+  @Input() errorMessage: string | null = null;
+  @Output() confirmed = new EventEmitter<DeactivationDto>();
+  @Output() cancelled = new EventEmitter<void>();
+
+  reason = '';
+  note = '';
+  fieldErrors: Record<string, string> = {};
+
+  constructor(
+    @Inject(DEACTIVATION_POLICY_TOKEN)
+    private deactivationPolicy: DeactivationPolicy,
+  ) {}
+
+  get reasons(): readonly DeactivationReason[] {
+    return this.deactivationPolicy.reasons;
+  }
+
+  get noteMaxLength(): number {
+    return this.deactivationPolicy.noteMaxLength;
+  }
+
+  /**
+   * Check if the selected reason needs a note
+   */
+  get noteRequired(): boolean {
+    return this.deactivationPolicy.noteRequired(this.reason);
+  }
+
+  onConfirm(): void {
+    if (this.isProcessing) {
+      return;
+    }
+
+    const request: DeactivationDto = {
+      reason: this.reason,
+      note: this.note.trim(),
+    };
+    const error = this.deactivationPolicy.validate(request);
+    this.fieldErrors = error?.fieldErrors ?? {};
+
+    if (!error) {
+      this.confirmed.emit(request);
+    }
+  }
+
+  onCancel(): void {
+    if (!this.isProcessing) {
+      this.cancelled.emit();
+    }
+  }
+}
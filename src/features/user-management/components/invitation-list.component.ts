@@ -0,0 +1,401 @@
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { Subject, takeUntil } from 'rxjs';
+
+// Application layer imports
+import {
+  InvitationDto,
+  UserApplicationService,
+} from '../../../core/application';
+
+// Shared services
+import { NotificationService } from '../../../shared/services/notification.service';
+
+// Shared components
+import { ConfirmDialogComponent } from '../../../shared/components/confirm-dialog.component';
+
+/**
+ * Invitation List Component
+ * Lists the invitations not accepted yet, with actions to resend or revoke them
+ */
+@Component({
+  selector: 'app-invitation-list',
+  standalone: true,
+  imports: [CommonModule, ConfirmDialogComponent],
+  template: `
+    <div class="invitation-list-container">
+      <div class="header">
+        <h2>Pending Invitations</h2>
+        <div class="header-actions">
+          <button class="btn btn-secondary" (click)="navigateBack()">
+            Back to Users
+          </button>
+          <button class="btn btn-primary" (click)="navigateToInvite()">
+            Invite User
+          </button>
+        </div>
+      </div>
+
+      <div *ngIf="isLoading && invitations.length === 0" class="empty">
+        Loading invitations...
+      </div>
+
+      <div *ngIf="loadError" class="load-error">
+        {{ loadError }}
+        <button
+          class="btn btn-sm btn-outline-primary"
+          (click)="loadInvitations()"
+        >
+          Retry
+        </button>
+      </div>
+
+      <div
+        *ngIf="!isLoading && !loadError && invitations.length === 0"
+        class="empty"
+      >
+        There are no pending invitations.
+      </div>
+
+      <table *ngIf="invitations.length > 0" class="invitation-table">
+        <thead>
+          <tr>
+            <th>Name</th>
+            <th>Email</th>
+            <th>Invited By</th>
+            <th>Invited</th>
+            <th>Expires</th>
+            <th>Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr
+            *ngFor="let invitation of invitations; trackBy: trackByUserId"
+            [class.expired]="invitation.isExpired"
+          >
+            <td>{{ invitation.user.fullName }}</td>
+            <td>{{ invitation.user.email }}</td>
+            <td>{{ invitation.invitedBy || 'System' }}</td>
+            <td>{{ formatDate(invitation.invitedAt) }}</td>
+            <td>
+              <span *ngIf="invitation.isExpired" class="badge expired-badge">
+                Expired
+              </span>
+              <span *ngIf="!invitation.isExpired">
+                {{ formatDate(invitation.expiresAt) }}
+              </span>
+            </td>
+            <td class="actions">
+              <button
+                class="btn btn-sm btn-outline-primary"
+                (click)="resendInvitation(invitation)"
+                [disabled]="processingId === invitation.user.id"
+              >
+                {{
+                  processingId === invitation.user.id ? 'Sending...' : 'Resend'
+                }}
+              </button>
+              <button
+                class="btn btn-sm btn-danger"
+                (click)="openRevokeDialog(invitation)"
+                [disabled]="processingId === invitation.user.id"
+              >
+                Revoke
+              </button>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      <app-confirm-dialog
+        *ngIf="revokeTarget"
+        title="Revoke invitation"
+        [message]="
+          'The invitation of ' +
+          revokeTarget.user.email +
+          ' will stop working and the invited user is removed.'
+        "
+        confirmLabel="Revoke"
+        [isProcessing]="processingId === revokeTarget.user.id"
+        [errorMessage]="revokeError"
+        (confirmed)="revokeInvitation()"
+        (cancelled)="closeRevokeDialog()"
+      ></app-confirm-dialog>
+    </div>
+  `,
+  styles: [
+    `
+      .invitation-list-container {
+        padding: 20px;
+      }
+
+      .header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin-bottom: 20px;
+      }
+
+      .header h2 {
+        margin: 0;
+        color: #333;
+      }
+
+      .header-actions {
+        display: flex;
+        gap: 10px;
+      }
+
+      .empty,
+      .load-error {
+        padding: 20px 0;
+        color: #666;
+      }
+
+      .load-error {
+        color: #dc3545;
+        display: flex;
+        align-items: center;
+        gap: 10px;
+      }
+
+      .invitation-table {
+        width: 100%;
+        border-collapse: collapse;
+        background: white;
+        border-radius: 8px;
+        overflow: hidden;
+        box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+      }
+
+      .invitation-table th,
+      .invitation-table td {
+        padding: 12px;
+        text-align: left;
+        border-bottom: 1px solid #eee;
+      }
+
+      .invitation-table th {
+        background-color: #f8f9fa;
+        font-weight: 600;
+        color: #333;
+      }
+
+      .invitation-table tr.expired td {
+        color: #999;
+      }
+
+      .badge {
+        padding: 4px 8px;
+        border-radius: 4px;
+        font-size: 12px;
+        font-weight: 500;
+      }
+
+      .expired-badge {
+        background-color: #f8d7da;
+        color: #721c24;
+      }
+
+      .actions {
+        display: flex;
+        gap: 5px;
+      }
+
+      .btn {
+        padding: 8px 16px;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        font-weight: 500;
+      }
+
+      .btn:disabled {
+        opacity: 0.6;
+        cursor: not-allowed;
+      }
+
+      .btn-sm {
+        padding: 4px 8px;
+        font-size: 12px;
+      }
+
+      .btn-primary {
+        background-color: #007bff;
+        color: white;
+      }
+
+      .btn-secondary {
+        background-color: #6c757d;
+        color: white;
+      }
+
+      .btn-danger {
+        background-color: #dc3545;
+        color: white;
+      }
+
+      .btn-outline-primary {
+        background-color: transparent;
+        color: #007bff;
+        border: 1px solid #007bff;
+      }
+    `,
+  ],
+})
+export class InvitationListComponent implements OnInit, OnDestroy {
+  invitations: InvitationDto[] = [];
+  isLoading = false;
+  loadError: string | null = null;
+
+  /**
+   * User whose invitation is being resent or revoked
+   */
+  processingId: string | null = null;
+  revokeTarget: InvitationDto | null = null;
+  revokeError: string | null = null;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private userApplicationService: UserApplicationService,
+    private notificationService: NotificationService,
+    private router: Router,
+  ) {}
+
+  ngOnInit(): void {
+    this.loadInvitations();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  loadInvitations(): void {
+    this.isLoading = true;
+    this.loadError = null;
+
+    this.userApplicationService
+      .getInvitations()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (invitations) => {
+          this.isLoading = false;
+          this.invitations = invitations;
+        },
+        error: (error) => {
+          this.isLoading = false;
+          console.error('Error loading invitations:', error);
+          this.loadError = 'Failed to load invitations';
+        },
+      });
+  }
+
+  /**
+   * Mail a new link; the previous one stops working
+   */
+  resendInvitation(invitation: InvitationDto): void {
+    this.processingId = invitation.user.id;
+
+    this.userApplicationService
+      .resendInvitation(invitation.user.id)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (resent) => {
+          this.processingId = null;
+          this.invitations = this.invitations.map((i) =>
+            i.user.id === resent.user.id ? resent : i,
+          );
+          this.notificationService.showSuccess(
+            'Invitation resent',
+            `A new invitation was sent to ${resent.user.email}`,
+          );
+        },
+        error: (error) => {
+          this.processingId = null;
+          console.error('Error resending invitation:', error);
+          this.notificationService.showError(
+            'Error',
+            this.errorMessage(error, 'Failed to resend invitation'),
+          );
+        },
+      });
+  }
+
+  openRevokeDialog(invitation: InvitationDto): void {
+    this.revokeTarget = invitation;
+    this.revokeError = null;
+  }
+
+  closeRevokeDialog(): void {
+    this.revokeTarget = null;
+    this.revokeError = null;
+  }
+
+  revokeInvitation(): void {
+    const target = this.revokeTarget;
+    if (!target) return;
+
+    this.processingId = target.user.id;
+    this.revokeError = null;
+
+    this.userApplicationService
+      .revokeInvitation(target.user.id)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          this.processingId = null;
+          this.revokeTarget = null;
+          this.invitations = this.invitations.filter(
+            (i) => i.user.id !== target.user.id,
+          );
+          this.notificationService.showSuccess(
+            'Invitation revoked',
+            `The invitation of ${target.user.email} was revoked`,
+          );
+        },
+        error: (error) => {
+          this.processingId = null;
+          console.error('Error revoking invitation:', error);
+          this.revokeError = this.errorMessage(
+            error,
+            'Failed to revoke invitation',
+          );
+        },
+      });
+  }
+
+  navigateBack(): void {
+    this.router.navigate(['/users']);
+  }
+
+  navigateToInvite(): void {
+    this.router.navigate(['/users/invite']);
+  }
+
+  trackByUserId(index: number, invitation: InvitationDto): string {
+    return invitation.user.id;
+  }
+
+  formatDate(dateString: string): string {
+    return new Date(dateString).toLocaleDateString();
+  }
+
+  /**
+   * Message for a failed action, chosen by the domain error code
+   */
+  private errorMessage(error: any, fallback: string): string {
+    switch (error?.code) {
+      case 'BUSINESS_RULE_VIOLATION':
+        return error.message;
+      case 'USER_NOT_FOUND':
+      case 'FORBIDDEN':
+        return error.userMessage;
+      default:
+        return fallback;
+    }
+  }
+}
@@ -7,6 +7,9 @@ import { Subject, takeUntil } from 'rxjs';
 import { UserApplicationService } from '../../../core/application';
 import { CreateUserDto } from '../../../core/application';
 
+// Domain imports
+import { ValidationError } from '../../../core/domain';
+
 // Shared services
 import { NotificationService } from '../../../shared/services/notification.service';
 import { LoadingService } from '../../../shared/services/loading.service';
@@ -138,13 +141,7 @@ export class UserCreateComponent implements OnDestroy {
           this.isSubmitting = false;
           console.error('Error creating user:', error);
 
-          // Extract error message
-          let errorMessage = 'Failed to create user';
-          if (error.message) {
-            errorMessage = error.message;
-          }
-
-          this.notificationService.showError('Error', errorMessage);
+          this.notificationService.showError('Error', this.errorMessage(error));
         },
       });
   }
@@ -155,4 +152,19 @@ export class UserCreateComponent implements OnDestroy {
   navigateBack(): void {
     this.router.navigate(['/users']);
   }
+
+  /**
+   * Message for a failed create, chosen by the domain error code
+   */
+  private errorMessage(error: any): string {
+    switch (error?.code) {
+      case 'VALIDATION_ERROR':
+        return (error as ValidationError).validationErrors.join(', ');
+      case 'USER_ALREADY_EXISTS':
+      case 'FORBIDDEN':
+        return error.userMessage;
+      default:
+        return 'Failed to create user';
+    }
+  }
 }
@@ -1,15 +1,38 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { ActivatedRoute, Router } from '@angular/router';
-import { Subject, takeUntil, switchMap } from 'rxjs';
+import { Subject, takeUntil, switchMap, filter } from 'rxjs';
 
 // Application layer imports
-import { UserApplicationService } from '../../../core/application';
-import { UserResponseDto } from '../../../core/application';
-
-// Shared services
+import {
+  UserApplicationService,
+  PersonNameFormatterService,
+  DomainEventBusService,
+} from '../../../core/application';
+import { UserResponseDto, DeactivationDto } from '../../../core/application';
+
+// Domain imports
+import {
+  DomainError,
+  Role,
+  ROLES,
+  USER_STATUS_LABELS,
+  USER_STATUS_TRANSITIONS,
+  UserStatusChange,
+  UserStatusTransition,
+  canTransition,
+  ValidationError,
+} from '../../../core/domain';
+
+// Shared services, directives and components
 import { NotificationService } from '../../../shared/services/notification.service';
 import { LoadingService } from '../../../shared/services/loading.service';
+import { HasPermissionDirective } from '../../../shared/directives/has-permission.directive';
+import { ConfirmDialogComponent } from '../../../shared/components/confirm-dialog.component';
+
+// Feature components
+import { UserHistoryComponent } from './user-history.component';
+import { DeactivationDialogComponent } from './deactivation-dialog.component';
 
 /**
  * User Detail Component
@@ -18,13 +41,20 @@ import { LoadingService } from '../../../shared/services/loading.service';
 @Component({
   selector: 'app-user-detail',
   standalone: true,
-  imports: [CommonModule],
+  imports: [
+    CommonModule,
+    HasPermissionDirective,
+    ConfirmDialogComponent,
+    UserHistoryComponent,
+    DeactivationDialogComponent,
+  ],
   template: `
     <div class="user-detail-container">
       <div class="header">
         <h2>User Details</h2>
         <div class="header-actions">
           <button
+            *appHasPermission="'users:update'"
             class="btn btn-primary"
             (click)="navigateToEdit()"
             [disabled]="!user || !user.isActive"
@@ -54,17 +84,45 @@ import { LoadingService } from '../../../shared/services/loading.service';
         </button>
       </div>
 
+      <!-- Tabs -->
+      <div *ngIf="user" class="tabs" role="tablist">
+        <button
+          role="tab"
+          [class.active]="activeTab === 'details'"
+          [attr.aria-selected]="activeTab === 'details'"
+          (click)="activeTab = 'details'"
+        >
+          Details
+        </button>
+        <button
+          role="tab"
+          [class.active]="activeTab === 'history'"
+          [attr.aria-selected]="activeTab === 'history'"
+          (click)="activeTab = 'history'"
+        >
+          History
+        </button>
+      </div>
+
+      <!-- History -->
+      <div *ngIf="user && activeTab === 'history'" class="history-section">
+        <app-user-history
+          [userId]="user.id"
+          [version]="user.version"
+        ></app-user-history>
+      </div>
+
       <!-- User Details -->
-      <div *ngIf="user" class="user-details">
+      <div *ngIf="user && activeTab === 'details'" class="user-details">
         <div class="detail-card">
           <div class="card-header">
-            <h3>{{ user.fullName }}</h3>
+            <h3>{{ displayName }}</h3>
             <span
               [class]="
                 'status-badge ' + (user.isActive ? 'active' : 'inactive')
               "
             >
-              {{ user.isActive ? 'Active' : 'Inactive' }}
+              {{ statusLabels[user.status] }}
             </span>
           </div>
 
@@ -74,28 +132,77 @@ import { LoadingService } from '../../../shared/services/loading.service';
               <span>{{ user.email }}</span>
             </div>
 
+            <div *ngIf="user.honorific" class="detail-row">
+              <label>Honorific:</label>
+              <span>{{ user.honorific }}</span>
+            </div>
+
             <div class="detail-row">
               <label>First Name:</label>
               <span>{{ user.firstName }}</span>
             </div>
 
+            <div *ngIf="user.middleName" class="detail-row">
+              <label>Middle Name:</label>
+              <span>{{ user.middleName }}</span>
+            </div>
+
             <div class="detail-row">
               <label>Last Name:</label>
               <span>{{ user.lastName }}</span>
             </div>
 
+            <div *ngIf="user.preferredName" class="detail-row">
+              <label>Preferred Name:</label>
+              <span>{{ user.preferredName }}</span>
+            </div>
+
             <div class="detail-row">
               <label>Full Name:</label>
-              <span>{{ user.fullName }}</span>
+              <span>{{ fullName }}</span>
+            </div>
+
+            <div class="detail-row">
+              <label>Roles:</label>
+              <span *ngIf="user.roles.length > 0" class="roles-text">
+                {{ user.roles.join(', ') }}
+              </span>
+              <span *ngIf="user.roles.length === 0" class="text-muted">
+                None
+              </span>
             </div>
 
             <div class="detail-row">
               <label>Status:</label>
               <span [class]="user.isActive ? 'text-success' : 'text-danger'">
-                {{ user.isActive ? 'Active' : 'Inactive' }}
+                {{ statusLabels[user.status] }}
               </span>
             </div>
 
+            <ng-container *ngIf="user.deactivation">
+              <div class="detail-row">
+                <label>Deactivation Reason:</label>
+                <span>{{ user.deactivation.reasonLabel }}</span>
+              </div>
+
+              <div *ngIf="user.deactivation.note" class="detail-row">
+                <label>Deactivation Note:</label>
+                <span class="deactivation-note">{{
+                  user.deactivation.note
+                }}</span>
+              </div>
+
+              <div class="detail-row">
+                <label>Deactivated:</label>
+                <span>
+                  <ng-container *ngIf="user.deactivation.deactivatedAt">
+                    {{ formatDateTime(user.deactivation.deactivatedAt) }}
+                  </ng-container>
+                  by {{ user.deactivation.deactivatedBy || 'System' }}
+                </span>
+              </div>
+            </ng-container>
+
             <div class="detail-row">
               <label>Created:</label>
               <span>{{ formatDateTime(user.createdAt) }}</span>
@@ -108,11 +215,31 @@ import { LoadingService } from '../../../shared/services/loading.service';
           </div>
         </div>
 
+        <!-- Role Editor -->
+        <div *appHasPermission="'users:assign-roles'" class="roles-section">
+          <h4>Roles</h4>
+          <div class="role-options">
+            <label *ngFor="let role of roles" class="role-option">
+              <input
+                type="checkbox"
+                [checked]="user.roles.includes(role)"
+                [disabled]="!user.isActive || isProcessing"
+                (change)="toggleRole(role)"
+              />
+              {{ role | titlecase }}
+            </label>
+          </div>
+          <p *ngIf="!user.isActive" class="roles-hint">
+            Activate the user to change their roles.
+          </p>
+        </div>
+
         <!-- Actions -->
         <div class="actions-section">
           <h4>Actions</h4>
           <div class="action-buttons">
             <button
+              *appHasPermission="'users:update'"
               class="btn btn-primary"
               (click)="navigateToEdit()"
               [disabled]="!user.isActive"
@@ -120,24 +247,118 @@ import { LoadingService } from '../../../shared/services/loading.service';
               Edit User
             </button>
 
-            <button
-              class="btn btn-warning"
-              (click)="toggleUserStatus()"
-              [disabled]="isProcessing"
-            >
-              {{ user.isActive ? 'Deactivate' : 'Activate' }} User
-            </button>
+            <ng-container *appHasPermission="'users:deactivate'">
+              <button
+                *ngIf="can('deactivate')"
+                class="btn btn-warning"
+                (click)="openDeactivationDialog('deactivate')"
+                [disabled]="isProcessing"
+              >
+                Deactivate User
+              </button>
+              <button
+                *ngIf="can('suspend')"
+                class="btn btn-warning"
+                (click)="changeStatus('suspend')"
+                [disabled]="isProcessing"
+              >
+                Suspend User
+              </button>
+              <button
+                *ngIf="can('lock')"
+                class="btn btn-warning"
+                (click)="changeStatus('lock')"
+                [disabled]="isProcessing"
+              >
+                Lock User
+              </button>
+            </ng-container>
+
+            <ng-container *appHasPermission="'users:activate'">
+              <button
+                *ngIf="can('activate')"
+                class="btn btn-warning"
+                (click)="activateUser()"
+                [disabled]="isProcessing"
+              >
+                Activate User
+              </button>
+            </ng-container>
 
             <button
+              *appHasPermission="'users:deactivate'"
               class="btn btn-danger"
               (click)="deleteUser()"
-              [disabled]="!user.isActive || isProcessing"
+              [disabled]="!can('deactivate') || isProcessing"
             >
               Delete User
             </button>
+
+            <ng-container *appHasPermission="'users:delete'">
+              <button
+                *ngIf="can('purge')"
+                class="btn btn-danger"
+                (click)="openPurgeDialog()"
+                [disabled]="isProcessing"
+              >
+                Delete Permanently
+              </button>
+              <button
+                *ngIf="can('schedule-deletion')"
+                class="btn btn-danger"
+                (click)="changeStatus('schedule-deletion')"
+                [disabled]="isProcessing"
+              >
+                Schedule Deletion
+              </button>
+              <button
+                *ngIf="can('cancel-deletion')"
+                class="btn btn-warning"
+                (click)="changeStatus('cancel-deletion')"
+                [disabled]="isProcessing"
+              >
+                Cancel Deletion
+              </button>
+            </ng-container>
           </div>
         </div>
       </div>
+
+      <!-- Deactivation Reason -->
+      <app-deactivation-dialog
+        *ngIf="deactivationAction && user"
+        [title]="
+          deactivationAction === 'delete' ? 'Delete User' : 'Deactivate User'
+        "
+        [message]="
+          user.fullName +
+          ' will no longer be able to sign in. Tell us why for the audit trail.'
+        "
+        [confirmLabel]="
+          deactivationAction === 'delete' ? 'Delete User' : 'Deactivate'
+        "
+        [isProcessing]="isProcessing"
+        [errorMessage]="deactivationError"
+        (confirmed)="deactivateUser($event)"
+        (cancelled)="closeDeactivationDialog()"
+      ></app-deactivation-dialog>
+
+      <!-- Permanent Delete Confirmation -->
+      <app-confirm-dialog
+        *ngIf="showPurgeDialog && user"
+        title="Delete User Permanently"
+        [message]="
+          'This removes ' +
+          user.fullName +
+          ' and all of their data. This action cannot be undone.'
+        "
+        [confirmationText]="user.email"
+        confirmLabel="Delete Permanently"
+        [isProcessing]="isProcessing"
+        [errorMessage]="purgeError"
+        (confirmed)="permanentlyDeleteUser()"
+        (cancelled)="closePurgeDialog()"
+      ></app-confirm-dialog>
     </div>
   `,
   styles: [
@@ -189,6 +410,36 @@ import { LoadingService } from '../../../shared/services/loading.service';
         margin-bottom: 20px;
       }
 
+      .tabs {
+        display: flex;
+        gap: 5px;
+        margin-bottom: 20px;
+        border-bottom: 1px solid #eee;
+      }
+
+      .tabs button {
+        padding: 10px 20px;
+        border: none;
+        border-bottom: 2px solid transparent;
+        background: none;
+        color: #666;
+        cursor: pointer;
+        font-size: 14px;
+        font-weight: 500;
+      }
+
+      .tabs button.active {
+        color: #007bff;
+        border-bottom-color: #007bff;
+      }
+
+      .history-section {
+        background: white;
+        padding: 30px;
+        border-radius: 8px;
+        box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+      }
+
       .detail-card {
         background: white;
         border-radius: 8px;
@@ -237,6 +488,10 @@ import { LoadingService } from '../../../shared/services/loading.service';
         align-items: center;
       }
 
+      .deactivation-note {
+        white-space: pre-line;
+      }
+
       .detail-row label {
         font-weight: 500;
         color: #666;
@@ -256,6 +511,46 @@ import { LoadingService } from '../../../shared/services/loading.service';
         color: #dc3545 !important;
       }
 
+      .roles-text {
+        text-transform: capitalize;
+      }
+
+      .text-muted {
+        color: #999 !important;
+      }
+
+      .roles-section {
+        background: white;
+        padding: 30px;
+        border-radius: 8px;
+        box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+        margin-bottom: 30px;
+      }
+
+      .roles-section h4 {
+        margin: 0 0 20px 0;
+        color: #333;
+      }
+
+      .role-options {
+        display: flex;
+        gap: 20px;
+        flex-wrap: wrap;
+      }
+
+      .role-option {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        cursor: pointer;
+      }
+
+      .roles-hint {
+        margin: 15px 0 0 0;
+        color: #666;
+        font-size: 14px;
+      }
+
       .actions-section {
         background: white;
         padding: 30px;
@@ -333,6 +628,13 @@ export class UserDetailComponent implements OnInit, OnDestroy {
   user: UserResponseDto | null = null;
   hasError = false;
   isProcessing = false;
+  showPurgeDialog = false;
+  purgeError: string | null = null;
+  deactivationAction: 'deactivate' | 'delete' | null = null;
+  deactivationError: string | null = null;
+  activeTab: 'details' | 'history' = 'details';
+  readonly roles = ROLES;
+  readonly statusLabels = USER_STATUS_LABELS;
   private userId: string | null = null;
   private destroy$ = new Subject<void>();
 
@@ -342,8 +644,24 @@ export class UserDetailComponent implements OnInit, OnDestroy {
     public loadingService: LoadingService,
     private route: ActivatedRoute,
     private router: Router,
+    private nameFormatter: PersonNameFormatterService,
+    private eventBus: DomainEventBusService,
   ) {}
 
+  /**
+   * The name the user goes by, shown as the card title
+   */
+  get displayName(): string {
+    return this.user ? this.nameFormatter.displayName(this.user) : '';
+  }
+
+  /**
+   * The formal name with honorific, in the user's name order
+   */
+  get fullName(): string {
+    return this.user ? this.nameFormatter.fullName(this.user) : '';
+  }
+
   ngOnInit(): void {
     this.route.paramMap
       .pipe(
@@ -376,6 +694,15 @@ export class UserDetailComponent implements OnInit, OnDestroy {
           );
         },
       });
+
+    // Deactivation only reports success, so the user is reloaded from its event
+    this.eventBus
+      .on('UserDeactivated')
+      .pipe(
+        filter((event) => event.userId === this.userId),
+        takeUntil(this.destroy$),
+      )
+      .subscribe(() => this.loadUser());
   }
 
   ngOnDestroy(): void {
@@ -400,80 +727,232 @@ export class UserDetailComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Toggle user active status
+   * Check if the user's status allows a transition, to offer only valid actions
    */
-  toggleUserStatus(): void {
-    if (!this.user || !this.userId) return;
+  can(transition: UserStatusTransition): boolean {
+    return !!this.user && canTransition(this.user.status, transition);
+  }
 
-    const action = this.user.isActive ? 'deactivate' : 'activate';
-    const confirmMessage = `Are you sure you want to ${action} ${this.user.fullName}?`;
+  /**
+   * Activate a deactivated, suspended or locked user
+   */
+  activateUser(): void {
+    if (!this.user || !this.userId) return;
 
-    if (confirm(confirmMessage)) {
+    if (confirm(`Are you sure you want to activate ${this.user.fullName}?`)) {
       this.isProcessing = true;
 
-      // For now, we'll use the delete method for deactivation
-      // In a real implementation, you might have separate activate/deactivate methods
-      if (this.user.isActive) {
-        this.userApplicationService
-          .deleteUser(this.userId)
-          .pipe(takeUntil(this.destroy$))
-          .subscribe({
-            next: () => {
-              this.isProcessing = false;
-              this.notificationService.showSuccess(
-                'Success',
-                'User deactivated successfully',
-              );
-              this.loadUser(); // Reload user data
-            },
-            error: (error) => {
-              this.isProcessing = false;
-              console.error('Error deactivating user:', error);
-              this.notificationService.showError(
-                'Error',
-                'Failed to deactivate user',
-              );
-            },
-          });
-      }
+      this.userApplicationService
+        .activateUser(this.userId)
+        .pipe(takeUntil(this.destroy$))
+        .subscribe({
+          next: (user) => {
+            this.isProcessing = false;
+            this.user = user;
+            this.notificationService.showSuccess(
+              'Success',
+              'User activated successfully',
+            );
+          },
+          error: (error) => {
+            this.isProcessing = false;
+            console.error('Error activating user:', error);
+            this.notificationService.showError(
+              'Error',
+              this.actionErrorMessage(error, 'Failed to activate user'),
+            );
+          },
+        });
     }
   }
 
   /**
-   * Delete user
+   * Suspend, lock, or schedule the user for or take them off deletion
    */
-  deleteUser(): void {
+  changeStatus(change: UserStatusChange): void {
     if (!this.user || !this.userId) return;
 
-    const confirmMessage = `Are you sure you want to delete ${this.user.fullName}? This action cannot be undone.`;
-
-    if (confirm(confirmMessage)) {
+    const { description } = USER_STATUS_TRANSITIONS[change];
+    if (confirm(`${this.user.fullName} will be ${description}. Continue?`)) {
       this.isProcessing = true;
 
       this.userApplicationService
-        .deleteUser(this.userId)
+        .changeUserStatus(this.userId, change)
         .pipe(takeUntil(this.destroy$))
         .subscribe({
-          next: () => {
+          next: (user) => {
             this.isProcessing = false;
+            this.user = user;
             this.notificationService.showSuccess(
               'Success',
-              'User deleted successfully',
+              `User ${description}`,
             );
-            this.router.navigate(['/users']);
           },
           error: (error) => {
             this.isProcessing = false;
-            console.error('Error deleting user:', error);
+            console.error(`Error changing user status (${change}):`, error);
             this.notificationService.showError(
               'Error',
-              'Failed to delete user',
+              this.actionErrorMessage(error, 'Failed to change user status'),
             );
           },
         });
     }
   }
 
+  /**
+   * Delete user (soft delete), then go back to the list
+   */
+  deleteUser(): void {
+    if (!this.user || !this.userId) return;
+
+    this.openDeactivationDialog('delete');
+  }
+
+  /**
+   * Open the deactivation reason dialog
+   */
+  openDeactivationDialog(action: 'deactivate' | 'delete'): void {
+    this.deactivationError = null;
+    this.deactivationAction = action;
+  }
+
+  /**
+   * Close the deactivation reason dialog
+   */
+  closeDeactivationDialog(): void {
+    this.deactivationAction = null;
+    this.deactivationError = null;
+  }
+
+  /**
+   * Deactivate the user with the reason given in the dialog
+   * Errors stay in the dialog so the operator can correct the reason
+   */
+  deactivateUser(deactivation: DeactivationDto): void {
+    if (!this.user || !this.userId || !this.deactivationAction) return;
+
+    const action = this.deactivationAction;
+    this.isProcessing = true;
+    this.deactivationError = null;
+
+    this.userApplicationService
+      .deleteUser(this.userId, deactivation)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          this.isProcessing = false;
+          this.deactivationAction = null;
+          if (action === 'delete') {
+            this.notificationService.showSuccess(
+              'Success',
+              'User deleted successfully',
+            );
+            this.router.navigate(['/users']);
+          } else {
+            this.notificationService.showSuccess(
+              'Success',
+              'User deactivated successfully',
+            );
+          }
+        },
+        error: (error) => {
+          this.isProcessing = false;
+          console.error('Error deactivating user:', error);
+          this.deactivationError = this.actionErrorMessage(
+            error,
+            action === 'delete'
+              ? 'Failed to delete user'
+              : 'Failed to deactivate user',
+          );
+        },
+      });
+  }
+
+  /**
+   * Open the permanent delete confirmation
+   */
+  openPurgeDialog(): void {
+    this.purgeError = null;
+    this.showPurgeDialog = true;
+  }
+
+  /**
+   * Close the permanent delete confirmation
+   */
+  closePurgeDialog(): void {
+    this.showPurgeDialog = false;
+    this.purgeError = null;
+  }
+
+  /**
+   * Permanently delete an inactive user
+   * Errors stay in the dialog so the operator can see why it failed
+   */
+  permanentlyDeleteUser(): void {
+    if (!this.user || !this.userId) return;
+
+    this.isProcessing = true;
+    this.purgeError = null;
+
+    this.userApplicationService
+      .permanentlyDeleteUser(this.userId)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          this.isProcessing = false;
+          this.showPurgeDialog = false;
+          this.notificationService.showSuccess(
+            'Success',
+            'User permanently deleted',
+          );
+          this.router.navigate(['/users']);
+        },
+        error: (error) => {
+          this.isProcessing = false;
+          console.error('Error permanently deleting user:', error);
+          this.purgeError =
+            error instanceof DomainError
+              ? error.userMessage
+              : 'Failed to permanently delete user';
+          this.notificationService.showError('Error', this.purgeError);
+        },
+      });
+  }
+
+  /**
+   * Assign or revoke a role
+   */
+  toggleRole(role: Role): void {
+    if (!this.user || !this.userId) return;
+
+    const isAssigned = this.user.roles.includes(role);
+    const request$ = isAssigned
+      ? this.userApplicationService.revokeRole(this.userId, role)
+      : this.userApplicationService.assignRole(this.userId, role);
+
+    this.isProcessing = true;
+
+    request$.pipe(takeUntil(this.destroy$)).subscribe({
+      next: (user) => {
+        this.isProcessing = false;
+        this.user = user;
+        this.notificationService.showSuccess(
+          'Success',
+          `Role ${role} ${isAssigned ? 'revoked' : 'assigned'}`,
+        );
+      },
+      error: (error) => {
+        this.isProcessing = false;
+        console.error('Error updating roles:', error);
+        this.notificationService.showError(
+          'Error',
+          this.actionErrorMessage(error, 'Failed to update roles'),
+        );
+      },
+    });
+  }
+
   /**
    * Format date and time for display
    */
@@ -500,4 +979,22 @@ export class UserDetailComponent implements OnInit, OnDestroy {
         });
     }
   }
+
+  /**
+   * Message for a failed user action, chosen by the domain error code
+   */
+  private actionErrorMessage(error: any, fallback: string): string {
+    switch (error?.code) {
+      case 'VALIDATION_ERROR':
+        return (error as ValidationError).validationErrors.join(', ');
+      case 'BUSINESS_RULE_VIOLATION':
+        return error.message;
+      case 'USER_NOT_FOUND':
+      case 'USER_INACTIVE':
+      case 'FORBIDDEN':
+        return error.userMessage;
+      default:
+        return fallback;
+    }
+  }
 }
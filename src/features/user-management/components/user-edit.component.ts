@@ -1,11 +1,19 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
 import { ActivatedRoute, Router } from '@angular/router';
 import { Subject, takeUntil, switchMap } from 'rxjs';
 
 // Application layer imports
 import { UserApplicationService } from '../../../core/application';
-import { UpdateUserDto, UserResponseDto } from '../../../core/application';
+import {
+  EmailChangeDto,
+  UpdateUserDto,
+  UserResponseDto,
+} from '../../../core/application';
+
+// Domain imports
+import { ValidationError } from '../../../core/domain';
 
 // Shared services
 import { NotificationService } from '../../../shared/services/notification.service';
@@ -14,6 +22,26 @@ import { LoadingService } from '../../../shared/services/loading.service';
 // Feature components
 import { UserFormComponent } from './user-form.component';
 
+/**
+ * One of the user's changes that differs from what the server now holds
+ */
+interface FieldConflict {
+  field: keyof UpdateUserDto;
+  label: string;
+  mine: string;
+  theirs: string;
+  choice: 'keep' | 'overwrite';
+}
+
+const FIELD_LABELS: Record<keyof UpdateUserDto, string> = {
+  honorific: 'Honorific',
+  firstName: 'First Name',
+  middleName: 'Middle Name',
+  lastName: 'Last Name',
+  preferredName: 'Preferred Name',
+  nameOrder: 'Name Order',
+};
+
 /**
  * User Edit Component
  * Handles editing of existing users
@@ -21,7 +49,7 @@ import { UserFormComponent } from './user-form.component';
 @Component({
   selector: 'app-user-edit',
   standalone: true,
-  imports: [CommonModule, UserFormComponent],
+  imports: [CommonModule, FormsModule, UserFormComponent],
   template: `
     <div class="user-edit-container">
       <div class="header">
@@ -61,6 +89,144 @@ import { UserFormComponent } from './user-form.component';
         </button>
       </div>
 
+      <!-- Email Change -->
+      <section *ngIf="user" class="email-change">
+        <h3>Email Address</h3>
+        <p class="current-email">{{ user.email }}</p>
+
+        <div
+          *ngIf="pendingEmailChange; else requestChange"
+          class="pending-change"
+        >
+          <p>
+            <span class="pending-badge">{{
+              pendingEmailChange.isExpired ? 'Expired' : 'Pending verification'
+            }}</span>
+            Change to <strong>{{ pendingEmailChange.newEmail }}</strong>
+            {{ pendingEmailChange.isExpired ? 'expired' : 'expires' }}
+            {{ pendingEmailChange.expiresAt | date: 'short' }}
+          </p>
+          <div *ngIf="!pendingEmailChange.isExpired" class="inline-form">
+            <label for="verificationToken">Verification code</label>
+            <input
+              id="verificationToken"
+              type="text"
+              class="form-control"
+              autocomplete="one-time-code"
+              [(ngModel)]="verificationToken"
+              [disabled]="isChangingEmail"
+            />
+            <button
+              class="btn btn-primary"
+              (click)="confirmEmailChange()"
+              [disabled]="!verificationToken.trim() || isChangingEmail"
+            >
+              Confirm
+            </button>
+          </div>
+          <button
+            class="btn btn-secondary"
+            (click)="cancelEmailChange()"
+            [disabled]="isChangingEmail"
+          >
+            {{ pendingEmailChange.isExpired ? 'Dismiss' : 'Cancel Change' }}
+          </button>
+        </div>
+
+        <ng-template #requestChange>
+          <div class="inline-form">
+            <label for="newEmail">New email</label>
+            <input
+              id="newEmail"
+              type="email"
+              class="form-control"
+              [(ngModel)]="newEmail"
+              [disabled]="isChangingEmail || !user.isActive"
+            />
+            <button
+              class="btn btn-primary"
+              (click)="requestEmailChange()"
+              [disabled]="!newEmail.trim() || isChangingEmail || !user.isActive"
+            >
+              Send Verification
+            </button>
+          </div>
+          <p class="hint">
+            The email changes once the code sent to the new address is
+            confirmed.
+          </p>
+        </ng-template>
+
+        <div *ngIf="emailChangeError" class="email-change-error" role="alert">
+          {{ emailChangeError }}
+        </div>
+      </section>
+
+      <!-- Edit Conflict -->
+      <section *ngIf="conflict" class="conflict-panel" role="alert">
+        <h3>Someone else changed this user</h3>
+        <p>
+          Choose for each of your changes whether to keep the current value or
+          overwrite it. Other changes saved meanwhile are kept.
+        </p>
+        <table class="conflict-table">
+          <thead>
+            <tr>
+              <th>Field</th>
+              <th>Your change</th>
+              <th>Current value</th>
+              <th>Keep current</th>
+              <th>Overwrite</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr *ngFor="let item of conflict.fields">
+              <td>{{ item.label }}</td>
+              <td [class.chosen]="item.choice === 'overwrite'">
+                {{ item.mine || '—' }}
+              </td>
+              <td [class.chosen]="item.choice === 'keep'">
+                {{ item.theirs || '—' }}
+              </td>
+              <td>
+                <input
+                  type="radio"
+                  value="keep"
+                  [name]="'conflict-' + item.field"
+                  [attr.aria-label]="'Keep current ' + item.label"
+                  [(ngModel)]="item.choice"
+                />
+              </td>
+              <td>
+                <input
+                  type="radio"
+                  value="overwrite"
+                  [name]="'conflict-' + item.field"
+                  [attr.aria-label]="'Overwrite ' + item.label"
+                  [(ngModel)]="item.choice"
+                />
+              </td>
+            </tr>
+          </tbody>
+        </table>
+        <div class="conflict-actions">
+          <button
+            class="btn btn-secondary"
+            (click)="discardChanges()"
+            [disabled]="isSubmitting"
+          >
+            Keep All Current
+          </button>
+          <button
+            class="btn btn-primary"
+            (click)="resolveConflict()"
+            [disabled]="isSubmitting"
+          >
+            Save Choices
+          </button>
+        </div>
+      </section>
+
       <!-- Form -->
       <div *ngIf="user" class="form-container">
         <app-user-form
@@ -107,6 +273,102 @@ import { UserFormComponent } from './user-form.component';
         box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
       }
 
+      .email-change {
+        background: white;
+        padding: 20px 30px;
+        margin-bottom: 20px;
+        border-radius: 8px;
+        box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+      }
+
+      .email-change h3 {
+        margin: 0 0 10px;
+        color: #333;
+      }
+
+      .current-email {
+        font-weight: 500;
+        margin: 0 0 15px;
+      }
+
+      .inline-form {
+        display: flex;
+        align-items: center;
+        gap: 10px;
+        margin-bottom: 10px;
+      }
+
+      .inline-form label {
+        white-space: nowrap;
+        color: #333;
+      }
+
+      .form-control {
+        flex: 1;
+        padding: 8px 12px;
+        border: 1px solid #ddd;
+        border-radius: 4px;
+        font-size: 14px;
+      }
+
+      .pending-badge {
+        padding: 2px 10px;
+        margin-right: 6px;
+        border-radius: 20px;
+        font-size: 12px;
+        font-weight: 500;
+        background-color: #fff3cd;
+        color: #856404;
+      }
+
+      .hint {
+        margin: 0;
+        font-size: 12px;
+        color: #666;
+      }
+
+      .email-change-error {
+        margin-top: 10px;
+        color: #dc3545;
+        font-size: 14px;
+      }
+
+      .conflict-panel {
+        background: #fff8e1;
+        border: 1px solid #ffe08a;
+        padding: 20px 30px;
+        margin-bottom: 20px;
+        border-radius: 8px;
+      }
+
+      .conflict-panel h3 {
+        margin: 0 0 10px;
+        color: #856404;
+      }
+
+      .conflict-table {
+        width: 100%;
+        border-collapse: collapse;
+        margin: 15px 0;
+      }
+
+      .conflict-table th,
+      .conflict-table td {
+        padding: 8px;
+        text-align: left;
+        border-bottom: 1px solid #eee;
+      }
+
+      .conflict-table td.chosen {
+        font-weight: 600;
+      }
+
+      .conflict-actions {
+        display: flex;
+        gap: 10px;
+        justify-content: flex-end;
+      }
+
       .loading {
         text-align: center;
         padding: 60px 20px;
@@ -168,6 +430,12 @@ export class UserEditComponent implements OnInit, OnDestroy {
   user: UserResponseDto | null = null;
   isSubmitting = false;
   hasError = false;
+  pendingEmailChange: EmailChangeDto | null = null;
+  newEmail = '';
+  verificationToken = '';
+  isChangingEmail = false;
+  emailChangeError: string | null = null;
+  conflict: { latest: UserResponseDto; fields: FieldConflict[] } | null = null;
   private userId: string | null = null;
   private destroy$ = new Subject<void>();
 
@@ -197,6 +465,7 @@ export class UserEditComponent implements OnInit, OnDestroy {
           if (user) {
             this.user = user;
             this.hasError = false;
+            this.loadPendingEmailChange();
           } else {
             this.hasError = true;
             this.notificationService.showError('Error', 'User not found');
@@ -233,14 +502,27 @@ export class UserEditComponent implements OnInit, OnDestroy {
       return;
     }
 
+    this.saveUser(this.userId, userData, this.user?.version);
+  }
+
+  /**
+   * Save changes made against a version of the user
+   * A conflict opens the diff of the changes against the current values
+   */
+  private saveUser(
+    id: string,
+    userData: UpdateUserDto,
+    version: number | undefined,
+  ): void {
     this.isSubmitting = true;
 
     this.userApplicationService
-      .updateUser(this.userId, userData)
+      .updateUser(id, userData, version)
       .pipe(takeUntil(this.destroy$))
       .subscribe({
         next: (updatedUser) => {
           this.isSubmitting = false;
+          this.conflict = null;
           this.user = updatedUser;
           this.notificationService.showSuccess(
             'Success',
@@ -253,13 +535,226 @@ export class UserEditComponent implements OnInit, OnDestroy {
           this.isSubmitting = false;
           console.error('Error updating user:', error);
 
-          // Extract error message
-          let errorMessage = 'Failed to update user';
-          if (error.message) {
-            errorMessage = error.message;
+          if (error?.code === 'CONCURRENT_MODIFICATION') {
+            this.openConflict(id, userData);
+            return;
           }
 
-          this.notificationService.showError('Error', errorMessage);
+          this.notificationService.showError('Error', this.errorMessage(error));
+        },
+      });
+  }
+
+  /**
+   * Load the current values and list the changes that differ from them
+   */
+  private openConflict(id: string, userData: UpdateUserDto): void {
+    this.userApplicationService
+      .getUserById(id)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (latest) => {
+          if (!latest) {
+            this.hasError = true;
+            this.user = null;
+            this.notificationService.showError('Error', 'User not found');
+            return;
+          }
+
+          const fields = (Object.keys(userData) as (keyof UpdateUserDto)[])
+            .map(
+              (field): FieldConflict => ({
+                field,
+                label: FIELD_LABELS[field],
+                mine: userData[field] ?? '',
+                theirs: latest[field] ?? '',
+                choice: 'overwrite',
+              }),
+            )
+            .filter((item) => item.mine !== item.theirs);
+
+          if (fields.length === 0) {
+            this.user = latest;
+            this.notificationService.showInfo(
+              'Info',
+              'The same changes were already saved by someone else',
+            );
+            return;
+          }
+
+          this.conflict = { latest, fields };
+          this.notificationService.showWarning(
+            'Conflict',
+            'This user was changed by someone else since you loaded it',
+          );
+        },
+        error: (error) => {
+          console.error('Error loading current user:', error);
+          this.notificationService.showError(
+            'Error',
+            'Failed to load the current user data',
+          );
+        },
+      });
+  }
+
+  /**
+   * Save the changes chosen to overwrite on top of the current values
+   */
+  resolveConflict(): void {
+    if (!this.conflict || !this.userId) {
+      return;
+    }
+
+    const { latest, fields } = this.conflict;
+    const overwrites = fields.filter((item) => item.choice === 'overwrite');
+    if (overwrites.length === 0) {
+      this.discardChanges();
+      return;
+    }
+
+    const userData = Object.fromEntries(
+      overwrites.map((item) => [item.field, item.mine]),
+    ) as UpdateUserDto;
+    this.user = latest;
+    this.saveUser(this.userId, userData, latest.version);
+  }
+
+  /**
+   * Drop the conflicting changes and show the current values
+   */
+  discardChanges(): void {
+    if (!this.conflict) {
+      return;
+    }
+
+    this.user = this.conflict.latest;
+    this.conflict = null;
+    this.notificationService.showInfo('Info', 'Showing the current values');
+  }
+
+  /**
+   * Load the email change awaiting verification, if any
+   */
+  private loadPendingEmailChange(): void {
+    if (!this.userId) {
+      return;
+    }
+
+    this.userApplicationService
+      .getPendingEmailChange(this.userId)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (change) => {
+          this.pendingEmailChange = change;
+        },
+        error: (error) => {
+          console.error('Error loading pending email change:', error);
+        },
+      });
+  }
+
+  /**
+   * Send a verification code to the new email address
+   */
+  requestEmailChange(): void {
+    if (!this.userId) {
+      return;
+    }
+
+    this.isChangingEmail = true;
+    this.emailChangeError = null;
+
+    this.userApplicationService
+      .requestEmailChange(this.userId, this.newEmail.trim())
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (change) => {
+          this.isChangingEmail = false;
+          this.pendingEmailChange = change;
+          this.newEmail = '';
+          this.notificationService.showSuccess(
+            'Verification Sent',
+            `A verification code was sent to ${change.newEmail}`,
+          );
+        },
+        error: (error) => {
+          this.isChangingEmail = false;
+          console.error('Error requesting email change:', error);
+          this.emailChangeError = this.emailChangeErrorMessage(
+            error,
+            'Failed to request email change',
+          );
+        },
+      });
+  }
+
+  /**
+   * Commit the pending email change with the verification code
+   */
+  confirmEmailChange(): void {
+    if (!this.userId) {
+      return;
+    }
+
+    this.isChangingEmail = true;
+    this.emailChangeError = null;
+
+    this.userApplicationService
+      .confirmEmailChange(this.userId, this.verificationToken)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (updatedUser) => {
+          this.isChangingEmail = false;
+          this.user = updatedUser;
+          this.pendingEmailChange = null;
+          this.verificationToken = '';
+          this.notificationService.showSuccess(
+            'Success',
+            `Email changed to ${updatedUser.email}`,
+          );
+        },
+        error: (error) => {
+          this.isChangingEmail = false;
+          console.error('Error confirming email change:', error);
+          this.emailChangeError = this.emailChangeErrorMessage(
+            error,
+            'Failed to confirm email change',
+          );
+          // An expired or vanished change is no longer pending
+          this.loadPendingEmailChange();
+        },
+      });
+  }
+
+  /**
+   * Discard the pending email change
+   */
+  cancelEmailChange(): void {
+    if (!this.userId) {
+      return;
+    }
+
+    this.isChangingEmail = true;
+    this.emailChangeError = null;
+
+    this.userApplicationService
+      .cancelEmailChange(this.userId)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          this.isChangingEmail = false;
+          this.pendingEmailChange = null;
+          this.verificationToken = '';
+        },
+        error: (error) => {
+          this.isChangingEmail = false;
+          console.error('Error cancelling email change:', error);
+          this.emailChangeError = this.emailChangeErrorMessage(
+            error,
+            'Failed to cancel email change',
+          );
+          this.loadPendingEmailChange();
         },
       });
   }
@@ -279,4 +774,39 @@ export class UserEditComponent implements OnInit, OnDestroy {
   navigateBack(): void {
     this.router.navigate(['/users']);
   }
+
+  /**
+   * Message for a failed update, chosen by the domain error code
+   */
+  private errorMessage(error: any): string {
+    switch (error?.code) {
+      case 'VALIDATION_ERROR':
+        return (error as ValidationError).validationErrors.join(', ');
+      case 'USER_NOT_FOUND':
+      case 'USER_INACTIVE':
+      case 'FORBIDDEN':
+        return error.userMessage;
+      default:
+        return 'Failed to update user';
+    }
+  }
+
+  /**
+   * Message for a failed email change step, chosen by the domain error code
+   */
+  private emailChangeErrorMessage(error: any, fallback: string): string {
+    switch (error?.code) {
+      case 'VALIDATION_ERROR':
+        return (error as ValidationError).validationErrors.join(', ');
+      case 'BUSINESS_RULE_VIOLATION':
+        return error.message;
+      case 'USER_ALREADY_EXISTS':
+      case 'USER_NOT_FOUND':
+      case 'USER_INACTIVE':
+      case 'FORBIDDEN':
+        return error.userMessage;
+      default:
+        return fallback;
+    }
+  }
 }
@@ -1,6 +1,8 @@
-import { provideZonelessChangeDetection } from '@angular/core';
+import { provideZonelessChangeDetection, SimpleChange } from '@angular/core';
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 import { ReactiveFormsModule } from '@angular/forms';
+import { UserValidationPolicy } from '../../../core/domain';
+import { USER_VALIDATION_POLICY_TOKEN } from '../../../core/di/injection-tokens';
 import { UserFormComponent } from './user-form.component';
 
 describe('UserFormComponent', () => {
@@ -15,7 +17,10 @@ describe('UserFormComponent', () => {
     fullName: 'John Doe',
     createdAt: '2023-01-01T00:00:00.000Z',
     updatedAt: '2023-01-01T00:00:00.000Z',
+    status: 'active' as const,
     isActive: true,
+    roles: [],
+    version: 1,
   };
 
   beforeEach(async () => {
@@ -67,6 +72,18 @@ describe('UserFormComponent', () => {
       expect(component.userForm.get('lastName')?.value).toBe(mockUser.lastName);
     });
 
+    it('should show a user replaced after initialization', () => {
+      component.user = mockUser;
+      component.ngOnInit();
+
+      component.user = { ...mockUser, firstName: 'Johnny', version: 2 };
+      component.ngOnChanges({
+        user: new SimpleChange(mockUser, component.user, false),
+      });
+
+      expect(component.userForm.get('firstName')?.value).toBe('Johnny');
+    });
+
     it('should make email field readonly in edit mode', () => {
       component.user = mockUser;
       component.ngOnInit();
@@ -100,14 +117,15 @@ describe('UserFormComponent', () => {
       component.ngOnInit();
     });
 
-    it('should validate email format', () => {
-      const emailControl = component.userForm.get('email');
-
-      emailControl?.setValue('invalid-email');
-      expect(emailControl?.hasError('email')).toBe(true);
+    it('should report the policy message for an invalid field', () => {
+      component.userForm.get('email')?.setValue('invalid-email');
+      component.userForm.get('firstName')?.setValue('John123');
 
-      emailControl?.setValue('valid@example.com');
-      expect(emailControl?.hasError('email')).toBe(false);
+      expect(component.fieldError('email')).toBe('Invalid email format');
+      expect(component.fieldError('firstName')).toBe(
+        'First name can only contain letters, spaces, hyphens and apostrophes',
+      );
+      expect(component.fieldError('lastName')).toBe('Last name is required');
     });
 
     it('should validate custom email format', () => {
@@ -120,21 +138,15 @@ describe('UserFormComponent', () => {
       expect(emailControl?.hasError('invalidEmail')).toBe(false);
     });
 
-    it('should validate name minimum length', () => {
+    it('should accept one-character names', () => {
       const firstNameControl = component.userForm.get('firstName');
       const lastNameControl = component.userForm.get('lastName');
 
-      firstNameControl?.setValue('A');
-      lastNameControl?.setValue('B');
-
-      expect(firstNameControl?.hasError('minlength')).toBe(true);
-      expect(lastNameControl?.hasError('minlength')).toBe(true);
+      firstNameControl?.setValue('伟');
+      lastNameControl?.setValue('王');
 
-      firstNameControl?.setValue('John');
-      lastNameControl?.setValue('Doe');
-
-      expect(firstNameControl?.hasError('minlength')).toBe(false);
-      expect(lastNameControl?.hasError('minlength')).toBe(false);
+      expect(firstNameControl?.valid).toBe(true);
+      expect(lastNameControl?.valid).toBe(true);
     });
 
     it('should validate name characters', () => {
@@ -200,6 +212,24 @@ describe('UserFormComponent', () => {
       });
     });
 
+    it('should emit normalized international names', () => {
+      spyOn(component.createUser, 'emit');
+
+      component.userForm.patchValue({
+        email: 'zoe@example.com',
+        firstName: ' Zoe\u0308 ',
+        lastName: "O'Brien   Nguyễn",
+      });
+
+      component.onSubmit();
+
+      expect(component.createUser.emit).toHaveBeenCalledWith({
+        email: 'zoe@example.com',
+        firstName: 'Zoë',
+        lastName: "O'Brien Nguyễn",
+      });
+    });
+
     it('should emit updateUser for valid edit form with changes', () => {
       spyOn(component.updateUser, 'emit');
 
@@ -219,6 +249,55 @@ describe('UserFormComponent', () => {
       });
     });
 
+    it('should emit only the name details that are filled in', () => {
+      spyOn(component.createUser, 'emit');
+
+      component.userForm.patchValue({
+        email: 'an@example.com',
+        honorific: 'Dr.',
+        firstName: 'An',
+        middleName: 'Văn',
+        lastName: 'Nguyễn',
+        nameOrder: 'family-first',
+      });
+
+      component.onSubmit();
+
+      expect(component.createUser.emit).toHaveBeenCalledWith({
+        email: 'an@example.com',
+        firstName: 'An',
+        lastName: 'Nguyễn',
+        honorific: 'Dr.',
+        middleName: 'Văn',
+        nameOrder: 'family-first',
+      });
+    });
+
+    it('should send cleared and changed name details on update', () => {
+      spyOn(component.updateUser, 'emit');
+
+      component.user = {
+        ...mockUser,
+        middleName: 'Paul',
+        preferredName: 'Johnny',
+      };
+      component.ngOnInit();
+
+      expect(component.userForm.get('nameOrder')?.value).toBe('given-first');
+
+      component.userForm.patchValue({
+        middleName: '',
+        nameOrder: 'family-first',
+      });
+
+      component.onSubmit();
+
+      expect(component.updateUser.emit).toHaveBeenCalledWith({
+        middleName: '',
+        nameOrder: 'family-first',
+      });
+    });
+
     it('should not emit for invalid form', () => {
       spyOn(component.createUser, 'emit');
       spyOn(component.updateUser, 'emit');
@@ -282,4 +361,28 @@ describe('UserFormComponent', () => {
       expect(component.userForm.get('email')?.errors).toBeNull();
     });
   });
+
+  describe('Configured Policy', () => {
+    it('should validate with the injected validation policy', () => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        imports: [UserFormComponent, ReactiveFormsModule],
+        providers: [
+          provideZonelessChangeDetection(),
+          {
+            provide: USER_VALIDATION_POLICY_TOKEN,
+            useValue: new UserValidationPolicy({ nameMinLength: 3 }),
+          },
+        ],
+      });
+
+      const form = TestBed.createComponent(UserFormComponent).componentInstance;
+      form.userForm.get('lastName')?.setValue('Li');
+
+      expect(form.userForm.get('lastName')?.hasError('minlength')).toBe(true);
+      expect(form.fieldError('lastName')).toBe(
+        'Last name must be at least 3 characters long',
+      );
+    });
+  });
 });
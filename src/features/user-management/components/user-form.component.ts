@@ -2,17 +2,15 @@ import {
   Component,
   OnInit,
   OnDestroy,
+  OnChanges,
+  SimpleChanges,
   Input,
   Output,
   EventEmitter,
+  Inject,
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import {
-  FormBuilder,
-  FormGroup,
-  Validators,
-  ReactiveFormsModule,
-} from '@angular/forms';
+import { FormBuilder, FormGroup, ReactiveFormsModule } from '@angular/forms';
 import { Subject, takeUntil } from 'rxjs';
 
 // Application layer imports
@@ -22,11 +20,16 @@ import {
   UserResponseDto,
 } from '../../../core/application';
 
-// Shared utilities
+// Domain imports
 import {
-  isValidEmail,
-  isValidName,
-} from '../../../shared/utils/validation.utils';
+  NameOrder,
+  UserField,
+  UserValidationPolicy,
+} from '../../../core/domain';
+import { USER_VALIDATION_POLICY_TOKEN } from '../../../core/di/injection-tokens';
+
+// Shared utilities
+import { userFieldValidator } from '../../../shared/utils/validation.utils';
 
 /**
  * User Form Component
@@ -49,15 +52,21 @@ import {
           [readonly]="isEditMode"
         />
         <div *ngIf="isFieldInvalid('email')" class="invalid-feedback">
-          <div *ngIf="userForm.get('email')?.errors?.['required']">
-            Email is required
-          </div>
-          <div *ngIf="userForm.get('email')?.errors?.['email']">
-            Please enter a valid email
-          </div>
-          <div *ngIf="userForm.get('email')?.errors?.['invalidEmail']">
-            Invalid email format
-          </div>
+          {{ fieldError('email') }}
+        </div>
+      </div>
+
+      <div class="form-group">
+        <label for="honorific">Honorific</label>
+        <input
+          id="honorific"
+          type="text"
+          formControlName="honorific"
+          class="form-control"
+          [class.is-invalid]="isFieldInvalid('honorific')"
+        />
+        <div *ngIf="isFieldInvalid('honorific')" class="invalid-feedback">
+          {{ fieldError('honorific') }}
         </div>
       </div>
 
@@ -71,15 +80,21 @@ import {
           [class.is-invalid]="isFieldInvalid('firstName')"
         />
         <div *ngIf="isFieldInvalid('firstName')" class="invalid-feedback">
-          <div *ngIf="userForm.get('firstName')?.errors?.['required']">
-            First name is required
-          </div>
-          <div *ngIf="userForm.get('firstName')?.errors?.['minlength']">
-            First name must be at least 2 characters
-          </div>
-          <div *ngIf="userForm.get('firstName')?.errors?.['invalidName']">
-            First name can only contain letters and spaces
-          </div>
+          {{ fieldError('firstName') }}
+        </div>
+      </div>
+
+      <div class="form-group">
+        <label for="middleName">Middle Name</label>
+        <input
+          id="middleName"
+          type="text"
+          formControlName="middleName"
+          class="form-control"
+          [class.is-invalid]="isFieldInvalid('middleName')"
+        />
+        <div *ngIf="isFieldInvalid('middleName')" class="invalid-feedback">
+          {{ fieldError('middleName') }}
         </div>
       </div>
 
@@ -93,18 +108,33 @@ import {
           [class.is-invalid]="isFieldInvalid('lastName')"
         />
         <div *ngIf="isFieldInvalid('lastName')" class="invalid-feedback">
-          <div *ngIf="userForm.get('lastName')?.errors?.['required']">
-            Last name is required
-          </div>
-          <div *ngIf="userForm.get('lastName')?.errors?.['minlength']">
-            Last name must be at least 2 characters
-          </div>
-          <div *ngIf="userForm.get('lastName')?.errors?.['invalidName']">
-            Last name can only contain letters and spaces
-          </div>
+          {{ fieldError('lastName') }}
         </div>
       </div>
 
+      <div class="form-group">
+        <label for="preferredName">Preferred Name</label>
+        <input
+          id="preferredName"
+          type="text"
+          formControlName="preferredName"
+          class="form-control"
+          [class.is-invalid]="isFieldInvalid('preferredName')"
+        />
+        <div *ngIf="isFieldInvalid('preferredName')" class="invalid-feedback">
+          {{ fieldError('preferredName') }}
+        </div>
+      </div>
+
+      <div class="form-group">
+        <label for="nameOrder">Name Order</label>
+        <select id="nameOrder" formControlName="nameOrder" class="form-control">
+          <option *ngFor="let option of nameOrders" [value]="option.value">
+            {{ option.label }}
+          </option>
+        </select>
+      </div>
+
       <div class="form-actions">
         <button type="button" class="btn btn-secondary" (click)="onCancel()">
           Cancel
@@ -119,7 +149,7 @@ import {
               ? 'Saving...'
               : isEditMode
                 ? 'Update User'
-                : 'Create User'
+                : createLabel
           }}
         </button>
       </div>
@@ -219,19 +249,35 @@ import {
     `,
   ],
 })
-export class UserFormComponent implements OnInit, OnDestroy {
+export class UserFormComponent implements OnInit, OnChanges, OnDestroy {
   @Input() user: UserResponseDto | null = null;
   @Input() isSubmitting = false;
+  @Input() createLabel = 'Create User';
   @Output() createUser = new EventEmitter<CreateUserDto>();
   @Output() updateUser = new EventEmitter<UpdateUserDto>();
   @Output() formCancel = new EventEmitter<void>();
 
   userForm: FormGroup;
   isEditMode = false;
+  readonly nameOrders: { value: NameOrder; label: string }[] = [
+    { value: 'given-first', label: 'Given name first' },
+    { value: 'family-first', label: 'Family name first' },
+  ];
+
+  // Optional name parts; empty ones are left out of created users
+  private static readonly OPTIONAL_NAME_FIELDS = [
+    'honorific',
+    'middleName',
+    'preferredName',
+  ] as const;
 
   private destroy$ = new Subject<void>();
 
-  constructor(private formBuilder: FormBuilder) {
+  constructor(
+    private formBuilder: FormBuilder,
+    @Inject(USER_VALIDATION_POLICY_TOKEN)
+    private validationPolicy: UserValidationPolicy,
+  ) {
     this.userForm = this.createForm();
   }
 
@@ -243,66 +289,65 @@ export class UserFormComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Show a user replaced after initialization, e.g. the latest server values
+   */
+  ngOnChanges(changes: SimpleChanges): void {
+    const change = changes['user'];
+    if (change && !change.firstChange && this.user) {
+      this.populateForm(this.user);
+    }
+  }
+
   ngOnDestroy(): void {
     this.destroy$.next();
     this.destroy$.complete();
   }
 
   /**
-   * Create the reactive form with validation
+   * Create the reactive form with the validation policy's rules
    */
   private createForm(): FormGroup {
     return this.formBuilder.group({
-      email: [
+      email: ['', userFieldValidator(this.validationPolicy, 'email')],
+      honorific: ['', userFieldValidator(this.validationPolicy, 'honorific')],
+      firstName: ['', userFieldValidator(this.validationPolicy, 'firstName')],
+      middleName: ['', userFieldValidator(this.validationPolicy, 'middleName')],
+      lastName: ['', userFieldValidator(this.validationPolicy, 'lastName')],
+      preferredName: [
         '',
-        [Validators.required, Validators.email, this.customEmailValidator],
+        userFieldValidator(this.validationPolicy, 'preferredName'),
       ],
-      firstName: [
-        '',
-        [
-          Validators.required,
-          Validators.minLength(2),
-          this.customNameValidator,
-        ],
-      ],
-      lastName: [
-        '',
-        [
-          Validators.required,
-          Validators.minLength(2),
-          this.customNameValidator,
-        ],
+      nameOrder: [
+        'given-first',
+        userFieldValidator(this.validationPolicy, 'nameOrder'),
       ],
     });
   }
 
-  /**
-   * Custom email validator
-   */
-  private customEmailValidator(control: any) {
-    if (!control.value) return null;
-    return isValidEmail(control.value) ? null : { invalidEmail: true };
-  }
-
-  /**
-   * Custom name validator
-   */
-  private customNameValidator(control: any) {
-    if (!control.value) return null;
-    return isValidName(control.value) ? null : { invalidName: true };
-  }
-
   /**
    * Populate form with user data for editing
    */
   private populateForm(user: UserResponseDto): void {
     this.userForm.patchValue({
       email: user.email,
+      honorific: user.honorific ?? '',
       firstName: user.firstName,
+      middleName: user.middleName ?? '',
       lastName: user.lastName,
+      preferredName: user.preferredName ?? '',
+      nameOrder: user.nameOrder ?? 'given-first',
     });
   }
 
+  /**
+   * Message of the rule a form field violates
+   */
+  fieldError(fieldName: UserField): string | null {
+    const errors = this.userForm.get(fieldName)?.errors;
+    return errors ? (Object.values(errors)[0]?.message ?? null) : null;
+  }
+
   /**
    * Check if a form field is invalid and has been touched
    */
@@ -316,7 +361,7 @@ export class UserFormComponent implements OnInit, OnDestroy {
    */
   onSubmit(): void {
     if (this.userForm.valid) {
-      const formValue = this.userForm.value;
+      const formValue = this.validationPolicy.normalize(this.userForm.value);
 
       if (this.isEditMode) {
         // For updates, only send changed fields
@@ -330,6 +375,17 @@ export class UserFormComponent implements OnInit, OnDestroy {
           updateData.lastName = formValue.lastName;
         }
 
+        // An emptied name part is sent as '' so that it gets cleared
+        for (const field of UserFormComponent.OPTIONAL_NAME_FIELDS) {
+          if (formValue[field] !== (this.user?.[field] ?? '')) {
+            updateData[field] = formValue[field];
+          }
+        }
+
+        if (formValue.nameOrder !== (this.user?.nameOrder ?? 'given-first')) {
+          updateData.nameOrder = formValue.nameOrder;
+        }
+
         this.updateUser.emit(updateData);
       } else {
         // For creation, send all required fields
@@ -339,6 +395,16 @@ export class UserFormComponent implements OnInit, OnDestroy {
           lastName: formValue.lastName,
         };
 
+        for (const field of UserFormComponent.OPTIONAL_NAME_FIELDS) {
+          if (formValue[field]) {
+            createData[field] = formValue[field];
+          }
+        }
+
+        if (formValue.nameOrder !== 'given-first') {
+          createData.nameOrder = formValue.nameOrder;
+        }
+
         this.createUser.emit(createData);
       }
     } else {
@@ -360,7 +426,7 @@ export class UserFormComponent implements OnInit, OnDestroy {
    * Reset the form
    */
   resetForm(): void {
-    this.userForm.reset();
+    this.userForm.reset({ nameOrder: 'given-first' });
     Object.keys(this.userForm.controls).forEach((key) => {
       this.userForm.get(key)?.setErrors(null);
     });
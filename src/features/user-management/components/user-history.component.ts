@@ -0,0 +1,347 @@
+import {
+  Component,
+  OnChanges,
+  OnDestroy,
+  SimpleChanges,
+  Input,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subject, takeUntil } from 'rxjs';
+
+// Audit context imports
+import {
+  AuditEntryDto,
+  AuditOperation,
+  AuditTrailService,
+  AuditValue,
+} from '../../../core/audit';
+
+// Domain imports
+import { USER_STATUS_LABELS, isUserStatus } from '../../../core/domain';
+
+const OPERATION_LABELS: Record<AuditOperation, string> = {
+  create: 'Created',
+  update: 'Updated',
+  deactivate: 'Deactivated',
+  activate: 'Activated',
+  purge: 'Permanently deleted',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  email: 'Email',
+  honorific: 'Honorific',
+  firstName: 'First Name',
+  middleName: 'Middle Name',
+  lastName: 'Last Name',
+  preferredName: 'Preferred Name',
+  nameOrder: 'Name Order',
+  isActive: 'Active',
+  status: 'Status',
+  roles: 'Roles',
+};
+
+/**
+ * User History Component
+ * Shows the audit trail of a user as a paginated timeline, newest first
+ */
+@Component({
+  selector: 'app-user-history',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="history">
+      <div *ngIf="isLoading && entries.length === 0" class="history-empty">
+        Loading history...
+      </div>
+
+      <div *ngIf="loadError" class="history-error">
+        {{ loadError }}
+        <button class="btn btn-sm btn-outline-primary" (click)="loadHistory()">
+          Retry
+        </button>
+      </div>
+
+      <div
+        *ngIf="!isLoading && !loadError && entries.length === 0"
+        class="history-empty"
+      >
+        No changes have been recorded for this user.
+      </div>
+
+      <ol *ngIf="entries.length > 0" class="timeline">
+        <li
+          *ngFor="let entry of entries"
+          [class]="'timeline-entry ' + entry.operation"
+        >
+          <div class="entry-header">
+            <strong>{{ operationLabel(entry) }}</strong>
+            <span class="entry-meta">
+              {{ formatDateTime(entry.occurredAt) }} by
+              {{ entry.actor?.name || 'System' }}
+            </span>
+          </div>
+
+          <p *ngIf="entry.reason" class="entry-reason">
+            Reason: {{ entry.reason }}
+          </p>
+
+          <table *ngIf="entry.changes.length > 0" class="changes">
+            <thead>
+              <tr>
+                <th>Field</th>
+                <th>Before</th>
+                <th>After</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr *ngFor="let change of entry.changes">
+                <td>{{ fieldLabel(change.field) }}</td>
+                <td class="value-before">
+                  {{ formatValue(change.before, change.field) }}
+                </td>
+                <td class="value-after">
+                  {{ formatValue(change.after, change.field) }}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </li>
+      </ol>
+
+      <div *ngIf="totalPages > 1" class="pagination">
+        <button
+          class="btn btn-sm btn-outline-primary"
+          [disabled]="currentPage === 1 || isLoading"
+          (click)="goToPage(currentPage - 1)"
+        >
+          Newer
+        </button>
+
+        <span class="page-info">
+          Page {{ currentPage }} of {{ totalPages }} ({{ total }} entries)
+        </span>
+
+        <button
+          class="btn btn-sm btn-outline-primary"
+          [disabled]="currentPage === totalPages || isLoading"
+          (click)="goToPage(currentPage + 1)"
+        >
+          Older
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [
+    `
+      .history-empty,
+      .history-error {
+        padding: 20px 0;
+        color: #666;
+      }
+
+      .history-error {
+        color: #dc3545;
+        display: flex;
+        align-items: center;
+        gap: 10px;
+      }
+
+      .timeline {
+        list-style: none;
+        margin: 0;
+        padding: 0;
+      }
+
+      .timeline-entry {
+        border-left: 3px solid #007bff;
+        padding: 0 0 20px 15px;
+      }
+
+      .timeline-entry.deactivate,
+      .timeline-entry.purge {
+        border-left-color: #dc3545;
+      }
+
+      .timeline-entry.activate,
+      .timeline-entry.create {
+        border-left-color: #28a745;
+      }
+
+      .entry-header {
+        display: flex;
+        justify-content: space-between;
+        gap: 10px;
+        flex-wrap: wrap;
+        color: #333;
+      }
+
+      .entry-meta {
+        font-size: 13px;
+        color: #666;
+      }
+
+      .entry-reason {
+        margin: 6px 0 0 0;
+        font-size: 14px;
+        color: #333;
+      }
+
+      .changes {
+        width: 100%;
+        margin-top: 10px;
+        border-collapse: collapse;
+        font-size: 13px;
+      }
+
+      .changes th,
+      .changes td {
+        text-align: left;
+        padding: 4px 8px;
+        border-bottom: 1px solid #eee;
+      }
+
+      .changes th {
+        color: #666;
+        font-weight: 500;
+      }
+
+      .value-before {
+        color: #999;
+      }
+
+      .pagination {
+        display: flex;
+        justify-content: center;
+        align-items: center;
+        gap: 15px;
+      }
+
+      .page-info {
+        font-size: 14px;
+        color: #666;
+      }
+
+      .btn {
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+        font-weight: 500;
+      }
+
+      .btn:disabled {
+        opacity: 0.6;
+        cursor: not-allowed;
+      }
+
+      .btn-outline-primary {
+        background-color: transparent;
+        color: #007bff;
+        border: 1px solid #007bff;
+      }
+
+      .btn-sm {
+        padding: 4px 8px;
+        font-size: 12px;
+      }
+    `,
+  ],
+})
+export class UserHistoryComponent implements OnChanges, OnDestroy {
+  @Input({ required: true }) userId!: string;
+
+  /**
+   * Version of the user shown; a new version means the user was changed
+   * and the first page is loaded again
+   */
+  @Input() version: number | null = null;
+
+  entries: AuditEntryDto[] = [];
+  currentPage = 1;
+  totalPages = 0;
+  total = 0;
+  isLoading = false;
+  loadError: string | null = null;
+
+  private static readonly PAGE_SIZE = 10;
+
+  private destroy$ = new Subject<void>();
+  private reload$ = new Subject<void>();
+
+  constructor(private auditTrail: AuditTrailService) {}
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['userId'] || changes['version']) {
+      this.currentPage = 1;
+      this.loadHistory();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Load the current page, dropping a load still in progress
+   */
+  loadHistory(): void {
+    this.reload$.next();
+    this.isLoading = true;
+    this.loadError = null;
+
+    this.auditTrail
+      .getHistory(this.userId, {
+        page: this.currentPage,
+        limit: UserHistoryComponent.PAGE_SIZE,
+      })
+      .pipe(takeUntil(this.reload$), takeUntil(this.destroy$))
+      .subscribe({
+        next: (history) => {
+          this.isLoading = false;
+          this.entries = history.entries;
+          this.total = history.total;
+          this.totalPages = history.totalPages;
+        },
+        error: (error) => {
+          this.isLoading = false;
+          console.error('Error loading user history:', error);
+          this.loadError = 'Failed to load history';
+        },
+      });
+  }
+
+  goToPage(page: number): void {
+    if (page >= 1 && page <= this.totalPages) {
+      this.currentPage = page;
+      this.loadHistory();
+    }
+  }
+
+  operationLabel(entry: AuditEntryDto): string {
+    return OPERATION_LABELS[entry.operation];
+  }
+
+  fieldLabel(field: string): string {
+    return FIELD_LABELS[field] ?? field;
+  }
+
+  formatValue(value: AuditValue, field?: string): string {
+    if (value === null || value === '') {
+      return '—';
+    }
+    if (field === 'status' && isUserStatus(value)) {
+      return USER_STATUS_LABELS[value];
+    }
+    if (Array.isArray(value)) {
+      return value.length > 0 ? value.join(', ') : 'None';
+    }
+    if (typeof value === 'boolean') {
+      return value ? 'Yes' : 'No';
+    }
+    return value;
+  }
+
+  formatDateTime(dateString: string): string {
+    return new Date(dateString).toLocaleString();
+  }
+}
@@ -0,0 +1,179 @@
+import { Component, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { Subject, takeUntil } from 'rxjs';
+
+// Application layer imports
+import { UserApplicationService } from '../../../core/application';
+import { CreateUserDto } from '../../../core/application';
+
+// Domain imports
+import { ValidationError } from '../../../core/domain';
+
+// Shared services
+import { NotificationService } from '../../../shared/services/notification.service';
+
+// Feature components
+import { UserFormComponent } from './user-form.component';
+
+/**
+ * User Invite Component
+ * Invites a user, who stays pending until they accept the mailed invitation
+ */
+@Component({
+  selector: 'app-user-invite',
+  standalone: true,
+  imports: [CommonModule, UserFormComponent],
+  template: `
+    <div class="user-invite-container">
+      <div class="header">
+        <h2>Invite User</h2>
+        <button
+          class="btn btn-secondary"
+          (click)="navigateBack()"
+          [disabled]="isSubmitting"
+        >
+          Back to Users
+        </button>
+      </div>
+
+      <p class="intro">
+        The invitee receives a link to confirm their name and activate their
+        account. Until then they are listed under Invitations.
+      </p>
+
+      <div class="form-container">
+        <app-user-form
+          createLabel="Send Invitation"
+          [isSubmitting]="isSubmitting"
+          (createUser)="onInviteUser($event)"
+          (formCancel)="navigateBack()"
+        >
+        </app-user-form>
+      </div>
+    </div>
+  `,
+  styles: [
+    `
+      .user-invite-container {
+        padding: 20px;
+        max-width: 800px;
+        margin: 0 auto;
+      }
+
+      .header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        margin-bottom: 20px;
+        padding-bottom: 20px;
+        border-bottom: 1px solid #eee;
+      }
+
+      .header h2 {
+        margin: 0;
+        color: #333;
+      }
+
+      .intro {
+        margin: 0 0 20px 0;
+        color: #666;
+      }
+
+      .form-container {
+        background: white;
+        padding: 30px;
+        border-radius: 8px;
+        box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+      }
+
+      .btn {
+        padding: 8px 16px;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        text-decoration: none;
+        display: inline-block;
+      }
+
+      .btn:disabled {
+        opacity: 0.6;
+        cursor: not-allowed;
+      }
+
+      .btn-secondary {
+        background-color: #6c757d;
+        color: white;
+      }
+
+      .btn-secondary:hover:not(:disabled) {
+        background-color: #545b62;
+      }
+    `,
+  ],
+})
+export class UserInviteComponent implements OnDestroy {
+  isSubmitting = false;
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private userApplicationService: UserApplicationService,
+    private notificationService: NotificationService,
+    private router: Router,
+  ) {}
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Handle the invitation
+   */
+  onInviteUser(userData: CreateUserDto): void {
+    this.isSubmitting = true;
+
+    this.userApplicationService
+      .inviteUser(userData)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (invitation) => {
+          this.isSubmitting = false;
+          this.notificationService.showSuccess(
+            'Invitation sent',
+            `${invitation.user.fullName} was invited at ${invitation.user.email}`,
+          );
+          this.router.navigate(['/users/invitations']);
+        },
+        error: (error) => {
+          this.isSubmitting = false;
+          console.error('Error inviting user:', error);
+
+          this.notificationService.showError('Error', this.errorMessage(error));
+        },
+      });
+  }
+
+  /**
+   * Navigate back to user list
+   */
+  navigateBack(): void {
+    this.router.navigate(['/users']);
+  }
+
+  /**
+   * Message for a failed invitation, chosen by the domain error code
+   */
+  private errorMessage(error: any): string {
+    switch (error?.code) {
+      case 'VALIDATION_ERROR':
+        return (error as ValidationError).validationErrors.join(', ');
+      case 'USER_ALREADY_EXISTS':
+      case 'FORBIDDEN':
+        return error.userMessage;
+      default:
+        return 'Failed to invite user';
+    }
+  }
+}
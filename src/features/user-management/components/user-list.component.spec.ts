@@ -2,7 +2,13 @@ import { provideZonelessChangeDetection } from '@angular/core';
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 import { Router } from '@angular/router';
 import { of, throwError } from 'rxjs';
-import { UserApplicationService } from '../../../core/application';
+import {
+  AuthService,
+  DomainEventBusService,
+  UserApplicationService,
+  UserResponseDto,
+} from '../../../core/application';
+import { UserActivated, UserDeactivated } from '../../../core/domain';
 import { LoadingService } from '../../../shared/services/loading.service';
 import { NotificationService } from '../../../shared/services/notification.service';
 import { UserListComponent } from './user-list.component';
@@ -14,8 +20,9 @@ describe('UserListComponent', () => {
   let mockNotificationService: jasmine.SpyObj<NotificationService>;
   let mockLoadingService: jasmine.SpyObj<LoadingService>;
   let mockRouter: jasmine.SpyObj<Router>;
+  let mockAuthService: jasmine.SpyObj<AuthService>;
 
-  const mockUsers = [
+  const mockUsers: UserResponseDto[] = [
     {
       id: '1',
       email: 'john@example.com',
@@ -24,7 +31,10 @@ describe('UserListComponent', () => {
       fullName: 'John Doe',
       createdAt: '2023-01-01T00:00:00.000Z',
       updatedAt: '2023-01-01T00:00:00.000Z',
+      status: 'active',
       isActive: true,
+      roles: ['admin'],
+      version: 1,
     },
     {
       id: '2',
@@ -34,7 +44,10 @@ describe('UserListComponent', () => {
       fullName: 'Jane Smith',
       createdAt: '2023-01-02T00:00:00.000Z',
       updatedAt: '2023-01-02T00:00:00.000Z',
+      status: 'deactivated',
       isActive: false,
+      roles: [],
+      version: 1,
     },
   ];
 
@@ -42,11 +55,14 @@ describe('UserListComponent', () => {
     mockUserService = jasmine.createSpyObj('UserApplicationService', [
       'getUsers',
       'deleteUser',
+      'activateUser',
+      'bulkOperation',
     ]);
 
     mockNotificationService = jasmine.createSpyObj('NotificationService', [
       'showSuccess',
       'showError',
+      'showWarning',
     ]);
 
     mockLoadingService = jasmine.createSpyObj('LoadingService', [], {
@@ -55,6 +71,11 @@ describe('UserListComponent', () => {
 
     mockRouter = jasmine.createSpyObj('Router', ['navigate']);
 
+    mockAuthService = jasmine.createSpyObj('AuthService', ['hasPermission'], {
+      currentUser$: of(null),
+    });
+    mockAuthService.hasPermission.and.returnValue(true);
+
     await TestBed.configureTestingModule({
       imports: [UserListComponent],
       providers: [
@@ -63,6 +84,7 @@ describe('UserListComponent', () => {
         { provide: NotificationService, useValue: mockNotificationService },
         { provide: LoadingService, useValue: mockLoadingService },
         { provide: Router, useValue: mockRouter },
+        { provide: AuthService, useValue: mockAuthService },
       ],
     }).compileComponents();
 
@@ -120,16 +142,96 @@ describe('UserListComponent', () => {
       mockUserService.getUsers.and.returnValue(of(mockResponse));
 
       component.searchQuery = 'john';
-      component.activeFilter = 'true';
+      component.statusFilter = ['active', 'invited'];
       component.loadUsers();
 
       expect(mockUserService.getUsers).toHaveBeenCalledWith({
         page: 1,
         limit: 10,
         search: 'john',
-        isActive: true,
+        statuses: ['active', 'invited'],
+        role: undefined,
+        sortBy: 'createdAt',
+        sortOrder: 'desc',
       });
     });
+
+    it('should filter by role', () => {
+      mockUserService.getUsers.and.returnValue(
+        of({ users: [], total: 0, page: 1, limit: 10, totalPages: 0 }),
+      );
+
+      component.roleFilter = 'manager';
+      component.loadUsers();
+
+      expect(mockUserService.getUsers).toHaveBeenCalledWith(
+        jasmine.objectContaining({ role: 'manager' }),
+      );
+    });
+  });
+
+  describe('sortByColumn', () => {
+    beforeEach(() => {
+      mockUserService.getUsers.and.returnValue(
+        of({ users: [], total: 0, page: 1, limit: 10, totalPages: 0 }),
+      );
+    });
+
+    it('should sort a new column ascending from the first page', () => {
+      component.currentPage = 3;
+
+      component.sortByColumn('email');
+
+      expect(component.currentPage).toBe(1);
+      expect(mockUserService.getUsers).toHaveBeenCalledWith(
+        jasmine.objectContaining({ sortBy: 'email', sortOrder: 'asc' }),
+      );
+      expect(component.sortIndicator('email')).toBe('▲');
+      expect(component.ariaSort('createdAt')).toBe('none');
+    });
+
+    it('should toggle the order of the current column', () => {
+      component.sortByColumn('createdAt');
+
+      expect(component.sortOrder).toBe('asc');
+      expect(component.ariaSort('createdAt')).toBe('ascending');
+    });
+
+    it('should keep the order the server sorted names in', () => {
+      mockUserService.getUsers.and.returnValue(
+        of({
+          users: [mockUsers[1], mockUsers[0]],
+          total: 2,
+          page: 1,
+          limit: 10,
+          totalPages: 1,
+        }),
+      );
+
+      component.sortByColumn('name');
+
+      expect(mockUserService.getUsers).toHaveBeenCalledWith(
+        jasmine.objectContaining({ sortBy: 'name', sortOrder: 'asc' }),
+      );
+      // Pages are sorted across the whole list; re-sorting one page could
+      // only disagree with its neighbours
+      expect(component.users.map((user) => user.id)).toEqual(['2', '1']);
+    });
+  });
+
+  describe('displayName', () => {
+    it('should show the preferred name in the name order', () => {
+      expect(
+        component.displayName({
+          ...mockUsers[0],
+          firstName: 'An',
+          lastName: 'Nguyễn',
+          middleName: 'Văn',
+          preferredName: 'Andy',
+          nameOrder: 'family-first',
+        }),
+      ).toBe('Nguyễn Andy');
+    });
   });
 
   describe('onSearchChange', () => {
@@ -167,12 +269,28 @@ describe('UserListComponent', () => {
       mockUserService.getUsers.and.returnValue(of(mockResponse));
 
       component.currentPage = 2;
-      component.activeFilter = 'true';
+      component.statusFilter = ['active'];
       component.onFilterChange();
 
       expect(component.currentPage).toBe(1);
       expect(mockUserService.getUsers).toHaveBeenCalled();
     });
+
+    it('should filter by several statuses in lifecycle order', () => {
+      mockUserService.getUsers.and.returnValue(
+        of({ users: [], total: 0, page: 1, limit: 10, totalPages: 0 }),
+      );
+
+      component.toggleStatusFilter('deactivated');
+      component.toggleStatusFilter('suspended');
+      component.toggleStatusFilter('locked');
+      component.toggleStatusFilter('suspended');
+
+      expect(component.statusFilter).toEqual(['locked', 'deactivated']);
+      expect(mockUserService.getUsers.calls.mostRecent().args[0]).toEqual(
+        jasmine.objectContaining({ statuses: ['locked', 'deactivated'] }),
+      );
+    });
   });
 
   describe('goToPage', () => {
@@ -212,6 +330,11 @@ describe('UserListComponent', () => {
       expect(mockRouter.navigate).toHaveBeenCalledWith(['/users/create']);
     });
 
+    it('should navigate to invite user page', () => {
+      component.navigateToInvite();
+      expect(mockRouter.navigate).toHaveBeenCalledWith(['/users/invite']);
+    });
+
     it('should navigate to view user page', () => {
       component.viewUser('1');
       expect(mockRouter.navigate).toHaveBeenCalledWith(['/users', '1']);
@@ -224,53 +347,271 @@ describe('UserListComponent', () => {
   });
 
   describe('deleteUser', () => {
-    it('should delete user after confirmation', () => {
-      spyOn(window, 'confirm').and.returnValue(true);
-      mockUserService.deleteUser.and.returnValue(of(true));
+    it('should ask for a reason before deleting', () => {
+      const user = mockUsers[0];
+      component.deleteUser(user);
 
-      const mockResponse = {
-        users: [],
-        total: 0,
-        page: 1,
-        limit: 10,
-        totalPages: 0,
-      };
-      mockUserService.getUsers.and.returnValue(of(mockResponse));
+      expect(component.deactivationTarget).toBe(user);
+      expect(mockUserService.deleteUser).not.toHaveBeenCalled();
+    });
+
+    it('should delete user with the reason given', () => {
+      mockUserService.deleteUser.and.returnValue(of(true));
 
       const user = mockUsers[0];
       component.deleteUser(user);
+      component.confirmDeactivation({ reason: 'left-company', note: '' });
 
-      expect(window.confirm).toHaveBeenCalledWith(
-        'Are you sure you want to delete John Doe?',
-      );
-      expect(mockUserService.deleteUser).toHaveBeenCalledWith('1');
+      expect(mockUserService.deleteUser).toHaveBeenCalledWith('1', {
+        reason: 'left-company',
+        note: '',
+      });
+      expect(component.deactivationTarget).toBeNull();
       expect(mockNotificationService.showSuccess).toHaveBeenCalledWith(
         'Success',
         'User deleted successfully',
       );
     });
 
-    it('should not delete user if not confirmed', () => {
-      spyOn(window, 'confirm').and.returnValue(false);
-
+    it('should not delete user if cancelled', () => {
       const user = mockUsers[0];
       component.deleteUser(user);
+      component.closeDeactivationDialog();
 
+      expect(component.deactivationTarget).toBeNull();
       expect(mockUserService.deleteUser).not.toHaveBeenCalled();
     });
 
-    it('should handle delete error', () => {
-      spyOn(window, 'confirm').and.returnValue(true);
+    it('should keep the dialog open with the delete error', () => {
       const error = new Error('Delete failed');
       mockUserService.deleteUser.and.returnValue(throwError(() => error));
 
       const user = mockUsers[0];
       component.deleteUser(user);
+      component.confirmDeactivation({ reason: 'duplicate' });
+
+      expect(component.deactivationTarget).toBe(user);
+      expect(component.deactivationError).toBe('Failed to delete user');
+      expect(component.isDeactivating).toBeFalse();
+    });
+  });
+
+  describe('activateUser', () => {
+    it('should activate user after confirmation', () => {
+      spyOn(window, 'confirm').and.returnValue(true);
+      mockUserService.activateUser.and.returnValue(
+        of({ ...mockUsers[1], isActive: true }),
+      );
+      mockUserService.getUsers.and.returnValue(
+        of({ users: [], total: 0, page: 1, limit: 10, totalPages: 0 }),
+      );
+
+      component.activateUser(mockUsers[1]);
+
+      expect(window.confirm).toHaveBeenCalledWith(
+        'Are you sure you want to activate Jane Smith?',
+      );
+      expect(mockUserService.activateUser).toHaveBeenCalledWith('2');
+      expect(mockNotificationService.showSuccess).toHaveBeenCalledWith(
+        'Success',
+        'User activated successfully',
+      );
+    });
+
+    it('should handle activation error', () => {
+      spyOn(window, 'confirm').and.returnValue(true);
+      mockUserService.activateUser.and.returnValue(
+        throwError(() => new Error('Activation failed')),
+      );
+
+      component.activateUser(mockUsers[1]);
 
       expect(mockNotificationService.showError).toHaveBeenCalledWith(
         'Error',
-        'Failed to delete user',
+        'Failed to activate user',
+      );
+    });
+  });
+
+  describe('user events', () => {
+    it('should reload once for a burst of events', async () => {
+      mockUserService.getUsers.and.returnValue(
+        of({ users: [], total: 0, page: 1, limit: 10, totalPages: 0 }),
+      );
+      const eventBus = TestBed.inject(DomainEventBusService);
+      await fixture.whenStable();
+      mockUserService.getUsers.calls.reset();
+
+      eventBus.publish(new UserDeactivated('1'));
+      eventBus.publish(new UserActivated('2'));
+      expect(mockUserService.getUsers).not.toHaveBeenCalled();
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(mockUserService.getUsers).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('bulk operations', () => {
+    beforeEach(() => {
+      mockUserService.getUsers.and.returnValue(
+        of({ users: mockUsers, total: 2, page: 1, limit: 10, totalPages: 1 }),
+      );
+      component.loadUsers();
+    });
+
+    it('should select and deselect every user on the page', () => {
+      component.toggleSelectAll();
+      expect(component.allSelected).toBeTrue();
+      expect([...component.selectedIds]).toEqual(['1', '2']);
+
+      component.toggleSelectAll();
+      expect(component.selectedIds.size).toBe(0);
+    });
+
+    it('should drop selected users that are no longer listed', () => {
+      component.toggleSelectAll();
+      mockUserService.getUsers.and.returnValue(
+        of({
+          users: [mockUsers[0]],
+          total: 1,
+          page: 1,
+          limit: 10,
+          totalPages: 1,
+        }),
+      );
+
+      component.loadUsers();
+
+      expect([...component.selectedIds]).toEqual(['1']);
+    });
+
+    it('should deactivate the selection with the reason given', () => {
+      mockUserService.bulkOperation.and.returnValue(
+        of({ successful: ['1', '2'], failed: [], totalProcessed: 2 }),
+      );
+      component.toggleSelectAll();
+
+      component.runBulkOperation('deactivate');
+
+      expect(component.deactivationTarget).toBe('selected');
+      expect(mockUserService.bulkOperation).not.toHaveBeenCalled();
+
+      component.confirmDeactivation({ reason: 'duplicate', note: '' });
+
+      expect(mockUserService.bulkOperation).toHaveBeenCalledWith({
+        userIds: ['1', '2'],
+        operation: 'deactivate',
+        deactivation: { reason: 'duplicate', note: '' },
+      });
+      expect(component.deactivationTarget).toBeNull();
+      expect(component.bulkResult).toEqual({ succeeded: 2, failed: [] });
+      expect(component.selectedIds.size).toBe(0);
+      expect(mockNotificationService.showSuccess).toHaveBeenCalled();
+    });
+
+    it('should keep failed users selected and list them', () => {
+      spyOn(window, 'confirm').and.returnValue(true);
+      mockUserService.bulkOperation.and.returnValue(
+        of({
+          successful: ['2'],
+          failed: [{ id: '1', error: 'User is already active' }],
+          totalProcessed: 2,
+        }),
+      );
+      component.toggleSelectAll();
+
+      component.runBulkOperation('activate');
+
+      expect(window.confirm).toHaveBeenCalledWith(
+        'Are you sure you want to activate 2 selected users?',
+      );
+      expect(component.bulkResult).toEqual({
+        succeeded: 1,
+        failed: [
+          {
+            id: '1',
+            label: 'John Doe (john@example.com)',
+            error: 'User is already active',
+          },
+        ],
+      });
+      expect([...component.selectedIds]).toEqual(['1']);
+      expect(mockNotificationService.showWarning).toHaveBeenCalled();
+    });
+
+    it('should not run the operation if not confirmed', () => {
+      spyOn(window, 'confirm').and.returnValue(false);
+      component.toggleSelection('1');
+
+      component.runBulkOperation('activate');
+
+      expect(mockUserService.bulkOperation).not.toHaveBeenCalled();
+    });
+
+    it('should delete permanently without an inline confirm', () => {
+      spyOn(window, 'confirm');
+      mockUserService.bulkOperation.and.returnValue(
+        of({ successful: ['2'], failed: [], totalProcessed: 1 }),
+      );
+      component.toggleSelection('2');
+      component.openBulkDeleteDialog();
+
+      component.runBulkOperation('delete');
+
+      expect(window.confirm).not.toHaveBeenCalled();
+      expect(mockUserService.bulkOperation).toHaveBeenCalledWith({
+        userIds: ['2'],
+        operation: 'delete',
+      });
+      expect(component.showBulkDeleteDialog).toBeFalse();
+    });
+
+    it('should handle bulk operation error', () => {
+      mockUserService.bulkOperation.and.returnValue(
+        throwError(() => new Error('Bulk failed')),
+      );
+      component.toggleSelection('1');
+
+      component.runBulkOperation('deactivate', { reason: 'duplicate' });
+
+      expect(component.isBulkProcessing).toBeFalse();
+      expect(component.selectedIds.has('1')).toBeTrue();
+      expect(mockNotificationService.showError).toHaveBeenCalledWith(
+        'Error',
+        'Failed to process selected users',
+      );
+    });
+  });
+
+  describe('permissions', () => {
+    beforeEach(() => {
+      mockUserService.getUsers.and.returnValue(
+        of({ users: mockUsers, total: 2, page: 1, limit: 10, totalPages: 1 }),
+      );
+    });
+
+    it('should show management buttons to users who may use them', () => {
+      fixture.detectChanges();
+
+      const text = fixture.nativeElement.textContent;
+      expect(text).toContain('Add New User');
+      expect(text).toContain('Invite User');
+      expect(text).toContain('Edit');
+      expect(text).toContain('Delete');
+    });
+
+    it('should hide management buttons from read-only users', () => {
+      mockAuthService.hasPermission.and.callFake(
+        (permission) => permission === 'users:read',
       );
+      fixture.detectChanges();
+
+      const text = fixture.nativeElement.textContent;
+      expect(text).toContain('John Doe');
+      expect(text).not.toContain('Add New User');
+      expect(text).not.toContain('Invite User');
+      expect(text).not.toContain('Edit');
+      expect(text).not.toContain('Delete');
     });
   });
 
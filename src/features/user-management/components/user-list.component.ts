@@ -5,12 +5,48 @@ import { Router } from '@angular/router';
 import { Subject, takeUntil, debounceTime, distinctUntilChanged } from 'rxjs';
 
 // Application layer imports
-import { UserApplicationService } from '../../../core/application';
-import { UserResponseDto, UserListQueryDto } from '../../../core/application';
+import {
+  UserApplicationService,
+  PersonNameFormatterService,
+  DomainEventBusService,
+} from '../../../core/application';
+import {
+  UserResponseDto,
+  UserListQueryDto,
+  BulkUserOperationDto,
+  DeactivationDto,
+} from '../../../core/application';
 
-// Shared services
+// Domain imports
+import {
+  Role,
+  ROLES,
+  UserSortField,
+  SortOrder,
+  UserStatus,
+  USER_STATUSES,
+  USER_STATUS_LABELS,
+  UserStatusTransition,
+  canTransition,
+  ValidationError,
+} from '../../../core/domain';
+
+// Shared services and directives
 import { NotificationService } from '../../../shared/services/notification.service';
 import { LoadingService } from '../../../shared/services/loading.service';
+import { HasPermissionDirective } from '../../../shared/directives/has-permission.directive';
+import { ConfirmDialogComponent } from '../../../shared/components/confirm-dialog.component';
+
+// Feature components
+import { DeactivationDialogComponent } from './deactivation-dialog.component';
+
+/**
+ * Outcome of the last bulk operation, with failed users labelled for display
+ */
+interface BulkResultSummary {
+  succeeded: number;
+  failed: Array<{ id: string; label: string; error: string }>;
+}
 
 /**
  * User List Component
@@ -19,18 +55,40 @@ import { LoadingService } from '../../../shared/services/loading.service';
 @Component({
   selector: 'app-user-list',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [
+    CommonModule,
+    FormsModule,
+    HasPermissionDirective,
+    ConfirmDialogComponent,
+    DeactivationDialogComponent,
+  ],
   template: `
     <div class="user-list-container">
       <div class="header">
         <h2>User Management</h2>
-        <button
-          class="btn btn-primary"
-          (click)="navigateToCreate()"
-          [disabled]="loadingService.isLoading"
-        >
-          Add New User
-        </button>
+        <div *appHasPermission="'users:create'" class="header-actions">
+          <button
+            class="btn btn-outline-primary"
+            (click)="navigateToInvitations()"
+            [disabled]="loadingService.isLoading"
+          >
+            Invitations
+          </button>
+          <button
+            class="btn btn-outline-primary"
+            (click)="navigateToInvite()"
+            [disabled]="loadingService.isLoading"
+          >
+            Invite User
+          </button>
+          <button
+            class="btn btn-primary"
+            (click)="navigateToCreate()"
+            [disabled]="loadingService.isLoading"
+          >
+            Add New User
+          </button>
+        </div>
       </div>
 
       <!-- Search and Filters -->
@@ -45,19 +103,90 @@ import { LoadingService } from '../../../shared/services/loading.service';
           />
         </div>
 
+        <fieldset class="status-filter">
+          <legend>Status</legend>
+          <label *ngFor="let status of statuses" class="status-option">
+            <input
+              type="checkbox"
+              [checked]="statusFilter.includes(status)"
+              (change)="toggleStatusFilter(status)"
+            />
+            {{ statusLabels[status] }}
+          </label>
+        </fieldset>
+
         <div class="filter-controls">
           <select
-            [(ngModel)]="activeFilter"
+            [(ngModel)]="roleFilter"
             (change)="onFilterChange()"
             class="form-control"
           >
-            <option value="">All Users</option>
-            <option value="true">Active Users</option>
-            <option value="false">Inactive Users</option>
+            <option value="">All Roles</option>
+            <option *ngFor="let role of roles" [value]="role">
+              {{ role | titlecase }}
+            </option>
           </select>
         </div>
       </div>
 
+      <!-- Bulk Actions -->
+      <div *ngIf="selectedIds.size > 0" class="bulk-bar">
+        <span class="bulk-count">{{ selectedIds.size }} selected</span>
+        <button
+          *appHasPermission="'users:activate'"
+          class="btn btn-sm btn-success"
+          (click)="runBulkOperation('activate')"
+          [disabled]="isBulkProcessing"
+        >
+          Activate
+        </button>
+        <button
+          *appHasPermission="'users:deactivate'"
+          class="btn btn-sm btn-danger"
+          (click)="runBulkOperation('deactivate')"
+          [disabled]="isBulkProcessing"
+        >
+          Deactivate
+        </button>
+        <button
+          *appHasPermission="'users:delete'"
+          class="btn btn-sm btn-danger"
+          (click)="openBulkDeleteDialog()"
+          [disabled]="isBulkProcessing"
+        >
+          Delete Permanently
+        </button>
+        <button
+          class="btn btn-sm btn-secondary"
+          (click)="clearSelection()"
+          [disabled]="isBulkProcessing"
+        >
+          Clear
+        </button>
+      </div>
+
+      <!-- Bulk Result -->
+      <div *ngIf="bulkResult" class="bulk-result">
+        <div class="bulk-result-header">
+          <span>
+            {{ bulkResult.succeeded }} succeeded,
+            {{ bulkResult.failed.length }} failed
+          </span>
+          <button
+            class="btn btn-sm btn-secondary"
+            (click)="dismissBulkResult()"
+          >
+            Dismiss
+          </button>
+        </div>
+        <ul *ngIf="bulkResult.failed.length > 0" class="bulk-failures">
+          <li *ngFor="let failure of bulkResult.failed">
+            <strong>{{ failure.label }}</strong
+            >: {{ failure.error }}
+          </li>
+        </ul>
+      </div>
+
       <!-- Loading Indicator -->
       <div *ngIf="loadingService.isLoading" class="loading">
         Loading users...
@@ -68,22 +197,79 @@ import { LoadingService } from '../../../shared/services/loading.service';
         <table class="table">
           <thead>
             <tr>
-              <th>Name</th>
-              <th>Email</th>
+              <th class="select-cell">
+                <input
+                  type="checkbox"
+                  aria-label="Select all users on this page"
+                  [checked]="allSelected"
+                  [disabled]="users.length === 0"
+                  (change)="toggleSelectAll()"
+                />
+              </th>
+              <th [attr.aria-sort]="ariaSort('name')">
+                <button
+                  type="button"
+                  class="sort-header"
+                  (click)="sortByColumn('name')"
+                >
+                  Name
+                  <span class="sort-indicator">{{
+                    sortIndicator('name')
+                  }}</span>
+                </button>
+              </th>
+              <th [attr.aria-sort]="ariaSort('email')">
+                <button
+                  type="button"
+                  class="sort-header"
+                  (click)="sortByColumn('email')"
+                >
+                  Email
+                  <span class="sort-indicator">{{
+                    sortIndicator('email')
+                  }}</span>
+                </button>
+              </th>
+              <th>Roles</th>
               <th>Status</th>
-              <th>Created</th>
+              <th [attr.aria-sort]="ariaSort('createdAt')">
+                <button
+                  type="button"
+                  class="sort-header"
+                  (click)="sortByColumn('createdAt')"
+                >
+                  Created
+                  <span class="sort-indicator">{{
+                    sortIndicator('createdAt')
+                  }}</span>
+                </button>
+              </th>
               <th>Actions</th>
             </tr>
           </thead>
           <tbody>
             <tr *ngFor="let user of users" [class.inactive]="!user.isActive">
-              <td>{{ user.fullName }}</td>
+              <td class="select-cell">
+                <input
+                  type="checkbox"
+                  [attr.aria-label]="'Select ' + user.fullName"
+                  [checked]="selectedIds.has(user.id)"
+                  (change)="toggleSelection(user.id)"
+                />
+              </td>
+              <td>{{ displayName(user) }}</td>
               <td>{{ user.email }}</td>
               <td>
-                <span
-                  [class]="user.isActive ? 'status-active' : 'status-inactive'"
+                <span *ngFor="let role of user.roles" class="role-badge">
+                  {{ role }}
+                </span>
+                <span *ngIf="user.roles.length === 0" class="no-roles"
+                  >None</span
                 >
-                  {{ user.isActive ? 'Active' : 'Inactive' }}
+              </td>
+              <td>
+                <span [class]="'status status-' + user.status">
+                  {{ statusLabels[user.status] }}
                 </span>
               </td>
               <td>{{ formatDate(user.createdAt) }}</td>
@@ -96,6 +282,7 @@ import { LoadingService } from '../../../shared/services/loading.service';
                   View
                 </button>
                 <button
+                  *appHasPermission="'users:update'"
                   class="btn btn-sm btn-primary"
                   (click)="editUser(user.id)"
                   title="Edit"
@@ -103,13 +290,24 @@ import { LoadingService } from '../../../shared/services/loading.service';
                   Edit
                 </button>
                 <button
+                  *appHasPermission="'users:deactivate'"
                   class="btn btn-sm btn-danger"
                   (click)="deleteUser(user)"
-                  [disabled]="!user.isActive"
+                  [disabled]="!can(user, 'deactivate')"
                   title="Delete"
                 >
                   Delete
                 </button>
+                <ng-container *appHasPermission="'users:activate'">
+                  <button
+                    *ngIf="can(user, 'activate')"
+                    class="btn btn-sm btn-success"
+                    (click)="activateUser(user)"
+                    title="Activate"
+                  >
+                    Activate
+                  </button>
+                </ng-container>
               </td>
             </tr>
           </tbody>
@@ -143,6 +341,44 @@ import { LoadingService } from '../../../shared/services/loading.service';
           Next
         </button>
       </div>
+
+      <app-confirm-dialog
+        *ngIf="showBulkDeleteDialog"
+        title="Delete users permanently"
+        [message]="
+          'This permanently removes ' +
+          selectedIds.size +
+          ' selected users. Active users are skipped. This cannot be undone.'
+        "
+        confirmationText="DELETE"
+        confirmLabel="Delete Permanently"
+        [isProcessing]="isBulkProcessing"
+        (confirmed)="runBulkOperation('delete')"
+        (cancelled)="closeBulkDeleteDialog()"
+      ></app-confirm-dialog>
+
+      <app-deactivation-dialog
+        *ngIf="deactivationTarget"
+        [title]="
+          deactivationTarget === 'selected'
+            ? 'Deactivate selected users'
+            : 'Delete User'
+        "
+        [message]="
+          deactivationTarget === 'selected'
+            ? selectedIds.size +
+              ' selected users will no longer be able to sign in.'
+            : deactivationTarget.fullName +
+              ' will no longer be able to sign in.'
+        "
+        [confirmLabel]="
+          deactivationTarget === 'selected' ? 'Deactivate' : 'Delete User'
+        "
+        [isProcessing]="isBulkProcessing || isDeactivating"
+        [errorMessage]="deactivationError"
+        (confirmed)="confirmDeactivation($event)"
+        (cancelled)="closeDeactivationDialog()"
+      ></app-deactivation-dialog>
     </div>
   `,
   styles: [
@@ -158,6 +394,11 @@ import { LoadingService } from '../../../shared/services/loading.service';
         margin-bottom: 20px;
       }
 
+      .header-actions {
+        display: flex;
+        gap: 10px;
+      }
+
       .filters {
         display: flex;
         gap: 15px;
@@ -172,6 +413,31 @@ import { LoadingService } from '../../../shared/services/loading.service';
         min-width: 150px;
       }
 
+      .status-filter {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 4px 12px;
+        margin: 0;
+        padding: 4px 12px;
+        border: 1px solid #ddd;
+        border-radius: 4px;
+        font-size: 14px;
+      }
+
+      .status-filter legend {
+        padding: 0 4px;
+        font-size: 12px;
+        color: #666;
+      }
+
+      .status-option {
+        display: flex;
+        align-items: center;
+        gap: 4px;
+        white-space: nowrap;
+      }
+
       .form-control {
         padding: 8px 12px;
         border: 1px solid #ddd;
@@ -197,18 +463,64 @@ import { LoadingService } from '../../../shared/services/loading.service';
         font-weight: 600;
       }
 
+      .table .select-cell {
+        width: 32px;
+      }
+
+      .sort-header {
+        padding: 0;
+        border: none;
+        background: none;
+        font: inherit;
+        cursor: pointer;
+      }
+
+      .sort-indicator {
+        display: inline-block;
+        width: 1em;
+        color: #007bff;
+      }
+
       .table tr.inactive {
         opacity: 0.6;
       }
 
+      .status {
+        font-weight: 500;
+      }
+
       .status-active {
         color: #28a745;
-        font-weight: 500;
       }
 
-      .status-inactive {
+      .status-invited {
+        color: #007bff;
+      }
+
+      .status-suspended,
+      .status-locked {
+        color: #d39e00;
+      }
+
+      .status-deactivated,
+      .status-scheduled-for-deletion {
         color: #dc3545;
-        font-weight: 500;
+      }
+
+      .role-badge {
+        display: inline-block;
+        margin-right: 4px;
+        padding: 2px 8px;
+        border-radius: 10px;
+        background-color: #e7f1ff;
+        color: #0056b3;
+        font-size: 12px;
+        text-transform: capitalize;
+      }
+
+      .no-roles {
+        color: #999;
+        font-size: 12px;
       }
 
       .actions {
@@ -246,6 +558,11 @@ import { LoadingService } from '../../../shared/services/loading.service';
         color: white;
       }
 
+      .btn-success {
+        background-color: #28a745;
+        color: white;
+      }
+
       .btn-outline-primary {
         background-color: transparent;
         color: #007bff;
@@ -269,6 +586,42 @@ import { LoadingService } from '../../../shared/services/loading.service';
         color: #666;
       }
 
+      .bulk-bar {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin-bottom: 15px;
+        padding: 10px 12px;
+        border-radius: 4px;
+        background-color: #e7f1ff;
+      }
+
+      .bulk-count {
+        font-weight: 500;
+        margin-right: auto;
+      }
+
+      .bulk-result {
+        margin-bottom: 15px;
+        padding: 10px 12px;
+        border: 1px solid #ddd;
+        border-radius: 4px;
+        background-color: #f8f9fa;
+        font-size: 14px;
+      }
+
+      .bulk-result-header {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+      }
+
+      .bulk-failures {
+        margin: 10px 0 0 0;
+        padding-left: 20px;
+        color: #721c24;
+      }
+
       .loading {
         text-align: center;
         padding: 40px;
@@ -290,7 +643,22 @@ export class UserListComponent implements OnInit, OnDestroy {
   totalUsers = 0;
   totalPages = 0;
   searchQuery = '';
-  activeFilter = '';
+  statusFilter: UserStatus[] = [];
+  roleFilter: Role | '' = '';
+  sortBy: UserSortField = 'createdAt';
+  sortOrder: SortOrder = 'desc';
+  readonly roles = ROLES;
+  readonly statuses = USER_STATUSES;
+  readonly statusLabels = USER_STATUS_LABELS;
+  selectedIds = new Set<string>();
+  isBulkProcessing = false;
+  showBulkDeleteDialog = false;
+  deactivationTarget: UserResponseDto | 'selected' | null = null;
+  isDeactivating = false;
+  deactivationError: string | null = null;
+  bulkResult: BulkResultSummary | null = null;
+
+  private static readonly REFRESH_DEBOUNCE_MS = 50;
 
   private destroy$ = new Subject<void>();
   private searchSubject = new Subject<string>();
@@ -300,6 +668,8 @@ export class UserListComponent implements OnInit, OnDestroy {
     private notificationService: NotificationService,
     public loadingService: LoadingService,
     private router: Router,
+    private nameFormatter: PersonNameFormatterService,
+    eventBus: DomainEventBusService,
   ) {
     // Setup search debouncing
     this.searchSubject
@@ -308,6 +678,16 @@ export class UserListComponent implements OnInit, OnDestroy {
         this.currentPage = 1;
         this.loadUsers();
       });
+
+    // Reload whenever users change; a bulk operation raises one event per
+    // user, so a burst of events results in a single reload
+    eventBus
+      .on()
+      .pipe(
+        debounceTime(UserListComponent.REFRESH_DEBOUNCE_MS),
+        takeUntil(this.destroy$),
+      )
+      .subscribe(() => this.loadUsers());
   }
 
   ngOnInit(): void {
@@ -327,7 +707,10 @@ export class UserListComponent implements OnInit, OnDestroy {
       page: this.currentPage,
       limit: this.pageSize,
       search: this.searchQuery || undefined,
-      isActive: this.activeFilter ? this.activeFilter === 'true' : undefined,
+      statuses: this.statusFilter.length > 0 ? this.statusFilter : undefined,
+      role: this.roleFilter || undefined,
+      sortBy: this.sortBy,
+      sortOrder: this.sortOrder,
     };
 
     this.userApplicationService
@@ -338,6 +721,7 @@ export class UserListComponent implements OnInit, OnDestroy {
           this.users = response.users;
           this.totalUsers = response.total;
           this.totalPages = response.totalPages;
+          this.pruneSelection();
         },
         error: (error) => {
           console.error('Error loading users:', error);
@@ -346,6 +730,13 @@ export class UserListComponent implements OnInit, OnDestroy {
       });
   }
 
+  /**
+   * Name a user the way the list shows it
+   */
+  displayName(user: UserResponseDto): string {
+    return this.nameFormatter.displayName(user);
+  }
+
   /**
    * Handle search input changes
    */
@@ -361,6 +752,54 @@ export class UserListComponent implements OnInit, OnDestroy {
     this.loadUsers();
   }
 
+  /**
+   * Add or remove a status from the filter, keeping lifecycle order
+   */
+  toggleStatusFilter(status: UserStatus): void {
+    const selected = this.statusFilter.includes(status)
+      ? this.statusFilter.filter((s) => s !== status)
+      : [...this.statusFilter, status];
+    this.statusFilter = USER_STATUSES.filter((s) => selected.includes(s));
+    this.onFilterChange();
+  }
+
+  /**
+   * Check if a user's status allows a transition, to offer only valid actions
+   */
+  can(user: UserResponseDto, transition: UserStatusTransition): boolean {
+    return canTransition(user.status, transition);
+  }
+
+  /**
+   * Sort by a column, toggling the order when it is already the sort column
+   * New columns start ascending, except dates which start newest first
+   */
+  sortByColumn(field: UserSortField): void {
+    if (this.sortBy === field) {
+      this.sortOrder = this.sortOrder === 'asc' ? 'desc' : 'asc';
+    } else {
+      this.sortBy = field;
+      this.sortOrder = field === 'createdAt' ? 'desc' : 'asc';
+    }
+
+    this.currentPage = 1;
+    this.loadUsers();
+  }
+
+  sortIndicator(field: UserSortField): string {
+    if (this.sortBy !== field) {
+      return '';
+    }
+    return this.sortOrder === 'asc' ? '▲' : '▼';
+  }
+
+  ariaSort(field: UserSortField): 'ascending' | 'descending' | 'none' {
+    if (this.sortBy !== field) {
+      return 'none';
+    }
+    return this.sortOrder === 'asc' ? 'ascending' : 'descending';
+  }
+
   /**
    * Navigate to specific page
    */
@@ -378,6 +817,14 @@ export class UserListComponent implements OnInit, OnDestroy {
     this.router.navigate(['/users/create']);
   }
 
+  navigateToInvite(): void {
+    this.router.navigate(['/users/invite']);
+  }
+
+  navigateToInvitations(): void {
+    this.router.navigate(['/users/invitations']);
+  }
+
   /**
    * View user details
    */
@@ -393,36 +840,258 @@ export class UserListComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Delete user (soft delete)
+   * Delete user (soft delete), once a reason is given in the dialog
    */
   deleteUser(user: UserResponseDto): void {
-    if (confirm(`Are you sure you want to delete ${user.fullName}?`)) {
+    this.openDeactivationDialog(user);
+  }
+
+  /**
+   * Open the deactivation reason dialog for a user or the selection
+   */
+  openDeactivationDialog(target: UserResponseDto | 'selected'): void {
+    this.deactivationError = null;
+    this.deactivationTarget = target;
+  }
+
+  closeDeactivationDialog(): void {
+    this.deactivationTarget = null;
+    this.deactivationError = null;
+  }
+
+  /**
+   * Deactivate the user or selection the dialog was opened for
+   * Errors for a single user stay in the dialog so the reason can be corrected
+   */
+  confirmDeactivation(deactivation: DeactivationDto): void {
+    const target = this.deactivationTarget;
+    if (!target) {
+      return;
+    }
+
+    if (target === 'selected') {
+      this.runBulkOperation('deactivate', deactivation);
+      return;
+    }
+
+    this.isDeactivating = true;
+    this.deactivationError = null;
+    this.userApplicationService
+      .deleteUser(target.id, deactivation)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          this.isDeactivating = false;
+          this.deactivationTarget = null;
+          this.notificationService.showSuccess(
+            'Success',
+            'User deleted successfully',
+          );
+        },
+        error: (error) => {
+          this.isDeactivating = false;
+          console.error('Error deleting user:', error);
+          this.deactivationError = this.actionErrorMessage(
+            error,
+            'Failed to delete user',
+          );
+        },
+      });
+  }
+
+  /**
+   * Reactivate a deactivated user
+   */
+  activateUser(user: UserResponseDto): void {
+    if (confirm(`Are you sure you want to activate ${user.fullName}?`)) {
       this.userApplicationService
-        .deleteUser(user.id)
+        .activateUser(user.id)
         .pipe(takeUntil(this.destroy$))
         .subscribe({
           next: () => {
             this.notificationService.showSuccess(
               'Success',
-              'User deleted successfully',
+              'User activated successfully',
             );
-            this.loadUsers();
           },
           error: (error) => {
-            console.error('Error deleting user:', error);
+            console.error('Error activating user:', error);
             this.notificationService.showError(
               'Error',
-              'Failed to delete user',
+              this.actionErrorMessage(error, 'Failed to activate user'),
             );
           },
         });
     }
   }
 
+  /**
+   * Check if every user on the current page is selected
+   */
+  get allSelected(): boolean {
+    return (
+      this.users.length > 0 &&
+      this.users.every((user) => this.selectedIds.has(user.id))
+    );
+  }
+
+  /**
+   * Toggle selection of a single user
+   */
+  toggleSelection(userId: string): void {
+    const selectedIds = new Set(this.selectedIds);
+    if (selectedIds.has(userId)) {
+      selectedIds.delete(userId);
+    } else {
+      selectedIds.add(userId);
+    }
+    this.selectedIds = selectedIds;
+  }
+
+  /**
+   * Select or deselect every user on the current page
+   */
+  toggleSelectAll(): void {
+    this.selectedIds = this.allSelected
+      ? new Set()
+      : new Set(this.users.map((user) => user.id));
+  }
+
+  /**
+   * Clear the current selection
+   */
+  clearSelection(): void {
+    this.selectedIds = new Set();
+  }
+
+  openBulkDeleteDialog(): void {
+    this.showBulkDeleteDialog = true;
+  }
+
+  closeBulkDeleteDialog(): void {
+    this.showBulkDeleteDialog = false;
+  }
+
+  dismissBulkResult(): void {
+    this.bulkResult = null;
+  }
+
+  /**
+   * Apply an operation to the selected users
+   * Deactivation asks for a reason and permanent deletion is confirmed
+   * through their dialogs, activation inline
+   */
+  runBulkOperation(
+    operation: BulkUserOperationDto['operation'],
+    deactivation?: DeactivationDto,
+  ): void {
+    const userIds = [...this.selectedIds];
+    if (userIds.length === 0 || this.isBulkProcessing) {
+      return;
+    }
+
+    if (operation === 'deactivate' && !deactivation) {
+      this.openDeactivationDialog('selected');
+      return;
+    }
+
+    if (
+      operation === 'activate' &&
+      !confirm(
+        `Are you sure you want to ${operation} ${userIds.length} selected users?`,
+      )
+    ) {
+      return;
+    }
+
+    // Labels are captured now because the users may be gone after the reload
+    const labels = new Map(
+      this.users.map((user) => [user.id, `${user.fullName} (${user.email})`]),
+    );
+
+    this.isBulkProcessing = true;
+    this.userApplicationService
+      .bulkOperation({
+        userIds,
+        operation,
+        ...(deactivation && { deactivation }),
+      })
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (result) => {
+          this.isBulkProcessing = false;
+          this.showBulkDeleteDialog = false;
+          this.deactivationTarget = null;
+          this.bulkResult = {
+            succeeded: result.successful.length,
+            failed: result.failed.map((failure) => ({
+              id: failure.id,
+              label: labels.get(failure.id) ?? failure.id,
+              error: failure.error,
+            })),
+          };
+          // Failed users stay selected so the operator can retry them
+          this.selectedIds = new Set(
+            result.failed.map((failure) => failure.id),
+          );
+
+          if (result.failed.length === 0) {
+            this.notificationService.showSuccess(
+              'Success',
+              `${result.successful.length} users updated`,
+            );
+          } else {
+            this.notificationService.showWarning(
+              'Partially completed',
+              `${result.failed.length} of ${result.totalProcessed} users could not be processed`,
+            );
+          }
+        },
+        error: (error) => {
+          console.error('Error running bulk operation:', error);
+          this.isBulkProcessing = false;
+          this.showBulkDeleteDialog = false;
+          this.deactivationTarget = null;
+          this.notificationService.showError(
+            'Error',
+            this.actionErrorMessage(error, 'Failed to process selected users'),
+          );
+        },
+      });
+  }
+
+  /**
+   * Drop selected users that are no longer on the current page
+   */
+  private pruneSelection(): void {
+    const visibleIds = new Set(this.users.map((user) => user.id));
+    this.selectedIds = new Set(
+      [...this.selectedIds].filter((id) => visibleIds.has(id)),
+    );
+  }
+
   /**
    * Format date for display
    */
   formatDate(dateString: string): string {
     return new Date(dateString).toLocaleDateString();
   }
+
+  /**
+   * Message for a failed user action, chosen by the domain error code
+   */
+  private actionErrorMessage(error: any, fallback: string): string {
+    switch (error?.code) {
+      case 'VALIDATION_ERROR':
+        return (error as ValidationError).validationErrors.join(', ');
+      case 'BUSINESS_RULE_VIOLATION':
+        return error.message;
+      case 'USER_NOT_FOUND':
+      case 'USER_INACTIVE':
+      case 'FORBIDDEN':
+        return error.userMessage;
+      default:
+        return fallback;
+    }
+  }
 }
@@ -2,5 +2,7 @@
 export * from './components/user-list.component';
 export * from './components/user-form.component';
 export * from './components/user-create.component';
+export * from './components/user-invite.component';
+export * from './components/invitation-list.component';
 export * from './components/user-edit.component';
 export * from './components/user-detail.component';
@@ -0,0 +1,57 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ConfirmDialogComponent } from './confirm-dialog.component';
+
+describe('ConfirmDialogComponent', () => {
+  let component: ConfirmDialogComponent;
+  let fixture: ComponentFixture<ConfirmDialogComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ConfirmDialogComponent],
+      providers: [provideZonelessChangeDetection()],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ConfirmDialogComponent);
+    component = fixture.componentInstance;
+    component.confirmationText = 'john.doe@example.com';
+  });
+
+  it('should not confirm until the confirmation text is typed', () => {
+    spyOn(component.confirmed, 'emit');
+
+    component.typedText = 'john.doe@';
+    component.onConfirm();
+
+    expect(component.canConfirm).toBe(false);
+    expect(component.confirmed.emit).not.toHaveBeenCalled();
+  });
+
+  it('should confirm when the text matches ignoring case and spaces', () => {
+    spyOn(component.confirmed, 'emit');
+
+    component.typedText = '  John.Doe@Example.com ';
+    component.onConfirm();
+
+    expect(component.confirmed.emit).toHaveBeenCalled();
+  });
+
+  it('should not confirm or cancel while processing', () => {
+    spyOn(component.confirmed, 'emit');
+    spyOn(component.cancelled, 'emit');
+
+    component.typedText = 'john.doe@example.com';
+    component.isProcessing = true;
+    component.onConfirm();
+    component.onCancel();
+
+    expect(component.confirmed.emit).not.toHaveBeenCalled();
+    expect(component.cancelled.emit).not.toHaveBeenCalled();
+  });
+
+  it('should confirm without typing when no confirmation text is required', () => {
+    component.confirmationText = null;
+
+    expect(component.canConfirm).toBe(true);
+  });
+});
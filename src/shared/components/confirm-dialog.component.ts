@@ -0,0 +1,202 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+/**
+ * Confirm Dialog Component
+ * Modal confirmation for destructive actions
+ * When `confirmationText` is set, the operator has to type it to confirm
+ */
+@Component({
+  selector: 'app-confirm-dialog',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="dialog-backdrop" (click)="onCancel()">
+      <div
+        class="dialog"
+        role="dialog"
+        aria-modal="true"
+        [attr.aria-label]="title"
+        (click)="$event.stopPropagation()"
+      >
+        <h3>{{ title }}</h3>
+        <p class="dialog-message">{{ message }}</p>
+
+        <div *ngIf="confirmationText" class="form-group">
+          <label for="confirm-dialog-input">
+            Type <strong>{{ confirmationText }}</strong> to confirm
+          </label>
+          <input
+            id="confirm-dialog-input"
+            type="text"
+            class="form-control"
+            autocomplete="off"
+            [(ngModel)]="typedText"
+            [disabled]="isProcessing"
+          />
+        </div>
+
+        <div *ngIf="errorMessage" class="dialog-error" role="alert">
+          {{ errorMessage }}
+        </div>
+
+        <div class="dialog-actions">
+          <button
+            type="button"
+            class="btn btn-secondary"
+            (click)="onCancel()"
+            [disabled]="isProcessing"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            class="btn btn-danger"
+            (click)="onConfirm()"
+            [disabled]="!canConfirm"
+          >
+            {{ isProcessing ? 'Working...' : confirmLabel }}
+          </button>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [
+    `
+      .dialog-backdrop {
+        position: fixed;
+        inset: 0;
+        background: rgba(0, 0, 0, 0.4);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        z-index: 1000;
+      }
+
+      .dialog {
+        width: 100%;
+        max-width: 460px;
+        background: white;
+        border-radius: 8px;
+        box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+        padding: 30px;
+      }
+
+      .dialog h3 {
+        margin: 0 0 10px 0;
+        color: #333;
+      }
+
+      .dialog-message {
+        color: #666;
+        margin: 0 0 20px 0;
+      }
+
+      .form-group {
+        margin-bottom: 20px;
+      }
+
+      label {
+        display: block;
+        margin-bottom: 5px;
+        color: #333;
+        font-size: 14px;
+      }
+
+      .form-control {
+        width: 100%;
+        padding: 10px 12px;
+        border: 1px solid #ddd;
+        border-radius: 4px;
+        font-size: 14px;
+        box-sizing: border-box;
+      }
+
+      .dialog-error {
+        margin-bottom: 20px;
+        padding: 10px 12px;
+        border-radius: 4px;
+        background-color: #f8d7da;
+        color: #721c24;
+        font-size: 14px;
+      }
+
+      .dialog-actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: 10px;
+      }
+
+      .btn {
+        padding: 10px 20px;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+        font-size: 14px;
+        font-weight: 500;
+      }
+
+      .btn:disabled {
+        opacity: 0.6;
+        cursor: not-allowed;
+      }
+
+      .btn-secondary {
+        background-color: #6c757d;
+        color: white;
+      }
+
+      .btn-danger {
+        background-color: #dc3545;
+        color: white;
+      }
+
+      .btn-danger:hover:not(:disabled) {
+        background-color: #c82333;
+      }
+    `,
+  ],
+})
+export class ConfirmDialogComponent {
+  @Input() title = 'Are you sure?';
+  @Input() message = '';
+  @Input() confirmationText: string | null = null;
+  @Input() confirmLabel = 'Confirm';
+  @Input() isProcessing = false;
+  @Input() errorMessage: string | null = null;
+  @Output() confirmed = new EventEmitter<void>();
+  @Output() cancelled = new EventEmitter<void>();
+
+  typedText = '';
+
+  /**
+   * Check if the typed text matches, ignoring case and surrounding spaces
+   */
+  get canConfirm(): boolean {
+    if (this.isProcessing) {
+      return false;
+    }
+
+    if (!this.confirmationText) {
+      return true;
+    }
+
+    return (
+      this.typedText.trim().toLowerCase() ===
+      this.confirmationText.trim().toLowerCase()
+    );
+  }
+
+  onConfirm(): void {
+    if (this.canConfirm) {
+      this.confirmed.emit();
+    }
+  }
+
+  onCancel(): void {
+    if (!this.isProcessing) {
+      this.cancelled.emit();
+    }
+  }
+}
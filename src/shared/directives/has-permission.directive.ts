@@ -0,0 +1,68 @@
+import {
+  Directive,
+  Input,
+  OnInit,
+  OnDestroy,
+  TemplateRef,
+  ViewContainerRef,
+} from '@angular/core';
+import { Subject, takeUntil } from 'rxjs';
+
+import { AuthService } from '../../core/application/services/auth.service';
+import { Permission } from '../../core/domain';
+
+/**
+ * Has Permission Directive
+ * Renders its element only when the current user holds every given permission
+ *
+ * Usage: <button *appHasPermission="'users:delete'">Delete</button>
+ */
+@Directive({
+  selector: '[appHasPermission]',
+  standalone: true,
+})
+export class HasPermissionDirective implements OnInit, OnDestroy {
+  private permissions: Permission[] = [];
+  private hasView = false;
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private templateRef: TemplateRef<unknown>,
+    private viewContainer: ViewContainerRef,
+    private authService: AuthService,
+  ) {}
+
+  @Input() set appHasPermission(permission: Permission | Permission[]) {
+    this.permissions = Array.isArray(permission) ? permission : [permission];
+    this.updateView();
+  }
+
+  ngOnInit(): void {
+    // Re-evaluate when the user signs in, out or their session is refreshed
+    this.authService.currentUser$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.updateView());
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Create or clear the view to match the current permissions
+   */
+  private updateView(): void {
+    const isAllowed = this.permissions.every((permission) =>
+      this.authService.hasPermission(permission),
+    );
+
+    if (isAllowed && !this.hasView) {
+      this.viewContainer.createEmbeddedView(this.templateRef);
+      this.hasView = true;
+    } else if (!isAllowed && this.hasView) {
+      this.viewContainer.clear();
+      this.hasView = false;
+    }
+  }
+}
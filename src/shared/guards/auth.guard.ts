@@ -4,49 +4,43 @@ import {
   ActivatedRouteSnapshot,
   RouterStateSnapshot,
   Router,
+  UrlTree,
 } from '@angular/router';
-import { Observable, of } from 'rxjs';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+
+import { AuthService } from '../../core/application/services/auth.service';
 
 /**
  * Authentication Guard
  * Protects routes that require authentication
- * This is a basic implementation - replace with your actual authentication logic
+ * Expired sessions are refreshed first; visitors without a usable session
+ * are sent to the login page with a return URL
  */
 @Injectable({
   providedIn: 'root',
 })
 export class AuthGuard implements CanActivate {
-  constructor(private router: Router) {}
+  constructor(
+    private authService: AuthService,
+    private router: Router,
+  ) {}
 
   canActivate(
     route: ActivatedRouteSnapshot,
     state: RouterStateSnapshot,
-  ): Observable<boolean> | Promise<boolean> | boolean {
-    // For demo purposes, always return true
-    // In a real application, check authentication status here
-    const isAuthenticated = this.checkAuthentication();
-
-    if (!isAuthenticated) {
-      // Redirect to login page
-      this.router.navigate(['/login'], {
-        queryParams: { returnUrl: state.url },
-      });
-      return false;
-    }
-
-    return true;
-  }
+  ): Observable<boolean | UrlTree> {
+    return this.authService.ensureAuthenticated().pipe(
+      map((isAuthenticated) => {
+        if (!isAuthenticated) {
+          // Redirect to login page
+          return this.router.createUrlTree(['/login'], {
+            queryParams: { returnUrl: state.url },
+          });
+        }
 
-  /**
-   * Check if user is authenticated
-   * Replace this with your actual authentication logic
-   */
-  private checkAuthentication(): boolean {
-    // For demo purposes, always return true
-    // In a real application, check:
-    // - JWT token validity
-    // - User session
-    // - Authentication service state
-    return true;
+        return true;
+      }),
+    );
   }
 }
@@ -0,0 +1,45 @@
+import { Injectable } from '@angular/core';
+import {
+  CanActivate,
+  CanActivateChild,
+  ActivatedRouteSnapshot,
+  Router,
+  UrlTree,
+} from '@angular/router';
+
+import { AuthService } from '../../core/application/services/auth.service';
+import { Permission } from '../../core/domain';
+
+/**
+ * Permission Guard
+ * Reads the permissions a route requires from `data.permissions` and sends
+ * users who lack any of them to the forbidden page
+ * Run it after AuthGuard so the session is already restored
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PermissionGuard implements CanActivate, CanActivateChild {
+  constructor(
+    private authService: AuthService,
+    private router: Router,
+  ) {}
+
+  canActivate(route: ActivatedRouteSnapshot): boolean | UrlTree {
+    return this.checkPermissions(route);
+  }
+
+  canActivateChild(childRoute: ActivatedRouteSnapshot): boolean | UrlTree {
+    return this.checkPermissions(childRoute);
+  }
+
+  private checkPermissions(route: ActivatedRouteSnapshot): boolean | UrlTree {
+    const required: Permission[] = route.data['permissions'] ?? [];
+
+    const isAllowed = required.every((permission) =>
+      this.authService.hasPermission(permission),
+    );
+
+    return isAllowed ? true : this.router.createUrlTree(['/forbidden']);
+  }
+}
@@ -8,10 +8,18 @@ export * from './services/global-error-handler.service';
 
 // Guards
 export * from './guards/auth.guard';
+export * from './guards/permission.guard';
+
+// Directives
+export * from './directives/has-permission.directive';
 
 // Interceptors
 export * from './interceptors/error.interceptor';
 export * from './interceptors/loading.interceptor';
+export * from './interceptors/auth.interceptor';
+export * from './interceptors/rate-limit.interceptor';
+export * from './interceptors/retry.interceptor';
 
 // Utils
 export * from './utils/validation.utils';
+export * from './utils/date-bucket.utils';
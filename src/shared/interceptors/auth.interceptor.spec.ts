@@ -0,0 +1,127 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import {
+  HTTP_INTERCEPTORS,
+  HttpClient,
+  provideHttpClient,
+  withInterceptorsFromDi,
+} from '@angular/common/http';
+import {
+  HttpTestingController,
+  provideHttpClientTesting,
+} from '@angular/common/http/testing';
+import { Router } from '@angular/router';
+import { Subject, throwError } from 'rxjs';
+import { AuthService } from '../../core/application/services/auth.service';
+import { NotificationService } from '../services/notification.service';
+import { environment } from '../../environments/environment';
+import { AuthInterceptor } from './auth.interceptor';
+
+describe('AuthInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+  let mockAuthService: jasmine.SpyObj<AuthService>;
+  let mockNotificationService: jasmine.SpyObj<NotificationService>;
+  let mockRouter: jasmine.SpyObj<Router>;
+
+  const usersUrl = `${environment.apiUrl}/users`;
+
+  beforeEach(() => {
+    mockAuthService = jasmine.createSpyObj('AuthService', ['refreshSession'], {
+      accessToken: 'old-token',
+    });
+    mockNotificationService = jasmine.createSpyObj('NotificationService', [
+      'showWarning',
+    ]);
+    mockRouter = jasmine.createSpyObj('Router', ['navigate'], {
+      url: '/users',
+    });
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        provideHttpClient(withInterceptorsFromDi()),
+        provideHttpClientTesting(),
+        { provide: HTTP_INTERCEPTORS, useClass: AuthInterceptor, multi: true },
+        { provide: AuthService, useValue: mockAuthService },
+        { provide: NotificationService, useValue: mockNotificationService },
+        { provide: Router, useValue: mockRouter },
+      ],
+    });
+
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should add the bearer token to API requests', () => {
+    http.get(usersUrl).subscribe();
+
+    const req = httpMock.expectOne(usersUrl);
+    expect(req.request.headers.get('Authorization')).toBe('Bearer old-token');
+    req.flush([]);
+  });
+
+  it('should not add the token to other hosts', () => {
+    http.get('https://example.com/data').subscribe();
+
+    const req = httpMock.expectOne('https://example.com/data');
+    expect(req.request.headers.has('Authorization')).toBe(false);
+    req.flush({});
+  });
+
+  it('should refresh once and replay all requests that got a 401', () => {
+    const refresh$ = new Subject<string>();
+    mockAuthService.refreshSession.and.returnValue(refresh$);
+
+    const results: unknown[] = [];
+    http.get(`${usersUrl}/1`).subscribe((body) => results.push(body));
+    http.get(`${usersUrl}/2`).subscribe((body) => results.push(body));
+
+    httpMock
+      .expectOne(`${usersUrl}/1`)
+      .flush(null, { status: 401, statusText: 'Unauthorized' });
+    httpMock
+      .expectOne(`${usersUrl}/2`)
+      .flush(null, { status: 401, statusText: 'Unauthorized' });
+
+    // A request started while refreshing waits for the new token
+    http.get(`${usersUrl}/3`).subscribe((body) => results.push(body));
+    httpMock.expectNone(`${usersUrl}/3`);
+
+    refresh$.next('new-token');
+    refresh$.complete();
+
+    for (const id of ['1', '2', '3']) {
+      const req = httpMock.expectOne(`${usersUrl}/${id}`);
+      expect(req.request.headers.get('Authorization')).toBe('Bearer new-token');
+      req.flush({ id });
+    }
+
+    expect(mockAuthService.refreshSession).toHaveBeenCalledTimes(1);
+    expect(results.length).toBe(3);
+    expect(mockNotificationService.showWarning).not.toHaveBeenCalled();
+  });
+
+  it('should notify once and go to login when the refresh fails', () => {
+    mockAuthService.refreshSession.and.returnValue(
+      throwError(() => new Error('expired')),
+    );
+
+    const errors: number[] = [];
+    http.get(usersUrl).subscribe({ error: (e) => errors.push(e.status) });
+
+    httpMock
+      .expectOne(usersUrl)
+      .flush(null, { status: 401, statusText: 'Unauthorized' });
+
+    expect(errors).toEqual([401]);
+    expect(mockNotificationService.showWarning).toHaveBeenCalledTimes(1);
+    expect(mockRouter.navigate).toHaveBeenCalledWith(['/login'], {
+      queryParams: { returnUrl: '/users' },
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { Injectable } from '@angular/core';
+import {
+  HttpInterceptor,
+  HttpRequest,
+  HttpHandler,
+  HttpEvent,
+  HttpErrorResponse,
+} from '@angular/common/http';
+import { Router } from '@angular/router';
+import { Observable, throwError } from 'rxjs';
+import { catchError, finalize, shareReplay, switchMap } from 'rxjs/operators';
+
+import { AuthService } from '../../core/application/services/auth.service';
+import { NotificationService } from '../services/notification.service';
+import { environment } from '../../environments/environment';
+
+/**
+ * Auth Interceptor
+ * Attaches the access token to API requests and recovers from 401 responses
+ * by refreshing the session once and replaying the affected requests
+ */
+@Injectable()
+export class AuthInterceptor implements HttpInterceptor {
+  private readonly authUrl = `${environment.apiUrl}/auth/`;
+
+  // Shared by every request that waits for the same refresh
+  private refreshInFlight$: Observable<string> | null = null;
+
+  constructor(
+    private authService: AuthService,
+    private notificationService: NotificationService,
+    private router: Router,
+  ) {}
+
+  intercept(
+    request: HttpRequest<any>,
+    next: HttpHandler,
+  ): Observable<HttpEvent<any>> {
+    if (!this.isApiRequest(request)) {
+      return next.handle(request);
+    }
+
+    // Hold new requests until a running refresh has finished
+    if (this.refreshInFlight$) {
+      return this.replayAfterRefresh(
+        this.refreshInFlight$,
+        request,
+        next,
+        new HttpErrorResponse({
+          status: 401,
+          statusText: 'Unauthorized',
+          url: request.url,
+        }),
+      );
+    }
+
+    return next
+      .handle(this.withToken(request, this.authService.accessToken))
+      .pipe(
+        catchError((error) => {
+          if (error instanceof HttpErrorResponse && error.status === 401) {
+            return this.refreshAndRetry(request, next, error);
+          }
+          return throwError(() => error);
+        }),
+      );
+  }
+
+  /**
+   * Refresh the session and replay the request with the new token
+   * A second 401 on the replayed request is passed through unchanged
+   */
+  private refreshAndRetry(
+    request: HttpRequest<any>,
+    next: HttpHandler,
+    originalError: HttpErrorResponse,
+  ): Observable<HttpEvent<any>> {
+    if (!this.refreshInFlight$) {
+      this.refreshInFlight$ = this.authService.refreshSession().pipe(
+        catchError((refreshError) => {
+          this.handleRefreshFailure();
+          return throwError(() => refreshError);
+        }),
+        finalize(() => {
+          this.refreshInFlight$ = null;
+        }),
+        shareReplay({ bufferSize: 1, refCount: false }),
+      );
+    }
+
+    return this.replayAfterRefresh(
+      this.refreshInFlight$,
+      request,
+      next,
+      originalError,
+    );
+  }
+
+  /**
+   * Wait for the running refresh, then send the request with the new token
+   * If the refresh fails the request fails with the given 401 error
+   */
+  private replayAfterRefresh(
+    refresh$: Observable<string>,
+    request: HttpRequest<any>,
+    next: HttpHandler,
+    errorOnFailure: HttpErrorResponse,
+  ): Observable<HttpEvent<any>> {
+    return refresh$.pipe(
+      catchError(() => throwError(() => errorOnFailure)),
+      switchMap((token) => next.handle(this.withToken(request, token))),
+    );
+  }
+
+  /**
+   * Tell the user once and send them to the login page
+   */
+  private handleRefreshFailure(): void {
+    this.notificationService.showWarning(
+      'Session Expired',
+      'Please sign in again to continue',
+    );
+
+    const currentUrl = this.router.url;
+    if (!currentUrl.startsWith('/login')) {
+      this.router.navigate(['/login'], {
+        queryParams: { returnUrl: currentUrl },
+      });
+    }
+  }
+
+  /**
+   * Only requests to our own API carry the token; the auth endpoints
+   * themselves are excluded so a failing refresh cannot loop
+   */
+  private isApiRequest(request: HttpRequest<any>): boolean {
+    return (
+      request.url.startsWith(environment.apiUrl) &&
+      !request.url.startsWith(this.authUrl)
+    );
+  }
+
+  /**
+   * Clone the request with an Authorization header
+   */
+  private withToken(
+    request: HttpRequest<any>,
+    token: string | null,
+  ): HttpRequest<any> {
+    if (!token) {
+      return request;
+    }
+
+    return request.clone({
+      setHeaders: { Authorization: `Bearer ${token}` },
+    });
+  }
+}
@@ -10,7 +10,7 @@ import { Observable, throwError } from 'rxjs';
 import { catchError } from 'rxjs/operators';
 
 import { NotificationService } from '../services/notification.service';
-import { LoadingService } from '../services/loading.service';
+import { TimeoutError } from '../../core/domain/errors/domain-errors';
 
 /**
  * Error Interceptor
@@ -18,19 +18,15 @@ import { LoadingService } from '../services/loading.service';
  */
 @Injectable()
 export class ErrorInterceptor implements HttpInterceptor {
-  constructor(
-    private notificationService: NotificationService,
-    private loadingService: LoadingService,
-  ) {}
+  constructor(private notificationService: NotificationService) {}
 
   intercept(
     request: HttpRequest<any>,
     next: HttpHandler,
   ): Observable<HttpEvent<any>> {
     return next.handle(request).pipe(
-      catchError((error: HttpErrorResponse) => {
-        // Stop any loading states
-        this.loadingService.stopAllLoading();
+      catchError((error: HttpErrorResponse | TimeoutError) => {
+        // Loading states are stopped per request by LoadingInterceptor
 
         // Handle different types of errors
         this.handleError(error);
@@ -44,10 +40,26 @@ export class ErrorInterceptor implements HttpInterceptor {
   /**
    * Handle different types of HTTP errors
    */
-  private handleError(error: HttpErrorResponse): void {
+  private handleError(error: HttpErrorResponse | TimeoutError): void {
     let errorMessage = 'An unexpected error occurred';
     let errorTitle = 'Error';
 
+    if (error instanceof TimeoutError) {
+      this.notificationService.showError('Request Timeout', error.userMessage);
+      return;
+    }
+
+    // 401s are owned by AuthInterceptor, which refreshes the session and
+    // reports it only when that recovery fails
+    if (error.status === 401) {
+      return;
+    }
+
+    // 412s are stale If-Match updates; the edit page shows the conflict
+    if (error.status === 412) {
+      return;
+    }
+
     if (error.error instanceof ErrorEvent) {
       // Client-side error
       errorMessage = error.error.message;
@@ -60,11 +72,6 @@ export class ErrorInterceptor implements HttpInterceptor {
           errorMessage =
             this.extractErrorMessage(error) || 'Invalid request data';
           break;
-        case 401:
-          errorTitle = 'Unauthorized';
-          errorMessage = 'Please log in to continue';
-          // Optionally redirect to login page
-          break;
         case 403:
           errorTitle = 'Forbidden';
           errorMessage = 'You do not have permission to perform this action';
@@ -17,6 +17,7 @@ import { LoadingService } from '../services/loading.service';
 @Injectable()
 export class LoadingInterceptor implements HttpInterceptor {
   private activeRequests = 0;
+  private requestCounter = 0;
 
   constructor(private loadingService: LoadingService) {}
 
@@ -27,7 +28,7 @@ export class LoadingInterceptor implements HttpInterceptor {
     // Generate a unique key for this request
     const requestKey = this.generateRequestKey(request);
 
-    // Start loading
+    // Start loading; retries happen further down the chain and keep this key
     this.activeRequests++;
     this.loadingService.startLoading(requestKey);
 
@@ -42,8 +43,9 @@ export class LoadingInterceptor implements HttpInterceptor {
 
   /**
    * Generate a unique key for the request
+   * The counter keeps identical requests started in the same millisecond apart
    */
   private generateRequestKey(request: HttpRequest<any>): string {
-    return `${request.method}-${request.url}-${Date.now()}`;
+    return `${request.method}-${request.url}-${Date.now()}-${++this.requestCounter}`;
   }
 }
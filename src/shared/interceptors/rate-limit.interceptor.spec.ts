@@ -0,0 +1,140 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import {
+  HTTP_INTERCEPTORS,
+  HttpClient,
+  HttpErrorResponse,
+  provideHttpClient,
+  withInterceptorsFromDi,
+} from '@angular/common/http';
+import {
+  HttpTestingController,
+  provideHttpClientTesting,
+} from '@angular/common/http/testing';
+import { API_CONFIG_TOKEN, ApiConfig } from '../../core/di/injection-tokens';
+import { LoadingService } from '../services/loading.service';
+import { NotificationService } from '../services/notification.service';
+import { RateLimitInterceptor } from './rate-limit.interceptor';
+
+describe('RateLimitInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+  let loadingService: LoadingService;
+  let mockNotificationService: jasmine.SpyObj<NotificationService>;
+
+  const url = 'http://localhost:3000/api/users';
+  const apiConfig: ApiConfig = {
+    baseUrl: 'http://localhost:3000/api',
+    timeout: 30000,
+    retryAttempts: 2,
+    retryDelay: 1000,
+    maxConcurrentPerHost: 2,
+  };
+
+  const tooManyRequests = (retryAfter: string) => ({
+    status: 429,
+    statusText: 'Too Many Requests',
+    headers: { 'Retry-After': retryAfter },
+  });
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date('2024-01-01T00:00:00Z'));
+
+    mockNotificationService = jasmine.createSpyObj('NotificationService', [
+      'showWarning',
+    ]);
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        provideHttpClient(withInterceptorsFromDi()),
+        provideHttpClientTesting(),
+        {
+          provide: HTTP_INTERCEPTORS,
+          useClass: RateLimitInterceptor,
+          multi: true,
+        },
+        { provide: API_CONFIG_TOKEN, useValue: apiConfig },
+        { provide: NotificationService, useValue: mockNotificationService },
+      ],
+    });
+
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+    loadingService = TestBed.inject(LoadingService);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+    jasmine.clock().uninstall();
+  });
+
+  it('should cap concurrent requests per host', () => {
+    http.get(url).subscribe();
+    http.get(url).subscribe();
+    http.get(url).subscribe();
+
+    const first = httpMock.match(url);
+    expect(first.length).toBe(2);
+
+    first[0].flush([]);
+    const third = httpMock.match(url);
+    expect(third.length).toBe(1);
+
+    first[1].flush([]);
+    third[0].flush([]);
+  });
+
+  it('should hold throttled and queued requests until Retry-After passes', () => {
+    const results: unknown[] = [];
+    http.get(url).subscribe((response) => results.push(response));
+    http.get(url).subscribe((response) => results.push(response));
+    http.get(url).subscribe((response) => results.push(response));
+
+    httpMock.match(url).forEach((req) => req.flush(null, tooManyRequests('2')));
+
+    expect(loadingService.isLoading).toBeTrue();
+    expect(mockNotificationService.showWarning).toHaveBeenCalledOnceWith(
+      'Throttled',
+      'Too many requests, resuming in 2s',
+      2000,
+    );
+
+    jasmine.clock().tick(1999);
+    httpMock.expectNone(url);
+
+    jasmine.clock().tick(1);
+    const resumed = httpMock.match(url);
+    expect(resumed.length).toBe(2);
+    expect(loadingService.isLoading).toBeFalse();
+
+    resumed.forEach((req) => req.flush('ok'));
+    httpMock.expectOne(url).flush('ok');
+    expect(results).toEqual(['ok', 'ok', 'ok']);
+  });
+
+  it('should give up after the configured throttled attempts', () => {
+    let error: HttpErrorResponse | undefined;
+    http.get(url).subscribe({ error: (e) => (error = e) });
+
+    httpMock.expectOne(url).flush(null, tooManyRequests('1'));
+    jasmine.clock().tick(1000);
+    httpMock.expectOne(url).flush(null, tooManyRequests('1'));
+    jasmine.clock().tick(1000);
+    httpMock.expectOne(url).flush(null, tooManyRequests('1'));
+
+    expect(error?.status).toBe(429);
+  });
+
+  it('should drop queued requests that are unsubscribed', () => {
+    http.get(url).subscribe();
+    http.get(url).subscribe();
+    const queued = http.get(url).subscribe();
+
+    queued.unsubscribe();
+    httpMock.match(url).forEach((req) => req.flush([]));
+
+    httpMock.expectNone(url);
+  });
+});
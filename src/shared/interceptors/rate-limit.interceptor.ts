@@ -0,0 +1,196 @@
+import { Inject, Injectable } from '@angular/core';
+import {
+  HttpInterceptor,
+  HttpRequest,
+  HttpHandler,
+  HttpEvent,
+  HttpErrorResponse,
+} from '@angular/common/http';
+import { Observable, Subscription } from 'rxjs';
+
+import { NotificationService } from '../services/notification.service';
+import { LoadingService } from '../services/loading.service';
+import { DomainErrorFactory } from '../../core/domain/errors/domain-errors';
+import { API_CONFIG_TOKEN, ApiConfig } from '../../core/di/injection-tokens';
+
+/**
+ * Requests of one host: how many are in flight, which wait, and until when
+ * the host throttles us
+ */
+interface HostQueue {
+  active: number;
+  waiting: Array<() => void>;
+  blockedUntil: number;
+  throttled: boolean;
+  resumeTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Rate Limit Interceptor
+ * Limits concurrent requests per host and, on a 429, holds the request and
+ * everything queued behind it until the Retry-After window has passed
+ */
+@Injectable()
+export class RateLimitInterceptor implements HttpInterceptor {
+  private queues = new Map<string, HostQueue>();
+
+  constructor(
+    @Inject(API_CONFIG_TOKEN) private apiConfig: ApiConfig,
+    private notificationService: NotificationService,
+    private loadingService: LoadingService,
+  ) {}
+
+  intercept(
+    request: HttpRequest<any>,
+    next: HttpHandler,
+  ): Observable<HttpEvent<any>> {
+    const host = this.hostOf(request);
+
+    return new Observable<HttpEvent<any>>((subscriber) => {
+      const queue = this.queueFor(host);
+      let subscription: Subscription | null = null;
+      let holdsSlot = false;
+      let throttledAttempts = 0;
+
+      const release = () => {
+        if (holdsSlot) {
+          holdsSlot = false;
+          queue.active--;
+        }
+      };
+
+      const start = () => {
+        holdsSlot = true;
+        queue.active++;
+        subscription = next.handle(request).subscribe({
+          next: (event) => subscriber.next(event),
+          error: (error) => {
+            release();
+            // Give up after as many throttled attempts as other retries
+            if (
+              this.isRateLimited(error) &&
+              throttledAttempts < this.apiConfig.retryAttempts
+            ) {
+              throttledAttempts++;
+              this.throttle(host, queue, error);
+              queue.waiting.unshift(start);
+            } else {
+              subscriber.error(error);
+            }
+            this.drain(host, queue);
+          },
+          complete: () => {
+            release();
+            subscriber.complete();
+            this.drain(host, queue);
+          },
+        });
+      };
+
+      queue.waiting.push(start);
+      this.drain(host, queue);
+
+      return () => {
+        const index = queue.waiting.indexOf(start);
+        if (index !== -1) {
+          queue.waiting.splice(index, 1);
+        }
+        subscription?.unsubscribe();
+        release();
+        this.drain(host, queue);
+      };
+    });
+  }
+
+  /**
+   * Start waiting requests while the host is not throttled and has free slots
+   */
+  private drain(host: string, queue: HostQueue): void {
+    const wait = queue.blockedUntil - Date.now();
+    if (wait > 0) {
+      this.scheduleResume(host, queue, wait);
+      return;
+    }
+
+    if (queue.throttled) {
+      queue.throttled = false;
+      this.loadingService.stopLoading(this.loadingKey(host));
+    }
+
+    while (
+      queue.active < this.apiConfig.maxConcurrentPerHost &&
+      queue.waiting.length > 0
+    ) {
+      queue.waiting.shift()!();
+    }
+  }
+
+  private scheduleResume(host: string, queue: HostQueue, wait: number): void {
+    if (queue.resumeTimer) {
+      return;
+    }
+
+    queue.resumeTimer = setTimeout(() => {
+      queue.resumeTimer = null;
+      this.drain(host, queue);
+    }, wait);
+  }
+
+  /**
+   * Block the host for the Retry-After window
+   * Only the request that starts a throttle window notifies the user
+   */
+  private throttle(
+    host: string,
+    queue: HostQueue,
+    error: HttpErrorResponse,
+  ): void {
+    const delay =
+      DomainErrorFactory.parseRetryAfter(error.headers?.get('Retry-After')) ??
+      this.apiConfig.retryDelay;
+    queue.blockedUntil = Math.max(queue.blockedUntil, Date.now() + delay);
+
+    if (queue.throttled) {
+      return;
+    }
+
+    queue.throttled = true;
+    this.loadingService.startLoading(this.loadingKey(host));
+    this.notificationService.showWarning(
+      'Throttled',
+      `Too many requests, resuming in ${Math.ceil(delay / 1000)}s`,
+      delay,
+    );
+  }
+
+  private isRateLimited(error: unknown): error is HttpErrorResponse {
+    return error instanceof HttpErrorResponse && error.status === 429;
+  }
+
+  private queueFor(host: string): HostQueue {
+    let queue = this.queues.get(host);
+    if (!queue) {
+      queue = {
+        active: 0,
+        waiting: [],
+        blockedUntil: 0,
+        throttled: false,
+        resumeTimer: null,
+      };
+      this.queues.set(host, queue);
+    }
+    return queue;
+  }
+
+  private hostOf(request: HttpRequest<any>): string {
+    try {
+      return new URL(request.url).host;
+    } catch {
+      return ''; // Relative URLs go to the app's own host
+    }
+  }
+
+  private loadingKey(host: string): string {
+    return `rate-limit-${host}`;
+  }
+}
@@ -0,0 +1,132 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import {
+  HTTP_INTERCEPTORS,
+  HttpClient,
+  HttpErrorResponse,
+  HttpHeaders,
+  provideHttpClient,
+  withInterceptorsFromDi,
+} from '@angular/common/http';
+import {
+  HttpTestingController,
+  provideHttpClientTesting,
+} from '@angular/common/http/testing';
+import { TimeoutError } from '../../core/domain/errors/domain-errors';
+import { API_CONFIG_TOKEN, ApiConfig } from '../../core/di/injection-tokens';
+import { IDEMPOTENCY_KEY_HEADER, RetryInterceptor } from './retry.interceptor';
+
+describe('RetryInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+
+  const url = 'http://localhost:3000/api/users';
+  const apiConfig: ApiConfig = {
+    baseUrl: 'http://localhost:3000/api',
+    timeout: 5000,
+    retryAttempts: 2,
+    retryDelay: 1000,
+    maxConcurrentPerHost: 6,
+  };
+
+  const failWith = (status: number) =>
+    httpMock
+      .expectOne(url)
+      .flush(null, { status, statusText: `Error ${status}` });
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    spyOn(Math, 'random').and.returnValue(1);
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        provideHttpClient(withInterceptorsFromDi()),
+        provideHttpClientTesting(),
+        { provide: HTTP_INTERCEPTORS, useClass: RetryInterceptor, multi: true },
+        { provide: API_CONFIG_TOKEN, useValue: apiConfig },
+      ],
+    });
+
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+    jasmine.clock().uninstall();
+  });
+
+  it('should retry GET after 5xx with exponential backoff', () => {
+    let result: unknown;
+    http.get(url).subscribe((response) => (result = response));
+
+    failWith(503);
+    jasmine.clock().tick(999);
+    httpMock.expectNone(url);
+    jasmine.clock().tick(1);
+
+    failWith(500);
+    jasmine.clock().tick(2000);
+
+    httpMock.expectOne(url).flush({ ok: true });
+    expect(result).toEqual({ ok: true });
+  });
+
+  it('should give up after the configured attempts', () => {
+    let error: HttpErrorResponse | undefined;
+    http.get(url).subscribe({ error: (e) => (error = e) });
+
+    failWith(502);
+    jasmine.clock().tick(1000);
+    failWith(502);
+    jasmine.clock().tick(2000);
+    failWith(502);
+
+    expect(error?.status).toBe(502);
+  });
+
+  it('should not retry client errors', () => {
+    let error: HttpErrorResponse | undefined;
+    http.get(url).subscribe({ error: (e) => (error = e) });
+
+    failWith(404);
+    jasmine.clock().tick(10000);
+
+    expect(error?.status).toBe(404);
+  });
+
+  it('should not retry POST without an idempotency key', () => {
+    let error: HttpErrorResponse | undefined;
+    http.post(url, {}).subscribe({ error: (e) => (error = e) });
+
+    failWith(503);
+    jasmine.clock().tick(10000);
+
+    expect(error?.status).toBe(503);
+  });
+
+  it('should retry POST with an idempotency key', () => {
+    const headers = new HttpHeaders({ [IDEMPOTENCY_KEY_HEADER]: 'abc' });
+    http.post(url, {}, { headers }).subscribe();
+
+    failWith(503);
+    jasmine.clock().tick(1000);
+
+    const retried = httpMock.expectOne(url);
+    expect(retried.request.headers.get(IDEMPOTENCY_KEY_HEADER)).toBe('abc');
+    retried.flush({});
+  });
+
+  it('should fail with TimeoutError when the server does not answer', () => {
+    let error: unknown;
+    http.get(url).subscribe({ error: (e) => (error = e) });
+
+    const req = httpMock.expectOne(url);
+    jasmine.clock().tick(apiConfig.timeout);
+
+    expect(req.cancelled).toBeTrue();
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as TimeoutError).timeoutMs).toBe(5000);
+  });
+});
@@ -0,0 +1,95 @@
+import { Inject, Injectable } from '@angular/core';
+import {
+  HttpInterceptor,
+  HttpRequest,
+  HttpHandler,
+  HttpEvent,
+  HttpErrorResponse,
+} from '@angular/common/http';
+import { Observable, throwError, timer } from 'rxjs';
+import { retry, timeout } from 'rxjs/operators';
+
+import { TimeoutError } from '../../core/domain/errors/domain-errors';
+import { API_CONFIG_TOKEN, ApiConfig } from '../../core/di/injection-tokens';
+
+/**
+ * Header that makes a POST safe to send more than once
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Retry Interceptor
+ * Applies the configured timeout to every request and retries idempotent
+ * requests that failed on the network or with a 5xx, backing off exponentially
+ */
+@Injectable()
+export class RetryInterceptor implements HttpInterceptor {
+  private static readonly IDEMPOTENT_METHODS = [
+    'GET',
+    'HEAD',
+    'OPTIONS',
+    'PUT',
+    'DELETE',
+  ];
+
+  constructor(@Inject(API_CONFIG_TOKEN) private apiConfig: ApiConfig) {}
+
+  intercept(
+    request: HttpRequest<any>,
+    next: HttpHandler,
+  ): Observable<HttpEvent<any>> {
+    const attempt$ = next.handle(request).pipe(
+      timeout({
+        each: this.apiConfig.timeout,
+        with: () =>
+          throwError(
+            () =>
+              new TimeoutError(request.urlWithParams, this.apiConfig.timeout),
+          ),
+      }),
+    );
+
+    if (!this.isIdempotent(request)) {
+      return attempt$;
+    }
+
+    return attempt$.pipe(
+      retry({
+        count: this.apiConfig.retryAttempts,
+        delay: (error, retryCount) =>
+          this.isTransient(error)
+            ? timer(this.backoffDelay(retryCount))
+            : throwError(() => error),
+      }),
+    );
+  }
+
+  /**
+   * POST and PATCH are only repeated when the caller made them idempotent
+   */
+  private isIdempotent(request: HttpRequest<any>): boolean {
+    return (
+      RetryInterceptor.IDEMPOTENT_METHODS.includes(request.method) ||
+      (request.method === 'POST' && request.headers.has(IDEMPOTENCY_KEY_HEADER))
+    );
+  }
+
+  /**
+   * Network failures and server errors may succeed on a later attempt;
+   * timeouts are not retried so a slow server is not hit again at full timeout
+   */
+  private isTransient(error: unknown): boolean {
+    return (
+      error instanceof HttpErrorResponse &&
+      (error.status === 0 || error.status >= 500)
+    );
+  }
+
+  /**
+   * Exponential backoff with jitter: half the delay is fixed, half random
+   */
+  private backoffDelay(retryCount: number): number {
+    const exponential = this.apiConfig.retryDelay * 2 ** (retryCount - 1);
+    return exponential / 2 + Math.random() * (exponential / 2);
+  }
+}
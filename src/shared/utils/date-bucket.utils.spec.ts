@@ -0,0 +1,46 @@
+import { bucketDates, startOfBucket } from './date-bucket.utils';
+
+describe('date bucket utils', () => {
+  describe('startOfBucket', () => {
+    it('should start weeks on Monday', () => {
+      const sunday = new Date(2024, 5, 16, 15, 30);
+
+      expect(startOfBucket(sunday, 'weekly')).toEqual(new Date(2024, 5, 10));
+    });
+
+    it('should start months on the first day', () => {
+      expect(startOfBucket(new Date(2024, 1, 29), 'monthly')).toEqual(
+        new Date(2024, 1, 1),
+      );
+    });
+  });
+
+  describe('bucketDates', () => {
+    it('should count dates per day including empty days', () => {
+      const buckets = bucketDates(
+        [
+          new Date(2024, 0, 1, 9),
+          new Date(2024, 0, 1, 17),
+          new Date(2024, 0, 3),
+        ],
+        new Date(2024, 0, 1),
+        new Date(2024, 0, 3, 23),
+        'daily',
+      );
+
+      expect(buckets.map((bucket) => bucket.count)).toEqual([2, 0, 1]);
+    });
+
+    it('should ignore dates outside the range', () => {
+      const buckets = bucketDates(
+        [new Date(2023, 11, 31), new Date(2024, 1, 10)],
+        new Date(2024, 0, 15),
+        new Date(2024, 2, 1),
+        'monthly',
+      );
+
+      expect(buckets.map((bucket) => bucket.count)).toEqual([0, 1, 0]);
+      expect(buckets[0].start).toEqual(new Date(2024, 0, 1));
+    });
+  });
+});
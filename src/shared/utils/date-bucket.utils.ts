@@ -0,0 +1,99 @@
+/**
+ * Date Bucket Utilities
+ * Group dates into daily, weekly or monthly buckets for charts
+ */
+
+export type BucketGranularity = 'daily' | 'weekly' | 'monthly';
+
+export interface DateBucket {
+  start: Date;
+  label: string;
+  count: number;
+}
+
+/**
+ * Get the start of the bucket a date falls in (local time, weeks start on Monday)
+ */
+export function startOfBucket(
+  date: Date,
+  granularity: BucketGranularity,
+): Date {
+  switch (granularity) {
+    case 'daily':
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    case 'weekly':
+      return new Date(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate() - ((date.getDay() + 6) % 7),
+      );
+    case 'monthly':
+      return new Date(date.getFullYear(), date.getMonth(), 1);
+  }
+}
+
+/**
+ * Count dates per bucket between two dates
+ * Every bucket in the range is returned, including empty ones
+ */
+export function bucketDates(
+  dates: Date[],
+  startDate: Date,
+  endDate: Date,
+  granularity: BucketGranularity,
+): DateBucket[] {
+  const buckets: DateBucket[] = [];
+  const indexByStart = new Map<number, number>();
+
+  let cursor = startOfBucket(startDate, granularity);
+  while (cursor <= endDate) {
+    indexByStart.set(cursor.getTime(), buckets.length);
+    buckets.push({
+      start: cursor,
+      label: formatBucketLabel(cursor, granularity),
+      count: 0,
+    });
+    cursor = nextBucketStart(cursor, granularity);
+  }
+
+  for (const date of dates) {
+    if (date < startDate || date > endDate) {
+      continue;
+    }
+
+    const index = indexByStart.get(startOfBucket(date, granularity).getTime());
+    if (index !== undefined) {
+      buckets[index].count++;
+    }
+  }
+
+  return buckets;
+}
+
+function nextBucketStart(start: Date, granularity: BucketGranularity): Date {
+  switch (granularity) {
+    case 'daily':
+      return new Date(
+        start.getFullYear(),
+        start.getMonth(),
+        start.getDate() + 1,
+      );
+    case 'weekly':
+      return new Date(
+        start.getFullYear(),
+        start.getMonth(),
+        start.getDate() + 7,
+      );
+    case 'monthly':
+      return new Date(start.getFullYear(), start.getMonth() + 1, 1);
+  }
+}
+
+function formatBucketLabel(
+  start: Date,
+  granularity: BucketGranularity,
+): string {
+  return granularity === 'monthly'
+    ? start.toLocaleDateString(undefined, { month: 'short', year: 'numeric' })
+    : start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
@@ -1,22 +1,45 @@
+import { AbstractControl, ValidationErrors, ValidatorFn } from '@angular/forms';
+
+import {
+  UserField,
+  UserValidationPolicy,
+} from '../../core/domain/validation/user-validation.policy';
+
 /**
  * Validation Utilities
  * Common validation functions used across the application
  */
 
+const defaultUserPolicy = new UserValidationPolicy();
+
 /**
- * Email validation
+ * Email validation, following the default user validation policy
  */
 export function isValidEmail(email: string): boolean {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailRegex.test(email);
+  return defaultUserPolicy.validateField('email', email) === null;
 }
 
 /**
- * Name validation (only letters and spaces)
+ * Name validation, following the default user validation policy
  */
 export function isValidName(name: string): boolean {
-  const nameRegex = /^[a-zA-Z\s]+$/;
-  return nameRegex.test(name) && name.trim().length >= 2;
+  return defaultUserPolicy.validateField('firstName', name) === null;
+}
+
+/**
+ * Reactive form validator for a user field
+ * Errors are keyed by the violated rule and carry the policy's message
+ */
+export function userFieldValidator(
+  policy: UserValidationPolicy,
+  field: UserField,
+): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null => {
+    const violation = policy.validateField(field, control.value);
+    return violation
+      ? { [violation.key]: { message: violation.message } }
+      : null;
+  };
 }
 
 /**
@@ -101,41 +124,17 @@ export interface ValidationResult {
 
 /**
  * Validate user data
+ * Only the fields present are checked
  */
 export function validateUserData(userData: {
   email?: string;
   firstName?: string;
   lastName?: string;
 }): ValidationResult {
-  const errors: string[] = [];
-
-  if (userData.email !== undefined) {
-    if (isEmpty(userData.email)) {
-      errors.push('Email is required');
-    } else if (!isValidEmail(userData.email)) {
-      errors.push('Invalid email format');
-    }
-  }
-
-  if (userData.firstName !== undefined) {
-    if (isEmpty(userData.firstName)) {
-      errors.push('First name is required');
-    } else if (!isValidName(userData.firstName)) {
-      errors.push(
-        'First name must contain only letters and spaces, and be at least 2 characters long',
-      );
-    }
-  }
-
-  if (userData.lastName !== undefined) {
-    if (isEmpty(userData.lastName)) {
-      errors.push('Last name is required');
-    } else if (!isValidName(userData.lastName)) {
-      errors.push(
-        'Last name must contain only letters and spaces, and be at least 2 characters long',
-      );
-    }
-  }
+  const result = defaultUserPolicy.validate(userData, { partial: true });
+  const errors = UserValidationPolicy.FIELDS.filter(
+    (field) => result[field],
+  ).map((field) => result[field]!.message);
 
   return {
     isValid: errors.length === 0,